@@ -0,0 +1,50 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Open blind PANEL evaluations on which the user has not submitted yet
+// (see docs/BLIND_EVALUATIONS.md). Until they submit, the user must not see
+// other participants' status or responses on these evaluations, nor any
+// signal of these applications.
+export interface BlindedEvaluations {
+  evaluationIds: Set<string>;
+  applicationIds: Set<string>;
+}
+
+export async function fetchBlindedEvaluations(
+  supabaseAdmin: SupabaseClient,
+  tenantId: string,
+  userId: string,
+): Promise<BlindedEvaluations> {
+  const { data, error } = await supabaseAdmin.rpc('blinded_evaluations', {
+    p_tenant_id: tenantId,
+    p_user_id: userId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to resolve blind evaluations: ${error.message}`);
+  }
+
+  const rows = (data || []) as { evaluation_id: string; application_id: string }[];
+  return {
+    evaluationIds: new Set(rows.map((r) => r.evaluation_id)),
+    applicationIds: new Set(rows.map((r) => r.application_id)),
+  };
+}
+
+// Blanks the current signal values behind action conditions when the user
+// is blinded on the application; whether each condition is met stays visible
+export async function hideBlindedSignalValues(
+  supabaseAdmin: SupabaseClient,
+  tenantId: string,
+  userId: string | undefined,
+  applicationId: string,
+  statuses: { conditions: { currentValue: unknown }[] }[],
+): Promise<void> {
+  if (!userId || statuses.length === 0) return;
+
+  const blinded = await fetchBlindedEvaluations(supabaseAdmin, tenantId, userId);
+  if (!blinded.applicationIds.has(applicationId)) return;
+
+  for (const status of statuses) {
+    status.conditions = (status.conditions || []).map((c) => ({ ...c, currentValue: null }));
+  }
+}
@@ -0,0 +1,53 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Event types written to user_notifications (see docs/INBOX.md)
+export type InboxNotificationType =
+  | 'INTERVIEW_ASSIGNED'
+  | 'INTERVIEW_CANCELLED'
+  | 'EVALUATION_REQUESTED'
+  | 'COMMENT_MENTION'
+  | 'SLA_BREACHED';
+
+export interface InboxNotification {
+  tenantId: string;
+  userId: string;
+  type: InboxNotificationType;
+  title: string;
+  body?: string | null;
+  applicationId?: string | null;
+  resourceType?: string | null;
+  resourceId?: string | null;
+  actorId?: string | null;
+  metadata?: Record<string, unknown>;
+  dedupeKey: string; // one notification per (user, key)
+}
+
+// Add notifications to users' inboxes. Best-effort: the event that produced
+// them has already happened. Users are never notified of their own actions.
+export async function notifyUsers(supabaseAdmin: SupabaseClient, notifications: InboxNotification[]): Promise<void> {
+  const rows = notifications
+    .filter((n) => n.userId !== n.actorId)
+    .map((n) => ({
+      tenant_id: n.tenantId,
+      user_id: n.userId,
+      type: n.type,
+      title: n.title,
+      body: n.body ?? null,
+      application_id: n.applicationId ?? null,
+      resource_type: n.resourceType ?? null,
+      resource_id: n.resourceId ?? null,
+      actor_id: n.actorId ?? null,
+      metadata: n.metadata ?? {},
+      dedupe_key: n.dedupeKey,
+    }));
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('user_notifications')
+    .upsert(rows, { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true });
+
+  if (error) {
+    console.error('Failed to write inbox notifications:', error.message);
+  }
+}
@@ -0,0 +1,96 @@
+// Requests to URLs that users supply (webhook endpoints, resume_url) must only
+// reach the public internet: never loopback, private networks, link-local
+// addresses (cloud metadata at 169.254.169.254) or other reserved ranges.
+
+function isNonPublicIpv4(ip: string): boolean {
+  const o = ip.split('.').map(Number);
+  if (o.length !== 4 || o.some((n) => !Number.isInteger(n) || n < 0 || n > 255)) return true;
+
+  return o[0] === 0 || o[0] === 10 || o[0] === 127 ||
+    (o[0] === 100 && o[1] >= 64 && o[1] <= 127) ||
+    (o[0] === 169 && o[1] === 254) ||
+    (o[0] === 172 && o[1] >= 16 && o[1] <= 31) ||
+    (o[0] === 192 && o[1] === 0 && o[2] === 0) ||
+    (o[0] === 192 && o[1] === 168) ||
+    (o[0] === 198 && (o[1] === 18 || o[1] === 19)) ||
+    o[0] >= 224;
+}
+
+// Eight 16-bit groups, or null when the address cannot be parsed
+function parseIpv6(ip: string): number[] | null {
+  let addr = ip.toLowerCase().split('%')[0];
+
+  const embedded = addr.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (embedded) {
+    const [a, b, c, d] = embedded.slice(2).map(Number);
+    addr = `${embedded[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const halves = addr.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some((g) => !/^[0-9a-f]{1,4}$/.test(g))) return null;
+  return groups.map((g) => parseInt(g, 16));
+}
+
+function isNonPublicIpv6(ip: string): boolean {
+  const g = parseIpv6(ip);
+  if (!g) return true;
+
+  // :: and ::1
+  if (g.slice(0, 7).every((x) => x === 0)) return true;
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) carry an IPv4 target
+  const mapped = g.slice(0, 5).every((x) => x === 0) && g[5] === 0xffff;
+  const nat64 = g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every((x) => x === 0);
+  if (mapped || nat64) {
+    return isNonPublicIpv4(`${g[6] >> 8}.${g[6] & 0xff}.${g[7] >> 8}.${g[7] & 0xff}`);
+  }
+
+  return (g[0] & 0xfe00) === 0xfc00 || // unique local
+    (g[0] & 0xffc0) === 0xfe80 || // link-local
+    (g[0] & 0xff00) === 0xff00 || // multicast
+    (g[0] === 0x2001 && g[1] === 0x0db8); // documentation
+}
+
+export function isNonPublicAddress(ip: string): boolean {
+  return ip.includes(':') ? isNonPublicIpv6(ip) : isNonPublicIpv4(ip);
+}
+
+// Throws unless the URL's host is, and only resolves to, public addresses.
+// `label` names the field in the error message. Call it again right before
+// each request: DNS answers can change after the URL was saved.
+//
+// Known limit: fetch() resolves the host again, and Deno offers no way to pin
+// the connection to the checked address (or to read the peer address), so a
+// host with a very short TTL can still rebind between this check and the
+// request. Deployments that must rule this out need an egress proxy or
+// firewall that blocks non-public destinations.
+export async function assertPublicHost(url: URL, label: string): Promise<void> {
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host)) {
+    throw new Error(`${label} host is not allowed`);
+  }
+
+  let addresses: string[];
+  if (host.includes(':') || /^[\d.]+$/.test(host)) {
+    addresses = [host];
+  } else {
+    const results = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')]);
+    addresses = results.flatMap((r) => r.status === 'fulfilled' ? r.value : []);
+    if (addresses.length === 0) {
+      throw new Error(`${label} host could not be resolved`);
+    }
+  }
+
+  if (addresses.some(isNonPublicAddress)) {
+    throw new Error(`${label} host is not allowed`);
+  }
+}
@@ -0,0 +1,119 @@
+import type {
+  CalibrationAnalyticsResponse,
+  CalibrationAnalyticsResult,
+  CalibrationInterviewerResponse,
+  CalibrationInterviewerResult,
+  HandlerContext,
+} from '../types.ts';
+import { isValidUUID, jsonResponse, parseCohortFilters, toRpcFilters } from '../utils.ts';
+
+const DEFAULT_DEVIATION_THRESHOLD = 0.5;
+const DEFAULT_MIN_PANELS = 5;
+
+// ============================================
+// Formatters
+// ============================================
+
+function formatInterviewer(interviewer: CalibrationInterviewerResult): CalibrationInterviewerResponse {
+  return {
+    userId: interviewer.user_id,
+    userName: interviewer.user_name,
+    responses: interviewer.responses,
+    evaluations: interviewer.evaluations,
+    meanZScore: interviewer.mean_z_score,
+    flag: interviewer.flag,
+    signals: interviewer.signals.map((s) => ({
+      key: s.key,
+      responses: s.responses,
+      mean: s.mean,
+      variance: s.variance,
+      panels: s.panels,
+      panelMean: s.panel_mean,
+      deviation: s.deviation,
+      zScore: s.z_score,
+      outlierPanels: s.outlier_panels,
+      outlierRate: s.outlier_rate,
+    })),
+    pass: interviewer.pass
+      ? {
+        responses: interviewer.pass.responses,
+        passRate: interviewer.pass.pass_rate,
+        decided: interviewer.pass.decided,
+        agreementRate: interviewer.pass.agreement_rate,
+        passedHireRate: interviewer.pass.passed_hire_rate,
+        rejectedHireRate: interviewer.pass.rejected_hire_rate,
+      }
+      : null,
+  };
+}
+
+// ============================================
+// GET /calibration - Inter-rater calibration for one evaluation template
+// ============================================
+
+export async function getCalibration(ctx: HandlerContext): Promise<Response> {
+  const filters = parseCohortFilters(ctx.url);
+  const params = ctx.url.searchParams;
+
+  const templateId = params.get('template_id');
+  if (!templateId) {
+    throw new Error('template_id is required');
+  }
+  if (!isValidUUID(templateId)) {
+    throw new Error('Invalid template ID format');
+  }
+
+  const interviewerId = params.get('interviewer_id');
+  if (interviewerId && !isValidUUID(interviewerId)) {
+    throw new Error('Invalid interviewer ID format');
+  }
+
+  const threshold = params.has('threshold') ? Number(params.get('threshold')) : DEFAULT_DEVIATION_THRESHOLD;
+  if (!Number.isFinite(threshold) || threshold <= 0) {
+    throw new Error('threshold must be a positive number');
+  }
+
+  const minPanels = params.has('min_panels') ? Number(params.get('min_panels')) : DEFAULT_MIN_PANELS;
+  if (!Number.isInteger(minPanels) || minPanels < 1) {
+    throw new Error('min_panels must be a positive integer');
+  }
+
+  const { data, error } = await ctx.supabaseAdmin.rpc('get_calibration_analytics', {
+    p_tenant_id: ctx.tenantId,
+    p_template_id: templateId,
+    p_interviewer_id: interviewerId || null,
+    p_pass_signal: params.get('pass_signal')?.trim() || null,
+    p_deviation_threshold: threshold,
+    p_min_panels: minPanels,
+    ...toRpcFilters(filters),
+  });
+
+  if (error) {
+    throw new Error(`Failed to compute calibration analytics: ${error.message}`);
+  }
+
+  const result = data as CalibrationAnalyticsResult;
+  const response: CalibrationAnalyticsResponse = {
+    filters,
+    templateId: result.template_id,
+    templateName: result.template_name,
+    version: result.version,
+    passSignal: result.pass_signal,
+    deviationThreshold: result.deviation_threshold,
+    minPanels: result.min_panels,
+    evaluations: result.evaluations,
+    responses: result.responses,
+    signals: result.signals,
+    passBaseline: result.pass_baseline
+      ? {
+        responses: result.pass_baseline.responses,
+        passRate: result.pass_baseline.pass_rate,
+        decided: result.pass_baseline.decided,
+        hireRate: result.pass_baseline.hire_rate,
+      }
+      : null,
+    interviewers: result.interviewers.map(formatInterviewer),
+  };
+
+  return jsonResponse({ data: response });
+}
@@ -0,0 +1,70 @@
+import type {
+  FunnelAnalyticsResponse,
+  FunnelAnalyticsResult,
+  FunnelPipelineResponse,
+  FunnelPipelineResult,
+  FunnelStageResponse,
+  FunnelStageResult,
+  HandlerContext,
+} from '../types.ts';
+import { jsonResponse, parseCohortFilters, toRpcFilters } from '../utils.ts';
+
+// ============================================
+// Formatters
+// ============================================
+
+function formatStage(stage: FunnelStageResult): FunnelStageResponse {
+  return {
+    stageId: stage.stage_id,
+    stageName: stage.stage_name,
+    orderIndex: stage.order_index,
+    reached: stage.reached,
+    inStage: stage.in_stage,
+    droppedOff: stage.dropped_off,
+    dropOffRate: stage.drop_off_rate,
+    conversionRate: stage.conversion_rate,
+    completedVisits: stage.completed_visits,
+    medianHoursInStage: stage.median_hours_in_stage,
+  };
+}
+
+function formatPipeline(pipeline: FunnelPipelineResult): FunnelPipelineResponse {
+  return {
+    pipelineId: pipeline.pipeline_id,
+    pipelineName: pipeline.pipeline_name,
+    applications: pipeline.applications,
+    stages: pipeline.stages.map(formatStage),
+  };
+}
+
+// ============================================
+// GET /funnel - Funnel metrics for an application cohort
+// ============================================
+
+export async function getFunnel(ctx: HandlerContext): Promise<Response> {
+  const filters = parseCohortFilters(ctx.url);
+
+  const { data, error } = await ctx.supabaseAdmin.rpc('get_funnel_analytics', {
+    p_tenant_id: ctx.tenantId,
+    ...toRpcFilters(filters),
+  });
+
+  if (error) {
+    throw new Error(`Failed to compute funnel analytics: ${error.message}`);
+  }
+
+  const result = data as FunnelAnalyticsResult;
+  const response: FunnelAnalyticsResponse = {
+    filters,
+    totalApplications: result.total_applications,
+    outcomes: result.outcomes,
+    timeToHire: {
+      hires: result.time_to_hire.hires,
+      medianDays: result.time_to_hire.median_days,
+      averageDays: result.time_to_hire.average_days,
+    },
+    pipelines: result.pipelines.map(formatPipeline),
+  };
+
+  return jsonResponse({ data: response });
+}
@@ -0,0 +1,59 @@
+import type {
+  HandlerContext,
+  SourceAnalyticsResponse,
+  SourceAnalyticsResult,
+  SourceGroupBy,
+  SourceStatsResponse,
+  SourceStatsResult,
+} from '../types.ts';
+import { SOURCE_GROUP_BY } from '../types.ts';
+import { jsonResponse, parseCohortFilters, toRpcFilters } from '../utils.ts';
+
+// ============================================
+// Formatters
+// ============================================
+
+function formatSource(stats: SourceStatsResult): SourceStatsResponse {
+  return {
+    source: stats.source,
+    applications: stats.applications,
+    advanced: stats.advanced,
+    hired: stats.hired,
+    rejected: stats.rejected,
+    advanceRate: stats.advance_rate,
+    hireRate: stats.hire_rate,
+  };
+}
+
+// ============================================
+// GET /sources - Applications, advances and hires by source
+// ============================================
+
+export async function getSources(ctx: HandlerContext): Promise<Response> {
+  const filters = parseCohortFilters(ctx.url);
+  const groupBy = (ctx.url.searchParams.get('group_by') || 'source') as SourceGroupBy;
+
+  if (!SOURCE_GROUP_BY.includes(groupBy)) {
+    throw new Error(`group_by must be one of: ${SOURCE_GROUP_BY.join(', ')}`);
+  }
+
+  const { data, error } = await ctx.supabaseAdmin.rpc('get_source_analytics', {
+    p_tenant_id: ctx.tenantId,
+    p_group_by: groupBy,
+    ...toRpcFilters(filters),
+  });
+
+  if (error) {
+    throw new Error(`Failed to compute source analytics: ${error.message}`);
+  }
+
+  const result = data as SourceAnalyticsResult;
+  const response: SourceAnalyticsResponse = {
+    filters,
+    groupBy: result.group_by,
+    totalApplications: result.total_applications,
+    sources: result.sources.map(formatSource),
+  };
+
+  return jsonResponse({ data: response });
+}
@@ -0,0 +1,101 @@
+import { getSupabaseAdmin, getSupabaseClient } from '../_shared/supabase.ts';
+import { corsResponse, handleError, jsonResponse, textResponse } from './utils.ts';
+import { canReadAnalytics, getTenantIdFromAuth, getUserFromToken } from './middleware.ts';
+import type { HandlerContext } from './types.ts';
+
+// Import handlers
+import * as calibrationHandlers from './handlers/calibration.ts';
+import * as funnelHandlers from './handlers/funnel.ts';
+import * as sourceHandlers from './handlers/sources.ts';
+
+// Parse path, removing function name prefix
+function parsePath(url: string): string[] {
+  return new URL(url).pathname
+    .replace(/^\/analytics\/?/, '')
+    .replace(/^\/functions\/v1\/analytics\/?/, '')
+    .replace(/\/$/, '')
+    .split('/')
+    .filter(Boolean);
+}
+
+Deno.serve(async (req: Request) => {
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    return corsResponse();
+  }
+
+  const url = new URL(req.url);
+  const pathParts = parsePath(req.url);
+  const fullPath = pathParts.join('/');
+  const method = req.method;
+
+  try {
+    // ==================== HEALTH CHECK (Public) ====================
+    if (method === 'GET' && fullPath === '') {
+      return textResponse('rtr-analytics-service: ok');
+    }
+
+    // ==================== ALL ROUTES REQUIRE analytics:read ====================
+    const supabaseAdmin = getSupabaseAdmin();
+    const supabaseUser = getSupabaseClient(req);
+
+    const user = await getUserFromToken(supabaseUser);
+    if (!user) {
+      throw new Error('Unauthorized: Invalid or missing token');
+    }
+
+    if (!canReadAnalytics(user.role)) {
+      throw new Error('Forbidden: Missing permission analytics:read');
+    }
+
+    // Get tenant ID
+    let tenantId: string;
+    const headerTenantId = req.headers.get('X-Tenant-ID');
+
+    if (user.role === 'SUPERADMIN' && headerTenantId) {
+      tenantId = headerTenantId;
+    } else {
+      tenantId = user.tenantId || await getTenantIdFromAuth(supabaseUser);
+    }
+
+    const ctx: HandlerContext = {
+      supabaseAdmin,
+      supabaseUser,
+      tenantId,
+      userId: user.id,
+      userRole: user.role,
+      pathParts,
+      method,
+      url,
+    };
+
+    // ==================== FUNNEL ROUTES ====================
+    // GET /funnel - Conversion, drop-off, time-in-stage, time-to-hire, outcomes
+    // Filters: pipeline_id, job_id, department, from, to
+    if (method === 'GET' && fullPath === 'funnel') {
+      return await funnelHandlers.getFunnel(ctx);
+    }
+
+    // ==================== SOURCE ROUTES ====================
+    // GET /sources - Applications, advances and hires per source (group_by + funnel filters)
+    if (method === 'GET' && fullPath === 'sources') {
+      return await sourceHandlers.getSources(ctx);
+    }
+
+    // ==================== CALIBRATION ROUTES ====================
+    // GET /calibration - Interviewer deviation from their panels for one template
+    // Filters: template_id (required), interviewer_id, pass_signal, threshold, min_panels + funnel filters
+    if (method === 'GET' && fullPath === 'calibration') {
+      return await calibrationHandlers.getCalibration(ctx);
+    }
+
+    // ==================== 404 ====================
+    return jsonResponse({
+      code: 'not_found',
+      message: 'Endpoint not found',
+      status_code: 404,
+    }, 404);
+  } catch (error) {
+    return handleError(error);
+  }
+});
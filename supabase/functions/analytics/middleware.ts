@@ -0,0 +1,55 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Get user info from JWT token
+export async function getUserFromToken(
+  supabaseUser: SupabaseClient,
+): Promise<{ id: string; role: string; tenantId: string | null } | null> {
+  const { data: { user }, error } = await supabaseUser.auth.getUser();
+  if (error || !user) return null;
+
+  // Get role from user_profiles table
+  const { data: profile } = await supabaseUser
+    .from('user_profiles')
+    .select('role, tenant_id')
+    .eq('id', user.id)
+    .single();
+
+  return {
+    id: user.id,
+    role: profile?.role || user.user_metadata?.role || 'CANDIDATE',
+    tenantId: profile?.tenant_id || user.user_metadata?.tenant_id || null,
+  };
+}
+
+// Get tenant ID from verified sources only (user_profiles or JWT metadata)
+// NOTE: Like application-detail, this does NOT accept the X-Tenant-ID header:
+// analytics aggregate the whole tenant. SUPERADMIN override is handled in index.ts.
+export async function getTenantIdFromAuth(
+  supabaseUser: SupabaseClient,
+): Promise<string> {
+  const { data: { user } } = await supabaseUser.auth.getUser();
+
+  // Try user_profiles table first (authoritative source)
+  if (user?.id) {
+    const { data: profile } = await supabaseUser
+      .from('user_profiles')
+      .select('tenant_id')
+      .eq('id', user.id)
+      .single();
+    if (profile?.tenant_id) {
+      return profile.tenant_id;
+    }
+  }
+
+  if (user?.user_metadata?.tenant_id) {
+    return user.user_metadata.tenant_id;
+  }
+
+  throw new Error('Tenant context required');
+}
+
+// Check if user holds analytics:read (see auth/permissions.ts)
+// CANDIDATE is excluded: it has no tenant-wide visibility.
+export function canReadAnalytics(role: string): boolean {
+  return ['SUPERADMIN', 'ADMIN'].includes(role);
+}
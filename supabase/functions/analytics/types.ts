@@ -0,0 +1,276 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ============================================
+// Handler Context
+// ============================================
+
+export interface HandlerContext {
+  supabaseAdmin: SupabaseClient;
+  supabaseUser: SupabaseClient;
+  tenantId: string;
+  userId: string;
+  userRole: string;
+  pathParts: string[];
+  method: string;
+  url: URL;
+}
+
+// ============================================
+// Source grouping
+// ============================================
+
+export const SOURCE_GROUP_BY = ['source', 'utm_source', 'utm_medium', 'utm_campaign'] as const;
+
+export type SourceGroupBy = typeof SOURCE_GROUP_BY[number];
+
+// ============================================
+// Calibration flags
+// ============================================
+
+// HAWK scores consistently below their panels, DOVE consistently above
+export type CalibrationFlag = 'HAWK' | 'DOVE';
+
+// ============================================
+// RPC Results (snake_case - matches get_funnel_analytics JSONB)
+// ============================================
+
+export interface FunnelStageResult {
+  stage_id: string;
+  stage_name: string;
+  order_index: number;
+  reached: number;
+  in_stage: number;
+  dropped_off: number;
+  drop_off_rate: number | null;
+  conversion_rate: number | null;
+  completed_visits: number;
+  median_hours_in_stage: number | null;
+}
+
+export interface FunnelPipelineResult {
+  pipeline_id: string;
+  pipeline_name: string;
+  applications: number;
+  stages: FunnelStageResult[];
+}
+
+export interface FunnelAnalyticsResult {
+  total_applications: number;
+  outcomes: Record<string, number>;
+  time_to_hire: {
+    hires: number;
+    median_days: number | null;
+    average_days: number | null;
+  };
+  pipelines: FunnelPipelineResult[];
+}
+
+export interface SourceStatsResult {
+  source: string | null;
+  applications: number;
+  advanced: number;
+  hired: number;
+  rejected: number;
+  advance_rate: number;
+  hire_rate: number;
+}
+
+export interface SourceAnalyticsResult {
+  group_by: SourceGroupBy;
+  total_applications: number;
+  sources: SourceStatsResult[];
+}
+
+export interface CalibrationSignalResult {
+  key: string;
+  label: string;
+  type: 'boolean' | 'integer' | 'float' | 'rating';
+  responses: number;
+  mean: number | null;
+  stddev: number | null;
+}
+
+export interface CalibrationInterviewerSignalResult {
+  key: string;
+  responses: number;
+  mean: number;
+  variance: number | null;
+  panels: number;
+  panel_mean: number | null;
+  deviation: number | null;
+  z_score: number | null;
+  outlier_panels: number;
+  outlier_rate: number | null;
+}
+
+export interface CalibrationPassResult {
+  responses: number;
+  pass_rate: number;
+  decided: number;
+  agreement_rate: number | null;
+  passed_hire_rate: number | null;
+  rejected_hire_rate: number | null;
+}
+
+export interface CalibrationInterviewerResult {
+  user_id: string;
+  user_name: string | null;
+  responses: number;
+  evaluations: number;
+  mean_z_score: number | null;
+  flag: CalibrationFlag | null;
+  signals: CalibrationInterviewerSignalResult[];
+  pass: CalibrationPassResult | null;
+}
+
+export interface CalibrationAnalyticsResult {
+  template_id: string;
+  template_name: string;
+  version: number;
+  pass_signal: string | null;
+  deviation_threshold: number;
+  min_panels: number;
+  evaluations: number;
+  responses: number;
+  signals: CalibrationSignalResult[];
+  pass_baseline: {
+    responses: number;
+    pass_rate: number | null;
+    decided: number;
+    hire_rate: number | null;
+  } | null;
+  interviewers: CalibrationInterviewerResult[];
+}
+
+// ============================================
+// API Responses (camelCase)
+// ============================================
+
+// Shared by every report: the application cohort being described
+export interface CohortFiltersResponse {
+  pipelineId: string | null;
+  jobId: string | null;
+  department: string | null;
+  from: string | null;
+  to: string | null;
+}
+
+export interface FunnelStageResponse {
+  stageId: string;
+  stageName: string;
+  orderIndex: number;
+  reached: number;
+  inStage: number;
+  droppedOff: number;
+  dropOffRate: number | null;
+  conversionRate: number | null; // reached(next stage) / reached(this stage); null for the last stage
+  completedVisits: number;
+  medianHoursInStage: number | null;
+}
+
+export interface FunnelPipelineResponse {
+  pipelineId: string;
+  pipelineName: string;
+  applications: number;
+  stages: FunnelStageResponse[];
+}
+
+export interface FunnelAnalyticsResponse {
+  filters: CohortFiltersResponse;
+  totalApplications: number;
+  outcomes: Record<string, number>; // ACTIVE, HOLD, SUCCESS, FAILURE, NEUTRAL
+  timeToHire: {
+    hires: number;
+    medianDays: number | null;
+    averageDays: number | null;
+  };
+  pipelines: FunnelPipelineResponse[];
+}
+
+export interface SourceStatsResponse {
+  source: string | null; // null = no attribution recorded
+  applications: number;
+  advanced: number; // moved out of their first stage at least once
+  hired: number;
+  rejected: number;
+  advanceRate: number;
+  hireRate: number;
+}
+
+export interface SourceAnalyticsResponse {
+  filters: CohortFiltersResponse;
+  groupBy: SourceGroupBy;
+  totalApplications: number;
+  sources: SourceStatsResponse[];
+}
+
+export interface CalibrationInterviewerSignalResponse {
+  key: string;
+  responses: number;
+  mean: number;
+  variance: number | null; // null with a single response
+  panels: number; // evaluations where someone else scored the signal too
+  panelMean: number | null; // other panelists' mean on those evaluations
+  deviation: number | null; // average of own score - other panelists' mean
+  zScore: number | null; // deviation / stddev of the signal
+  outlierPanels: number;
+  outlierRate: number | null; // over panels of 3+
+}
+
+export interface CalibrationPassResponse {
+  responses: number;
+  passRate: number;
+  decided: number; // votes on applications with a terminal outcome
+  agreementRate: number | null; // vote matched the outcome (pass + hired, or no pass + not hired)
+  passedHireRate: number | null;
+  rejectedHireRate: number | null;
+}
+
+export interface CalibrationInterviewerResponse {
+  userId: string;
+  userName: string | null;
+  responses: number;
+  evaluations: number;
+  meanZScore: number | null; // over signals with at least minPanels panels
+  flag: CalibrationFlag | null;
+  signals: CalibrationInterviewerSignalResponse[];
+  pass: CalibrationPassResponse | null;
+}
+
+export interface CalibrationAnalyticsResponse {
+  filters: CohortFiltersResponse;
+  templateId: string; // latest version
+  templateName: string;
+  version: number;
+  passSignal: string | null;
+  deviationThreshold: number;
+  minPanels: number;
+  evaluations: number;
+  responses: number;
+  signals: {
+    key: string;
+    label: string;
+    type: 'boolean' | 'integer' | 'float' | 'rating';
+    responses: number;
+    mean: number | null;
+    stddev: number | null;
+  }[];
+  passBaseline: {
+    responses: number;
+    passRate: number | null;
+    decided: number;
+    hireRate: number | null;
+  } | null;
+  interviewers: CalibrationInterviewerResponse[];
+}
+
+// ============================================
+// Error Response
+// ============================================
+
+export interface ErrorResponse {
+  code: string;
+  message: string;
+  status_code: number;
+  details?: string;
+}
@@ -7,11 +7,14 @@ import type {
 } from '../types.ts';
 import { isValidUUID, jsonResponse } from '../utils.ts';
 import { isInterviewerAssignedToApplication } from '../middleware.ts';
-import { fetchApplication, fetchJob } from '../queries/application.ts';
+import { fetchApplication, fetchJob, formatResumeProfile, resolveResumeUrl } from '../queries/application.ts';
+import { fetchPriorApplications } from '../queries/candidate.ts';
 import { fetchTrackingState } from '../queries/tracking.ts';
 import { fetchInterviewSummaries } from '../queries/interviews.ts';
 import { fetchEvaluationSummaries } from '../queries/evaluations.ts';
+import { fetchApplicationTags } from '../queries/tags.ts';
 import { fetchTimelineEntries, buildRestrictedTimeline } from '../queries/timeline.ts';
+import { fetchBlindedEvaluations } from '../../_shared/blind-evaluations.ts';
 
 // GET /applications/:id - Main application detail orchestrator
 export async function getApplicationDetail(ctx: HandlerContext): Promise<Response> {
@@ -50,8 +53,11 @@ export async function getApplicationDetail(ctx: HandlerContext): Promise<Respons
     200,
   );
 
+  // Blind evaluations the viewer has not submitted yet (hides other panelists' progress)
+  const blinded = await fetchBlindedEvaluations(ctx.supabaseAdmin, ctx.tenantId, ctx.userId);
+
   // Step 4: Parallel fetch all sections via Promise.all
-  const [job, tracking, interviews, evaluations, timeline] = await Promise.all([
+  const [job, tracking, interviews, evaluations, timeline, priorApplications, resumeUrl, tags] = await Promise.all([
     // Job info
     fetchJob(ctx.supabaseAdmin, application.job_id, ctx.tenantId),
 
@@ -68,12 +74,29 @@ export async function getApplicationDetail(ctx: HandlerContext): Promise<Respons
       ctx.tenantId,
       isRestricted,
       ctx.userId,
+      blinded.evaluationIds,
     ),
 
     // Timeline (restricted for INTERVIEWER)
     isRestricted
       ? buildRestrictedTimeline(ctx.supabaseAdmin, applicationId, ctx.tenantId, timelineLimit)
-      : fetchTimelineEntries(ctx.supabaseAdmin, applicationId, ctx.tenantId, application, timelineLimit),
+      : fetchTimelineEntries(
+        ctx.supabaseAdmin,
+        applicationId,
+        ctx.tenantId,
+        application,
+        timelineLimit,
+        blinded.evaluationIds,
+      ),
+
+    // Same candidate's other applications
+    fetchPriorApplications(ctx.supabaseAdmin, application.candidate_id, applicationId, ctx.tenantId),
+
+    // Resume link (never signed for restricted viewers)
+    isRestricted ? null : resolveResumeUrl(ctx.supabaseAdmin, application),
+
+    // Tags
+    fetchApplicationTags(ctx.supabaseAdmin, applicationId, ctx.tenantId),
   ]);
 
   // Step 5: Compose response with field-level restrictions
@@ -82,14 +105,26 @@ export async function getApplicationDetail(ctx: HandlerContext): Promise<Respons
     status: application.status,
     createdAt: application.created_at,
     updatedAt: application.updated_at,
-    resumeUrl: isRestricted ? null : application.resume_url,
+    resumeUrl: isRestricted ? null : resumeUrl,
+    resumeFileName: isRestricted ? null : application.resume_file_name,
+    resumeProfile: isRestricted ? null : formatResumeProfile(application),
     coverLetter: isRestricted ? null : application.cover_letter,
+    source: isRestricted ? null : {
+      source: application.source,
+      utmSource: application.utm_source,
+      utmMedium: application.utm_medium,
+      utmCampaign: application.utm_campaign,
+      referrer: application.referrer,
+    },
+    tags,
   };
 
   const candidate: CandidateResponse = {
+    id: application.candidate_id,
     name: application.applicant_name,
     email: application.applicant_email,
     phone: application.applicant_phone,
+    priorApplications,
   };
 
   const jobResponse: JobResponse = {
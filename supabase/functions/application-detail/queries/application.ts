@@ -1,5 +1,8 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
-import type { ApplicationRecord, JobRecord } from '../types.ts';
+import type { ApplicationRecord, JobRecord, ResumeProfileResponse } from '../types.ts';
+
+const RESUME_BUCKET = 'resumes';
+const RESUME_URL_TTL_SECONDS = 300;
 
 // Fetch application by ID with tenant isolation
 export async function fetchApplication(
@@ -9,7 +12,9 @@ export async function fetchApplication(
 ): Promise<ApplicationRecord> {
   const { data, error } = await supabaseAdmin
     .from('applications')
-    .select('id, tenant_id, job_id, applicant_name, applicant_email, applicant_phone, resume_url, cover_letter, status, created_at, updated_at')
+    .select(
+      'id, tenant_id, job_id, candidate_id, applicant_name, applicant_email, applicant_phone, resume_url, resume_path, resume_file_name, resume_profile, resume_parse_status, resume_parsed_at, cover_letter, status, source, utm_source, utm_medium, utm_campaign, referrer, created_at, updated_at',
+    )
     .eq('id', applicationId)
     .eq('tenant_id', tenantId)
     .single();
@@ -21,6 +26,47 @@ export async function fetchApplication(
   return data as ApplicationRecord;
 }
 
+// Resolve the resume link: uploaded files get a signed URL, otherwise the
+// candidate-supplied resume_url is returned as-is
+export async function resolveResumeUrl(
+  supabaseAdmin: SupabaseClient,
+  application: ApplicationRecord,
+): Promise<string | null> {
+  if (!application.resume_path) {
+    return application.resume_url;
+  }
+
+  const { data, error } = await supabaseAdmin.storage
+    .from(RESUME_BUCKET)
+    .createSignedUrl(application.resume_path, RESUME_URL_TTL_SECONDS);
+
+  if (error || !data) {
+    console.error('Failed to sign resume URL:', error?.message);
+    return null;
+  }
+
+  return data.signedUrl;
+}
+
+// Parsed resume fields; null when the application has no resume. Fields stay
+// empty until the parse status is PARSED.
+export function formatResumeProfile(application: ApplicationRecord): ResumeProfileResponse | null {
+  if (!application.resume_parse_status) {
+    return null;
+  }
+
+  const profile = application.resume_profile;
+  return {
+    status: application.resume_parse_status,
+    skills: profile?.skills ?? [],
+    yearsOfExperience: profile?.years_of_experience ?? null,
+    education: profile?.education ?? [],
+    currentEmployer: profile?.current_employer ?? null,
+    links: profile?.links ?? [],
+    parsedAt: application.resume_parsed_at,
+  };
+}
+
 // Fetch job by ID with tenant isolation
 export async function fetchJob(
   supabaseAdmin: SupabaseClient,
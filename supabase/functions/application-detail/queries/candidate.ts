@@ -0,0 +1,70 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PriorApplicationSummary } from '../types.ts';
+
+const OUTCOME_LABELS: Record<string, string> = {
+  SUCCESS: 'Hired',
+  FAILURE: 'Rejected',
+  NEUTRAL: 'Closed',
+  HOLD: 'On hold',
+  ACTIVE: 'In progress',
+};
+
+// e.g. "Rejected for Backend Engineer in March 2026"
+function buildSummary(outcomeType: string | null, jobTitle: string, at: string): string {
+  const label = OUTCOME_LABELS[outcomeType ?? ''] ?? 'Applied';
+  const month = new Date(at).toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  return `${label} for ${jobTitle} in ${month}`;
+}
+
+// Fetch the candidate's other applications (newest first), with outcome
+export async function fetchPriorApplications(
+  supabaseAdmin: SupabaseClient,
+  candidateId: string | null,
+  applicationId: string,
+  tenantId: string,
+): Promise<PriorApplicationSummary[]> {
+  if (!candidateId) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from('applications')
+    .select(`
+      id, created_at,
+      jobs ( title ),
+      application_pipeline_state ( outcome_type, is_terminal, updated_at, pipeline_stages ( stage_name ) )
+    `)
+    .eq('tenant_id', tenantId)
+    .eq('candidate_id', candidateId)
+    .neq('id', applicationId)
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  if (error || !data) {
+    return [];
+  }
+
+  return (data as Record<string, unknown>[]).map((record) => {
+    const job = record.jobs as { title: string } | null;
+    // One-to-one embed; older PostgREST versions return an array
+    const rawState = record.application_pipeline_state;
+    const state = (Array.isArray(rawState) ? rawState[0] : rawState) as {
+      outcome_type: string;
+      is_terminal: boolean;
+      updated_at: string;
+      pipeline_stages: { stage_name: string } | null;
+    } | null;
+
+    const jobTitle = job?.title ?? 'Unknown';
+    const closedAt = state?.is_terminal ? state.updated_at : null;
+
+    return {
+      applicationId: record.id as string,
+      jobTitle,
+      appliedAt: record.created_at as string,
+      stageName: state?.pipeline_stages?.stage_name ?? null,
+      outcomeType: state?.outcome_type ?? null,
+      isTerminal: state?.is_terminal ?? false,
+      closedAt,
+      summary: buildSummary(state?.outcome_type ?? null, jobTitle, closedAt ?? (record.created_at as string)),
+    };
+  });
+}
@@ -3,12 +3,14 @@ import type { EvaluationSummary } from '../types.ts';
 
 // Fetch evaluation summaries for an application
 // For restricted users (INTERVIEWER), only returns instances where user is a participant
+// Progress counts are hidden on blind evaluations the user has not submitted yet
 export async function fetchEvaluationSummaries(
   supabaseAdmin: SupabaseClient,
   applicationId: string,
   tenantId: string,
   isRestricted: boolean,
   userId: string,
+  blindedEvaluationIds: Set<string>,
 ): Promise<EvaluationSummary[]> {
   // Step 1: Fetch evaluation instances with template + stage joins
   // Include BOTH stage-level (interview_round_id IS NULL) AND interview-level instances
@@ -69,6 +71,7 @@ export async function fetchEvaluationSummaries(
 
     const template = record.evaluation_templates as { name: string } | null;
     const stage = record.pipeline_stages as { stage_name: string } | null;
+    const blinded = blindedEvaluationIds.has(evalId);
 
     summaries.push({
       id: evalId,
@@ -79,8 +82,9 @@ export async function fetchEvaluationSummaries(
       stageName: stage?.stage_name ?? null,
       status: record.status as string,
       participantCount: counts.total,
-      submittedCount: counts.submitted,
-      pendingCount: counts.total - counts.submitted,
+      submittedCount: blinded ? null : counts.submitted,
+      pendingCount: blinded ? null : counts.total - counts.submitted,
+      blinded,
       isInterviewLevel: record.interview_round_id !== null,
       createdAt: record.created_at as string,
     });
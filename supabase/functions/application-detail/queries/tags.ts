@@ -0,0 +1,28 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ApplicationTagResponse, TenantTagRecord } from '../types.ts';
+
+// Active tags on an application, by name (tags are managed by the tracking service)
+export async function fetchApplicationTags(
+  supabaseAdmin: SupabaseClient,
+  applicationId: string,
+  tenantId: string,
+): Promise<ApplicationTagResponse[]> {
+  const { data, error } = await supabaseAdmin
+    .from('application_tags')
+    .select('tenant_application_tags!inner ( id, name, color_hex, is_active )')
+    .eq('application_id', applicationId)
+    .eq('tenant_id', tenantId)
+    .eq('tenant_application_tags.is_active', true);
+
+  if (error || !data) {
+    console.warn('Failed to fetch application tags', error?.message);
+    return [];
+  }
+
+  return data
+    .map((row) => {
+      const tag = (row as unknown as { tenant_application_tags: TenantTagRecord }).tenant_application_tags;
+      return { id: tag.id, name: tag.name, colorHex: tag.color_hex };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
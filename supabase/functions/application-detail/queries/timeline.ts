@@ -1,7 +1,10 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type {
+  ApplicationCommentRecord,
   ApplicationRecord,
+  ApplicationTagEventRecord,
   PipelineStageRecord,
+  TenantTagRecord,
   TimelineEntry,
   UserProfileRecord,
 } from '../types.ts';
@@ -53,6 +56,46 @@ async function resolveStageNames(
   return stagesMap;
 }
 
+// Comment entries (threads are managed by the tracking service); deleted comments keep
+// their place in the timeline without a body
+async function fetchCommentEntries(
+  supabaseAdmin: SupabaseClient,
+  applicationId: string,
+  tenantId: string,
+  teamOnly: boolean,
+  userIdsToResolve: Set<string>,
+): Promise<TimelineEntry[]> {
+  let query = supabaseAdmin
+    .from('application_comments')
+    .select('id, author_id, body, visibility, created_at, edited_at, deleted_at')
+    .eq('application_id', applicationId)
+    .eq('tenant_id', tenantId);
+
+  if (teamOnly) {
+    query = query.eq('visibility', 'TEAM');
+  }
+
+  const { data: comments } = await query;
+
+  return ((comments || []) as ApplicationCommentRecord[]).map((c) => {
+    userIdsToResolve.add(c.author_id);
+    return {
+      type: 'COMMENT_ADDED',
+      timestamp: c.created_at,
+      summary: c.deleted_at ? 'Comment deleted' : 'Comment added',
+      actorId: c.author_id,
+      actorName: null,
+      metadata: {
+        commentId: c.id,
+        body: c.deleted_at ? null : c.body,
+        visibility: c.visibility,
+        editedAt: c.edited_at,
+        deletedAt: c.deleted_at,
+      },
+    };
+  });
+}
+
 // Fetch full timeline entries for HR/Admin view
 export async function fetchTimelineEntries(
   supabaseAdmin: SupabaseClient,
@@ -60,6 +103,7 @@ export async function fetchTimelineEntries(
   tenantId: string,
   application: ApplicationRecord,
   limit: number,
+  blindedEvaluationIds: Set<string>,
 ): Promise<TimelineEntry[]> {
   const entries: TimelineEntry[] = [];
   const userIdsToResolve = new Set<string>();
@@ -161,7 +205,10 @@ export async function fetchTimelineEntries(
       .eq('application_id', applicationId)
       .eq('tenant_id', tenantId);
 
-    const evalIds = (evalInstances || []).map((e: { id: string }) => e.id);
+    // Blind evaluations the viewer has not submitted yet: other panelists' submissions stay hidden
+    const evalIds = (evalInstances || [])
+      .map((e: { id: string }) => e.id)
+      .filter((id: string) => !blindedEvaluationIds.has(id));
 
     if (evalIds.length > 0) {
       // Submitted participants
@@ -203,6 +250,41 @@ export async function fetchTimelineEntries(
     console.warn('Timeline: failed to fetch evaluations', (e as Error).message);
   }
 
+  // Source 5: Tags added / removed
+  try {
+    const { data: tagEvents } = await supabaseAdmin
+      .from('application_tag_events')
+      .select('tag_id, action, actor_id, created_at, tenant_application_tags ( name )')
+      .eq('application_id', applicationId)
+      .eq('tenant_id', tenantId);
+
+    for (const event of (tagEvents || [])) {
+      const e = event as unknown as ApplicationTagEventRecord & {
+        tenant_application_tags: Pick<TenantTagRecord, 'name'> | null;
+      };
+      const tagName = e.tenant_application_tags?.name ?? 'Unknown';
+      if (e.actor_id) userIdsToResolve.add(e.actor_id);
+
+      entries.push({
+        type: e.action === 'ADDED' ? 'TAG_ADDED' : 'TAG_REMOVED',
+        timestamp: e.created_at,
+        summary: e.action === 'ADDED' ? `Tagged "${tagName}"` : `Untagged "${tagName}"`,
+        actorId: e.actor_id ?? null,
+        actorName: null,
+        metadata: { tagId: e.tag_id, tagName },
+      });
+    }
+  } catch (e) {
+    console.warn('Timeline: failed to fetch tag events', (e as Error).message);
+  }
+
+  // Source 6: Comments (all visibilities)
+  try {
+    entries.push(...await fetchCommentEntries(supabaseAdmin, applicationId, tenantId, false, userIdsToResolve));
+  } catch (e) {
+    console.warn('Timeline: failed to fetch comments', (e as Error).message);
+  }
+
   // Resolve user names and stage names in parallel
   const [usersMap, stagesMap] = await Promise.all([
     resolveUserNames(supabaseAdmin, userIdsToResolve),
@@ -239,7 +321,7 @@ export async function fetchTimelineEntries(
   return sorted.slice(0, limit);
 }
 
-// Build restricted timeline for INTERVIEWER — only interview-related events
+// Build restricted timeline for INTERVIEWER — interview events and TEAM comments
 export async function buildRestrictedTimeline(
   supabaseAdmin: SupabaseClient,
   applicationId: string,
@@ -294,6 +376,12 @@ export async function buildRestrictedTimeline(
     console.warn('Timeline: failed to fetch interviews for restricted view', (e as Error).message);
   }
 
+  try {
+    entries.push(...await fetchCommentEntries(supabaseAdmin, applicationId, tenantId, true, userIdsToResolve));
+  } catch (e) {
+    console.warn('Timeline: failed to fetch comments for restricted view', (e as Error).message);
+  }
+
   // Resolve user names
   const usersMap = await resolveUserNames(supabaseAdmin, userIdsToResolve);
   for (const entry of entries) {
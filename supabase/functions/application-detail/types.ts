@@ -23,16 +23,36 @@ export interface ApplicationRecord {
   id: string;
   tenant_id: string;
   job_id: string;
+  candidate_id: string | null;
   applicant_name: string;
   applicant_email: string;
   applicant_phone: string | null;
   resume_url: string | null;
+  resume_path: string | null;
+  resume_file_name: string | null;
+  resume_profile: ResumeProfileRecord | null;
+  resume_parse_status: string | null;
+  resume_parsed_at: string | null;
   cover_letter: string | null;
   status: string;
+  source: string | null;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  referrer: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// applications.resume_profile (written by the jobs service resume parser)
+export interface ResumeProfileRecord {
+  skills: string[];
+  years_of_experience: number | null;
+  education: { institution: string | null; degree: string | null; year: number | null }[];
+  current_employer: string | null;
+  links: { type: string; url: string }[];
+}
+
 export interface JobRecord {
   id: string;
   tenant_id: string;
@@ -124,6 +144,30 @@ export interface ApplicationStageHistoryRecord {
   reason: string | null;
 }
 
+export interface TenantTagRecord {
+  id: string;
+  name: string;
+  color_hex: string | null;
+  is_active: boolean;
+}
+
+export interface ApplicationTagEventRecord {
+  tag_id: string;
+  action: 'ADDED' | 'REMOVED';
+  actor_id: string | null;
+  created_at: string;
+}
+
+export interface ApplicationCommentRecord {
+  id: string;
+  author_id: string;
+  body: string;
+  visibility: 'TEAM' | 'MANAGERS';
+  created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+}
+
 export interface UserProfileRecord {
   id: string;
   name: string | null;
@@ -143,14 +187,56 @@ export interface ApplicationResponse {
   status: string;
   createdAt: string;
   updatedAt: string;
-  resumeUrl: string | null;
+  resumeUrl: string | null; // signed, short-lived URL when the resume was uploaded
+  resumeFileName: string | null;
+  resumeProfile: ResumeProfileResponse | null;
   coverLetter: string | null;
+  source: ApplicationSourceResponse | null;
+  tags: ApplicationTagResponse[]; // visible to every viewer, like the board
+}
+
+export interface ApplicationTagResponse {
+  id: string;
+  name: string;
+  colorHex: string | null;
+}
+
+export interface ResumeProfileResponse {
+  status: string; // PENDING | PARSED | FAILED
+  skills: string[];
+  yearsOfExperience: number | null;
+  education: { institution: string | null; degree: string | null; year: number | null }[];
+  currentEmployer: string | null;
+  links: { type: string; url: string }[];
+  parsedAt: string | null;
+}
+
+export interface ApplicationSourceResponse {
+  source: string | null;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  referrer: string | null;
 }
 
 export interface CandidateResponse {
+  id: string | null;
   name: string;
   email: string;
   phone: string | null;
+  priorApplications: PriorApplicationSummary[];
+}
+
+// Same candidate's other applications (visible to every viewer, including INTERVIEWER)
+export interface PriorApplicationSummary {
+  applicationId: string;
+  jobTitle: string;
+  appliedAt: string;
+  stageName: string | null;
+  outcomeType: string | null;
+  isTerminal: boolean;
+  closedAt: string | null;
+  summary: string; // e.g. "Rejected for Backend Engineer in March 2026"
 }
 
 export interface JobResponse {
@@ -192,8 +278,9 @@ export interface EvaluationSummary {
   stageName: string | null;
   status: string;
   participantCount: number;
-  submittedCount: number;
-  pendingCount: number;
+  submittedCount: number | null; // null while the viewer is blinded
+  pendingCount: number | null;
+  blinded: boolean; // viewer has not submitted on this blind evaluation yet
   isInterviewLevel: boolean;
   createdAt: string;
 }
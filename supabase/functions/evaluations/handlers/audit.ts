@@ -23,6 +23,8 @@ function formatExecutionLogResponse(
     executedBy: record.executed_by,
     executedByEmail,
     executedAt: record.executed_at,
+    actorType: record.actor_type,
+    automationRuleId: record.automation_rule_id,
     signalSnapshot: record.signal_snapshot,
     conditionsEvaluated: record.conditions_evaluated,
     decisionNote: record.decision_note,
@@ -100,7 +102,7 @@ export async function getDecisionLog(ctx: HandlerContext): Promise<Response> {
   const stageIds = new Set<string>();
 
   for (const record of records) {
-    userIds.add(record.executed_by);
+    if (record.executed_by) userIds.add(record.executed_by);
     if (record.reviewed_by) userIds.add(record.reviewed_by);
     if (record.approved_by) userIds.add(record.approved_by);
     if (record.stage_id) stageIds.add(record.stage_id);
@@ -140,7 +142,7 @@ export async function getDecisionLog(ctx: HandlerContext): Promise<Response> {
   const formatted = records.map((record) =>
     formatExecutionLogResponse(
       record,
-      userEmailMap[record.executed_by],
+      record.executed_by ? userEmailMap[record.executed_by] : undefined,
       record.reviewed_by ? userEmailMap[record.reviewed_by] : undefined,
       record.approved_by ? userEmailMap[record.approved_by] : undefined,
       record.from_stage_id ? stageNameMap[record.from_stage_id] : null,
@@ -184,7 +186,8 @@ export async function getDecisionLogEntry(ctx: HandlerContext): Promise<Response
   const record = data as ActionExecutionLogRecord;
 
   // Fetch user emails
-  const userIds = [record.executed_by];
+  const userIds: string[] = [];
+  if (record.executed_by) userIds.push(record.executed_by);
   if (record.reviewed_by) userIds.push(record.reviewed_by);
   if (record.approved_by) userIds.push(record.approved_by);
 
@@ -218,7 +221,7 @@ export async function getDecisionLogEntry(ctx: HandlerContext): Promise<Response
   return jsonResponse({
     data: formatExecutionLogResponse(
       record,
-      userEmailMap[record.executed_by],
+      record.executed_by ? userEmailMap[record.executed_by] : undefined,
       record.reviewed_by ? userEmailMap[record.reviewed_by] : undefined,
       record.approved_by ? userEmailMap[record.approved_by] : undefined,
       record.from_stage_id ? stageNameMap[record.from_stage_id] : null,
@@ -274,12 +277,14 @@ export async function getRejectionReason(ctx: HandlerContext): Promise<Response>
 
   const record = data as ActionExecutionLogRecord;
 
-  // Fetch user email
-  const { data: user } = await ctx.supabaseAdmin
-    .from('user_profiles')
-    .select('id, email')
-    .eq('id', record.executed_by)
-    .single();
+  // Fetch user email (SYSTEM executions have no user)
+  const { data: user } = record.executed_by
+    ? await ctx.supabaseAdmin
+      .from('user_profiles')
+      .select('id, email')
+      .eq('id', record.executed_by)
+      .single()
+    : { data: null };
 
   const userEmail = (user as { email: string } | null)?.email;
 
@@ -299,6 +304,8 @@ export async function getRejectionReason(ctx: HandlerContext): Promise<Response>
       rejectedAt: record.executed_at,
       rejectedBy: record.executed_by,
       rejectedByEmail: userEmail,
+      actorType: record.actor_type,
+      automationRuleId: record.automation_rule_id,
       rejectionStage: stageName,
       actionCode: record.action_code,
       decisionNote: record.decision_note,
@@ -6,12 +6,15 @@ import type {
   EvaluationDetailSignal,
   EvaluationInstanceRecord,
   EvaluationInstanceResponse,
+  EvaluationPriorResponse,
   EvaluationTemplateRecord,
   HandlerContext,
   MyPendingEvaluationResponse,
   SignalDefinition,
 } from '../types.ts';
 import { isValidUUID, jsonResponse } from '../utils.ts';
+import { notifyUsers } from '../../_shared/inbox.ts';
+import { fetchBlindedEvaluations } from '../../_shared/blind-evaluations.ts';
 
 // ============================================================================
 // Format functions
@@ -23,6 +26,7 @@ function formatInstanceResponse(
   stageName?: string | null,
   participantCount?: number,
   submittedCount?: number,
+  blinded?: boolean,
 ): EvaluationInstanceResponse {
   return {
     id: record.id,
@@ -36,7 +40,8 @@ function formatInstanceResponse(
     completedAt: record.completed_at,
     forceCompleted: record.force_completed,
     participantCount,
-    submittedCount,
+    submittedCount: blinded ? undefined : submittedCount,
+    blinded,
     createdAt: record.created_at,
     updatedAt: record.updated_at,
   };
@@ -65,6 +70,63 @@ function handleRpcError(error: { code?: string; message?: string }): never {
   throw new Error(msg);
 }
 
+// Inbox notification for users newly asked to evaluate (interview rounds
+// notify their interviewers from the interview service instead)
+export async function notifyEvaluationRequested(
+  ctx: HandlerContext,
+  instance: EvaluationInstanceRecord,
+  userIds: string[],
+): Promise<void> {
+  if (userIds.length === 0) return;
+
+  const [{ data: template }, { data: application }] = await Promise.all([
+    ctx.supabaseAdmin.from('evaluation_templates').select('name').eq('id', instance.template_id).single(),
+    ctx.supabaseAdmin.from('applications').select('applicant_name').eq('id', instance.application_id).single(),
+  ]);
+
+  await notifyUsers(
+    ctx.supabaseAdmin,
+    userIds.map((userId) => ({
+      tenantId: ctx.tenantId,
+      userId,
+      type: 'EVALUATION_REQUESTED' as const,
+      title: `Evaluate ${application?.applicant_name || 'a candidate'}: ${template?.name || 'evaluation'}`,
+      applicationId: instance.application_id,
+      resourceType: 'evaluation',
+      resourceId: instance.id,
+      actorId: ctx.userId,
+      metadata: { templateId: instance.template_id, scheduledAt: instance.scheduled_at },
+      dedupeKey: `evaluation:${instance.id}`,
+    })),
+  );
+}
+
+// SEQUENTIAL evaluations activate their next participant when the current one
+// submits or is removed (see 20260312000001_sequential_evaluations.sql)
+export async function notifyNextSequentialParticipant(ctx: HandlerContext, evaluationId: string): Promise<void> {
+  const { data: instance } = await ctx.supabaseAdmin
+    .from('evaluation_instances')
+    .select('*, evaluation_templates!inner ( participant_type )')
+    .eq('id', evaluationId)
+    .eq('tenant_id', ctx.tenantId)
+    .single();
+
+  const template = instance?.evaluation_templates as { participant_type: string } | undefined;
+  if (!instance || template?.participant_type !== 'SEQUENTIAL') return;
+
+  const { data: pending } = await ctx.supabaseAdmin
+    .from('evaluation_participants')
+    .select('user_id')
+    .eq('evaluation_id', evaluationId)
+    .eq('status', 'PENDING');
+
+  await notifyEvaluationRequested(
+    ctx,
+    instance as EvaluationInstanceRecord,
+    (pending || []).map((p: { user_id: string }) => p.user_id),
+  );
+}
+
 // ============================================================================
 // INSTANCE HANDLERS
 // ============================================================================
@@ -100,10 +162,13 @@ export async function listApplicationEvaluations(ctx: HandlerContext): Promise<R
   // Get participant counts for each instance
   const instanceIds = (data || []).map((d: Record<string, unknown>) => d.id);
 
-  const { data: participants } = await ctx.supabaseAdmin
-    .from('evaluation_participants')
-    .select('evaluation_id, status')
-    .in('evaluation_id', instanceIds);
+  const [{ data: participants }, blinded] = await Promise.all([
+    ctx.supabaseAdmin
+      .from('evaluation_participants')
+      .select('evaluation_id, status')
+      .in('evaluation_id', instanceIds),
+    fetchBlindedEvaluations(ctx.supabaseAdmin, ctx.tenantId, ctx.userId!),
+  ]);
 
   // Group participants by evaluation
   const participantsByEvaluation: Record<string, { total: number; submitted: number }> = {};
@@ -129,6 +194,7 @@ export async function listApplicationEvaluations(ctx: HandlerContext): Promise<R
       stage?.stage_name || null,
       counts.total,
       counts.submitted,
+      blinded.evaluationIds.has(d.id as string),
     );
   });
 
@@ -203,9 +269,18 @@ export async function createEvaluation(
       user_id: userId,
     }));
 
-    await ctx.supabaseAdmin
+    // SEQUENTIAL templates keep the list order; only the first participant starts PENDING
+    const { data: inserted, error: participantError } = await ctx.supabaseAdmin
       .from('evaluation_participants')
-      .insert(participants);
+      .insert(participants)
+      .select('user_id, status');
+
+    if (!participantError) {
+      const pendingUserIds = (inserted || [])
+        .filter((p: { status: string }) => p.status === 'PENDING')
+        .map((p: { user_id: string }) => p.user_id);
+      await notifyEvaluationRequested(ctx, instance as EvaluationInstanceRecord, pendingUserIds);
+    }
   }
 
   return jsonResponse(
@@ -380,7 +455,9 @@ export async function getEvaluationDetail(ctx: HandlerContext): Promise<Response
       evaluation_templates!inner (
         id,
         name,
-        signal_schema
+        signal_schema,
+        participant_type,
+        show_prior_responses
       )
     `)
     .eq('id', evaluationId)
@@ -392,7 +469,10 @@ export async function getEvaluationDetail(ctx: HandlerContext): Promise<Response
   }
 
   const instance = evalData as EvaluationInstanceRecord & {
-    evaluation_templates: { id: string; name: string; signal_schema: SignalDefinition[] };
+    evaluation_templates: Pick<
+      EvaluationTemplateRecord,
+      'id' | 'name' | 'signal_schema' | 'participant_type' | 'show_prior_responses'
+    >;
   };
 
   // Authorization: ADMIN/HR/SUPERADMIN can access any evaluation in their tenant.
@@ -419,6 +499,7 @@ export async function getEvaluationDetail(ctx: HandlerContext): Promise<Response
     if (dbType === 'integer' || dbType === 'float') return 'numeric';
     if (dbType === 'boolean') return 'boolean';
     if (dbType === 'text') return 'text';
+    if (dbType === 'enum' || dbType === 'multi_select' || dbType === 'rating') return dbType;
     return 'text'; // safe fallback
   }
 
@@ -435,18 +516,36 @@ export async function getEvaluationDetail(ctx: HandlerContext): Promise<Response
       if (mappedType === 'numeric' && (signal.min != null || signal.max != null)) {
         result.scale = { min: signal.min ?? null, max: signal.max ?? null };
       }
+      if (signal.options) {
+        result.options = signal.options;
+      }
+      if (mappedType === 'rating' && signal.rubric?.length) {
+        const scores = signal.rubric.map((anchor) => anchor.score);
+        result.rubric = [...signal.rubric].sort((a, b) => a.score - b.score);
+        result.scale = { min: Math.min(...scores), max: Math.max(...scores) };
+      }
+      if (signal.weight != null) {
+        result.weight = signal.weight;
+      }
       return result;
     },
   );
 
   // Query 2: Fetch participants
-  type ParticipantRow = { id: string; user_id: string; status: string; submitted_at: string | null };
+  type ParticipantRow = {
+    id: string;
+    user_id: string;
+    status: string;
+    sequence: number | null;
+    submitted_at: string | null;
+  };
 
   const { data: participants, error: partError } = await ctx.supabaseAdmin
     .from('evaluation_participants')
-    .select('id, user_id, status, submitted_at')
+    .select('id, user_id, status, sequence, submitted_at')
     .eq('tenant_id', ctx.tenantId)
     .eq('evaluation_id', evaluationId)
+    .order('sequence', { ascending: true, nullsFirst: false })
     .order('created_at', { ascending: true });
 
   if (partError) {
@@ -455,6 +554,10 @@ export async function getEvaluationDetail(ctx: HandlerContext): Promise<Response
 
   const rows = (participants ?? []) as ParticipantRow[];
 
+  // Blind evaluation: until the viewer submits, other participants' progress stays hidden
+  const blinded = (await fetchBlindedEvaluations(ctx.supabaseAdmin, ctx.tenantId, ctx.userId!))
+    .evaluationIds.has(evaluationId);
+
   // Query 3: Batch-fetch user names
   type ProfileRow = { id: string; name: string | null };
   const userIds = Array.from(new Set(rows.map((p) => p.user_id)));
@@ -476,20 +579,69 @@ export async function getEvaluationDetail(ctx: HandlerContext): Promise<Response
     }
   }
 
-  const participantList: EvaluationDetailParticipant[] = rows.map((r) => ({
-    id: r.id,
-    userId: r.user_id,
-    userName: nameById.get(r.user_id),
-    status: r.status as EvaluationDetailParticipant['status'],
-    submittedAt: r.submitted_at,
-  }));
+  const participantList: EvaluationDetailParticipant[] = rows.map((r) => {
+    const hidden = blinded && r.user_id !== ctx.userId;
+    return {
+      id: r.id,
+      userId: r.user_id,
+      userName: nameById.get(r.user_id),
+      status: hidden ? null : r.status as EvaluationDetailParticipant['status'],
+      sequence: r.sequence,
+      submittedAt: hidden ? null : r.submitted_at,
+    };
+  });
+
+  // Query 4: SEQUENTIAL templates can show the viewer the responses submitted before theirs
+  let priorResponses: EvaluationPriorResponse[] | undefined;
+  const viewer = rows.find((r) => r.user_id === ctx.userId);
+
+  if (template.participant_type === 'SEQUENTIAL' && template.show_prior_responses && viewer?.sequence != null) {
+    const earlier = rows.filter((r) => r.sequence != null && r.sequence < viewer.sequence! && r.status === 'SUBMITTED');
+    priorResponses = [];
+
+    if (earlier.length > 0) {
+      const { data: responses, error: respError } = await ctx.supabaseAdmin
+        .from('evaluation_responses')
+        .select('participant_id, response_data, submitted_at')
+        .eq('tenant_id', ctx.tenantId)
+        .in('participant_id', earlier.map((r) => r.id));
+
+      if (respError) {
+        throw new Error(`Failed to fetch prior responses: ${respError.message}`);
+      }
+
+      const byParticipant = new Map(
+        ((responses ?? []) as {
+          participant_id: string;
+          response_data: Record<string, unknown>;
+          submitted_at: string;
+        }[])
+          .map((r) => [r.participant_id, r]),
+      );
+
+      for (const r of earlier) {
+        const response = byParticipant.get(r.id);
+        if (!response) continue;
+        priorResponses.push({
+          participantId: r.id,
+          userId: r.user_id,
+          userName: nameById.get(r.user_id),
+          sequence: r.sequence!,
+          responseData: response.response_data,
+          submittedAt: response.submitted_at,
+        });
+      }
+    }
+  }
 
   const response: EvaluationDetailResponse = {
     id: instance.id,
     status: instance.status,
     template: { id: template.id, name: template.name },
+    blinded,
     signals,
     participants: participantList,
+    priorResponses,
   };
 
   return jsonResponse({ data: response });
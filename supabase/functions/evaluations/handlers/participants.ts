@@ -6,6 +6,8 @@ import type {
   HandlerContext,
 } from '../types.ts';
 import { isValidUUID, jsonResponse } from '../utils.ts';
+import { notifyEvaluationRequested, notifyNextSequentialParticipant } from './instances.ts';
+import { fetchBlindedEvaluations } from '../../_shared/blind-evaluations.ts';
 
 // ============================================================================
 // Format functions
@@ -23,6 +25,7 @@ function formatParticipantResponse(
     userName,
     userEmail,
     status: record.status,
+    sequence: record.sequence,
     submittedAt: record.submitted_at,
     createdAt: record.created_at,
   };
@@ -59,15 +62,17 @@ export async function listParticipants(ctx: HandlerContext): Promise<Response> {
     evaluation_id: string;
     user_id: string;
     status: string;
+    sequence: number | null;
     submitted_at: string | null;
     created_at: string;
   };
 
   const { data: participants, error } = await ctx.supabaseAdmin
     .from('evaluation_participants')
-    .select('id, tenant_id, evaluation_id, user_id, status, submitted_at, created_at')
+    .select('id, tenant_id, evaluation_id, user_id, status, sequence, submitted_at, created_at')
     .eq('tenant_id', ctx.tenantId)
     .eq('evaluation_id', evaluationId)
+    .order('sequence', { ascending: true, nullsFirst: false })
     .order('created_at', { ascending: true });
 
   if (error) {
@@ -98,14 +103,23 @@ export async function listParticipants(ctx: HandlerContext): Promise<Response> {
     }
   }
 
-  // Step 3: format
-  const formatted = rows.map((r) =>
-    formatParticipantResponse(
+  // Step 3: format — on a blind evaluation the viewer sees only their own
+  // progress until they have submitted
+  const blinded = (await fetchBlindedEvaluations(ctx.supabaseAdmin, ctx.tenantId, ctx.userId!))
+    .evaluationIds.has(evaluationId);
+
+  const formatted = rows.map((r) => {
+    const participant = formatParticipantResponse(
       r as unknown as EvaluationParticipantRecord,
       nameById.get(r.user_id), // userName
       undefined, // userEmail — not available without auth.users access
-    )
-  );
+    );
+    if (blinded && r.user_id !== ctx.userId) {
+      participant.status = null;
+      participant.submittedAt = null;
+    }
+    return participant;
+  });
 
   return jsonResponse({ data: formatted });
 }
@@ -163,6 +177,12 @@ export async function addParticipant(
     throw new Error(`Failed to add participant: ${error.message}`);
   }
 
+  // SEQUENTIAL evaluations append the participant to the chain; they are
+  // notified once it is their turn
+  if ((data as EvaluationParticipantRecord).status === 'PENDING') {
+    await notifyEvaluationRequested(ctx, instance, [body.user_id]);
+  }
+
   return jsonResponse(
     { data: formatParticipantResponse(data as EvaluationParticipantRecord) },
     201,
@@ -206,5 +226,9 @@ export async function removeParticipant(ctx: HandlerContext): Promise<Response>
     throw new Error(`Failed to remove participant: ${deleteError.message}`);
   }
 
+  if (pRecord.status === 'PENDING') {
+    await notifyNextSequentialParticipant(ctx, evaluationId);
+  }
+
   return jsonResponse({ message: 'Participant removed successfully' });
 }
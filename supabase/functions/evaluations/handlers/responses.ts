@@ -5,6 +5,8 @@ import type {
   SubmitResponseDTO,
 } from '../types.ts';
 import { isValidUUID, jsonResponse } from '../utils.ts';
+import { fetchBlindedEvaluations } from '../../_shared/blind-evaluations.ts';
+import { notifyNextSequentialParticipant } from './instances.ts';
 
 // ============================================================================
 // Format functions
@@ -72,6 +74,8 @@ export async function submitResponse(
     handleRpcError(error);
   }
 
+  await notifyNextSequentialParticipant(ctx, evaluationId);
+
   return jsonResponse({ data: formatResponseResponse(data as EvaluationResponseRecord) }, 201);
 }
 
@@ -95,6 +99,12 @@ export async function listResponses(ctx: HandlerContext): Promise<Response> {
     throw new Error('Evaluation not found');
   }
 
+  // Blind evaluation: a panelist sees no other responses until they have submitted
+  const blinded = await fetchBlindedEvaluations(ctx.supabaseAdmin, ctx.tenantId, ctx.userId!);
+  if (blinded.evaluationIds.has(evaluationId)) {
+    throw new Error('Forbidden: Submit your own response to this blind evaluation first');
+  }
+
   const { data, error } = await ctx.supabaseAdmin
     .from('evaluation_responses')
     .select(`
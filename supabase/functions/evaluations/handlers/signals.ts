@@ -12,11 +12,13 @@ import { isValidUUID, jsonResponse } from '../utils.ts';
 
 function formatSignalResponse(record: ApplicationSignalRecord): ApplicationSignalResponse {
   // Determine the value based on signal type
-  let value: string | number | boolean | null = null;
+  let value: string | number | boolean | string[] | null = null;
   if (record.signal_value_boolean !== null) {
     value = record.signal_value_boolean;
   } else if (record.signal_value_numeric !== null) {
     value = record.signal_value_numeric;
+  } else if (record.signal_type === 'multi_select' && record.signal_value_text !== null) {
+    value = JSON.parse(record.signal_value_text) as string[];
   } else if (record.signal_value_text !== null) {
     value = record.signal_value_text;
   }
@@ -1,8 +1,18 @@
 import type {
   CreateEvaluationTemplateDTO,
+  EvaluationTemplateDiffResponse,
   EvaluationTemplateRecord,
   EvaluationTemplateResponse,
+  EvaluationTemplateVersionResponse,
   HandlerContext,
+  MigrateTemplateInstancesDTO,
+  SignalDefinition,
+  SignalSchemaChange,
+  TemplateFieldChange,
+  TemplateMigrationEntryRecord,
+  TemplateMigrationInstanceResponse,
+  TemplateMigrationRecord,
+  TemplateMigrationResponse,
   UpdateEvaluationTemplateDTO,
 } from '../types.ts';
 import { isValidUUID, jsonResponse } from '../utils.ts';
@@ -21,11 +31,216 @@ function formatTemplateResponse(record: EvaluationTemplateRecord): EvaluationTem
     participantType: record.participant_type,
     signalSchema: record.signal_schema,
     defaultAggregation: record.default_aggregation,
+    scoreSignalKey: record.score_signal_key,
+    blind: record.blind,
+    showPriorResponses: record.show_prior_responses,
     isActive: record.is_active,
     createdAt: record.created_at,
   };
 }
 
+function formatMigrationEntry(entry: TemplateMigrationEntryRecord): TemplateMigrationInstanceResponse {
+  return {
+    instanceId: entry.instance_id,
+    applicationId: entry.application_id,
+    fromTemplateId: entry.from_template_id,
+    fromVersion: entry.from_version,
+    status: entry.status,
+    ...(entry.reason ? { reason: entry.reason } : {}),
+    ...(entry.response_count !== undefined ? { responseCount: entry.response_count } : {}),
+  };
+}
+
+// Map RPC error codes to HTTP-friendly errors
+function handleRpcError(error: { code?: string; message?: string }): never {
+  const msg = error.message || 'Unknown error';
+
+  if (msg.includes('NOT_FOUND')) {
+    throw new Error('Not found: ' + msg.split(': ').slice(1).join(': '));
+  }
+  if (msg.includes('INVALID_ACTION')) {
+    throw new Error('Bad request: ' + msg.split(': ').slice(1).join(': '));
+  }
+
+  throw new Error(msg);
+}
+
+// ============================================================================
+// Signal schema validation
+// ============================================================================
+
+const SIGNAL_TYPES = ['boolean', 'integer', 'float', 'text', 'enum', 'multi_select', 'rating'];
+const WEIGHTED_SIGNAL_TYPES = ['integer', 'float', 'rating'];
+
+function validateSignalSchema(signalSchema: SignalDefinition[], scoreSignalKey: string | null): void {
+  const keys = new Set<string>();
+
+  for (const signal of signalSchema) {
+    if (!signal.key || !signal.type || !signal.label) {
+      throw new Error('Each signal must have key, type, and label');
+    }
+    if (!SIGNAL_TYPES.includes(signal.type)) {
+      throw new Error(`Invalid signal type: ${signal.type}`);
+    }
+    if (keys.has(signal.key)) {
+      throw new Error(`Duplicate signal key: ${signal.key}`);
+    }
+    keys.add(signal.key);
+
+    if (signal.type === 'enum' || signal.type === 'multi_select') {
+      if (!Array.isArray(signal.options) || signal.options.length === 0) {
+        throw new Error(`Signal ${signal.key}: options are required for ${signal.type} signals`);
+      }
+      const values = new Set<string>();
+      for (const option of signal.options) {
+        if (!option || typeof option.value !== 'string' || option.value === '' || !option.label) {
+          throw new Error(`Signal ${signal.key}: each option must have value and label`);
+        }
+        if (values.has(option.value)) {
+          throw new Error(`Signal ${signal.key}: duplicate option value ${option.value}`);
+        }
+        values.add(option.value);
+      }
+    }
+
+    if (signal.type === 'rating') {
+      if (!Array.isArray(signal.rubric) || signal.rubric.length < 2) {
+        throw new Error(`Signal ${signal.key}: rating signals need a rubric with at least two scores`);
+      }
+      const scores = new Set<number>();
+      for (const anchor of signal.rubric) {
+        if (!anchor || !Number.isInteger(anchor.score) || !anchor.description) {
+          throw new Error(`Signal ${signal.key}: each rubric entry must have an integer score and a description`);
+        }
+        if (scores.has(anchor.score)) {
+          throw new Error(`Signal ${signal.key}: duplicate rubric score ${anchor.score}`);
+        }
+        scores.add(anchor.score);
+      }
+    }
+
+    if (signal.weight !== undefined && signal.weight !== null) {
+      if (!WEIGHTED_SIGNAL_TYPES.includes(signal.type)) {
+        throw new Error(`Signal ${signal.key}: weight is only allowed on integer, float and rating signals`);
+      }
+      if (typeof signal.weight !== 'number' || !(signal.weight > 0)) {
+        throw new Error(`Signal ${signal.key}: weight must be a positive number`);
+      }
+    }
+  }
+
+  const hasWeights = signalSchema.some((signal) => signal.weight !== undefined && signal.weight !== null);
+  if (hasWeights && !scoreSignalKey) {
+    throw new Error('score_signal_key is required when a signal has a weight');
+  }
+  if (scoreSignalKey && keys.has(scoreSignalKey)) {
+    throw new Error('score_signal_key must differ from the template signal keys');
+  }
+}
+
+// Blind hides other panelists' responses, so it only applies to PANEL templates
+function validateBlind(blind: boolean | null, participantType: string): void {
+  if (blind !== null && typeof blind !== 'boolean') {
+    throw new Error('blind must be a boolean or null');
+  }
+  if (blind === true && participantType !== 'PANEL') {
+    throw new Error('blind is only supported for PANEL templates');
+  }
+}
+
+// Prior responses are those earlier in a SEQUENTIAL chain
+function validateShowPriorResponses(showPriorResponses: boolean, participantType: string): void {
+  if (typeof showPriorResponses !== 'boolean') {
+    throw new Error('show_prior_responses must be a boolean');
+  }
+  if (showPriorResponses && participantType !== 'SEQUENTIAL') {
+    throw new Error('show_prior_responses is only supported for SEQUENTIAL templates');
+  }
+}
+
+// ============================================================================
+// Version helpers
+// ============================================================================
+
+// All versions of the template (oldest first), given any of its version IDs
+async function fetchLineage(ctx: HandlerContext, templateId: string): Promise<EvaluationTemplateRecord[]> {
+  const { data, error } = await ctx.supabaseAdmin.rpc('evaluation_template_lineage', {
+    p_tenant_id: ctx.tenantId,
+    p_template_id: templateId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch template versions: ${error.message}`);
+  }
+
+  const versions = (data || []) as EvaluationTemplateRecord[];
+  if (versions.length === 0) {
+    throw new Error('Template not found');
+  }
+
+  return versions;
+}
+
+function parseVersionParam(value: string | null, name: string): number | null {
+  if (value === null || value === '') return null;
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`${name} must be a positive integer version`);
+  }
+  return version;
+}
+
+function diffValues(
+  fields: string[],
+  from: Record<string, unknown>,
+  to: Record<string, unknown>,
+): TemplateFieldChange[] {
+  const changes: TemplateFieldChange[] = [];
+  for (const field of fields) {
+    const before = from[field] ?? null;
+    const after = to[field] ?? null;
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ field, from: before, to: after });
+    }
+  }
+  return changes;
+}
+
+// Structural diff of two signal schemas, matching signals by key
+function diffSignalSchemas(
+  from: SignalDefinition[],
+  to: SignalDefinition[],
+): EvaluationTemplateDiffResponse['signals'] {
+  const fromByKey = new Map(from.map((s) => [s.key, s]));
+  const toByKey = new Map(to.map((s) => [s.key, s]));
+
+  const added = to.filter((s) => !fromByKey.has(s.key));
+  const removed = from.filter((s) => !toByKey.has(s.key));
+
+  const changed: SignalSchemaChange[] = [];
+  for (const signal of to) {
+    const previous = fromByKey.get(signal.key);
+    if (!previous) continue;
+
+    const fields = [...new Set([...Object.keys(previous), ...Object.keys(signal)])].filter((f) => f !== 'key');
+    const changes = diffValues(
+      fields,
+      previous as unknown as Record<string, unknown>,
+      signal as unknown as Record<string, unknown>,
+    );
+    if (changes.length > 0) {
+      changed.push({ key: signal.key, changes });
+    }
+  }
+
+  // Order of the signals both versions share
+  const sharedFrom = from.filter((s) => toByKey.has(s.key)).map((s) => s.key);
+  const sharedTo = to.filter((s) => fromByKey.has(s.key)).map((s) => s.key);
+  const reordered = sharedFrom.some((key, i) => key !== sharedTo[i]);
+
+  return { added, removed, changed, reordered };
+}
+
 // ============================================================================
 // TEMPLATE HANDLERS
 // ============================================================================
@@ -71,15 +286,17 @@ export async function createEvaluationTemplate(
     throw new Error('signal_schema is required and must be an array');
   }
 
+  const scoreSignalKey = body.score_signal_key?.trim() || null;
+
   // Validate signal schema
-  for (const signal of body.signal_schema) {
-    if (!signal.key || !signal.type || !signal.label) {
-      throw new Error('Each signal must have key, type, and label');
-    }
-    if (!['boolean', 'integer', 'float', 'text'].includes(signal.type)) {
-      throw new Error(`Invalid signal type: ${signal.type}`);
-    }
-  }
+  validateSignalSchema(body.signal_schema, scoreSignalKey);
+
+  const participantType = body.participant_type || 'SINGLE';
+  const blind = body.blind ?? null;
+  validateBlind(blind, participantType);
+
+  const showPriorResponses = body.show_prior_responses ?? false;
+  validateShowPriorResponses(showPriorResponses, participantType);
 
   const { data, error } = await ctx.supabaseAdmin
     .from('evaluation_templates')
@@ -87,9 +304,12 @@ export async function createEvaluationTemplate(
       tenant_id: ctx.tenantId,
       name: body.name.trim(),
       description: body.description || null,
-      participant_type: body.participant_type || 'SINGLE',
+      participant_type: participantType,
       signal_schema: body.signal_schema,
       default_aggregation: body.default_aggregation || 'MAJORITY',
+      score_signal_key: scoreSignalKey,
+      blind,
+      show_prior_responses: showPriorResponses,
       created_by: ctx.userId,
     })
     .select()
@@ -135,6 +355,32 @@ export async function updateEvaluationTemplate(
 
   const currentTemplate = current as EvaluationTemplateRecord;
 
+  if (body.signal_schema !== undefined && !Array.isArray(body.signal_schema)) {
+    throw new Error('signal_schema must be an array');
+  }
+
+  const scoreSignalKey = body.score_signal_key !== undefined
+    ? body.score_signal_key?.trim() || null
+    : currentTemplate.score_signal_key;
+
+  if (body.signal_schema !== undefined || body.score_signal_key !== undefined) {
+    validateSignalSchema(body.signal_schema || currentTemplate.signal_schema, scoreSignalKey);
+  }
+
+  const blind = body.blind !== undefined ? body.blind : currentTemplate.blind;
+
+  if (body.blind !== undefined || body.participant_type !== undefined) {
+    validateBlind(blind, body.participant_type || currentTemplate.participant_type);
+  }
+
+  const showPriorResponses = body.show_prior_responses !== undefined
+    ? body.show_prior_responses
+    : currentTemplate.show_prior_responses;
+
+  if (body.show_prior_responses !== undefined || body.participant_type !== undefined) {
+    validateShowPriorResponses(showPriorResponses, body.participant_type || currentTemplate.participant_type);
+  }
+
   // Check if template is referenced by any instances
   const { count: instanceCount } = await ctx.supabaseAdmin
     .from('evaluation_instances')
@@ -179,6 +425,9 @@ export async function updateEvaluationTemplate(
         participant_type: body.participant_type || currentTemplate.participant_type,
         signal_schema: body.signal_schema || currentTemplate.signal_schema,
         default_aggregation: body.default_aggregation || currentTemplate.default_aggregation,
+        score_signal_key: scoreSignalKey,
+        blind,
+        show_prior_responses: showPriorResponses,
         is_active: body.is_active !== undefined ? body.is_active : currentTemplate.is_active,
         created_by: ctx.userId,
       })
@@ -211,6 +460,9 @@ export async function updateEvaluationTemplate(
   if (body.participant_type !== undefined) updateData.participant_type = body.participant_type;
   if (body.signal_schema !== undefined) updateData.signal_schema = body.signal_schema;
   if (body.default_aggregation !== undefined) updateData.default_aggregation = body.default_aggregation;
+  if (body.score_signal_key !== undefined) updateData.score_signal_key = scoreSignalKey;
+  if (body.blind !== undefined) updateData.blind = blind;
+  if (body.show_prior_responses !== undefined) updateData.show_prior_responses = showPriorResponses;
   if (body.is_active !== undefined) updateData.is_active = body.is_active;
 
   const { data: updated, error: updateError } = await ctx.supabaseAdmin
@@ -259,3 +511,133 @@ export async function deleteEvaluationTemplate(ctx: HandlerContext): Promise<Res
 
   return jsonResponse({ message: 'Template deleted successfully' });
 }
+
+// GET /settings/evaluation-templates/:id/versions
+export async function listTemplateVersions(ctx: HandlerContext): Promise<Response> {
+  const templateId = ctx.pathParts[2];
+
+  if (!isValidUUID(templateId)) {
+    throw new Error('Invalid template ID format');
+  }
+
+  const versions = await fetchLineage(ctx, templateId);
+
+  const { data: instances, error } = await ctx.supabaseAdmin
+    .from('evaluation_instances')
+    .select('template_id, status')
+    .eq('tenant_id', ctx.tenantId)
+    .in('template_id', versions.map((v) => v.id));
+
+  if (error) {
+    throw new Error(`Failed to fetch template instances: ${error.message}`);
+  }
+
+  const counts = new Map<string, { total: number; open: number }>();
+  for (const row of (instances || []) as { template_id: string; status: string }[]) {
+    const count = counts.get(row.template_id) || { total: 0, open: 0 };
+    count.total++;
+    if (row.status === 'PENDING' || row.status === 'IN_PROGRESS') count.open++;
+    counts.set(row.template_id, count);
+  }
+
+  const formatted: EvaluationTemplateVersionResponse[] = versions
+    .map((v) => ({
+      ...formatTemplateResponse(v),
+      supersededBy: v.superseded_by,
+      instanceCount: counts.get(v.id)?.total || 0,
+      openInstanceCount: counts.get(v.id)?.open || 0,
+    }))
+    .reverse();
+
+  return jsonResponse({ data: formatted });
+}
+
+// GET /settings/evaluation-templates/:id/diff?from=<version>&to=<version>
+// Defaults: to = latest version, from = the version before it
+export async function diffTemplateVersions(ctx: HandlerContext): Promise<Response> {
+  const templateId = ctx.pathParts[2];
+
+  if (!isValidUUID(templateId)) {
+    throw new Error('Invalid template ID format');
+  }
+
+  const versions = await fetchLineage(ctx, templateId);
+  const latest = versions[versions.length - 1];
+
+  const toVersion = parseVersionParam(ctx.url.searchParams.get('to'), 'to') ?? latest.version;
+  const fromVersion = parseVersionParam(ctx.url.searchParams.get('from'), 'from') ?? toVersion - 1;
+
+  if (fromVersion < 1) {
+    throw new Error('Template has no earlier version to compare');
+  }
+
+  const from = versions.find((v) => v.version === fromVersion);
+  const to = versions.find((v) => v.version === toVersion);
+
+  if (!to) {
+    throw new Error(`Template version ${toVersion} not found`);
+  }
+  if (!from) {
+    throw new Error(`Template version ${fromVersion} not found`);
+  }
+
+  const fields = diffValues(
+    ['name', 'description', 'participantType', 'defaultAggregation', 'scoreSignalKey', 'blind', 'showPriorResponses'],
+    formatTemplateResponse(from) as unknown as Record<string, unknown>,
+    formatTemplateResponse(to) as unknown as Record<string, unknown>,
+  );
+  const signals = diffSignalSchemas(from.signal_schema || [], to.signal_schema || []);
+
+  const isBreaking = signals.removed.length > 0 ||
+    signals.changed.some((c) => c.changes.some((change) => change.field === 'type'));
+
+  const diff: EvaluationTemplateDiffResponse = {
+    templateName: to.name,
+    from: { id: from.id, version: from.version },
+    to: { id: to.id, version: to.version },
+    fields,
+    signals,
+    isBreaking,
+  };
+
+  return jsonResponse({ data: diff });
+}
+
+// POST /settings/evaluation-templates/:id/migrate-instances
+// Moves PENDING / IN_PROGRESS instances of older versions to the latest version.
+// Instances with at least one response, or with participants when the
+// participant type changed, stay on their version.
+export async function migrateTemplateInstances(
+  ctx: HandlerContext,
+  req: Request,
+): Promise<Response> {
+  const templateId = ctx.pathParts[2];
+
+  if (!isValidUUID(templateId)) {
+    throw new Error('Invalid template ID format');
+  }
+
+  const body: MigrateTemplateInstancesDTO = await req.json().catch(() => ({}));
+
+  const { data, error } = await ctx.supabaseAdmin.rpc('migrate_evaluation_instances_to_latest', {
+    p_tenant_id: ctx.tenantId,
+    p_template_id: templateId,
+    p_dry_run: body.dry_run === true,
+  });
+
+  if (error) {
+    handleRpcError(error);
+  }
+
+  const result = data as TemplateMigrationRecord;
+
+  const response: TemplateMigrationResponse = {
+    templateId: result.template_id,
+    version: result.version,
+    dryRun: result.dry_run,
+    moved: (result.moved || []).map(formatMigrationEntry),
+    skipped: (result.skipped || []).map(formatMigrationEntry),
+  };
+
+  return jsonResponse({ data: response });
+}
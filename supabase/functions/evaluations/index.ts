@@ -6,6 +6,7 @@ import {
   canViewEvaluations,
   getTenantIdFromAuth,
   getUserFromToken,
+  isBlindedOnApplication,
 } from './middleware.ts';
 import type { HandlerContext } from './types.ts';
 
@@ -105,6 +106,24 @@ Deno.serve(async (req: Request) => {
         return await templateHandlers.createEvaluationTemplate(ctx, req);
       }
 
+      // GET /settings/evaluation-templates/:id/versions - Version history
+      if (method === 'GET' && templateId && pathParts[3] === 'versions') {
+        return await templateHandlers.listTemplateVersions(ctx);
+      }
+
+      // GET /settings/evaluation-templates/:id/diff?from=&to= - Diff two versions
+      if (method === 'GET' && templateId && pathParts[3] === 'diff') {
+        return await templateHandlers.diffTemplateVersions(ctx);
+      }
+
+      // POST /settings/evaluation-templates/:id/migrate-instances - Move open instances to latest (ADMIN only)
+      if (method === 'POST' && templateId && pathParts[3] === 'migrate-instances') {
+        if (!canManageSettings(user.role)) {
+          throw new Error('Forbidden: ADMIN role required');
+        }
+        return await templateHandlers.migrateTemplateInstances(ctx, req);
+      }
+
       // PATCH /settings/evaluation-templates/:id - Update template (ADMIN only)
       if (method === 'PATCH' && templateId) {
         if (!canManageSettings(user.role)) {
@@ -160,7 +179,7 @@ Deno.serve(async (req: Request) => {
     // ==================== APPLICATION-BOUND ROUTES ====================
     // Routes: /applications/:id/...
     if (pathParts[0] === 'applications' && pathParts[1]) {
-      const _applicationId = pathParts[1]; // Used via ctx.pathParts in handlers
+      const applicationId = pathParts[1];
       const action = pathParts[2];
 
       // GET /applications/:id/evaluations - List evaluations for application
@@ -176,6 +195,14 @@ Deno.serve(async (req: Request) => {
         return await instanceHandlers.createEvaluation(ctx, req);
       }
 
+      // Blind evaluations: signals and decisions (which snapshot signals) stay
+      // hidden from a panelist until they have submitted
+      if (method === 'GET' && ['signals', 'decision-log', 'rejection-reason'].includes(action)) {
+        if (await isBlindedOnApplication(supabaseAdmin, tenantId, user.id, applicationId)) {
+          throw new Error('Forbidden: Submit your blind evaluation for this application first');
+        }
+      }
+
       // ==================== SIGNAL ROUTES ====================
       // GET /applications/:id/signals - Get application signals
       if (method === 'GET' && action === 'signals' && !pathParts[3]) {
@@ -1,4 +1,5 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { fetchBlindedEvaluations } from '../_shared/blind-evaluations.ts';
 
 // Get tenant ID from JWT claims or X-Tenant-ID header
 export async function getTenantIdFromAuth(
@@ -68,3 +69,15 @@ export function canViewEvaluations(role: string): boolean {
 export function canManageSettings(role: string): boolean {
   return ['SUPERADMIN', 'ADMIN'].includes(role);
 }
+
+// Check if user is blinded on an application: a pending panelist on one of its
+// open blind evaluations. Blinded users cannot read the application's signals.
+export async function isBlindedOnApplication(
+  supabaseAdmin: SupabaseClient,
+  tenantId: string,
+  userId: string,
+  applicationId: string,
+): Promise<boolean> {
+  const blinded = await fetchBlindedEvaluations(supabaseAdmin, tenantId, userId);
+  return blinded.applicationIds.has(applicationId);
+}
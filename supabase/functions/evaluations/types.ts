@@ -20,12 +20,28 @@ export interface HandlerContext {
 // Signal Definition (in template schema)
 // ============================================
 
+export type SignalType = 'boolean' | 'integer' | 'float' | 'text' | 'enum' | 'multi_select' | 'rating';
+
+export interface SignalOption {
+  value: string;
+  label: string;
+}
+
+export interface RubricAnchor {
+  score: number;
+  label?: string;
+  description: string;
+}
+
 export interface SignalDefinition {
   key: string;
-  type: 'boolean' | 'integer' | 'float' | 'text';
+  type: SignalType;
   label: string;
   min?: number;
   max?: number;
+  options?: SignalOption[]; // enum, multi_select
+  rubric?: RubricAnchor[]; // rating
+  weight?: number; // integer, float, rating - counted in the template's score signal
   aggregation?: 'MAJORITY' | 'UNANIMOUS' | 'ANY' | 'AVERAGE' | null;
   required?: boolean;
 }
@@ -45,6 +61,9 @@ export interface EvaluationTemplateRecord {
   participant_type: 'SINGLE' | 'PANEL' | 'SEQUENTIAL';
   signal_schema: SignalDefinition[];
   default_aggregation: 'MAJORITY' | 'UNANIMOUS' | 'ANY' | 'AVERAGE';
+  score_signal_key: string | null;
+  blind: boolean | null; // PANEL only; null = tenant default
+  show_prior_responses: boolean; // SEQUENTIAL only
   is_active: boolean;
   created_by: string | null;
   created_at: string;
@@ -73,7 +92,8 @@ export interface EvaluationParticipantRecord {
   tenant_id: string;
   evaluation_id: string;
   user_id: string;
-  status: 'PENDING' | 'SUBMITTED' | 'DECLINED';
+  status: 'WAITING' | 'PENDING' | 'SUBMITTED' | 'DECLINED'; // WAITING: not their turn yet (SEQUENTIAL)
+  sequence: number | null; // position in a SEQUENTIAL chain
   submitted_at: string | null;
   created_at: string;
 }
@@ -91,8 +111,8 @@ export interface ApplicationSignalRecord {
   tenant_id: string;
   application_id: string;
   signal_key: string;
-  signal_type: 'boolean' | 'integer' | 'float' | 'text';
-  signal_value_text: string | null;
+  signal_type: SignalType;
+  signal_value_text: string | null; // JSON array for multi_select
   signal_value_numeric: number | null;
   signal_value_boolean: boolean | null;
   source_type: 'EVALUATION' | 'MANUAL' | 'SYSTEM';
@@ -109,8 +129,10 @@ export interface ActionExecutionLogRecord {
   application_id: string;
   action_code: string;
   stage_id: string | null;
-  executed_by: string;
+  executed_by: string | null; // NULL when actor_type = 'SYSTEM'
   executed_at: string;
+  actor_type: 'USER' | 'SYSTEM';
+  automation_rule_id: string | null;
   signal_snapshot: Record<string, SignalSnapshotValue>;
   conditions_evaluated: ConditionEvaluationResult[];
   decision_note: string | null;
@@ -143,6 +165,25 @@ export interface ConditionEvaluationResult {
   on_missing?: string;
 }
 
+// Entry of migrate_evaluation_instances_to_latest() result
+export interface TemplateMigrationEntryRecord {
+  instance_id: string;
+  application_id: string;
+  from_template_id: string;
+  from_version: number;
+  status: 'PENDING' | 'IN_PROGRESS';
+  reason?: 'HAS_RESPONSES' | 'PARTICIPANT_TYPE_CHANGED';
+  response_count?: number;
+}
+
+export interface TemplateMigrationRecord {
+  template_id: string;
+  version: number;
+  dry_run: boolean;
+  moved: TemplateMigrationEntryRecord[];
+  skipped: TemplateMigrationEntryRecord[];
+}
+
 // ============================================
 // API Responses (camelCase for internal APIs)
 // ============================================
@@ -156,10 +197,62 @@ export interface EvaluationTemplateResponse {
   participantType: 'SINGLE' | 'PANEL' | 'SEQUENTIAL';
   signalSchema: SignalDefinition[];
   defaultAggregation: 'MAJORITY' | 'UNANIMOUS' | 'ANY' | 'AVERAGE';
+  scoreSignalKey: string | null;
+  blind: boolean | null; // null = tenant default (tenant_settings.config.evaluations.blind)
+  showPriorResponses: boolean;
   isActive: boolean;
   createdAt: string;
 }
 
+export interface EvaluationTemplateVersionResponse extends EvaluationTemplateResponse {
+  supersededBy: string | null;
+  instanceCount: number;
+  openInstanceCount: number; // PENDING or IN_PROGRESS
+}
+
+export interface TemplateFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface SignalSchemaChange {
+  key: string;
+  changes: TemplateFieldChange[];
+}
+
+export interface EvaluationTemplateDiffResponse {
+  templateName: string;
+  from: { id: string; version: number };
+  to: { id: string; version: number };
+  fields: TemplateFieldChange[]; // name, description, participantType, defaultAggregation, scoreSignalKey, blind, showPriorResponses
+  signals: {
+    added: SignalDefinition[];
+    removed: SignalDefinition[];
+    changed: SignalSchemaChange[];
+    reordered: boolean;
+  };
+  isBreaking: boolean; // a signal was removed or changed type
+}
+
+export interface TemplateMigrationInstanceResponse {
+  instanceId: string;
+  applicationId: string;
+  fromTemplateId: string;
+  fromVersion: number;
+  status: 'PENDING' | 'IN_PROGRESS';
+  reason?: 'HAS_RESPONSES' | 'PARTICIPANT_TYPE_CHANGED';
+  responseCount?: number;
+}
+
+export interface TemplateMigrationResponse {
+  templateId: string;
+  version: number;
+  dryRun: boolean;
+  moved: TemplateMigrationInstanceResponse[];
+  skipped: TemplateMigrationInstanceResponse[];
+}
+
 export interface EvaluationInstanceResponse {
   id: string;
   applicationId: string;
@@ -172,7 +265,8 @@ export interface EvaluationInstanceResponse {
   completedAt: string | null;
   forceCompleted: boolean;
   participantCount?: number;
-  submittedCount?: number;
+  submittedCount?: number; // omitted while the viewer is blinded
+  blinded?: boolean; // viewer has not submitted on this blind evaluation yet
   createdAt: string;
   updatedAt: string;
 }
@@ -198,7 +292,8 @@ export interface EvaluationParticipantResponse {
   userId: string;
   userName?: string;
   userEmail?: string;
-  status: 'PENDING' | 'SUBMITTED' | 'DECLINED';
+  status: 'WAITING' | 'PENDING' | 'SUBMITTED' | 'DECLINED' | null; // null for other participants while blinded
+  sequence: number | null;
   submittedAt: string | null;
   createdAt: string;
 }
@@ -214,8 +309,8 @@ export interface ApplicationSignalResponse {
   id: string;
   applicationId: string;
   signalKey: string;
-  signalType: 'boolean' | 'integer' | 'float' | 'text';
-  value: string | number | boolean | null;
+  signalType: SignalType;
+  value: string | number | boolean | string[] | null;
   sourceType: 'EVALUATION' | 'MANUAL' | 'SYSTEM';
   sourceId: string | null;
   setBy: string | null;
@@ -228,9 +323,11 @@ export interface ActionExecutionLogResponse {
   actionCode: string;
   stageId: string | null;
   stageName?: string | null;
-  executedBy: string;
+  executedBy: string | null;
   executedByEmail?: string;
   executedAt: string;
+  actorType: 'USER' | 'SYSTEM';
+  automationRuleId: string | null;
   signalSnapshot: Record<string, SignalSnapshotValue>;
   conditionsEvaluated: ConditionEvaluationResult[];
   decisionNote: string | null;
@@ -251,25 +348,41 @@ export interface EvaluationDetailSignal {
   id: string; // format: ${templateId}:${key}
   key: string;
   label: string;
-  type: string; // "numeric" | "boolean" | "text"
+  type: string; // "numeric" | "boolean" | "text" | "enum" | "multi_select" | "rating"
   required: boolean;
   scale?: { min: number | null; max: number | null };
+  options?: SignalOption[];
+  rubric?: RubricAnchor[];
+  weight?: number;
 }
 
 export interface EvaluationDetailParticipant {
   id: string;
   userId: string;
   userName?: string;
-  status: 'PENDING' | 'SUBMITTED' | 'DECLINED';
+  status: 'WAITING' | 'PENDING' | 'SUBMITTED' | 'DECLINED' | null; // null for other participants while blinded
+  sequence: number | null;
   submittedAt: string | null;
 }
 
+// Response of an earlier participant in a SEQUENTIAL chain (show_prior_responses)
+export interface EvaluationPriorResponse {
+  participantId: string;
+  userId: string;
+  userName?: string;
+  sequence: number;
+  responseData: Record<string, unknown>;
+  submittedAt: string;
+}
+
 export interface EvaluationDetailResponse {
   id: string;
   status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
   template: { id: string; name: string };
+  blinded: boolean; // viewer has not submitted on this blind evaluation yet
   signals: EvaluationDetailSignal[];
   participants: EvaluationDetailParticipant[];
+  priorResponses?: EvaluationPriorResponse[]; // viewer's predecessors, when the template shows them
 }
 
 // ============================================
@@ -282,6 +395,9 @@ export interface CreateEvaluationTemplateDTO {
   participant_type?: 'SINGLE' | 'PANEL' | 'SEQUENTIAL';
   signal_schema: SignalDefinition[];
   default_aggregation?: 'MAJORITY' | 'UNANIMOUS' | 'ANY' | 'AVERAGE';
+  score_signal_key?: string | null;
+  blind?: boolean | null;
+  show_prior_responses?: boolean;
 }
 
 export interface UpdateEvaluationTemplateDTO {
@@ -290,9 +406,16 @@ export interface UpdateEvaluationTemplateDTO {
   participant_type?: 'SINGLE' | 'PANEL' | 'SEQUENTIAL';
   signal_schema?: SignalDefinition[];
   default_aggregation?: 'MAJORITY' | 'UNANIMOUS' | 'ANY' | 'AVERAGE';
+  score_signal_key?: string | null;
+  blind?: boolean | null;
+  show_prior_responses?: boolean;
   is_active?: boolean;
 }
 
+export interface MigrateTemplateInstancesDTO {
+  dry_run?: boolean;
+}
+
 export interface CreateEvaluationInstanceDTO {
   template_id: string;
   stage_id?: string;
@@ -0,0 +1,611 @@
+import type {
+  AvailabilitySlotsResponse,
+  CreateBlackoutDTO,
+  HandlerContext,
+  InterviewerAvailabilityRecord,
+  InterviewerAvailabilityResponse,
+  InterviewerBlackoutRecord,
+  InterviewerBlackoutResponse,
+  ScheduleConflictRecord,
+  ScheduleWindow,
+  UpdateAvailabilityDTO,
+  WeekdayKey,
+  WeeklyHours,
+} from '../types.ts';
+import { isValidUUID, jsonResponse } from '../utils.ts';
+import { canManageInterviews } from '../middleware.ts';
+
+// ============================================
+// Defaults & limits
+// ============================================
+
+// Applied to users who never configured availability
+const DEFAULT_TIME_ZONE = 'UTC';
+const DEFAULT_WEEKLY_HOURS: WeeklyHours = {
+  mon: [{ start: '09:00', end: '17:00' }],
+  tue: [{ start: '09:00', end: '17:00' }],
+  wed: [{ start: '09:00', end: '17:00' }],
+  thu: [{ start: '09:00', end: '17:00' }],
+  fri: [{ start: '09:00', end: '17:00' }],
+};
+
+const WEEKDAY_KEYS: WeekdayKey[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MAX_INTERVIEWERS = 10;
+const MAX_SEARCH_DAYS = 31;
+const DEFAULT_SEARCH_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Interval = [number, number]; // [startMs, endMs)
+
+// ============================================
+// Formatters
+// ============================================
+
+function formatBlackoutResponse(record: InterviewerBlackoutRecord): InterviewerBlackoutResponse {
+  return {
+    id: record.id,
+    date: record.blackout_date,
+    reason: record.reason,
+    createdAt: record.created_at,
+  };
+}
+
+function formatAvailabilityResponse(
+  userId: string,
+  record: InterviewerAvailabilityRecord | null,
+  blackouts: InterviewerBlackoutRecord[],
+): InterviewerAvailabilityResponse {
+  return {
+    userId,
+    timeZone: record?.time_zone ?? DEFAULT_TIME_ZONE,
+    weeklyHours: record?.weekly_hours ?? DEFAULT_WEEKLY_HOURS,
+    isDefault: record === null,
+    blackoutDates: blackouts.map(formatBlackoutResponse),
+    updatedAt: record?.updated_at ?? null,
+  };
+}
+
+// ============================================
+// Time zone helpers (Intl-based, no external deps)
+// ============================================
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Offset (ms) of timeZone from UTC at the given instant
+function timeZoneOffsetMs(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// UTC instant for a local wall-clock time (minutes since local midnight) on a local date
+function zonedTimeToUtc(localMidnightUtc: number, minutes: number, timeZone: string): number {
+  const wallClock = localMidnightUtc + minutes * 60_000;
+  const first = wallClock - timeZoneOffsetMs(wallClock, timeZone);
+  // Second pass corrects for DST transitions between the guess and the result
+  return wallClock - timeZoneOffsetMs(first, timeZone);
+}
+
+function parseTimeOfDay(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+  if (value === '24:00') return 24 * 60;
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+// ============================================
+// Interval helpers
+// ============================================
+
+function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval[0] <= last[1]) {
+      last[1] = Math.max(last[1], interval[1]);
+    } else {
+      merged.push([interval[0], interval[1]]);
+    }
+  }
+  return merged;
+}
+
+function intersectIntervals(a: Interval[], b: Interval[]): Interval[] {
+  const result: Interval[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const start = Math.max(a[i][0], b[j][0]);
+    const end = Math.min(a[i][1], b[j][1]);
+    if (start < end) result.push([start, end]);
+    if (a[i][1] < b[j][1]) i++;
+    else j++;
+  }
+  return result;
+}
+
+function subtractIntervals(free: Interval[], busy: Interval[]): Interval[] {
+  let result = free;
+  for (const [busyStart, busyEnd] of busy) {
+    const next: Interval[] = [];
+    for (const [start, end] of result) {
+      if (busyEnd <= start || busyStart >= end) {
+        next.push([start, end]);
+        continue;
+      }
+      if (busyStart > start) next.push([start, busyStart]);
+      if (busyEnd < end) next.push([busyEnd, end]);
+    }
+    result = next;
+  }
+  return result;
+}
+
+// Working-hour intervals for one user across [from, to), minus blackout days
+function workingIntervals(
+  timeZone: string,
+  weeklyHours: WeeklyHours,
+  blackoutDates: Set<string>,
+  from: number,
+  to: number,
+): Interval[] {
+  const intervals: Interval[] = [];
+
+  // Start from the local calendar day containing `from` (one day earlier covers offset edge cases)
+  const localFrom = new Date(from + timeZoneOffsetMs(from, timeZone));
+  let day = Date.UTC(localFrom.getUTCFullYear(), localFrom.getUTCMonth(), localFrom.getUTCDate()) - DAY_MS;
+
+  while (day - DAY_MS <= to) {
+    const dateKey = new Date(day).toISOString().slice(0, 10);
+    const windows = weeklyHours[WEEKDAY_KEYS[new Date(day).getUTCDay()]] ?? [];
+
+    if (!blackoutDates.has(dateKey)) {
+      for (const w of windows) {
+        const startMin = parseTimeOfDay(w.start);
+        const endMin = parseTimeOfDay(w.end);
+        if (startMin === null || endMin === null || endMin <= startMin) continue;
+        const start = Math.max(zonedTimeToUtc(day, startMin, timeZone), from);
+        const end = Math.min(zonedTimeToUtc(day, endMin, timeZone), to);
+        if (start < end) intervals.push([start, end]);
+      }
+    }
+
+    day += DAY_MS;
+  }
+
+  return mergeIntervals(intervals);
+}
+
+// ============================================
+// Slot finder (shared with createInterview auto-schedule)
+// ============================================
+
+export interface FindSlotsOptions {
+  userIds: string[];
+  durationMinutes: number;
+  from: Date;
+  to: Date;
+  stepMinutes?: number;
+  limit?: number;
+  // Windows already claimed in the current request (not yet persisted)
+  extraBusy?: Map<string, ScheduleWindow[]>;
+}
+
+export async function findCommonSlots(ctx: HandlerContext, opts: FindSlotsOptions): Promise<ScheduleWindow[]> {
+  const from = opts.from.getTime();
+  const to = opts.to.getTime();
+  const durationMs = opts.durationMinutes * 60_000;
+  const stepMs = (opts.stepMinutes ?? 30) * 60_000;
+  const limit = opts.limit ?? 20;
+
+  const [availabilityResult, blackoutResult, busyResult] = await Promise.all([
+    ctx.supabaseAdmin
+      .from('interviewer_availability')
+      .select('*')
+      .eq('tenant_id', ctx.tenantId)
+      .in('user_id', opts.userIds),
+    ctx.supabaseAdmin
+      .from('interviewer_blackout_dates')
+      .select('user_id, blackout_date')
+      .eq('tenant_id', ctx.tenantId)
+      .in('user_id', opts.userIds)
+      .gte('blackout_date', new Date(from - DAY_MS).toISOString().slice(0, 10))
+      .lte('blackout_date', new Date(to + DAY_MS).toISOString().slice(0, 10)),
+    // Busy time = every scheduled round overlapping the search window
+    ctx.supabaseAdmin.rpc('find_interviewer_schedule_conflicts', {
+      p_tenant_id: ctx.tenantId,
+      p_user_ids: opts.userIds,
+      p_start: opts.from.toISOString(),
+      p_end: opts.to.toISOString(),
+      p_exclude_round_id: null,
+    }),
+  ]);
+
+  if (availabilityResult.error) {
+    throw new Error(`Failed to fetch availability: ${availabilityResult.error.message}`);
+  }
+  if (blackoutResult.error) {
+    throw new Error(`Failed to fetch blackout dates: ${blackoutResult.error.message}`);
+  }
+  if (busyResult.error) {
+    throw new Error(`Failed to check interviewer schedules: ${busyResult.error.message}`);
+  }
+
+  const availabilityByUser = new Map(
+    ((availabilityResult.data || []) as InterviewerAvailabilityRecord[]).map((a) => [a.user_id, a]),
+  );
+
+  const blackoutsByUser = new Map<string, Set<string>>();
+  for (const b of (blackoutResult.data || []) as { user_id: string; blackout_date: string }[]) {
+    if (!blackoutsByUser.has(b.user_id)) blackoutsByUser.set(b.user_id, new Set());
+    blackoutsByUser.get(b.user_id)!.add(b.blackout_date);
+  }
+
+  const busyByUser = new Map<string, Interval[]>();
+  for (const c of (busyResult.data || []) as ScheduleConflictRecord[]) {
+    if (!busyByUser.has(c.user_id)) busyByUser.set(c.user_id, []);
+    busyByUser.get(c.user_id)!.push([Date.parse(c.scheduled_start), Date.parse(c.scheduled_end)]);
+  }
+  for (const [userId, windows] of opts.extraBusy ?? []) {
+    if (!busyByUser.has(userId)) busyByUser.set(userId, []);
+    for (const w of windows) {
+      busyByUser.get(userId)!.push([Date.parse(w.start), Date.parse(w.end)]);
+    }
+  }
+
+  // Intersect each interviewer's free time
+  let common: Interval[] = [[from, to]];
+  for (const userId of opts.userIds) {
+    const availability = availabilityByUser.get(userId);
+    const working = workingIntervals(
+      availability?.time_zone ?? DEFAULT_TIME_ZONE,
+      availability?.weekly_hours ?? DEFAULT_WEEKLY_HOURS,
+      blackoutsByUser.get(userId) ?? new Set(),
+      from,
+      to,
+    );
+    const free = subtractIntervals(working, mergeIntervals(busyByUser.get(userId) ?? []));
+    common = intersectIntervals(common, free);
+    if (common.length === 0) return [];
+  }
+
+  // Cut common free time into step-aligned slots
+  const slots: ScheduleWindow[] = [];
+  for (const [start, end] of common) {
+    let slotStart = Math.ceil(start / stepMs) * stepMs;
+    while (slotStart + durationMs <= end && slots.length < limit) {
+      slots.push({
+        start: new Date(slotStart).toISOString(),
+        end: new Date(slotStart + durationMs).toISOString(),
+      });
+      slotStart += stepMs;
+    }
+    if (slots.length >= limit) break;
+  }
+
+  return slots;
+}
+
+// ============================================
+// GET /availability?interviewer_ids=...&duration=60
+// ============================================
+
+export async function getAvailableSlots(ctx: HandlerContext): Promise<Response> {
+  const params = ctx.url.searchParams;
+
+  const interviewerIds = [
+    ...new Set((params.get('interviewer_ids') || '').split(',').map((id) => id.trim()).filter(Boolean)),
+  ];
+  if (interviewerIds.length === 0) {
+    throw new Error('interviewer_ids is required');
+  }
+  if (interviewerIds.length > MAX_INTERVIEWERS) {
+    throw new Error(`At most ${MAX_INTERVIEWERS} interviewer_ids are supported`);
+  }
+  for (const uid of interviewerIds) {
+    if (!isValidUUID(uid)) {
+      throw new Error(`Invalid interviewer UUID: ${uid}`);
+    }
+  }
+
+  const duration = parseInt(params.get('duration') || '60', 10);
+  if (!Number.isInteger(duration) || duration < 5 || duration > 480) {
+    throw new Error('duration must be between 5 and 480 minutes');
+  }
+
+  const step = parseInt(params.get('step') || '30', 10);
+  if (!Number.isInteger(step) || step < 5 || step > 240) {
+    throw new Error('step must be between 5 and 240 minutes');
+  }
+
+  const limit = Math.min(Math.max(parseInt(params.get('limit') || '20', 10) || 20, 1), 100);
+
+  const from = params.get('from') ? new Date(params.get('from')!) : new Date();
+  if (Number.isNaN(from.getTime())) {
+    throw new Error('Invalid from format');
+  }
+  const to = params.get('to') ? new Date(params.get('to')!) : new Date(from.getTime() + DEFAULT_SEARCH_DAYS * DAY_MS);
+  if (Number.isNaN(to.getTime())) {
+    throw new Error('Invalid to format');
+  }
+  if (to <= from) {
+    throw new Error('to must be after from');
+  }
+  if (to.getTime() - from.getTime() > MAX_SEARCH_DAYS * DAY_MS) {
+    throw new Error(`Search window cannot exceed ${MAX_SEARCH_DAYS} days`);
+  }
+
+  // Interviewers must be active members of this tenant
+  const { data: profiles, error: profileError } = await ctx.supabaseAdmin
+    .from('user_profiles')
+    .select('id')
+    .eq('tenant_id', ctx.tenantId)
+    .eq('is_active', true)
+    .in('id', interviewerIds);
+
+  if (profileError) {
+    throw new Error(`Failed to validate interviewers: ${profileError.message}`);
+  }
+
+  const foundIds = new Set((profiles || []).map((p: { id: string }) => p.id));
+  for (const uid of interviewerIds) {
+    if (!foundIds.has(uid)) {
+      throw new Error(`Interviewer not found: ${uid}`);
+    }
+  }
+
+  const slots = await findCommonSlots(ctx, {
+    userIds: interviewerIds,
+    durationMinutes: duration,
+    from,
+    to,
+    stepMinutes: step,
+    limit,
+  });
+
+  const response: AvailabilitySlotsResponse = {
+    interviewerIds,
+    durationMinutes: duration,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    slots,
+  };
+
+  return jsonResponse({ data: response });
+}
+
+// ============================================
+// Target user resolution for /availability/users/:userId
+// ============================================
+
+// "me" resolves to the caller. Editing someone else's availability requires HR.
+function resolveTargetUserId(ctx: HandlerContext, forWrite: boolean): string {
+  const raw = ctx.pathParts[2];
+  const userId = raw === 'me' ? ctx.userId : raw;
+
+  if (!userId || !isValidUUID(userId)) {
+    throw new Error('Invalid user_id format');
+  }
+
+  if (forWrite && userId !== ctx.userId && !canManageInterviews(ctx.userRole || '')) {
+    throw new Error('Forbidden: HR role required to edit availability of other users');
+  }
+
+  return userId;
+}
+
+// Ensure the target is an active member of this tenant
+async function assertActiveTenantMember(ctx: HandlerContext, userId: string): Promise<void> {
+  const { data: profile, error } = await ctx.supabaseAdmin
+    .from('user_profiles')
+    .select('id')
+    .eq('id', userId)
+    .eq('tenant_id', ctx.tenantId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error || !profile) {
+    throw new Error('User not found');
+  }
+}
+
+async function loadAvailability(
+  ctx: HandlerContext,
+  userId: string,
+): Promise<InterviewerAvailabilityResponse> {
+  const [availabilityResult, blackoutResult] = await Promise.all([
+    ctx.supabaseAdmin
+      .from('interviewer_availability')
+      .select('*')
+      .eq('tenant_id', ctx.tenantId)
+      .eq('user_id', userId)
+      .maybeSingle(),
+    ctx.supabaseAdmin
+      .from('interviewer_blackout_dates')
+      .select('*')
+      .eq('tenant_id', ctx.tenantId)
+      .eq('user_id', userId)
+      .gte('blackout_date', new Date().toISOString().slice(0, 10))
+      .order('blackout_date'),
+  ]);
+
+  if (availabilityResult.error) {
+    throw new Error(`Failed to fetch availability: ${availabilityResult.error.message}`);
+  }
+  if (blackoutResult.error) {
+    throw new Error(`Failed to fetch blackout dates: ${blackoutResult.error.message}`);
+  }
+
+  return formatAvailabilityResponse(
+    userId,
+    availabilityResult.data as InterviewerAvailabilityRecord | null,
+    (blackoutResult.data || []) as InterviewerBlackoutRecord[],
+  );
+}
+
+// ============================================
+// GET /availability/users/:userId
+// ============================================
+
+export async function getUserAvailability(ctx: HandlerContext): Promise<Response> {
+  const userId = resolveTargetUserId(ctx, false);
+  return jsonResponse({ data: await loadAvailability(ctx, userId) });
+}
+
+// ============================================
+// PUT /availability/users/:userId
+// ============================================
+
+export async function updateUserAvailability(
+  ctx: HandlerContext,
+  req: Request,
+): Promise<Response> {
+  const userId = resolveTargetUserId(ctx, true);
+  const body: UpdateAvailabilityDTO = await req.json();
+
+  if (body.time_zone === undefined && body.weekly_hours === undefined) {
+    throw new Error('time_zone or weekly_hours is required');
+  }
+
+  if (body.time_zone !== undefined && (typeof body.time_zone !== 'string' || !isValidTimeZone(body.time_zone))) {
+    throw new Error(`Invalid time_zone: ${body.time_zone}`);
+  }
+
+  if (body.weekly_hours !== undefined) {
+    if (typeof body.weekly_hours !== 'object' || body.weekly_hours === null || Array.isArray(body.weekly_hours)) {
+      throw new Error('weekly_hours must be an object keyed by weekday');
+    }
+    for (const [day, windows] of Object.entries(body.weekly_hours)) {
+      if (!WEEKDAY_KEYS.includes(day as WeekdayKey)) {
+        throw new Error(`Invalid weekday in weekly_hours: ${day}`);
+      }
+      if (!Array.isArray(windows)) {
+        throw new Error(`weekly_hours.${day} must be an array`);
+      }
+      for (const w of windows) {
+        const start = parseTimeOfDay(w?.start);
+        const end = parseTimeOfDay(w?.end);
+        if (start === null || end === null) {
+          throw new Error(`weekly_hours.${day}: times must be HH:MM`);
+        }
+        if (end <= start) {
+          throw new Error(`weekly_hours.${day}: end must be after start`);
+        }
+      }
+    }
+  }
+
+  await assertActiveTenantMember(ctx, userId);
+
+  const { data: existing } = await ctx.supabaseAdmin
+    .from('interviewer_availability')
+    .select('*')
+    .eq('tenant_id', ctx.tenantId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const { error: upsertError } = await ctx.supabaseAdmin
+    .from('interviewer_availability')
+    .upsert({
+      tenant_id: ctx.tenantId,
+      user_id: userId,
+      time_zone: body.time_zone ?? existing?.time_zone ?? DEFAULT_TIME_ZONE,
+      weekly_hours: body.weekly_hours ?? existing?.weekly_hours ?? DEFAULT_WEEKLY_HOURS,
+    }, { onConflict: 'tenant_id,user_id' });
+
+  if (upsertError) {
+    throw new Error(`Failed to update availability: ${upsertError.message}`);
+  }
+
+  return jsonResponse({ data: await loadAvailability(ctx, userId) });
+}
+
+// ============================================
+// POST /availability/users/:userId/blackouts
+// ============================================
+
+export async function createBlackoutDate(
+  ctx: HandlerContext,
+  req: Request,
+): Promise<Response> {
+  const userId = resolveTargetUserId(ctx, true);
+  const body: CreateBlackoutDTO = await req.json();
+
+  if (!body.blackout_date || !/^\d{4}-\d{2}-\d{2}$/.test(body.blackout_date)) {
+    throw new Error('blackout_date is required (YYYY-MM-DD)');
+  }
+  if (Number.isNaN(Date.parse(body.blackout_date))) {
+    throw new Error('Invalid blackout_date format');
+  }
+
+  await assertActiveTenantMember(ctx, userId);
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('interviewer_blackout_dates')
+    .insert({
+      tenant_id: ctx.tenantId,
+      user_id: userId,
+      blackout_date: body.blackout_date,
+      reason: body.reason?.trim() || null,
+      created_by: ctx.userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`Blackout date ${body.blackout_date} already exists`);
+    }
+    throw new Error(`Failed to create blackout date: ${error.message}`);
+  }
+
+  return jsonResponse({ data: formatBlackoutResponse(data as InterviewerBlackoutRecord) }, 201);
+}
+
+// ============================================
+// DELETE /availability/users/:userId/blackouts/:blackoutId
+// ============================================
+
+export async function deleteBlackoutDate(ctx: HandlerContext): Promise<Response> {
+  const userId = resolveTargetUserId(ctx, true);
+  const blackoutId = ctx.pathParts[4];
+  if (!isValidUUID(blackoutId)) {
+    throw new Error('Invalid blackout_id format');
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('interviewer_blackout_dates')
+    .delete()
+    .eq('id', blackoutId)
+    .eq('tenant_id', ctx.tenantId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete blackout date: ${error.message}`);
+  }
+  if (!data || data.length === 0) {
+    throw new Error('Blackout date not found');
+  }
+
+  return jsonResponse({ message: 'Blackout date deleted successfully' });
+}
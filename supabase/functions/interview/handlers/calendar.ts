@@ -0,0 +1,313 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  CalendarFeedRecord,
+  CalendarFeedResponse,
+  HandlerContext,
+  InterviewerAssignmentRecord,
+  InterviewRecord,
+  InterviewRoundRecord,
+} from '../types.ts';
+import { buildCalendar, type IcsAttendee, type IcsEvent } from '../ical.ts';
+import { calendarResponse, jsonResponse } from '../utils.ts';
+
+// Cancelled/past rounds stay in the feed this long so clients can drop them
+const FEED_LOOKBACK_DAYS = 30;
+
+// ============================================
+// Event assembly (shared with interviews.ts)
+// ============================================
+
+function roundEventUid(roundId: string): string {
+  return `interview-round-${roundId}@rtr`;
+}
+
+// Build one VEVENT per scheduled round. Unscheduled rounds are skipped.
+// SEQUENCE = number of reschedules (+1 once the interview is cancelled) so
+// calendar clients always treat the newest version as authoritative.
+export async function buildRoundEvents(
+  supabaseAdmin: SupabaseClient,
+  tenantId: string,
+  interviews: InterviewRecord[],
+  rounds: InterviewRoundRecord[],
+): Promise<IcsEvent[]> {
+  const scheduled = rounds.filter((r) => r.scheduled_start && r.scheduled_end);
+  if (scheduled.length === 0) return [];
+
+  const interviewMap = new Map(interviews.map((i) => [i.id, i]));
+  const roundIds = scheduled.map((r) => r.id);
+  const applicationIds = [...new Set(interviews.map((i) => i.application_id))];
+  const stageIds = [...new Set(interviews.map((i) => i.pipeline_stage_id))];
+
+  const [assignmentResult, historyResult, appResult, stageResult] = await Promise.all([
+    supabaseAdmin
+      .from('interviewer_assignments')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .in('round_id', roundIds),
+    supabaseAdmin
+      .from('interview_round_schedule_history')
+      .select('round_id')
+      .eq('tenant_id', tenantId)
+      .in('round_id', roundIds),
+    supabaseAdmin
+      .from('applications')
+      .select('id, applicant_name, applicant_email, job_id')
+      .in('id', applicationIds),
+    supabaseAdmin
+      .from('pipeline_stages')
+      .select('id, stage_name')
+      .in('id', stageIds),
+  ]);
+
+  if (assignmentResult.error) {
+    throw new Error(`Failed to fetch assignments: ${assignmentResult.error.message}`);
+  }
+
+  const assignments = (assignmentResult.data || []) as InterviewerAssignmentRecord[];
+  const assignmentsByRound = new Map<string, InterviewerAssignmentRecord[]>();
+  for (const a of assignments) {
+    if (!assignmentsByRound.has(a.round_id)) assignmentsByRound.set(a.round_id, []);
+    assignmentsByRound.get(a.round_id)!.push(a);
+  }
+
+  const rescheduleCounts = new Map<string, number>();
+  for (const h of (historyResult.data || []) as { round_id: string }[]) {
+    rescheduleCounts.set(h.round_id, (rescheduleCounts.get(h.round_id) ?? 0) + 1);
+  }
+
+  const appMap = new Map(
+    ((appResult.data || []) as { id: string; applicant_name: string; applicant_email: string; job_id: string }[])
+      .map((a) => [a.id, a]),
+  );
+  const stageMap = new Map(
+    ((stageResult.data || []) as { id: string; stage_name: string }[]).map((s) => [s.id, s.stage_name]),
+  );
+
+  const jobIds = [...new Set([...appMap.values()].map((a) => a.job_id).filter(Boolean))];
+  const { data: jobs } = jobIds.length > 0
+    ? await supabaseAdmin.from('jobs').select('id, title').in('id', jobIds)
+    : { data: [] };
+  const jobMap = new Map(((jobs || []) as { id: string; title: string }[]).map((j) => [j.id, j.title]));
+
+  // Interviewer + organizer identities (names from profiles, emails from auth)
+  const userIds = [
+    ...new Set([
+      ...assignments.map((a) => a.user_id),
+      ...interviews.map((i) => i.created_by).filter((id): id is string => !!id),
+    ]),
+  ];
+  const { data: profiles } = await supabaseAdmin
+    .from('user_profiles')
+    .select('id, name')
+    .eq('tenant_id', tenantId)
+    .in('id', userIds);
+  const nameMap = new Map(((profiles || []) as { id: string; name: string }[]).map((p) => [p.id, p.name]));
+
+  const emailMap = new Map<string, string>();
+  await Promise.all(userIds.map(async (id) => {
+    const { data } = await supabaseAdmin.auth.admin.getUserById(id);
+    if (data?.user?.email) emailMap.set(id, data.user.email);
+  }));
+
+  const toAttendee = (userId: string): IcsAttendee | null => {
+    const email = emailMap.get(userId);
+    return email ? { name: nameMap.get(userId) ?? null, email } : null;
+  };
+
+  return scheduled.map((round) => {
+    const interview = interviewMap.get(round.interview_id)!;
+    const app = appMap.get(interview.application_id);
+    const jobTitle = app ? jobMap.get(app.job_id) : undefined;
+    const stageName = stageMap.get(interview.pipeline_stage_id);
+    const cancelled = interview.status === 'CANCELLED';
+    const candidateName = app?.applicant_name ?? 'Candidate';
+
+    const attendees = (assignmentsByRound.get(round.id) ?? [])
+      .map((a) => toAttendee(a.user_id))
+      .filter((a): a is IcsAttendee => a !== null);
+    if (app?.applicant_email) {
+      attendees.push({ name: app.applicant_name, email: app.applicant_email });
+    }
+
+    const descriptionLines = [
+      `Candidate: ${app?.applicant_name ?? 'Unknown'}`,
+      jobTitle ? `Job: ${jobTitle}` : null,
+      stageName ? `Stage: ${stageName}` : null,
+      `Round ${round.sequence}: ${round.round_type}`,
+      round.meeting_link ? `Join: ${round.meeting_link}` : null,
+    ].filter((line): line is string => line !== null);
+
+    return {
+      uid: roundEventUid(round.id),
+      sequence: (rescheduleCounts.get(round.id) ?? 0) + (cancelled ? 1 : 0),
+      start: round.scheduled_start!,
+      end: round.scheduled_end!,
+      summary: jobTitle
+        ? `${round.round_type} interview: ${candidateName} (${jobTitle})`
+        : `${round.round_type} interview: ${candidateName}`,
+      description: descriptionLines.join('\n'),
+      location: round.location ?? round.meeting_link,
+      url: round.meeting_link,
+      status: cancelled ? 'CANCELLED' : 'CONFIRMED',
+      organizer: interview.created_by ? toAttendee(interview.created_by) : null,
+      attendees,
+    };
+  });
+}
+
+// ============================================
+// Feed token helpers
+// ============================================
+
+function generateFeedToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function formatFeedResponse(record: CalendarFeedRecord): CalendarFeedResponse {
+  return {
+    token: record.token,
+    feedPath: `/interview/feeds/${record.token}.ics`,
+    createdAt: record.created_at,
+  };
+}
+
+// ============================================
+// POST /feeds - Create (or rotate) the caller's feed token
+// ============================================
+
+export async function createCalendarFeed(ctx: HandlerContext): Promise<Response> {
+  if (!ctx.userId) {
+    throw new Error('Unauthorized: User ID required');
+  }
+
+  // Rotate: revoke any active token first (one active feed per user)
+  const { error: revokeError } = await ctx.supabaseAdmin
+    .from('interviewer_calendar_feeds')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('tenant_id', ctx.tenantId)
+    .eq('user_id', ctx.userId)
+    .is('revoked_at', null);
+
+  if (revokeError) {
+    throw new Error(`Failed to rotate calendar feed: ${revokeError.message}`);
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('interviewer_calendar_feeds')
+    .insert({
+      tenant_id: ctx.tenantId,
+      user_id: ctx.userId,
+      token: generateFeedToken(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create calendar feed: ${error.message}`);
+  }
+
+  return jsonResponse({ data: formatFeedResponse(data as CalendarFeedRecord) }, 201);
+}
+
+// ============================================
+// DELETE /feeds - Revoke the caller's feed token
+// ============================================
+
+export async function revokeCalendarFeed(ctx: HandlerContext): Promise<Response> {
+  if (!ctx.userId) {
+    throw new Error('Unauthorized: User ID required');
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('interviewer_calendar_feeds')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('tenant_id', ctx.tenantId)
+    .eq('user_id', ctx.userId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to revoke calendar feed: ${error.message}`);
+  }
+  if (!data || data.length === 0) {
+    throw new Error('Calendar feed not found');
+  }
+
+  return jsonResponse({ message: 'Calendar feed revoked successfully' });
+}
+
+// ============================================
+// GET /feeds/:token.ics (Public - token is the credential)
+// ============================================
+
+export async function getCalendarFeed(ctx: HandlerContext): Promise<Response> {
+  const token = (ctx.pathParts[1] || '').replace(/\.ics$/, '');
+  if (!/^[0-9a-f]{64}$/.test(token)) {
+    throw new Error('Calendar feed not found');
+  }
+
+  const { data: feed } = await ctx.supabaseAdmin
+    .from('interviewer_calendar_feeds')
+    .select('*')
+    .eq('token', token)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (!feed) {
+    throw new Error('Calendar feed not found');
+  }
+
+  const feedRecord = feed as CalendarFeedRecord;
+
+  // Deactivated users lose their feed
+  const { data: profile } = await ctx.supabaseAdmin
+    .from('user_profiles')
+    .select('id, name')
+    .eq('id', feedRecord.user_id)
+    .eq('tenant_id', feedRecord.tenant_id)
+    .eq('is_active', true)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (!profile) {
+    throw new Error('Calendar feed not found');
+  }
+
+  // Everything assigned to this interviewer with a scheduled slot
+  const since = new Date(Date.now() - FEED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data: assignments, error: assignError } = await ctx.supabaseAdmin
+    .from('interviewer_assignments')
+    .select('round:interview_rounds!inner(*)')
+    .eq('tenant_id', feedRecord.tenant_id)
+    .eq('user_id', feedRecord.user_id)
+    .not('round.scheduled_start', 'is', null)
+    .gte('round.scheduled_end', since);
+
+  if (assignError) {
+    throw new Error(`Failed to fetch assignments: ${assignError.message}`);
+  }
+
+  const rounds = ((assignments || []) as unknown as { round: InterviewRoundRecord }[]).map((a) => a.round);
+  const interviewIds = [...new Set(rounds.map((r) => r.interview_id))];
+
+  const { data: interviews } = interviewIds.length > 0
+    ? await ctx.supabaseAdmin
+      .from('interviews')
+      .select('*')
+      .eq('tenant_id', feedRecord.tenant_id)
+      .in('id', interviewIds)
+    : { data: [] };
+
+  const interviewRecords = (interviews || []) as InterviewRecord[];
+  const knownInterviews = new Set(interviewRecords.map((i) => i.id));
+
+  const events = await buildRoundEvents(
+    ctx.supabaseAdmin,
+    feedRecord.tenant_id,
+    interviewRecords,
+    rounds.filter((r) => knownInterviews.has(r.interview_id)),
+  );
+
+  return calendarResponse(buildCalendar('PUBLISH', events, `Interviews - ${profile.name}`));
+}
@@ -1,4 +1,5 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { notifyUsers } from '../../_shared/inbox.ts';
 import type {
   CreateInterviewDTO,
   HandlerContext,
@@ -7,9 +8,20 @@ import type {
   InterviewResponse,
   InterviewRoundRecord,
   InterviewRoundResponse,
+  RescheduleRoundDTO,
+  RoundScheduleHistoryRecord,
+  RoundScheduleHistoryResponse,
+  ScheduleConflictRecord,
+  ScheduleWindow,
   UpdateInterviewDTO,
 } from '../types.ts';
-import { isValidUUID, jsonResponse } from '../utils.ts';
+import { calendarResponse, isValidUUID, jsonResponse } from '../utils.ts';
+import { buildCalendar } from '../ical.ts';
+import { findCommonSlots } from './availability.ts';
+import { buildRoundEvents } from './calendar.ts';
+
+// How far ahead auto_schedule looks for a common free slot
+const AUTO_SCHEDULE_SEARCH_DAYS = 14;
 
 // ============================================
 // Formatters
@@ -37,6 +49,11 @@ function formatRoundResponse(
     roundType: round.round_type,
     sequence: round.sequence,
     evaluationInstanceId: round.evaluation_instance_id,
+    scheduledStart: round.scheduled_start,
+    scheduledEnd: round.scheduled_end,
+    durationMinutes: round.duration_minutes,
+    location: round.location,
+    meetingLink: round.meeting_link,
     createdAt: round.created_at,
     assignments: assignments.map((a) => ({
       id: a.id,
@@ -47,6 +64,117 @@ function formatRoundResponse(
   };
 }
 
+// Applicant name for inbox notification titles
+async function fetchApplicantName(ctx: HandlerContext, applicationId: string): Promise<string> {
+  const { data } = await ctx.supabaseAdmin
+    .from('applications')
+    .select('applicant_name')
+    .eq('id', applicationId)
+    .eq('tenant_id', ctx.tenantId)
+    .single();
+  return data?.applicant_name || 'a candidate';
+}
+
+function formatScheduleHistoryResponse(record: RoundScheduleHistoryRecord): RoundScheduleHistoryResponse {
+  return {
+    id: record.id,
+    roundId: record.round_id,
+    previousStart: record.previous_start,
+    previousEnd: record.previous_end,
+    previousLocation: record.previous_location,
+    previousMeetingLink: record.previous_meeting_link,
+    newStart: record.new_start,
+    newEnd: record.new_end,
+    reason: record.reason,
+    changedBy: record.changed_by,
+    changedAt: record.changed_at,
+  };
+}
+
+// ============================================
+// Scheduling helpers
+// ============================================
+
+// Resolve a round's window from scheduled_start + (scheduled_end | duration_minutes).
+// Returns null for unscheduled rounds.
+function resolveScheduleWindow(
+  input: { scheduled_start?: string; scheduled_end?: string; duration_minutes?: number },
+  label: string,
+): ScheduleWindow | null {
+  if (input.scheduled_start === undefined || input.scheduled_start === null) {
+    if (input.scheduled_end !== undefined || input.duration_minutes !== undefined) {
+      throw new Error(`${label}scheduled_start is required when scheduled_end or duration_minutes is set`);
+    }
+    return null;
+  }
+
+  const startMs = Date.parse(input.scheduled_start);
+  if (Number.isNaN(startMs)) {
+    throw new Error(`${label}Invalid scheduled_start format`);
+  }
+
+  if (input.scheduled_end !== undefined && input.duration_minutes !== undefined) {
+    throw new Error(`${label}Provide either scheduled_end or duration_minutes, not both`);
+  }
+
+  let endMs: number;
+  if (input.scheduled_end !== undefined) {
+    endMs = Date.parse(input.scheduled_end);
+    if (Number.isNaN(endMs)) {
+      throw new Error(`${label}Invalid scheduled_end format`);
+    }
+  } else if (input.duration_minutes !== undefined) {
+    if (!Number.isInteger(input.duration_minutes) || input.duration_minutes < 1) {
+      throw new Error(`${label}duration_minutes must be a positive integer`);
+    }
+    endMs = startMs + input.duration_minutes * 60_000;
+  } else {
+    throw new Error(`${label}scheduled_end or duration_minutes is required with scheduled_start`);
+  }
+
+  if (endMs <= startMs) {
+    throw new Error(`${label}scheduled_end must be after scheduled_start`);
+  }
+
+  return { start: new Date(startMs).toISOString(), end: new Date(endMs).toISOString() };
+}
+
+function windowsOverlap(a: ScheduleWindow, b: ScheduleWindow): boolean {
+  return Date.parse(a.start) < Date.parse(b.end) && Date.parse(b.start) < Date.parse(a.end);
+}
+
+// Pre-check for double-booking. The DB triggers enforce the same rule;
+// this gives a clean error before anything is written.
+async function assertNoInterviewerConflicts(
+  ctx: HandlerContext,
+  userIds: string[],
+  window: ScheduleWindow,
+  excludeRoundId?: string,
+): Promise<void> {
+  if (userIds.length === 0) return;
+
+  const { data, error } = await ctx.supabaseAdmin.rpc('find_interviewer_schedule_conflicts', {
+    p_tenant_id: ctx.tenantId,
+    p_user_ids: userIds,
+    p_start: window.start,
+    p_end: window.end,
+    p_exclude_round_id: excludeRoundId ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to check interviewer schedules: ${error.message}`);
+  }
+
+  const conflicts = (data || []) as ScheduleConflictRecord[];
+  if (conflicts.length > 0) {
+    const c = conflicts[0];
+    throw new Error(
+      `INTERVIEWER_CONFLICT: Interviewer ${c.user_id} is already booked for round ${c.round_id} ` +
+        `(${c.scheduled_start} - ${c.scheduled_end})`,
+    );
+  }
+}
+
 // ============================================
 // POST /applications/:id/interviews
 // ============================================
@@ -95,6 +223,32 @@ export async function createInterview(
     if (!round.evaluation_template_id || !isValidUUID(round.evaluation_template_id)) {
       throw new Error(`Round "${round.round_type}" must have a valid evaluation_template_id`);
     }
+    if (round.location != null && typeof round.location !== 'string') {
+      throw new Error(`Round "${round.round_type}": location must be a string`);
+    }
+    if (round.meeting_link != null && typeof round.meeting_link !== 'string') {
+      throw new Error(`Round "${round.round_type}": meeting_link must be a string`);
+    }
+    if (round.auto_schedule) {
+      if (round.scheduled_start !== undefined || round.scheduled_end !== undefined) {
+        throw new Error(
+          `Round "${round.round_type}": auto_schedule cannot be combined with scheduled_start/scheduled_end`,
+        );
+      }
+      if (!Number.isInteger(round.duration_minutes) || round.duration_minutes! < 1) {
+        throw new Error(`Round "${round.round_type}": duration_minutes is required with auto_schedule`);
+      }
+    }
+  }
+
+  // Resolve schedule windows (optional per round), keyed by sequence.
+  // auto_schedule rounds are filled in below once templates are validated.
+  const windowBySequence = new Map<number, ScheduleWindow | null>();
+  for (const round of body.rounds) {
+    windowBySequence.set(
+      round.sequence,
+      round.auto_schedule ? null : resolveScheduleWindow(round, `Round "${round.round_type}": `),
+    );
   }
 
   // Batch-validate evaluation templates — all must exist, be active, and belong to tenant
@@ -169,6 +323,62 @@ export async function createInterview(
     }
   }
 
+  // Auto-schedule: first common free slot per round, in sequence order,
+  // never before an earlier round ends and never on top of slots claimed in this request
+  const autoRounds = body.rounds.filter((r) => r.auto_schedule).sort((a, b) => a.sequence - b.sequence);
+  for (const round of autoRounds) {
+    const earlierEnds = body.rounds
+      .filter((r) => r.sequence < round.sequence)
+      .map((r) => windowBySequence.get(r.sequence)?.end)
+      .filter((end): end is string => !!end)
+      .map((end) => Date.parse(end));
+    const from = new Date(Math.max(Date.now(), ...earlierEnds));
+
+    const extraBusy = new Map<string, ScheduleWindow[]>();
+    for (const other of body.rounds) {
+      const otherWindow = windowBySequence.get(other.sequence);
+      if (!otherWindow || other === round) continue;
+      for (const uid of other.interviewer_ids) {
+        if (!extraBusy.has(uid)) extraBusy.set(uid, []);
+        extraBusy.get(uid)!.push(otherWindow);
+      }
+    }
+
+    const [slot] = await findCommonSlots(ctx, {
+      userIds: round.interviewer_ids,
+      durationMinutes: round.duration_minutes!,
+      from,
+      to: new Date(from.getTime() + AUTO_SCHEDULE_SEARCH_DAYS * 24 * 60 * 60 * 1000),
+      limit: 1,
+      extraBusy,
+    });
+
+    if (!slot) {
+      throw new Error(
+        `NO_AVAILABLE_SLOT: No common free slot for round "${round.round_type}" ` +
+          `in the next ${AUTO_SCHEDULE_SEARCH_DAYS} days`,
+      );
+    }
+    windowBySequence.set(round.sequence, slot);
+  }
+
+  // Reject overlapping windows for the same interviewer within this request
+  const scheduledRounds = body.rounds.filter((r) => windowBySequence.get(r.sequence));
+  for (let i = 0; i < scheduledRounds.length; i++) {
+    for (let j = i + 1; j < scheduledRounds.length; j++) {
+      const a = scheduledRounds[i];
+      const b = scheduledRounds[j];
+      if (!windowsOverlap(windowBySequence.get(a.sequence)!, windowBySequence.get(b.sequence)!)) continue;
+      const shared = a.interviewer_ids.find((uid) => b.interviewer_ids.includes(uid));
+      if (shared) {
+        throw new Error(
+          `INTERVIEWER_CONFLICT: Interviewer ${shared} is booked for overlapping rounds ` +
+            `"${a.round_type}" and "${b.round_type}"`,
+        );
+      }
+    }
+  }
+
   // Verify application exists
   const { data: app, error: appError } = await ctx.supabaseAdmin
     .from('applications')
@@ -180,6 +390,11 @@ export async function createInterview(
     throw new Error('Application not found');
   }
 
+  // Reject double-booking against already scheduled rounds
+  for (const round of scheduledRounds) {
+    await assertNoInterviewerConflicts(ctx, round.interviewer_ids, windowBySequence.get(round.sequence)!);
+  }
+
   // Insert interview
   const { data: interview, error: interviewError } = await ctx.supabaseAdmin
     .from('interviews')
@@ -219,6 +434,7 @@ export async function createInterview(
 
   try {
     for (const roundDTO of body.rounds) {
+      const window = windowBySequence.get(roundDTO.sequence) ?? null;
       const { data: round, error: roundError } = await ctx.supabaseAdmin
         .from('interview_rounds')
         .insert({
@@ -227,6 +443,10 @@ export async function createInterview(
           round_type: roundDTO.round_type.trim(),
           sequence: roundDTO.sequence,
           evaluation_template_id: roundDTO.evaluation_template_id,
+          scheduled_start: window?.start ?? null,
+          scheduled_end: window?.end ?? null,
+          location: roundDTO.location?.trim() || null,
+          meeting_link: roundDTO.meeting_link?.trim() || null,
         })
         .select()
         .single();
@@ -334,6 +554,26 @@ export async function createInterview(
     throw error;
   }
 
+  // Inbox: each interviewer hears about the rounds they were assigned to
+  const applicantName = await fetchApplicantName(ctx, applicationId);
+  await notifyUsers(
+    ctx.supabaseAdmin,
+    roundResponses.flatMap((round) =>
+      (round.assignments || []).map((a) => ({
+        tenantId: ctx.tenantId,
+        userId: a.userId,
+        type: 'INTERVIEW_ASSIGNED' as const,
+        title: `You are interviewing ${applicantName} (${round.roundType})`,
+        applicationId,
+        resourceType: 'interview_round',
+        resourceId: round.id,
+        actorId: ctx.userId,
+        metadata: { interviewId: interviewRecord.id, scheduledStart: round.scheduledStart },
+        dedupeKey: `interview_round:${round.id}`,
+      }))
+    ),
+  );
+
   const response = formatInterviewResponse(interviewRecord);
   response.rounds = roundResponses;
 
@@ -488,7 +728,213 @@ export async function updateInterview(
     throw new Error(`Failed to update interview: ${updateError.message}`);
   }
 
-  return jsonResponse({ data: formatInterviewResponse(updated as InterviewRecord) });
+  const updatedRecord = updated as InterviewRecord;
+
+  // METHOD:CANCEL calendar for every scheduled round so clients drop the events
+  const { data: rounds } = await ctx.supabaseAdmin
+    .from('interview_rounds')
+    .select('*')
+    .eq('interview_id', interviewId)
+    .order('sequence');
+
+  const events = await buildRoundEvents(
+    ctx.supabaseAdmin,
+    ctx.tenantId,
+    [updatedRecord],
+    (rounds || []) as InterviewRoundRecord[],
+  );
+
+  // Inbox: tell every assigned interviewer
+  const roundIds = ((rounds || []) as InterviewRoundRecord[]).map((r) => r.id);
+  if (roundIds.length > 0) {
+    const { data: assignments } = await ctx.supabaseAdmin
+      .from('interviewer_assignments')
+      .select('user_id')
+      .in('round_id', roundIds);
+
+    const applicantName = await fetchApplicantName(ctx, updatedRecord.application_id);
+    const userIds = [...new Set((assignments || []).map((a: { user_id: string }) => a.user_id))];
+    await notifyUsers(
+      ctx.supabaseAdmin,
+      userIds.map((userId) => ({
+        tenantId: ctx.tenantId,
+        userId,
+        type: 'INTERVIEW_CANCELLED' as const,
+        title: `Interview with ${applicantName} was cancelled`,
+        applicationId: updatedRecord.application_id,
+        resourceType: 'interview',
+        resourceId: interviewId,
+        actorId: ctx.userId,
+        dedupeKey: `interview_cancelled:${interviewId}`,
+      })),
+    );
+  }
+
+  const response = formatInterviewResponse(updatedRecord);
+  response.calendarCancellation = events.length > 0 ? buildCalendar('CANCEL', events) : null;
+
+  return jsonResponse({ data: response });
+}
+
+// ============================================
+// Round lookup shared by the round-level routes
+// ============================================
+
+async function fetchRoundForInterview(
+  ctx: HandlerContext,
+): Promise<{ interview: InterviewRecord; round: InterviewRoundRecord }> {
+  const interviewId = ctx.pathParts[1];
+  const roundId = ctx.pathParts[3];
+  if (!isValidUUID(interviewId)) {
+    throw new Error('Invalid interview_id format');
+  }
+  if (!isValidUUID(roundId)) {
+    throw new Error('Invalid round_id format');
+  }
+
+  const { data: interview, error: intError } = await ctx.supabaseAdmin
+    .from('interviews')
+    .select('*')
+    .eq('id', interviewId)
+    .eq('tenant_id', ctx.tenantId)
+    .single();
+
+  if (intError || !interview) {
+    throw new Error('Interview not found');
+  }
+
+  const { data: round, error: roundError } = await ctx.supabaseAdmin
+    .from('interview_rounds')
+    .select('*')
+    .eq('id', roundId)
+    .eq('interview_id', interviewId)
+    .single();
+
+  if (roundError || !round) {
+    throw new Error('Interview round not found');
+  }
+
+  return { interview: interview as InterviewRecord, round: round as InterviewRoundRecord };
+}
+
+// ============================================
+// PATCH /interviews/:id/rounds/:roundId/reschedule
+// ============================================
+
+export async function rescheduleRound(
+  ctx: HandlerContext,
+  req: Request,
+): Promise<Response> {
+  const { interview, round } = await fetchRoundForInterview(ctx);
+
+  const body: RescheduleRoundDTO = await req.json();
+
+  const window = resolveScheduleWindow(body, '');
+  if (!window) {
+    throw new Error('scheduled_start is required');
+  }
+  if (body.location != null && typeof body.location !== 'string') {
+    throw new Error('location must be a string');
+  }
+  if (body.meeting_link != null && typeof body.meeting_link !== 'string') {
+    throw new Error('meeting_link must be a string');
+  }
+
+  if (interview.status === 'CANCELLED') {
+    throw new Error('INVALID_ACTION: Cannot reschedule a round of a CANCELLED interview');
+  }
+
+  // Fetch assignments for conflict pre-check and response
+  const { data: assignments, error: assignError } = await ctx.supabaseAdmin
+    .from('interviewer_assignments')
+    .select('*')
+    .eq('round_id', round.id);
+
+  if (assignError) {
+    throw new Error(`Failed to fetch assignments: ${assignError.message}`);
+  }
+
+  const roundAssignments = (assignments || []) as InterviewerAssignmentRecord[];
+  const userIds = roundAssignments.map((a) => a.user_id);
+
+  await assertNoInterviewerConflicts(ctx, userIds, window, round.id);
+
+  // Omitted location/meeting_link keep their current value; explicit null clears
+  const location = body.location === undefined ? round.location : (body.location?.trim() || null);
+  const meetingLink = body.meeting_link === undefined ? round.meeting_link : (body.meeting_link?.trim() || null);
+
+  const { data: updated, error: rpcError } = await ctx.supabaseAdmin.rpc('reschedule_interview_round', {
+    p_tenant_id: ctx.tenantId,
+    p_round_id: round.id,
+    p_user_id: ctx.userId,
+    p_scheduled_start: window.start,
+    p_scheduled_end: window.end,
+    p_location: location,
+    p_meeting_link: meetingLink,
+    p_reason: body.reason?.trim() || null,
+  });
+
+  if (rpcError) {
+    throw new Error(rpcError.message);
+  }
+
+  const userNameMap = new Map<string, string>();
+  if (userIds.length > 0) {
+    const { data: profiles } = await ctx.supabaseAdmin
+      .from('user_profiles')
+      .select('id, name')
+      .eq('tenant_id', ctx.tenantId)
+      .in('id', userIds);
+    for (const p of profiles || []) {
+      userNameMap.set(p.id, p.name);
+    }
+  }
+
+  return jsonResponse({
+    data: formatRoundResponse(updated as InterviewRoundRecord, roundAssignments, userNameMap),
+  });
+}
+
+// ============================================
+// GET /interviews/:id/rounds/:roundId/ics
+// ============================================
+
+export async function getRoundCalendar(ctx: HandlerContext): Promise<Response> {
+  const { interview, round } = await fetchRoundForInterview(ctx);
+
+  if (!round.scheduled_start) {
+    throw new Error('VALIDATION: Round has no scheduled slot');
+  }
+
+  const events = await buildRoundEvents(ctx.supabaseAdmin, ctx.tenantId, [interview], [round]);
+
+  // Cancelled interviews render as METHOD:CANCEL so re-importing removes the event
+  const method = interview.status === 'CANCELLED' ? 'CANCEL' : 'REQUEST';
+
+  return calendarResponse(buildCalendar(method, events), `interview-round-${round.id}.ics`);
+}
+
+// ============================================
+// GET /interviews/:id/rounds/:roundId/schedule-history
+// ============================================
+
+export async function listRoundScheduleHistory(ctx: HandlerContext): Promise<Response> {
+  const { round } = await fetchRoundForInterview(ctx);
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('interview_round_schedule_history')
+    .select('*')
+    .eq('round_id', round.id)
+    .eq('tenant_id', ctx.tenantId)
+    .order('changed_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch schedule history: ${error.message}`);
+  }
+
+  const formatted = (data || []).map((h: RoundScheduleHistoryRecord) => formatScheduleHistoryResponse(h));
+
+  return jsonResponse({ data: formatted });
 }
 
 // ============================================
@@ -0,0 +1,151 @@
+// ============================================
+// iCalendar (RFC 5545) rendering
+// ============================================
+// Pure string building — no I/O. Handlers load the data and call buildCalendar().
+
+export type IcsMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+export interface IcsAttendee {
+  name: string | null;
+  email: string;
+}
+
+export interface IcsEvent {
+  uid: string;
+  sequence: number;
+  start: string;
+  end: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status: 'CONFIRMED' | 'CANCELLED';
+  organizer?: IcsAttendee | null;
+  attendees: IcsAttendee[];
+}
+
+const PRODID = '-//RTR//Interview Service//EN';
+
+// YYYYMMDDTHHMMSSZ
+function formatUtc(value: string | Date): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// CONTROL characters (RFC 5545 §3.1) other than HTAB would end or corrupt the content line
+function isControlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return (code < 0x20 && char !== '\t') || code === 0x7f;
+}
+
+function stripControlChars(value: string): string {
+  return Array.from(value).filter((char) => !isControlChar(char)).join('');
+}
+
+// TEXT value escaping (RFC 5545 §3.3.11)
+function escapeText(value: string): string {
+  return stripControlChars(
+    value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n'),
+  );
+}
+
+// Quoted parameter values cannot contain DQUOTE
+function escapeParam(value: string): string {
+  return stripControlChars(value.replace(/"/g, "'"));
+}
+
+// URI values (mailto:, URL) have no escaping, so anything with control characters is dropped
+function safeUri(value: string): string | null {
+  return Array.from(value).some(isControlChar) || value.includes('\t') ? null : value;
+}
+
+// Fold lines longer than 75 octets (RFC 5545 §3.1)
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatAttendee(
+  property: 'ORGANIZER' | 'ATTENDEE',
+  attendee: IcsAttendee,
+  method: IcsMethod,
+): string | null {
+  const email = safeUri(attendee.email);
+  if (!email) return null;
+
+  const params = attendee.name ? `;CN="${escapeParam(attendee.name)}"` : '';
+  if (property === 'ORGANIZER') {
+    return `ORGANIZER${params}:mailto:${email}`;
+  }
+  const rsvp = method === 'REQUEST' ? ';RSVP=TRUE' : '';
+  return `ATTENDEE${params};ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION${rsvp}:mailto:${email}`;
+}
+
+function buildEvent(event: IcsEvent, method: IcsMethod, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `STATUS:${event.status}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  const url = event.url ? safeUri(event.url) : null;
+  if (url) lines.push(`URL:${url}`);
+  const organizer = event.organizer ? formatAttendee('ORGANIZER', event.organizer, method) : null;
+  if (organizer) lines.push(organizer);
+  for (const attendee of event.attendees) {
+    const line = formatAttendee('ATTENDEE', attendee, method);
+    if (line) lines.push(line);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// Render a VCALENDAR. METHOD:CANCEL forces every event to STATUS:CANCELLED.
+export function buildCalendar(method: IcsMethod, events: IcsEvent[], calendarName?: string): string {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+  ];
+
+  if (calendarName) lines.push(`X-WR-CALNAME:${escapeText(calendarName)}`);
+
+  for (const event of events) {
+    const effective = method === 'CANCEL' ? { ...event, status: 'CANCELLED' as const } : event;
+    lines.push(...buildEvent(effective, method, stamp));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -5,6 +5,8 @@ import type { HandlerContext } from './types.ts';
 
 // Import handlers
 import * as interviewHandlers from './handlers/interviews.ts';
+import * as availabilityHandlers from './handlers/availability.ts';
+import * as calendarHandlers from './handlers/calendar.ts';
 
 // Parse path, removing function name prefix
 function parsePath(url: string): string[] {
@@ -33,10 +35,26 @@ Deno.serve(async (req: Request) => {
       return textResponse('rtr-interview-service: ok');
     }
 
-    // ==================== ALL ROUTES REQUIRE AUTH ====================
     const supabaseAdmin = getSupabaseAdmin();
     const supabaseUser = getSupabaseClient(req);
 
+    // ==================== CALENDAR FEED (Public - token in URL) ====================
+    // GET /feeds/:token.ics - Subscription feed; calendar clients cannot send auth headers
+    if (method === 'GET' && pathParts[0] === 'feeds' && pathParts[1]?.endsWith('.ics')) {
+      const ctx: HandlerContext = {
+        supabaseAdmin,
+        supabaseUser,
+        tenantId: '', // Resolved from the feed token
+        pathParts,
+        method,
+        url,
+        isServiceRole: false,
+      };
+      return await calendarHandlers.getCalendarFeed(ctx);
+    }
+
+    // ==================== ALL ROUTES REQUIRE AUTH ====================
+
     const user = await getUserFromToken(supabaseUser);
     if (!user) {
       throw new Error('Unauthorized: Invalid or missing token');
@@ -75,6 +93,50 @@ Deno.serve(async (req: Request) => {
       return await interviewHandlers.listMyPending(ctx);
     }
 
+    // ==================== CALENDAR FEED MANAGEMENT ====================
+    // POST /feeds - Create or rotate the caller's .ics feed token
+    if (method === 'POST' && fullPath === 'feeds') {
+      return await calendarHandlers.createCalendarFeed(ctx);
+    }
+
+    // DELETE /feeds - Revoke the caller's .ics feed token
+    if (method === 'DELETE' && fullPath === 'feeds') {
+      return await calendarHandlers.revokeCalendarFeed(ctx);
+    }
+
+    // ==================== AVAILABILITY ROUTES ====================
+    // Routes: /availability, /availability/users/:userId (userId may be "me")
+    if (pathParts[0] === 'availability') {
+      // GET /availability?interviewer_ids=...&duration=60 - Common free slots
+      if (method === 'GET' && !pathParts[1]) {
+        return await availabilityHandlers.getAvailableSlots(ctx);
+      }
+
+      if (pathParts[1] === 'users' && pathParts[2]) {
+        const action = pathParts[3];
+
+        // GET /availability/users/:userId - Working hours, time zone, upcoming blackouts
+        if (method === 'GET' && !action) {
+          return await availabilityHandlers.getUserAvailability(ctx);
+        }
+
+        // PUT /availability/users/:userId - Set working hours / time zone (self or HR)
+        if (method === 'PUT' && !action) {
+          return await availabilityHandlers.updateUserAvailability(ctx, req);
+        }
+
+        // POST /availability/users/:userId/blackouts - Add blackout date (self or HR)
+        if (method === 'POST' && action === 'blackouts' && !pathParts[4]) {
+          return await availabilityHandlers.createBlackoutDate(ctx, req);
+        }
+
+        // DELETE /availability/users/:userId/blackouts/:blackoutId - Remove blackout date (self or HR)
+        if (method === 'DELETE' && action === 'blackouts' && pathParts[4]) {
+          return await availabilityHandlers.deleteBlackoutDate(ctx);
+        }
+      }
+    }
+
     // ==================== APPLICATION-BOUND ROUTES ====================
     // Routes: /applications/:id/interviews
     if (pathParts[0] === 'applications' && pathParts[1]) {
@@ -95,7 +157,29 @@ Deno.serve(async (req: Request) => {
     }
 
     // ==================== INTERVIEW INSTANCE ROUTES ====================
-    // Routes: /interviews/:id
+    // Routes: /interviews/:id, /interviews/:id/rounds/:roundId/*
+    if (pathParts[0] === 'interviews' && pathParts[1] && pathParts[2] === 'rounds' && pathParts[3]) {
+      const action = pathParts[4];
+
+      // PATCH /interviews/:id/rounds/:roundId/reschedule - Move a round to a new slot
+      if (method === 'PATCH' && action === 'reschedule') {
+        if (!canManageInterviews(user.role)) {
+          throw new Error('Forbidden: HR role required');
+        }
+        return await interviewHandlers.rescheduleRound(ctx, req);
+      }
+
+      // GET /interviews/:id/rounds/:roundId/ics - Round as an iCalendar VEVENT
+      if (method === 'GET' && action === 'ics') {
+        return await interviewHandlers.getRoundCalendar(ctx);
+      }
+
+      // GET /interviews/:id/rounds/:roundId/schedule-history - Previous slots of a round
+      if (method === 'GET' && action === 'schedule-history') {
+        return await interviewHandlers.listRoundScheduleHistory(ctx);
+      }
+    }
+
     if (pathParts[0] === 'interviews' && pathParts[1]) {
       // GET /interviews/:id - Get interview detail
       if (method === 'GET') {
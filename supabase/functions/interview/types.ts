@@ -39,9 +39,75 @@ export interface InterviewRoundRecord {
   sequence: number;
   evaluation_template_id: string | null;
   evaluation_instance_id: string | null;
+  scheduled_start: string | null;
+  scheduled_end: string | null;
+  duration_minutes: number | null;
+  location: string | null;
+  meeting_link: string | null;
   created_at: string;
 }
 
+export interface RoundScheduleHistoryRecord {
+  id: string;
+  tenant_id: string;
+  round_id: string;
+  previous_start: string | null;
+  previous_end: string | null;
+  previous_location: string | null;
+  previous_meeting_link: string | null;
+  new_start: string;
+  new_end: string;
+  reason: string | null;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+export interface ScheduleConflictRecord {
+  user_id: string;
+  round_id: string;
+  interview_id: string;
+  scheduled_start: string;
+  scheduled_end: string;
+}
+
+export type WeekdayKey = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface WorkingHoursWindow {
+  start: string; // HH:MM local time
+  end: string; // HH:MM local time
+}
+
+export type WeeklyHours = Partial<Record<WeekdayKey, WorkingHoursWindow[]>>;
+
+export interface InterviewerAvailabilityRecord {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  time_zone: string;
+  weekly_hours: WeeklyHours;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InterviewerBlackoutRecord {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  blackout_date: string;
+  reason: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface CalendarFeedRecord {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  token: string;
+  created_at: string;
+  revoked_at: string | null;
+}
+
 export interface InterviewerAssignmentRecord {
   id: string;
   tenant_id: string;
@@ -63,6 +129,7 @@ export interface InterviewResponse {
   createdAt: string;
   updatedAt: string;
   rounds?: InterviewRoundResponse[];
+  calendarCancellation?: string | null; // METHOD:CANCEL .ics, set when an interview is cancelled
 }
 
 export interface InterviewRoundResponse {
@@ -70,10 +137,29 @@ export interface InterviewRoundResponse {
   roundType: string;
   sequence: number;
   evaluationInstanceId: string | null;
+  scheduledStart: string | null;
+  scheduledEnd: string | null;
+  durationMinutes: number | null;
+  location: string | null;
+  meetingLink: string | null;
   createdAt: string;
   assignments?: InterviewerAssignmentResponse[];
 }
 
+export interface RoundScheduleHistoryResponse {
+  id: string;
+  roundId: string;
+  previousStart: string | null;
+  previousEnd: string | null;
+  previousLocation: string | null;
+  previousMeetingLink: string | null;
+  newStart: string;
+  newEnd: string;
+  reason: string | null;
+  changedBy: string | null;
+  changedAt: string;
+}
+
 export interface InterviewerAssignmentResponse {
   id: string;
   userId: string;
@@ -81,6 +167,41 @@ export interface InterviewerAssignmentResponse {
   createdAt: string;
 }
 
+export interface ScheduleWindow {
+  start: string;
+  end: string;
+}
+
+export interface InterviewerAvailabilityResponse {
+  userId: string;
+  timeZone: string;
+  weeklyHours: WeeklyHours;
+  isDefault: boolean;
+  blackoutDates: InterviewerBlackoutResponse[];
+  updatedAt: string | null;
+}
+
+export interface InterviewerBlackoutResponse {
+  id: string;
+  date: string;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface AvailabilitySlotsResponse {
+  interviewerIds: string[];
+  durationMinutes: number;
+  from: string;
+  to: string;
+  slots: ScheduleWindow[];
+}
+
+export interface CalendarFeedResponse {
+  token: string;
+  feedPath: string;
+  createdAt: string;
+}
+
 export interface MyPendingRoundResponse {
   roundId: string;
   interviewId: string;
@@ -104,6 +225,12 @@ export interface CreateInterviewRoundDTO {
   sequence: number;
   interviewer_ids: string[];
   evaluation_template_id: string;
+  scheduled_start?: string;
+  scheduled_end?: string;
+  duration_minutes?: number; // alternative to scheduled_end
+  auto_schedule?: boolean; // pick the first common free slot (requires duration_minutes)
+  location?: string | null;
+  meeting_link?: string | null;
 }
 
 export interface CreateInterviewDTO {
@@ -115,6 +242,25 @@ export interface UpdateInterviewDTO {
   status: 'CANCELLED';
 }
 
+export interface UpdateAvailabilityDTO {
+  time_zone?: string;
+  weekly_hours?: WeeklyHours;
+}
+
+export interface CreateBlackoutDTO {
+  blackout_date: string; // YYYY-MM-DD
+  reason?: string;
+}
+
+export interface RescheduleRoundDTO {
+  scheduled_start: string;
+  scheduled_end?: string;
+  duration_minutes?: number; // alternative to scheduled_end
+  location?: string | null; // omitted = keep current
+  meeting_link?: string | null; // omitted = keep current
+  reason?: string;
+}
+
 // ============================================
 // Error Response
 // ============================================
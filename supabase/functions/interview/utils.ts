@@ -28,6 +28,18 @@ export function textResponse(text: string, status = 200): Response {
   });
 }
 
+// iCalendar response (.ics export and subscription feeds)
+export function calendarResponse(ics: string, filename = 'interview.ics', status = 200): Response {
+  return new Response(ics, {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `inline; filename="${filename}"`,
+    },
+  });
+}
+
 // Validate UUID format
 export function isValidUUID(str: string): boolean {
   const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -57,6 +69,12 @@ export function handleError(error: unknown): Response {
   } else if (message.includes('DUPLICATE_ROUND_ASSIGNMENT')) {
     status = 409;
     code = 'duplicate_round_assignment';
+  } else if (message.includes('INTERVIEWER_CONFLICT')) {
+    status = 409;
+    code = 'interviewer_conflict';
+  } else if (message.includes('NO_AVAILABLE_SLOT')) {
+    status = 409;
+    code = 'no_available_slot';
   } else if (message.includes('TEMPLATE_LOCKED')) {
     status = 409;
     code = 'template_locked';
@@ -1,18 +1,49 @@
 import type { ApplicationRecord, HandlerContext } from '../types.ts';
-import { attachToTrackingService, formatApplicationResponse, toSnakeCase } from '../utils.ts';
+import {
+  attachToTrackingService,
+  extractApplicationSource,
+  formatApplicationResponse,
+  isValidUUID,
+  RESUME_BUCKET,
+  toSnakeCase,
+} from '../utils.ts';
 import { jsonResponse } from '../../_shared/cors.ts';
 
+// Written only by the resume parser (handlers/resumes.ts)
+const RESUME_PARSE_FIELDS = [
+  'resume_profile',
+  'resume_text',
+  'resume_search',
+  'resume_parse_status',
+  'resume_parse_error',
+  'resume_parse_attempts',
+  'resume_parse_next_at',
+  'resume_parsed_at',
+];
+
 // GET /applications - List all tenant applications
 export async function listApplications(ctx: HandlerContext, _req: Request): Promise<Response> {
   const params = Object.fromEntries(ctx.url.searchParams);
 
+  // tags=id1,id2 - applications carrying any of the tags (inner join, one row per application)
+  const tagIds = params.tags ? params.tags.split(',').map((t) => t.trim()).filter(Boolean) : [];
+  if (tagIds.some((id) => !isValidUUID(id))) {
+    throw new Error('tags must be a comma-separated list of tag IDs');
+  }
+
+  const columns: string = tagIds.length ? '*, application_tags!inner(tag_id)' : '*';
+
   // Build query
   let query = ctx.supabaseUser
     .from('applications')
-    .select('*', { count: 'exact' })
+    .select(columns, { count: 'exact' })
     .eq('tenant_id', ctx.tenantId)
     .order('created_at', { ascending: false });
 
+  if (tagIds.length) {
+    query = query.in('application_tags.tag_id', tagIds);
+  }
+
   // Apply filters
   if (params.status) {
     query = query.eq('status', params.status);
@@ -21,6 +52,22 @@ export async function listApplications(ctx: HandlerContext, _req: Request): Prom
     query = query.eq('job_id', params.jobId);
   }
 
+  // Parsed resume filters (see docs/RESUMES.md)
+  if (params.q) {
+    query = query.textSearch('resume_search', params.q, { type: 'websearch', config: 'english' });
+  }
+  if (params.skills) {
+    const skills = params.skills.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean);
+    query = query.contains('resume_profile', { skills });
+  }
+  if (params.minExperience) {
+    const years = parseFloat(params.minExperience);
+    if (Number.isNaN(years) || years < 0) {
+      throw new Error('minExperience must be a non-negative number');
+    }
+    query = query.gte('resume_profile->years_of_experience', years);
+  }
+
   // Pagination
   const page = parseInt(params.page || '1', 10);
   const limit = Math.min(parseInt(params.limit || '50', 10), 100);
@@ -31,13 +78,14 @@ export async function listApplications(ctx: HandlerContext, _req: Request): Prom
   if (error) throw new Error(error.message);
 
   // Return array of applications (matches NestJS response format)
-  return jsonResponse((data as ApplicationRecord[] || []).map(formatApplicationResponse));
+  return jsonResponse(((data || []) as unknown as ApplicationRecord[]).map(formatApplicationResponse));
 }
 
 // POST /applications - Create new application (internal)
 export async function createApplication(ctx: HandlerContext, req: Request): Promise<Response> {
   const body = await req.json();
   const dbData = toSnakeCase(body);
+  Object.assign(dbData, extractApplicationSource(dbData));
 
   // Verify job exists and belongs to tenant
   const { data: job, error: jobError } = await ctx.supabaseUser
@@ -51,8 +99,11 @@ export async function createApplication(ctx: HandlerContext, req: Request): Prom
     throw new Error(`Job with ID ${dbData.job_id} not found for tenant ${ctx.tenantId}`);
   }
 
-  // Remove fields that shouldn't be set on create
+  // Remove fields that shouldn't be set on create (candidate is linked by trigger, resume parsed by the queue)
   delete dbData.id;
+  delete dbData.candidate_id;
+  delete dbData.resume_path;
+  for (const key of RESUME_PARSE_FIELDS) delete dbData[key];
   delete dbData.created_at;
   delete dbData.updated_at;
 
@@ -116,6 +167,19 @@ export async function updateApplication(ctx: HandlerContext, req: Request): Prom
   delete dbData.created_at;
   delete dbData.updated_at;
 
+  // Source attribution, candidate link and uploaded file are fixed at creation (merge re-links candidates)
+  delete dbData.candidate_id;
+  delete dbData.resume_path;
+  delete dbData.resume_file_name;
+  delete dbData.resume_mime_type;
+  delete dbData.resume_size_bytes;
+  for (const key of RESUME_PARSE_FIELDS) delete dbData[key];
+  delete dbData.source;
+  delete dbData.utm_source;
+  delete dbData.utm_medium;
+  delete dbData.utm_campaign;
+  delete dbData.referrer;
+
   // Only include defined values
   const updates: Record<string, unknown> = {};
   for (const [key, value] of Object.entries(dbData)) {
@@ -146,7 +210,7 @@ export async function deleteApplication(ctx: HandlerContext): Promise<Response>
   // First verify the application exists
   const { data: app, error: fetchError } = await ctx.supabaseUser
     .from('applications')
-    .select('id')
+    .select('id, resume_path')
     .eq('id', applicationId)
     .eq('tenant_id', ctx.tenantId)
     .single();
@@ -163,6 +227,14 @@ export async function deleteApplication(ctx: HandlerContext): Promise<Response>
 
   if (error) throw new Error(error.message);
 
+  // Best-effort: an orphaned file is harmless (private bucket)
+  if (app.resume_path) {
+    const { error: removeError } = await ctx.supabaseAdmin.storage.from(RESUME_BUCKET).remove([app.resume_path]);
+    if (removeError) {
+      console.error('Failed to remove resume file:', removeError.message);
+    }
+  }
+
   // Return empty response to match NestJS behavior (void return)
   return new Response(null, { status: 204 });
 }
@@ -0,0 +1,219 @@
+import type {
+  CandidateApplicationSummary,
+  CandidateProfileResponse,
+  CandidateRecord,
+  HandlerContext,
+} from '../types.ts';
+import { formatCandidateResponse, isValidUUID } from '../utils.ts';
+import { canManageCandidates } from '../middleware.ts';
+import { jsonResponse } from '../../_shared/cors.ts';
+
+function assertCanManageCandidates(ctx: HandlerContext): void {
+  if (!canManageCandidates(ctx.userRole || '')) {
+    throw new Error('Forbidden: ADMIN or HR role required');
+  }
+}
+
+async function fetchCandidate(ctx: HandlerContext, candidateId: string): Promise<CandidateRecord> {
+  if (!isValidUUID(candidateId)) {
+    throw new Error('Invalid candidate ID format');
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('candidates')
+    .select('*')
+    .eq('id', candidateId)
+    .eq('tenant_id', ctx.tenantId)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Candidate with ID ${candidateId} not found`);
+  }
+
+  return data as CandidateRecord;
+}
+
+// GET /candidates - List candidates (search by name, email or phone)
+export async function listCandidates(ctx: HandlerContext): Promise<Response> {
+  assertCanManageCandidates(ctx);
+
+  const params = Object.fromEntries(ctx.url.searchParams);
+  const page = parseInt(params.page || '1', 10);
+  const limit = Math.min(parseInt(params.limit || '50', 10), 100);
+  const offset = (page - 1) * limit;
+
+  let query = ctx.supabaseAdmin
+    .from('candidates')
+    .select('*, applications(count)', { count: 'exact' })
+    .eq('tenant_id', ctx.tenantId)
+    .is('merged_into_id', null)
+    .order('created_at', { ascending: false });
+
+  if (params.search) {
+    const escapedSearch = params.search.replace(/%/g, '\\%').replace(/_/g, '\\_');
+    const searchTerm = `%${escapedSearch}%`;
+    const digits = params.search.replace(/\D/g, '');
+    query = query.or(
+      `name.ilike.${searchTerm},email.ilike.${searchTerm}` +
+        (digits.length >= 4 ? `,phone_normalized.like.%${digits}%` : ''),
+    );
+  }
+
+  const { data, error, count } = await query.range(offset, offset + limit - 1);
+  if (error) throw new Error(error.message);
+
+  const candidates = (data || []).map((row: CandidateRecord & { applications?: { count: number }[] }) => ({
+    ...formatCandidateResponse(row),
+    applicationCount: row.applications?.[0]?.count ?? 0,
+  }));
+
+  return jsonResponse({
+    data: candidates,
+    pagination: {
+      total: count || 0,
+      limit,
+      offset,
+      hasMore: (count || 0) > offset + limit,
+    },
+  });
+}
+
+// GET /candidates/:id - Candidate profile with every application, stage and evaluation
+export async function getCandidate(ctx: HandlerContext): Promise<Response> {
+  assertCanManageCandidates(ctx);
+
+  let candidate = await fetchCandidate(ctx, ctx.pathParts[1]);
+
+  // Merged candidates resolve to the surviving profile
+  if (candidate.merged_into_id) {
+    candidate = await fetchCandidate(ctx, candidate.merged_into_id);
+  }
+
+  const [applicationsResult, mergedResult] = await Promise.all([
+    ctx.supabaseAdmin
+      .from('applications')
+      .select('id, job_id, created_at, jobs(title, department)')
+      .eq('tenant_id', ctx.tenantId)
+      .eq('candidate_id', candidate.id)
+      .order('created_at', { ascending: false }),
+    ctx.supabaseAdmin
+      .from('candidates')
+      .select('id')
+      .eq('tenant_id', ctx.tenantId)
+      .eq('merged_into_id', candidate.id),
+  ]);
+
+  if (applicationsResult.error) {
+    throw new Error(`Failed to fetch applications: ${applicationsResult.error.message}`);
+  }
+
+  const applications = (applicationsResult.data || []) as unknown as {
+    id: string;
+    job_id: string;
+    created_at: string;
+    jobs: { title: string; department: string | null } | null;
+  }[];
+  const applicationIds = applications.map((a) => a.id);
+
+  // Tracking state, stage names and evaluations for all applications at once
+  const [statesResult, evaluationsResult] = applicationIds.length
+    ? await Promise.all([
+      ctx.supabaseAdmin
+        .from('application_pipeline_state')
+        .select('application_id, current_stage_id, status, outcome_type, is_terminal, pipeline_stages(stage_name)')
+        .eq('tenant_id', ctx.tenantId)
+        .in('application_id', applicationIds),
+      ctx.supabaseAdmin
+        .from('evaluation_instances')
+        .select('id, application_id, stage_id, status, completed_at, evaluation_templates(name)')
+        .eq('tenant_id', ctx.tenantId)
+        .in('application_id', applicationIds)
+        .order('created_at', { ascending: true }),
+    ])
+    : [{ data: [] }, { data: [] }];
+
+  const states = new Map(
+    ((statesResult.data || []) as unknown as {
+      application_id: string;
+      current_stage_id: string;
+      status: string;
+      outcome_type: string;
+      is_terminal: boolean;
+      pipeline_stages: { stage_name: string } | null;
+    }[]).map((s) => [s.application_id, s]),
+  );
+
+  const evaluations = (evaluationsResult.data || []) as unknown as {
+    id: string;
+    application_id: string;
+    stage_id: string | null;
+    status: string;
+    completed_at: string | null;
+    evaluation_templates: { name: string } | null;
+  }[];
+
+  const summaries: CandidateApplicationSummary[] = applications.map((app) => {
+    const state = states.get(app.id);
+    return {
+      id: app.id,
+      jobId: app.job_id,
+      jobTitle: app.jobs?.title || 'Unknown',
+      department: app.jobs?.department ?? null,
+      appliedAt: app.created_at,
+      stageId: state?.current_stage_id ?? null,
+      stageName: state?.pipeline_stages?.stage_name ?? null,
+      status: state?.status ?? null,
+      outcomeType: state?.outcome_type ?? null,
+      isTerminal: state?.is_terminal ?? false,
+      evaluations: evaluations
+        .filter((e) => e.application_id === app.id)
+        .map((e) => ({
+          id: e.id,
+          templateName: e.evaluation_templates?.name || 'Unknown',
+          stageId: e.stage_id,
+          status: e.status,
+          completedAt: e.completed_at,
+        })),
+    };
+  });
+
+  const response: CandidateProfileResponse = {
+    ...formatCandidateResponse(candidate),
+    applicationCount: summaries.length,
+    mergedCandidateIds: (mergedResult.data || []).map((c: { id: string }) => c.id),
+    applications: summaries,
+  };
+
+  return jsonResponse({ data: response });
+}
+
+// POST /candidates/:id/merge - Merge another candidate into this one
+// Body: { source_candidate_id } — the source's applications move here
+export async function mergeCandidate(ctx: HandlerContext, req: Request): Promise<Response> {
+  assertCanManageCandidates(ctx);
+
+  const targetId = ctx.pathParts[1];
+  if (!isValidUUID(targetId)) {
+    throw new Error('Invalid candidate ID format');
+  }
+
+  const body = await req.json();
+  const sourceId = body.source_candidate_id ?? body.sourceCandidateId;
+  if (!sourceId || typeof sourceId !== 'string' || !isValidUUID(sourceId)) {
+    throw new Error('source_candidate_id must be a valid UUID');
+  }
+
+  const { data, error } = await ctx.supabaseAdmin.rpc('merge_candidates', {
+    p_tenant_id: ctx.tenantId,
+    p_target_id: targetId,
+    p_source_id: sourceId,
+    p_user_id: ctx.userId,
+  });
+
+  if (error) {
+    // Strip the RPC error code prefix (NOT_FOUND: / VALIDATION: / INVALID_ACTION:)
+    throw new Error(error.message.replace(/^[A-Z_]+:\s*/, ''));
+  }
+
+  return jsonResponse({ data: formatCandidateResponse(data as CandidateRecord) });
+}
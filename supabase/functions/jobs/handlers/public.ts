@@ -5,9 +5,149 @@ import type {
   PublicJobDetailDto,
   PublicJobsResponse,
 } from '../types.ts';
-import { attachToTrackingService, formatPublicJobDetailDto, formatPublicJobDto } from '../utils.ts';
+import {
+  attachToTrackingService,
+  extractApplicationSource,
+  formatPublicJobDetailDto,
+  formatPublicJobDto,
+  MAX_RESUME_BYTES,
+  RESUME_BUCKET,
+  validateResumeFile,
+} from '../utils.ts';
 import { jsonResponse } from '../../_shared/cors.ts';
 
+// Whole apply body: the largest allowed resume plus the form fields around it
+const MAX_APPLY_BODY_BYTES = MAX_RESUME_BYTES + 256 * 1024;
+
+// The apply endpoint is unauthenticated: never buffer more than
+// MAX_APPLY_BODY_BYTES, whether or not the client sent Content-Length
+async function readApplyBody(req: Request): Promise<Uint8Array<ArrayBuffer>> {
+  const tooLarge = () =>
+    new Error(`Request is too large: resume file must be at most ${MAX_RESUME_BYTES / (1024 * 1024)} MB`);
+
+  const declared = parseInt(req.headers.get('content-length') || '', 10);
+  if (declared > MAX_APPLY_BODY_BYTES) {
+    await req.body?.cancel();
+    throw tooLarge();
+  }
+  if (!req.body) return new Uint8Array();
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > MAX_APPLY_BODY_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+// Apply payload: JSON, or multipart/form-data with the same fields plus a "resume" file
+async function parseApplyRequest(req: Request): Promise<{ body: Record<string, unknown>; resume: File | null }> {
+  const contentType = req.headers.get('content-type') || '';
+  const raw = await readApplyBody(req);
+
+  if (!contentType.includes('multipart/form-data')) {
+    return { body: JSON.parse(new TextDecoder().decode(raw)), resume: null };
+  }
+
+  const form = await new Response(raw, { headers: { 'content-type': contentType } }).formData();
+  const body: Record<string, unknown> = {};
+  let resume: File | null = null;
+
+  for (const [key, value] of form.entries()) {
+    if (key === 'resume' && value instanceof File) {
+      resume = value;
+    } else if (typeof value === 'string') {
+      body[key] = value;
+    }
+  }
+
+  return { body, resume };
+}
+
+// Upload the file and record it on the application. Existing files are never
+// overwritten unless `upsert` is set. Returns the error, or null on success.
+async function storeResume(
+  ctx: HandlerContext,
+  applicationId: string,
+  resume: File,
+  resumeType: { contentType: string; ext: string },
+  upsert: boolean,
+): Promise<{ message: string } | null> {
+  const resumePath = `${ctx.tenantId}/${applicationId}/resume.${resumeType.ext}`;
+
+  const { error: uploadError } = await ctx.supabaseAdmin.storage
+    .from(RESUME_BUCKET)
+    .upload(resumePath, resume, { contentType: resumeType.contentType, upsert });
+
+  if (uploadError) {
+    return uploadError;
+  }
+
+  let query = ctx.supabaseAdmin
+    .from('applications')
+    .update({
+      resume_path: resumePath,
+      resume_file_name: resume.name.slice(0, 255) || `resume.${resumeType.ext}`,
+      resume_mime_type: resumeType.contentType,
+      resume_size_bytes: resume.size,
+    })
+    .eq('id', applicationId);
+
+  // A concurrent attach may have stored a file with the other extension
+  if (!upsert) {
+    query = query.is('resume_path', null);
+  }
+
+  const { data, error } = await query.select('id');
+  const storeError = error ?? (data?.length ? null : { message: 'Application already has a resume' });
+
+  if (storeError) {
+    await ctx.supabaseAdmin.storage.from(RESUME_BUCKET).remove([resumePath]);
+  }
+  return storeError;
+}
+
+// Repeat apply with a file: attach it only when the existing application has
+// no uploaded resume yet. The first upload is never replaced.
+async function attachResumeToExisting(
+  ctx: HandlerContext,
+  applicationId: string,
+  resume: File,
+  resumeType: { contentType: string; ext: string },
+): Promise<boolean> {
+  const { data: existing, error } = await ctx.supabaseAdmin
+    .from('applications')
+    .select('resume_path')
+    .eq('id', applicationId)
+    .single();
+
+  if (error || !existing || existing.resume_path) {
+    return false;
+  }
+
+  const storeError = await storeResume(ctx, applicationId, resume, resumeType, false);
+  if (storeError) {
+    console.error('Resume attach to existing application failed:', storeError.message);
+    return false;
+  }
+  return true;
+}
+
 // GET /public/jobs - List public jobs
 export async function listPublicJobs(ctx: HandlerContext, _req: Request): Promise<Response> {
   const params = Object.fromEntries(ctx.url.searchParams);
@@ -106,7 +246,7 @@ export async function applyToJob(ctx: HandlerContext, req: Request): Promise<Res
     throw new Error('Job ID is required');
   }
 
-  const body = await req.json();
+  const { body, resume } = await parseApplyRequest(req);
 
   // Validate required fields
   if (!body.applicant_name || typeof body.applicant_name !== 'string' || !body.applicant_name.trim()) {
@@ -118,6 +258,10 @@ export async function applyToJob(ctx: HandlerContext, req: Request): Promise<Res
 
   const email = body.applicant_email.trim().toLowerCase();
   const name = body.applicant_name.trim();
+  const sourceFields = extractApplicationSource(body);
+
+  // Validate the file before creating anything
+  const resumeType = resume ? await validateResumeFile(resume) : null;
 
   // Rate limit check: max 5 applications per email per tenant in 15 minutes
   const fifteenMinAgo = new Date(Date.now() - 15 * 60 * 1000).toISOString();
@@ -142,18 +286,23 @@ export async function applyToJob(ctx: HandlerContext, req: Request): Promise<Res
     'unknown';
   const userAgent = req.headers.get('user-agent') || 'unknown';
 
-  // Call atomic RPC
+  // Call atomic RPC (the application is inserted with its source fields)
   const { data: rpcResult, error: rpcError } = await ctx.supabaseAdmin
-    .rpc('create_public_application_v1', {
+    .rpc('create_public_application_v2', {
       p_tenant_id: ctx.tenantId,
       p_job_id: jobId,
       p_applicant_name: name,
       p_applicant_email: email,
       p_applicant_phone: body.applicant_phone || null,
-      p_resume_url: body.resume_url || null,
+      p_resume_url: resume ? null : body.resume_url || null, // uploaded file wins over a link
       p_cover_letter: body.cover_letter || null,
       p_ip_address: ipAddress,
       p_user_agent: userAgent,
+      p_source: sourceFields.source,
+      p_utm_source: sourceFields.utm_source,
+      p_utm_medium: sourceFields.utm_medium,
+      p_utm_campaign: sourceFields.utm_campaign,
+      p_referrer: sourceFields.referrer,
     });
 
   if (rpcError) {
@@ -170,12 +319,36 @@ export async function applyToJob(ctx: HandlerContext, req: Request): Promise<Res
     throw new Error('Application submission failed - unexpected response');
   }
 
-  // If new application, attach to tracking pipeline
+  const resumePath = resumeType ? `${ctx.tenantId}/${result.application_id}/resume.${resumeType.ext}` : null;
+  let resumeAttached: boolean | null = null;
+
+  // If new application, store the resume and attach to tracking pipeline
   if (result.is_new) {
+    if (resume && resumeType) {
+      const resumeError = await storeResume(ctx, result.application_id, resume, resumeType, true);
+
+      if (resumeError) {
+        // Rollback: the candidate must be able to retry with the same email
+        console.error('Resume upload failed:', resumeError.message);
+        await ctx.supabaseAdmin
+          .from('candidate_access_tokens')
+          .delete()
+          .eq('application_id', result.application_id);
+        await ctx.supabaseAdmin
+          .from('applications')
+          .delete()
+          .eq('id', result.application_id);
+        throw new Error('Resume upload failed - please try again');
+      }
+    }
+
     const trackingAttached = await attachToTrackingService(result.application_id, ctx.tenantId);
 
     if (!trackingAttached) {
-      // Rollback: delete token and application on tracking failure
+      // Rollback: delete resume, token and application on tracking failure
+      if (resumePath) {
+        await ctx.supabaseAdmin.storage.from(RESUME_BUCKET).remove([resumePath]);
+      }
       await ctx.supabaseAdmin
         .from('candidate_access_tokens')
         .delete()
@@ -186,6 +359,8 @@ export async function applyToJob(ctx: HandlerContext, req: Request): Promise<Res
         .eq('id', result.application_id);
       throw new Error('Application submission failed - please try again');
     }
+  } else if (resume && resumeType) {
+    resumeAttached = await attachResumeToExisting(ctx, result.application_id, resume, resumeType);
   }
 
   return jsonResponse(
@@ -193,6 +368,8 @@ export async function applyToJob(ctx: HandlerContext, req: Request): Promise<Res
       id: result.application_id,
       status: 'PENDING',
       candidate_access_token: result.access_token,
+      // Only for a repeat apply with a file: false when the earlier resume was kept
+      ...(resumeAttached !== null && { resume_attached: resumeAttached }),
     },
     result.is_new ? 201 : 200,
   );
@@ -0,0 +1,246 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ApplicationRecord, HandlerContext, ResumeParseResultResponse } from '../types.ts';
+import { formatApplicationResponse, isValidUUID, MAX_RESUME_BYTES, RESUME_BUCKET } from '../utils.ts';
+import { canManageJobs } from '../middleware.ts';
+import { extractResumeText, parseResumeText } from '../resume-parser.ts';
+import { jsonResponse } from '../../_shared/cors.ts';
+import { assertPublicHost } from '../../_shared/outbound-url.ts';
+
+const MAX_PARSE_ATTEMPTS = 3;
+const RETRY_BASE_MINUTES = 5;
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 3;
+
+// ============================================
+// Loading the resume
+// ============================================
+
+// resume_url is candidate-supplied: only https hosts that resolve to public
+// addresses are fetched
+async function assertFetchableUrl(value: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error('resume_url is not a valid URL');
+  }
+
+  if (url.protocol !== 'https:') {
+    throw new Error('resume_url must use https');
+  }
+
+  await assertPublicHost(url, 'resume_url');
+  return url;
+}
+
+async function fetchResumeUrl(resumeUrl: string): Promise<Uint8Array> {
+  let url = await assertFetchableUrl(resumeUrl);
+  let response: Response | null = null;
+
+  // Follow redirects by hand so every hop is checked
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    response = await fetch(url, { redirect: 'manual', signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    const location = response.headers.get('Location');
+    if (response.status < 300 || response.status >= 400 || !location) break;
+    await response.body?.cancel();
+    url = await assertFetchableUrl(new URL(location, url).toString());
+    response = null;
+  }
+
+  if (!response) {
+    throw new Error('resume_url redirected too many times');
+  }
+  if (!response.ok || !response.body) {
+    await response.body?.cancel();
+    throw new Error(`Failed to fetch resume_url: HTTP ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > MAX_RESUME_BYTES) {
+      await reader.cancel();
+      throw new Error(`resume_url file is larger than ${MAX_RESUME_BYTES / (1024 * 1024)} MB`);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+// Uploaded file first (it takes precedence on apply), then resume_url
+async function loadResume(supabaseAdmin: SupabaseClient, app: ApplicationRecord): Promise<Uint8Array> {
+  if (app.resume_path) {
+    const { data, error } = await supabaseAdmin.storage.from(RESUME_BUCKET).download(app.resume_path);
+    if (error || !data) {
+      throw new Error(`Failed to download resume: ${error?.message ?? 'file missing'}`);
+    }
+    return new Uint8Array(await data.arrayBuffer());
+  }
+
+  return await fetchResumeUrl(app.resume_url!);
+}
+
+// ============================================
+// Parsing an application's resume
+// ============================================
+
+// Download, extract and parse, then record the outcome on the application.
+// With retry, download failures go back to PENDING with backoff until
+// MAX_PARSE_ATTEMPTS; unreadable files fail immediately.
+// Returns null when the resume was replaced while parsing (the new one is queued).
+async function parseApplicationResume(
+  supabaseAdmin: SupabaseClient,
+  app: ApplicationRecord,
+  retry: boolean,
+): Promise<ApplicationRecord | null> {
+  const attempts = app.resume_parse_attempts + 1;
+  let values: Record<string, unknown>;
+
+  try {
+    let bytes: Uint8Array;
+    try {
+      bytes = await loadResume(supabaseAdmin, app);
+    } catch (err) {
+      // "resume_url ..." errors are about the URL itself and will not change on retry
+      const canRetry = retry && attempts < MAX_PARSE_ATTEMPTS && !(err as Error).message.startsWith('resume_url');
+      if (!canRetry) throw err;
+
+      values = {
+        resume_parse_status: 'PENDING',
+        resume_parse_attempts: attempts,
+        resume_parse_error: (err as Error).message,
+        resume_parse_next_at: new Date(Date.now() + RETRY_BASE_MINUTES * 2 ** (attempts - 1) * 60_000).toISOString(),
+      };
+      return await saveParseResult(supabaseAdmin, app, values);
+    }
+
+    const text = await extractResumeText(bytes);
+    if (!text) {
+      throw new Error('No text found in resume (scanned documents are not supported)');
+    }
+
+    values = {
+      resume_text: text,
+      resume_profile: parseResumeText(text),
+      resume_parse_status: 'PARSED',
+      resume_parse_attempts: attempts,
+      resume_parse_error: null,
+      resume_parse_next_at: null,
+      resume_parsed_at: new Date().toISOString(),
+    };
+  } catch (err) {
+    values = {
+      resume_parse_status: 'FAILED',
+      resume_parse_attempts: attempts,
+      resume_parse_error: (err as Error).message,
+      resume_parse_next_at: null,
+    };
+  }
+
+  return await saveParseResult(supabaseAdmin, app, values);
+}
+
+async function saveParseResult(
+  supabaseAdmin: SupabaseClient,
+  app: ApplicationRecord,
+  values: Record<string, unknown>,
+): Promise<ApplicationRecord | null> {
+  let query = supabaseAdmin
+    .from('applications')
+    .update(values)
+    .eq('id', app.id);
+
+  // Only if the resume parsed is still the application's resume
+  query = app.resume_path ? query.eq('resume_path', app.resume_path) : query.is('resume_path', null);
+  query = app.resume_url ? query.eq('resume_url', app.resume_url) : query.is('resume_url', null);
+
+  const { data, error } = await query.select('*').maybeSingle();
+  if (error) {
+    throw new Error(`Failed to save resume parse result: ${error.message}`);
+  }
+
+  return data as ApplicationRecord | null;
+}
+
+// ============================================
+// POST /resumes/parse - Parse queued resumes (service role, invoked on a schedule)
+// ============================================
+
+export async function parsePendingResumes(ctx: HandlerContext): Promise<Response> {
+  const limit = Math.min(parseInt(ctx.url.searchParams.get('limit') || '10', 10), 25);
+
+  const { data, error } = await ctx.supabaseAdmin.rpc('claim_resume_parses', { p_limit: limit });
+
+  if (error) {
+    throw new Error(`Failed to claim resume parses: ${error.message}`);
+  }
+
+  const claimed = (data || []) as ApplicationRecord[];
+  const result: ResumeParseResultResponse = { claimed: claimed.length, parsed: 0, retrying: 0, failed: 0 };
+
+  // Sequential: each parse holds a whole file in memory
+  for (const app of claimed) {
+    try {
+      const updated = await parseApplicationResume(ctx.supabaseAdmin, app, true);
+      if (updated?.resume_parse_status === 'PARSED') result.parsed++;
+      else if (updated?.resume_parse_status === 'PENDING') result.retrying++;
+      else if (updated?.resume_parse_status === 'FAILED') result.failed++;
+    } catch (err) {
+      // Lease expiry returns the application to the queue
+      console.error('Resume parse error', { applicationId: app.id, error: (err as Error).message });
+      result.failed++;
+    }
+  }
+
+  return jsonResponse({ data: result });
+}
+
+// ============================================
+// POST /applications/:id/parse-resume - Parse (or re-parse) now
+// ============================================
+
+export async function parseResume(ctx: HandlerContext): Promise<Response> {
+  if (!canManageJobs(ctx.userRole || '')) {
+    throw new Error('Forbidden: ADMIN or HR role required');
+  }
+
+  const applicationId = ctx.pathParts[1];
+  if (!isValidUUID(applicationId)) {
+    throw new Error('Invalid application ID format');
+  }
+
+  const { data: app, error } = await ctx.supabaseAdmin
+    .from('applications')
+    .select('*')
+    .eq('id', applicationId)
+    .eq('tenant_id', ctx.tenantId)
+    .single();
+
+  if (error || !app) {
+    throw new Error(`Application with ID ${applicationId} not found for tenant ${ctx.tenantId}`);
+  }
+  if (!app.resume_path && !app.resume_url) {
+    throw new Error('Application has no resume to parse');
+  }
+
+  const updated = await parseApplicationResume(ctx.supabaseAdmin, app as ApplicationRecord, false);
+  if (!updated) {
+    throw new Error('Resume was replaced while parsing; the new resume is queued');
+  }
+  if (updated.resume_parse_status === 'FAILED') {
+    throw new Error(`Failed to parse resume: ${updated.resume_parse_error}`);
+  }
+
+  return jsonResponse(formatApplicationResponse(updated));
+}
@@ -0,0 +1,123 @@
+import type { ApplicationSearchHit, ApplicationSearchResult, HandlerContext } from '../types.ts';
+import { isValidUUID } from '../utils.ts';
+import { canManageCandidates } from '../middleware.ts';
+import { jsonResponse } from '../../_shared/cors.ts';
+
+// search_applications() marks matches with these control characters
+const HIGHLIGHT_START = String.fromCharCode(1);
+const HIGHLIGHT_STOP = String.fromCharCode(2);
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Snippets come from candidate-supplied text: escape everything, then add the marks
+function formatHighlight(highlight: string | null): string | null {
+  if (highlight === null) return null;
+  return escapeHtml(highlight).split(HIGHLIGHT_START).join('<mark>').split(HIGHLIGHT_STOP).join('</mark>');
+}
+
+function parseUuidParam(value: string | null, name: string): string | null {
+  if (!value) return null;
+  if (!isValidUUID(value)) {
+    throw new Error(`${name} must be a valid UUID`);
+  }
+  return value;
+}
+
+function parseDateParam(value: string | null, name: string): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${name} must be an ISO 8601 date`);
+  }
+  return date.toISOString();
+}
+
+// signal=KEY:value (repeatable, all must match)
+function parseSignalParams(values: string[]): Record<string, string> | null {
+  if (!values.length) return null;
+
+  const signals: Record<string, string> = {};
+  for (const value of values) {
+    const separator = value.indexOf(':');
+    if (separator <= 0) {
+      throw new Error('signal must be in the form KEY:value');
+    }
+    signals[value.slice(0, separator)] = value.slice(separator + 1);
+  }
+  return signals;
+}
+
+// GET /applications/search - Ranked full-text search with facets
+export async function searchApplications(ctx: HandlerContext): Promise<Response> {
+  // Documents include evaluation and interview notes; the RPC leaves them
+  // out for applications the caller is blinded on
+  if (!canManageCandidates(ctx.userRole || '')) {
+    throw new Error('Forbidden: ADMIN or HR role required');
+  }
+
+  const params = ctx.url.searchParams;
+  const page = Math.max(parseInt(params.get('page') || '1', 10) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(params.get('limit') || '20', 10) || 20, 1), 50);
+  const offset = (page - 1) * limit;
+  const query = params.get('q')?.trim() || null;
+
+  if (query && query.length > 200) {
+    throw new Error('q must be at most 200 characters');
+  }
+
+  const { data, error } = await ctx.supabaseAdmin.rpc('search_applications', {
+    p_tenant_id: ctx.tenantId,
+    p_user_id: ctx.userId,
+    p_query: query,
+    p_job_id: parseUuidParam(params.get('jobId'), 'jobId'),
+    p_stage_id: parseUuidParam(params.get('stageId'), 'stageId'),
+    p_status: params.get('status') || null,
+    p_signals: parseSignalParams(params.getAll('signal')),
+    p_from: parseDateParam(params.get('from'), 'from'),
+    p_to: parseDateParam(params.get('to'), 'to'),
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error) {
+    throw new Error(`Failed to search applications: ${error.message}`);
+  }
+
+  const result = data as ApplicationSearchResult;
+  const hits: ApplicationSearchHit[] = result.results.map((hit) => ({
+    applicationId: hit.application_id,
+    candidateId: hit.candidate_id,
+    applicantName: hit.applicant_name,
+    applicantEmail: hit.applicant_email,
+    jobId: hit.job_id,
+    jobTitle: hit.job_title,
+    stageId: hit.stage_id,
+    stageName: hit.stage_name,
+    status: hit.status,
+    appliedAt: hit.applied_at,
+    rank: hit.rank,
+    highlight: formatHighlight(hit.highlight),
+  }));
+
+  return jsonResponse({
+    data: hits,
+    facets: {
+      jobs: result.facets.jobs.map((f) => ({ jobId: f.job_id, jobTitle: f.job_title, count: f.count })),
+      stages: result.facets.stages.map((f) => ({ stageId: f.stage_id, stageName: f.stage_name, count: f.count })),
+      statuses: result.facets.statuses,
+    },
+    pagination: {
+      total: result.total,
+      limit,
+      offset,
+      hasMore: result.total > offset + limit,
+    },
+  });
+}
@@ -1,13 +1,16 @@
 import { corsHeaders, corsResponse, jsonResponse } from '../_shared/cors.ts';
 import { getSupabaseAdmin, getSupabaseClient } from '../_shared/supabase.ts';
 import { handleError } from './utils.ts';
-import { getTenantIdFromAuth, getUserFromToken, resolveTenantFromHost } from './middleware.ts';
+import { getTenantIdFromAuth, getUserFromToken, isServiceRoleRequest, resolveTenantFromHost } from './middleware.ts';
 import type { HandlerContext } from './types.ts';
 
 // Import handlers
 import * as jobHandlers from './handlers/jobs.ts';
 import * as appHandlers from './handlers/applications.ts';
 import * as publicHandlers from './handlers/public.ts';
+import * as candidateHandlers from './handlers/candidates.ts';
+import * as resumeHandlers from './handlers/resumes.ts';
+import * as searchHandlers from './handlers/search.ts';
 
 // Parse path, removing function name prefix
 function parsePath(url: string): string[] {
@@ -71,6 +74,23 @@ Deno.serve(async (req: Request) => {
       return jsonResponse({ code: 'not_found', message: 'Endpoint not found' }, 404);
     }
 
+    // ==================== SERVICE ROLE ROUTES ====================
+    // POST /resumes/parse - Parse queued resumes (invoked on a schedule)
+    if (method === 'POST' && fullPath === 'resumes/parse') {
+      if (!isServiceRoleRequest(req)) {
+        throw new Error('Forbidden: Service role required');
+      }
+      const ctx: HandlerContext = {
+        supabaseAdmin,
+        supabaseUser,
+        tenantId: '', // Claimed applications carry their own tenant
+        pathParts,
+        method,
+        url,
+      };
+      return await resumeHandlers.parsePendingResumes(ctx);
+    }
+
     // ==================== PRIVATE ROUTES (Require Auth) ====================
     // Get user from JWT token
     const user = await getUserFromToken(supabaseUser);
@@ -102,6 +122,30 @@ Deno.serve(async (req: Request) => {
       url,
     };
 
+    // ==================== CANDIDATE ROUTES ====================
+    // Matched before job routes: /:id treats any other first segment as a job ID
+    if (pathParts[0] === 'candidates') {
+      const candidateId = pathParts[1];
+      const action = pathParts[2];
+
+      // GET /candidates - List candidates (?search=, page, limit)
+      if (method === 'GET' && !candidateId) {
+        return await candidateHandlers.listCandidates(ctx);
+      }
+
+      // GET /candidates/:id - Profile with applications, stages and evaluations
+      if (method === 'GET' && candidateId && !action) {
+        return await candidateHandlers.getCandidate(ctx);
+      }
+
+      // POST /candidates/:id/merge - Merge a duplicate into this candidate
+      if (method === 'POST' && candidateId && action === 'merge') {
+        return await candidateHandlers.mergeCandidate(ctx, req);
+      }
+
+      return jsonResponse({ code: 'not_found', message: 'Endpoint not found' }, 404);
+    }
+
     // ==================== JOB ROUTES ====================
     // GET /job - List jobs
     if (method === 'GET' && (fullPath === '' || fullPath === 'job')) {
@@ -177,8 +221,18 @@ Deno.serve(async (req: Request) => {
       return await appHandlers.createApplication(ctx, req);
     }
 
+    // GET /applications/search - Full-text search with facets (before /applications/:id)
+    if (method === 'GET' && fullPath === 'applications/search') {
+      return await searchHandlers.searchApplications(ctx);
+    }
+
     // Routes with application ID: /applications/:id
     if (pathParts[0] === 'applications' && pathParts[1]) {
+      // POST /applications/:id/parse-resume - Parse (or re-parse) the resume now
+      if (method === 'POST' && pathParts[2] === 'parse-resume') {
+        return await resumeHandlers.parseResume(ctx);
+      }
+
       // GET /applications/:id
       if (method === 'GET') {
         return await appHandlers.getApplication(ctx);
@@ -132,7 +132,20 @@ export function canManageJobs(role: string): boolean {
   return ['SUPERADMIN', 'ADMIN', 'HR'].includes(role);
 }
 
+// Check if user can view and merge candidate profiles (mirrors can_manage_applications())
+export function canManageCandidates(role: string): boolean {
+  return ['SUPERADMIN', 'ADMIN', 'HR'].includes(role);
+}
+
 // Check if user has permission to publish/unpublish jobs
 export function canPublishJobs(role: string): boolean {
   return ['SUPERADMIN', 'ADMIN', 'HR'].includes(role);
 }
+
+// Check if request is using service role key (internal scheduler call)
+export function isServiceRoleRequest(req: Request): boolean {
+  const apiKey = req.headers.get('apikey') || '';
+  const secretKey = Deno.env.get('SUPABASE_SECRET_KEY') ||
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+  return apiKey === secretKey && secretKey !== '';
+}
@@ -0,0 +1,712 @@
+// Resume text extraction (PDF, DOCX) and heuristic parsing into a ResumeProfileRecord.
+// No external dependencies: PDFs are read from their (Flate) content streams and
+// DOCX files from word/document.xml. Scanned (image-only) PDFs yield no text.
+import type { ResumeEducationRecord, ResumeLinkRecord, ResumeProfileRecord } from './types.ts';
+
+export const RESUME_PARSER_VERSION = 1;
+
+// Cap on extracted text (stored in applications.resume_text)
+export const MAX_RESUME_TEXT_LENGTH = 100_000;
+
+// Cap on decompressed data per file (guards against deflate bombs)
+const MAX_INFLATED_BYTES = 20 * 1024 * 1024;
+
+// ============================================
+// Text extraction
+// ============================================
+
+// Extract plain text from a PDF or DOCX, detected by file signature
+export async function extractResumeText(bytes: Uint8Array): Promise<string> {
+  let text: string;
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46, 0x2d])) { // %PDF-
+    text = await extractPdfText(bytes);
+  } else if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) { // ZIP (DOCX)
+    text = await extractDocxText(bytes);
+  } else {
+    throw new Error('Unsupported resume format: expected PDF or DOCX');
+  }
+
+  // Control characters (ligature glyph codes, NUL) would break Postgres text
+  return text
+    // deno-lint-ignore no-control-regex
+    .replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .slice(0, MAX_RESUME_TEXT_LENGTH);
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, i) => bytes[i] === byte);
+}
+
+async function inflate(
+  data: Uint8Array<ArrayBuffer>,
+  format: 'deflate' | 'deflate-raw',
+  budget: { remaining: number },
+): Promise<Uint8Array> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    budget.remaining -= value.length;
+    if (budget.remaining < 0) {
+      await reader.cancel();
+      throw new Error('Resume content is too large to extract');
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+// Bytes <-> one char per byte (PDF syntax is byte-oriented)
+function toBinaryString(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return result;
+}
+
+function fromBinaryString(str: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(str.length);
+  for (let i = 0; i < str.length; i++) {
+    bytes[i] = str.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+// ---------- PDF ----------
+
+async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  const raw = toBinaryString(bytes);
+  const budget = { remaining: MAX_INFLATED_BYTES };
+  const pages: string[] = [];
+
+  const streamPattern = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(raw)) !== null) {
+    // "endstream" also matches; only a keyword preceded by the stream dictionary counts
+    if (raw.slice(match.index - 3, match.index) === 'end') continue;
+
+    const dataStart = match.index + match[0].length;
+    const dataEnd = raw.indexOf('endstream', dataStart);
+    if (dataEnd === -1) break;
+    streamPattern.lastIndex = dataEnd + 'endstream'.length;
+
+    const dict = raw.slice(raw.lastIndexOf('obj', match.index), match.index);
+    if (/\/Subtype\s*\/Image|\/Length1|\/Length2|\/Type\s*\/XRef|\/Type\s*\/ObjStm/.test(dict)) continue;
+
+    // Direct /Length when present, else up to the EOL before "endstream" (indirect lengths)
+    const length = dict.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+    const data = length && dataStart + parseInt(length[1], 10) <= dataEnd
+      ? raw.slice(dataStart, dataStart + parseInt(length[1], 10))
+      : raw.slice(dataStart, dataEnd).replace(/\r?\n$/, '');
+
+    const filters = dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? '';
+    let content: string;
+    if (!filters) {
+      content = data;
+    } else if (filters.replace(/[[\]\s]/g, '') === '/FlateDecode') {
+      try {
+        content = toBinaryString(await inflate(fromBinaryString(data), 'deflate', budget));
+      } catch (err) {
+        if (budget.remaining < 0) throw err;
+        continue; // Truncated or corrupt stream: keep whatever else is readable
+      }
+    } else {
+      continue; // Images and other encodings carry no text we can read
+    }
+
+    const text = extractPdfContentText(content);
+    if (text.trim()) pages.push(text);
+  }
+
+  return pages.join('\n');
+}
+
+type PdfToken =
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'operator'; value: string };
+
+// Text-showing operators of a content stream, in order. Positioning operators
+// start a new line; wide gaps inside TJ arrays become spaces.
+function extractPdfContentText(content: string): string {
+  const lines: string[] = [];
+  let line = '';
+  let operands: PdfToken[] = [];
+  let inArray = false;
+  let arrayText = '';
+
+  const newLine = () => {
+    if (line.trim()) lines.push(line);
+    line = '';
+  };
+
+  for (const token of tokenizePdfContent(content)) {
+    if (token.type === 'operator' && token.value === '[') {
+      inArray = true;
+      arrayText = '';
+      continue;
+    }
+    if (token.type === 'operator' && token.value === ']') {
+      inArray = false;
+      operands.push({ type: 'string', value: arrayText });
+      continue;
+    }
+    if (inArray) {
+      if (token.type === 'string') arrayText += token.value;
+      else if (token.type === 'number' && token.value < -200) arrayText += ' ';
+      continue;
+    }
+    if (token.type !== 'operator') {
+      operands.push(token);
+      continue;
+    }
+
+    const lastString = [...operands].reverse().find((op) => op.type === 'string');
+    switch (token.value) {
+      case 'Tj':
+      case 'TJ':
+        if (lastString) line += lastString.value;
+        break;
+      case "'":
+      case '"':
+        newLine();
+        if (lastString) line += lastString.value;
+        break;
+      case 'Td':
+      case 'TD': {
+        // Horizontal-only moves continue the line
+        const ty = operands[operands.length - 1];
+        if (ty?.type === 'number' && ty.value === 0) line += ' ';
+        else newLine();
+        break;
+      }
+      case 'T*':
+      case 'Tm':
+      case 'ET':
+        newLine();
+        break;
+    }
+    operands = [];
+  }
+  newLine();
+
+  return lines.join('\n');
+}
+
+function* tokenizePdfContent(content: string): Generator<PdfToken> {
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (ch === '(') {
+      const [value, end] = readPdfLiteral(content, i);
+      yield { type: 'string', value };
+      i = end;
+    } else if (ch === '<' && content[i + 1] === '<') {
+      i += 2;
+    } else if (ch === '>' && content[i + 1] === '>') {
+      i += 2;
+    } else if (ch === '<') {
+      const end = content.indexOf('>', i);
+      if (end === -1) return;
+      yield { type: 'string', value: decodePdfHex(content.slice(i + 1, end)) };
+      i = end + 1;
+    } else if (ch === '[' || ch === ']') {
+      yield { type: 'operator', value: ch };
+      i++;
+    } else if (ch === '/') {
+      i++;
+      while (i < content.length && !/[\s/[\]()<>{}%]/.test(content[i])) i++;
+    } else {
+      let end = i + 1;
+      while (end < content.length && !/[\s/[\]()<>{}%]/.test(content[end])) end++;
+      const word = content.slice(i, end);
+      const num = Number(word);
+      yield Number.isNaN(num) ? { type: 'operator', value: word } : { type: 'number', value: num };
+      i = end;
+    }
+  }
+}
+
+const PDF_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// Literal string "(...)" with balanced parentheses and backslash escapes
+function readPdfLiteral(content: string, start: number): [string, number] {
+  let depth = 0;
+  let value = '';
+  let i = start;
+
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === '\\') {
+      const next = content[i + 1];
+      if (/[0-7]/.test(next)) {
+        const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+        value += String.fromCharCode(parseInt(octal, 8));
+        i += 1 + octal.length;
+        continue;
+      }
+      if (next === '\r' || next === '\n') {
+        i += content[i + 1] === '\r' && content[i + 2] === '\n' ? 3 : 2;
+        continue;
+      }
+      value += PDF_ESCAPES[next] ?? next ?? '';
+      i += 2;
+      continue;
+    }
+    if (ch === '(') {
+      depth++;
+      if (depth > 1) value += ch;
+    } else if (ch === ')') {
+      depth--;
+      if (depth === 0) return [value, i + 1];
+      value += ch;
+    } else {
+      value += ch;
+    }
+    i++;
+  }
+
+  return [value, i];
+}
+
+// Hex strings are only kept when they decode to printable single-byte text
+// (fonts with custom encodings use glyph IDs, which need the font's CMap)
+function decodePdfHex(hex: string): string {
+  const clean = hex.replace(/\s/g, '');
+  let value = '';
+  for (let i = 0; i < clean.length; i += 2) {
+    const code = parseInt(clean.slice(i, i + 2).padEnd(2, '0'), 16);
+    if (Number.isNaN(code)) return '';
+    value += String.fromCharCode(code);
+  }
+  return /^[\x20-\x7e\xa0-\xff]*$/.test(value) ? value : '';
+}
+
+// ---------- DOCX ----------
+
+async function extractDocxText(bytes: Uint8Array): Promise<string> {
+  const xml = await readZipEntry(bytes, 'word/document.xml');
+  if (xml === null) {
+    throw new Error('Unsupported resume format: DOCX has no document body');
+  }
+
+  return decodeXmlEntities(
+    new TextDecoder()
+      .decode(xml)
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:(br|cr)\b[^>]*\/>/g, '\n')
+      .replace(/<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, ''),
+  );
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Read one entry of a ZIP archive via its central directory
+async function readZipEntry(bytes: Uint8Array, name: string): Promise<Uint8Array | null> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // End of central directory record (last 22 bytes + up to 64KB comment)
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Unsupported resume format: DOCX archive is corrupt');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let n = 0; n < entryCount && offset + 46 <= bytes.length; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const entryName = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (entryName === name) {
+      if (localOffset + 30 > bytes.length) return null;
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) +
+        view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === 0) return data;
+      if (method === 8) return await inflate(data.slice(), 'deflate-raw', { remaining: MAX_INFLATED_BYTES });
+      throw new Error('Unsupported resume format: unknown DOCX compression');
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+type ResumeSection = 'summary' | 'experience' | 'education' | 'skills' | 'other';
+
+const SECTION_HEADINGS: Record<string, ResumeSection> = {
+  'summary': 'summary',
+  'profile': 'summary',
+  'about me': 'summary',
+  'objective': 'summary',
+  'experience': 'experience',
+  'work experience': 'experience',
+  'professional experience': 'experience',
+  'employment': 'experience',
+  'employment history': 'experience',
+  'work history': 'experience',
+  'career history': 'experience',
+  'education': 'education',
+  'academic background': 'education',
+  'qualifications': 'education',
+  'skills': 'skills',
+  'technical skills': 'skills',
+  'core skills': 'skills',
+  'key skills': 'skills',
+  'core competencies': 'skills',
+  'technologies': 'skills',
+  'projects': 'other',
+  'certifications': 'other',
+  'languages': 'other',
+  'awards': 'other',
+  'publications': 'other',
+  'interests': 'other',
+  'references': 'other',
+  'volunteering': 'other',
+};
+
+// Matched anywhere in the text, in addition to the items listed under a skills heading
+const KNOWN_SKILLS = [
+  'javascript',
+  'typescript',
+  'python',
+  'java',
+  'kotlin',
+  'golang',
+  'rust',
+  'ruby',
+  'php',
+  'c#',
+  'c++',
+  'scala',
+  'elixir',
+  'sql',
+  'html',
+  'css',
+  'react',
+  'react native',
+  'angular',
+  'vue',
+  'svelte',
+  'next.js',
+  'node.js',
+  'express.js',
+  'nestjs',
+  'django',
+  'flask',
+  'fastapi',
+  'spring boot',
+  'rails',
+  '.net',
+  'graphql',
+  'rest api',
+  'postgresql',
+  'mysql',
+  'mongodb',
+  'redis',
+  'elasticsearch',
+  'kafka',
+  'rabbitmq',
+  'aws',
+  'azure',
+  'gcp',
+  'docker',
+  'kubernetes',
+  'terraform',
+  'ansible',
+  'linux',
+  'git',
+  'ci/cd',
+  'machine learning',
+  'deep learning',
+  'pytorch',
+  'tensorflow',
+  'pandas',
+  'spark',
+  'airflow',
+  'tableau',
+  'power bi',
+  'figma',
+  'photoshop',
+  'jira',
+  'agile',
+  'scrum',
+  'salesforce',
+  'sap',
+  'seo',
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const DATE_PATTERN = `(?:${MONTH_PATTERN}\\s*\\d{4}|\\d{1,2}/\\d{4}|\\d{4})`;
+const DATE_RANGE = new RegExp(
+  `(${DATE_PATTERN})\\s*(?:-|–|—|to|until)\\s*(${DATE_PATTERN}|present|current|now|today)`,
+  'gi',
+);
+
+const DEGREE_PATTERN =
+  /\b(ph\.?\s?d|doctorate|master(?:'s)?(?: of [a-z ]+)?|mba|m\.?\s?sc|m\.?\s?s|m\.?\s?a|m\.?\s?tech|m\.?\s?eng|bachelor(?:'s)?(?: of [a-z ]+)?|b\.?\s?sc|b\.?\s?s|b\.?\s?a|b\.?\s?tech|b\.\s?e|b\.?\s?eng|associate(?:'s)? degree|diploma|high school)\b\.?/i;
+const INSTITUTION_PATTERN = /\b(university|college|institute|school|academy|polytechnic)\b/i;
+const JOB_TITLE_PATTERN =
+  /\b(engineer|developer|manager|lead|analyst|designer|consultant|intern|director|architect|scientist|specialist|officer|head|vp|president|administrator|associate|coordinator|recruiter|executive|founder|programmer)\b/i;
+
+// Parse extracted resume text. Every field is best-effort and may be empty.
+export function parseResumeText(text: string, now: Date = new Date()): ResumeProfileRecord {
+  const sections = splitSections(text);
+  const experience = sections.experience.join('\n');
+  // Without an experience heading, date ranges are read from everything but education
+  const dated = experience || [...sections.summary, ...sections.other].join('\n');
+
+  return {
+    skills: parseSkills(text, sections.skills),
+    years_of_experience: parseYearsOfExperience(text, dated, now),
+    education: parseEducation(sections.education.length ? sections.education : text.split('\n')),
+    current_employer: parseCurrentEmployer(experience || text),
+    links: parseLinks(text),
+    parser_version: RESUME_PARSER_VERSION,
+  };
+}
+
+function splitSections(text: string): Record<ResumeSection, string[]> {
+  const sections: Record<ResumeSection, string[]> = {
+    summary: [],
+    experience: [],
+    education: [],
+    skills: [],
+    other: [],
+  };
+  let current: ResumeSection = 'summary';
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const heading = SECTION_HEADINGS[line.toLowerCase().replace(/[:\s]+$/, '')];
+    if (heading) {
+      current = heading;
+      continue;
+    }
+    sections[current].push(line);
+  }
+
+  return sections;
+}
+
+function parseSkills(text: string, skillLines: string[]): string[] {
+  const skills = new Set<string>();
+
+  for (const line of skillLines) {
+    // "Languages: Go, Python" - drop the label
+    const items = line.replace(/^[^:]{1,30}:\s*/, '').split(/[,;|•·▪●]|\s\/\s/);
+    for (const item of items) {
+      const skill = item.trim().replace(/^[-*–]\s*/, '').replace(/\.$/, '').toLowerCase();
+      if (skill.length >= 1 && skill.length <= 40 && skill.split(/\s+/).length <= 4) {
+        skills.add(skill);
+      }
+    }
+  }
+
+  const lower = text.toLowerCase();
+  for (const skill of KNOWN_SKILLS) {
+    const escaped = skill.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    if (new RegExp(`(^|[^a-z0-9+#.])${escaped}(?=$|[^a-z0-9+#]|\\.(?![a-z]))`, 'i').test(lower)) {
+      skills.add(skill);
+    }
+  }
+
+  return [...skills].slice(0, 100);
+}
+
+// Stated "N years of experience" wins; otherwise the union of date ranges in the experience section
+function parseYearsOfExperience(text: string, experience: string, now: Date): number | null {
+  const stated = [...text.matchAll(/(\d{1,2}(?:\.\d)?)\+?\s*(?:years?|yrs?)\s+(?:of\s+)?(?:[a-z]+\s+)?experience/gi)]
+    .map((m) => parseFloat(m[1]))
+    .filter((years) => years > 0 && years <= 60);
+  if (stated.length) {
+    return Math.max(...stated);
+  }
+
+  const nowMonth = now.getUTCFullYear() * 12 + now.getUTCMonth();
+  const ranges: [number, number][] = [];
+  for (const match of experience.matchAll(DATE_RANGE)) {
+    const start = parseMonth(match[1], false);
+    const end = /present|current|now|today/i.test(match[2]) ? nowMonth : parseMonth(match[2], true);
+    if (start !== null && end !== null && start <= end && end <= nowMonth && nowMonth - start <= 60 * 12) {
+      ranges.push([start, end]);
+    }
+  }
+  if (!ranges.length) return null;
+
+  // Merge overlapping ranges so parallel roles are not double counted
+  ranges.sort((a, b) => a[0] - b[0]);
+  let months = 0;
+  let [start, end] = ranges[0];
+  for (const [s, e] of ranges.slice(1)) {
+    if (s <= end) {
+      end = Math.max(end, e);
+    } else {
+      months += end - start + 1;
+      [start, end] = [s, e];
+    }
+  }
+  months += end - start + 1;
+
+  return Math.round((months / 12) * 10) / 10;
+}
+
+// Month index (year * 12 + month); a bare year counts from January, or to December for range ends
+function parseMonth(value: string, isEnd: boolean): number | null {
+  const v = value.toLowerCase().trim();
+
+  const numeric = v.match(/^(\d{1,2})\/(\d{4})$/);
+  if (numeric) {
+    const month = parseInt(numeric[1], 10);
+    return month >= 1 && month <= 12 ? parseInt(numeric[2], 10) * 12 + month - 1 : null;
+  }
+
+  const named = v.match(/^([a-z]+)\.?\s*(\d{4})$/);
+  if (named) {
+    const month = MONTHS.indexOf(named[1].slice(0, 3));
+    return month === -1 ? null : parseInt(named[2], 10) * 12 + month;
+  }
+
+  const year = v.match(/^(\d{4})$/);
+  if (year) {
+    return parseInt(year[1], 10) * 12 + (isEnd ? 11 : 0);
+  }
+
+  return null;
+}
+
+function parseEducation(lines: string[]): ResumeEducationRecord[] {
+  const entries: ResumeEducationRecord[] = [];
+  let current: ResumeEducationRecord | null = null;
+
+  for (const line of lines) {
+    const parts = line.split(/\s[|,–—-]\s|,\s|\t/).map((p) => p.trim()).filter(Boolean);
+    const institution = parts.find((p) => INSTITUTION_PATTERN.test(p)) ?? null;
+    const degreePart = parts.find((p) => DEGREE_PATTERN.test(p)) ?? null;
+    const years = [...line.matchAll(/\b(19[5-9]\d|20\d{2})\b/g)].map((m) => parseInt(m[1], 10));
+    const year = years.length ? Math.max(...years) : null;
+
+    if (!institution && !degreePart) {
+      if (current && current.year === null && year !== null) current.year = year;
+      continue;
+    }
+
+    // A new institution, or a second degree, starts a new entry
+    if (!current || (institution && current.institution) || (degreePart && current.degree && !institution)) {
+      current = { institution: null, degree: null, year: null };
+      entries.push(current);
+    }
+    if (institution) current.institution = institution.slice(0, 200);
+    if (degreePart && !current.degree) current.degree = degreePart.slice(0, 200);
+    if (year !== null) current.year = year;
+
+    if (entries.length >= 5) break;
+  }
+
+  return entries;
+}
+
+// Employer of the role dated "... – Present"
+function parseCurrentEmployer(experience: string): string | null {
+  const lines = experience.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!/(?:-|–|—|to)\s*(present|current|now)\b/i.test(lines[i])) continue;
+
+    // Date on its own line: the role is on the line(s) above
+    const candidates = [lines[i], lines[i - 1], lines[i - 2]].filter((l): l is string => !!l);
+    for (const line of candidates) {
+      const atMatch = line.match(/\b(?:at|@)\s+([A-Z][\w&.'’ -]{1,80}?)(?=\s*(?:[,|(–—]|\s-\s|$))/);
+      if (atMatch) return atMatch[1].trim();
+
+      const parts = line
+        .replace(DATE_RANGE, '')
+        .split(/\s[|–—-]\s|,\s|\t|\s{2,}/)
+        .map((p) => p.trim().replace(/[,|]$/, ''))
+        .filter((p) => p && !/^\(?\d/.test(p) && !/^(present|current|now)$/i.test(p));
+      const employer = parts.find((p) => !JOB_TITLE_PATTERN.test(p) && p.length <= 80 && /[a-z]/i.test(p));
+      if (employer && parts.length > 1) return employer;
+    }
+    return null;
+  }
+
+  return null;
+}
+
+function parseLinks(text: string): ResumeLinkRecord[] {
+  const links = new Map<string, ResumeLinkRecord>();
+  const pattern = /\b(?:https?:\/\/|www\.)[^\s<>()"']+|\b(?:linkedin\.com|github\.com)\/[^\s<>()"']+/gi;
+
+  for (const match of text.matchAll(pattern)) {
+    const raw = match[0].replace(/[.,;:]+$/, '');
+    let url: URL;
+    try {
+      url = new URL(/^https?:\/\//i.test(raw) ? raw : `https://${raw}`);
+    } catch {
+      continue;
+    }
+
+    const host = url.hostname.replace(/^www\./, '').toLowerCase();
+    const type = host.endsWith('linkedin.com') ? 'linkedin' : host === 'github.com' ? 'github' : 'website';
+    const normalized = url.toString().replace(/\/$/, '');
+    if (!links.has(normalized.toLowerCase())) {
+      links.set(normalized.toLowerCase(), { type, url: normalized });
+    }
+  }
+
+  return [...links.values()].slice(0, 20);
+}
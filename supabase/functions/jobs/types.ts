@@ -26,12 +26,71 @@ export interface ApplicationRecord {
   id: string;
   tenant_id: string;
   job_id: string;
+  candidate_id: string | null;
   applicant_name: string;
   applicant_email: string;
   applicant_phone: string | null;
   resume_url: string | null;
+  resume_path: string | null;
+  resume_file_name: string | null;
+  resume_profile: ResumeProfileRecord | null;
+  resume_parse_status: ResumeParseStatus | null;
+  resume_parse_error: string | null;
+  resume_parse_attempts: number;
+  resume_parsed_at: string | null;
   cover_letter: string | null;
   status: 'PENDING' | 'REVIEWED' | 'REJECTED' | 'HIRED';
+  source: string | null;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  referrer: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ResumeParseStatus = 'PENDING' | 'PARSED' | 'FAILED';
+
+// Structured resume data stored in applications.resume_profile
+export interface ResumeProfileRecord {
+  skills: string[]; // lowercased
+  years_of_experience: number | null;
+  education: ResumeEducationRecord[];
+  current_employer: string | null;
+  links: ResumeLinkRecord[];
+  parser_version: number;
+}
+
+export interface ResumeEducationRecord {
+  institution: string | null;
+  degree: string | null;
+  year: number | null;
+}
+
+export interface ResumeLinkRecord {
+  type: 'linkedin' | 'github' | 'website';
+  url: string;
+}
+
+// Source attribution accepted on public apply and internal create
+export interface ApplicationSourceFields {
+  source: string | null;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  referrer: string | null;
+}
+
+export interface CandidateRecord {
+  id: string;
+  tenant_id: string;
+  email: string;
+  name: string;
+  phone: string | null;
+  phone_normalized: string | null;
+  merged_into_id: string | null;
+  merged_at: string | null;
+  merged_by: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -58,16 +117,122 @@ export interface ApplicationResponse {
   id: string;
   tenantId: string;
   jobId: string;
+  candidateId: string | null;
   applicantName: string;
   applicantEmail: string;
   applicantPhone: string | null;
   resumeUrl: string | null;
+  resumeProfile: ResumeProfileResponse | null;
+  resumeParseStatus: ResumeParseStatus | null;
   coverLetter: string | null;
   status: 'PENDING' | 'REVIEWED' | 'REJECTED' | 'HIRED';
+  source: string | null;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  referrer: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ResumeProfileResponse {
+  skills: string[];
+  yearsOfExperience: number | null;
+  education: ResumeEducationRecord[];
+  currentEmployer: string | null;
+  links: ResumeLinkRecord[];
+  parsedAt: string | null;
+}
+
+export interface ResumeParseResultResponse {
+  claimed: number;
+  parsed: number;
+  retrying: number;
+  failed: number;
+}
+
+export interface CandidateResponse {
+  id: string;
+  email: string;
+  name: string;
+  phone: string | null;
+  applicationCount?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface CandidateEvaluationSummary {
+  id: string;
+  templateName: string;
+  stageId: string | null;
+  status: string;
+  completedAt: string | null;
+}
+
+export interface CandidateApplicationSummary {
+  id: string;
+  jobId: string;
+  jobTitle: string;
+  department: string | null;
+  appliedAt: string;
+  stageId: string | null;
+  stageName: string | null;
+  status: string | null;
+  outcomeType: string | null;
+  isTerminal: boolean;
+  evaluations: CandidateEvaluationSummary[];
+}
+
+export interface CandidateProfileResponse extends CandidateResponse {
+  mergedCandidateIds: string[];
+  applications: CandidateApplicationSummary[];
+}
+
+// search_applications() RPC result (snake_case)
+export interface ApplicationSearchResult {
+  total: number;
+  results: {
+    application_id: string;
+    candidate_id: string | null;
+    applicant_name: string;
+    applicant_email: string;
+    job_id: string;
+    job_title: string;
+    stage_id: string | null;
+    stage_name: string | null;
+    status: string | null;
+    applied_at: string;
+    rank: number | null;
+    highlight: string | null;
+  }[];
+  facets: {
+    jobs: { job_id: string; job_title: string; count: number }[];
+    stages: { stage_id: string; stage_name: string; count: number }[];
+    statuses: { status: string; count: number }[];
+  };
+}
+
+export interface ApplicationSearchHit {
+  applicationId: string;
+  candidateId: string | null;
+  applicantName: string;
+  applicantEmail: string;
+  jobId: string;
+  jobTitle: string;
+  stageId: string | null;
+  stageName: string | null;
+  status: string | null;
+  appliedAt: string;
+  rank: number | null;
+  highlight: string | null; // HTML-escaped, matches wrapped in <mark>
+}
+
+export interface ApplicationSearchFacets {
+  jobs: { jobId: string; jobTitle: string; count: number }[];
+  stages: { stageId: string; stageName: string; count: number }[];
+  statuses: { status: string; count: number }[];
+}
+
 export interface CascadeInfoResponse {
   jobId: string;
   applicationCount: number;
@@ -1,10 +1,14 @@
 import type {
   ApplicationRecord,
   ApplicationResponse,
+  ApplicationSourceFields,
+  CandidateRecord,
+  CandidateResponse,
   JobRecord,
   JobResponse,
   PublicJobDetailDto,
   PublicJobDto,
+  ResumeProfileResponse,
 } from './types.ts';
 import { jsonResponse } from '../_shared/cors.ts';
 
@@ -33,17 +37,49 @@ export function formatApplicationResponse(app: ApplicationRecord): ApplicationRe
     id: app.id,
     tenantId: app.tenant_id,
     jobId: app.job_id,
+    candidateId: app.candidate_id ?? null,
     applicantName: app.applicant_name,
     applicantEmail: app.applicant_email,
     applicantPhone: app.applicant_phone,
     resumeUrl: app.resume_url,
+    resumeProfile: formatResumeProfile(app),
+    resumeParseStatus: app.resume_parse_status ?? null,
     coverLetter: app.cover_letter,
     status: app.status,
+    source: app.source ?? null,
+    utmSource: app.utm_source ?? null,
+    utmMedium: app.utm_medium ?? null,
+    utmCampaign: app.utm_campaign ?? null,
+    referrer: app.referrer ?? null,
     createdAt: app.created_at,
     updatedAt: app.updated_at,
   };
 }
 
+function formatResumeProfile(app: ApplicationRecord): ResumeProfileResponse | null {
+  const profile = app.resume_profile;
+  if (!profile) return null;
+  return {
+    skills: profile.skills,
+    yearsOfExperience: profile.years_of_experience,
+    education: profile.education,
+    currentEmployer: profile.current_employer,
+    links: profile.links,
+    parsedAt: app.resume_parsed_at,
+  };
+}
+
+export function formatCandidateResponse(candidate: CandidateRecord): CandidateResponse {
+  return {
+    id: candidate.id,
+    email: candidate.email,
+    name: candidate.name,
+    phone: candidate.phone,
+    createdAt: candidate.created_at,
+    updatedAt: candidate.updated_at,
+  };
+}
+
 // Format for public job list (snake_case to match NestJS response)
 export function formatPublicJobDto(job: JobRecord): PublicJobDto {
   return {
@@ -72,6 +108,76 @@ export function formatPublicJobDetailDto(job: JobRecord): PublicJobDetailDto {
   };
 }
 
+// Validate UUID format
+export function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+// Resume uploads (private bucket, see 20260227000001_resume_uploads.sql)
+export const RESUME_BUCKET = 'resumes';
+export const MAX_RESUME_BYTES = 5 * 1024 * 1024;
+
+const RESUME_TYPES: Record<string, { ext: string; magic: number[] }> = {
+  'application/pdf': { ext: 'pdf', magic: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
+    ext: 'docx',
+    magic: [0x50, 0x4b, 0x03, 0x04], // ZIP container
+  },
+};
+
+// Validate an uploaded resume by size, declared type and file signature
+export async function validateResumeFile(file: File): Promise<{ contentType: string; ext: string }> {
+  if (file.size === 0) {
+    throw new Error('resume file is empty');
+  }
+  if (file.size > MAX_RESUME_BYTES) {
+    throw new Error(`resume file must be at most ${MAX_RESUME_BYTES / (1024 * 1024)} MB`);
+  }
+
+  // Browsers send an empty or generic type for some uploads; fall back to the extension
+  let contentType = file.type;
+  if (!RESUME_TYPES[contentType]) {
+    const name = file.name.toLowerCase();
+    contentType = Object.keys(RESUME_TYPES).find((type) => name.endsWith(`.${RESUME_TYPES[type].ext}`)) || '';
+  }
+
+  const resumeType = RESUME_TYPES[contentType];
+  if (!resumeType) {
+    throw new Error('resume must be a PDF or DOCX file');
+  }
+
+  const header = new Uint8Array(await file.slice(0, resumeType.magic.length).arrayBuffer());
+  if (!resumeType.magic.every((byte, i) => header[i] === byte)) {
+    throw new Error('resume file content does not match its type');
+  }
+
+  return { contentType, ext: resumeType.ext };
+}
+
+// Normalize source attribution from a snake_case body (column limits: 100/255/255/255/2048)
+export function extractApplicationSource(body: Record<string, unknown>): ApplicationSourceFields {
+  const clean = (value: unknown, name: string, maxLength: number): string | null => {
+    if (value === undefined || value === null || value === '') return null;
+    if (typeof value !== 'string') {
+      throw new Error(`${name} must be a string`);
+    }
+    const trimmed = value.trim();
+    if (trimmed.length > maxLength) {
+      throw new Error(`${name} must be at most ${maxLength} characters`);
+    }
+    return trimmed || null;
+  };
+
+  return {
+    source: clean(body.source, 'source', 100)?.toLowerCase() ?? null,
+    utm_source: clean(body.utm_source, 'utm_source', 255),
+    utm_medium: clean(body.utm_medium, 'utm_medium', 255),
+    utm_campaign: clean(body.utm_campaign, 'utm_campaign', 255),
+    referrer: clean(body.referrer, 'referrer', 2048),
+  };
+}
+
 // Create description excerpt (max 100 chars with ellipsis)
 function createDescriptionExcerpt(description: string | null): string {
   if (!description) return '';
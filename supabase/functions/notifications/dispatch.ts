@@ -0,0 +1,112 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NotificationLogRecord, NotificationTemplateRecord } from './types.ts';
+import { DEFAULT_TEMPLATES, renderTemplate } from './render.ts';
+import type { EmailTransport } from './transports.ts';
+
+// ============================================
+// Send (render + transport + log update)
+// ============================================
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_SECONDS = 60;
+const REDACTED = '[redacted]';
+
+// Values the recipient needs but notification_log must not hold. They are
+// looked up at send time; the stored subject and body show REDACTED instead.
+async function loadSecretContext(
+  supabaseAdmin: SupabaseClient,
+  notification: NotificationLogRecord,
+): Promise<Record<string, string>> {
+  if (notification.trigger_key !== 'application_received' || !notification.application_id) {
+    return {};
+  }
+
+  const { data } = await supabaseAdmin
+    .from('candidate_access_tokens')
+    .select('token')
+    .eq('application_id', notification.application_id)
+    .limit(1)
+    .maybeSingle();
+
+  return data?.token ? { access_token: data.token as string } : {};
+}
+
+// Render with the tenant's current template and send. Never throws for
+// transport failures — those are recorded and retried (60s, 120s) until
+// MAX_ATTEMPTS, then the row is marked FAILED.
+export async function sendNotification(
+  supabaseAdmin: SupabaseClient,
+  transport: EmailTransport,
+  notification: NotificationLogRecord,
+): Promise<NotificationLogRecord> {
+  const { data: template } = await supabaseAdmin
+    .from('notification_templates')
+    .select('*')
+    .eq('tenant_id', notification.tenant_id)
+    .eq('trigger_key', notification.trigger_key)
+    .maybeSingle();
+
+  const custom = template as NotificationTemplateRecord | null;
+  let update: Partial<NotificationLogRecord>;
+
+  if (custom && !custom.is_active) {
+    // Disabled after the row was queued
+    update = { status: 'SKIPPED', error: 'Template disabled' };
+  } else {
+    const source = custom ?? DEFAULT_TEMPLATES[notification.trigger_key];
+    const secrets = await loadSecretContext(supabaseAdmin, notification);
+    const redacted = Object.fromEntries(Object.keys(secrets).map((key) => [key, REDACTED]));
+    const render = (context: Record<string, unknown>) => ({
+      subject: renderTemplate(source.subject, context).replace(/[\r\n]+/g, ' ').trim(),
+      body: renderTemplate(source.body, context),
+    });
+
+    const sent = render({ ...notification.context, ...secrets });
+    const { subject, body } = render({ ...notification.context, ...redacted });
+    const attemptCount = notification.attempt_count + 1;
+
+    try {
+      const result = await transport.send({
+        to: notification.recipient_email,
+        toName: notification.recipient_name,
+        subject: sent.subject,
+        text: sent.body,
+      });
+      update = {
+        status: 'SENT',
+        subject,
+        body,
+        transport: transport.name,
+        provider_message_id: result.messageId,
+        error: null,
+        attempt_count: attemptCount,
+        sent_at: new Date().toISOString(),
+      };
+    } catch (err) {
+      const exhausted = attemptCount >= MAX_ATTEMPTS;
+      const delaySeconds = RETRY_BASE_SECONDS * 2 ** (attemptCount - 1);
+      update = {
+        status: exhausted ? 'FAILED' : 'PENDING',
+        subject,
+        body,
+        transport: transport.name,
+        error: (err as Error).message || 'Send failed',
+        attempt_count: attemptCount,
+        next_attempt_at: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+      };
+    }
+  }
+
+  const { data: updated, error } = await supabaseAdmin
+    .from('notification_log')
+    .update(update)
+    .eq('id', notification.id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update notification log: ${error.message}`);
+  }
+
+  return updated as NotificationLogRecord;
+}
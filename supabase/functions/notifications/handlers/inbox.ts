@@ -0,0 +1,198 @@
+import type {
+  HandlerContext,
+  InboxSummaryResponse,
+  UserNotificationRecord,
+  UserNotificationResponse,
+} from '../types.ts';
+import { INBOX_NOTIFICATION_TYPES } from '../types.ts';
+import { isValidUUID, jsonResponse } from '../utils.ts';
+
+// ============================================
+// Formatters
+// ============================================
+
+function formatNotificationResponse(record: UserNotificationRecord): UserNotificationResponse {
+  return {
+    id: record.id,
+    type: record.type,
+    title: record.title,
+    body: record.body,
+    applicationId: record.application_id,
+    resourceType: record.resource_type,
+    resourceId: record.resource_id,
+    actorId: record.actor_id,
+    metadata: record.metadata,
+    isRead: record.read_at !== null,
+    readAt: record.read_at,
+    createdAt: record.created_at,
+  };
+}
+
+function parseType(value: string | null): string | null {
+  if (!value) return null;
+  const type = value.toUpperCase();
+  if (!(INBOX_NOTIFICATION_TYPES as string[]).includes(type)) {
+    throw new Error(`type must be one of: ${INBOX_NOTIFICATION_TYPES.join(', ')}`);
+  }
+  return type;
+}
+
+// Unread count plus evaluations still waiting on the user
+async function buildSummary(ctx: HandlerContext): Promise<InboxSummaryResponse> {
+  const [{ count: unread }, { data: pending, error: pendingError }] = await Promise.all([
+    ctx.supabaseAdmin
+      .from('user_notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', ctx.userId!)
+      .eq('tenant_id', ctx.tenantId)
+      .is('read_at', null),
+    ctx.supabaseAdmin
+      .from('evaluation_participants')
+      .select('evaluation_id, evaluation_instances!inner(interview_round_id, status)')
+      .eq('user_id', ctx.userId!)
+      .eq('tenant_id', ctx.tenantId)
+      .eq('status', 'PENDING')
+      .in('evaluation_instances.status', ['PENDING', 'IN_PROGRESS']),
+  ]);
+
+  if (pendingError) {
+    throw new Error(`Failed to fetch pending evaluations: ${pendingError.message}`);
+  }
+
+  const rows = (pending || []) as unknown as { evaluation_instances: { interview_round_id: string | null } }[];
+  const roundLevel = rows.filter((r) => r.evaluation_instances.interview_round_id !== null).length;
+
+  return {
+    unread: unread || 0,
+    pendingEvaluations: rows.length - roundLevel,
+    pendingInterviewFeedback: roundLevel,
+  };
+}
+
+// ============================================
+// GET /me/inbox - Caller's notifications, newest first
+// (?unread=true, type, application_id, limit, offset)
+// ============================================
+
+export async function listInbox(ctx: HandlerContext): Promise<Response> {
+  const limit = Math.min(parseInt(ctx.url.searchParams.get('limit') || '50'), 100);
+  const offset = parseInt(ctx.url.searchParams.get('offset') || '0');
+  const type = parseType(ctx.url.searchParams.get('type'));
+  const applicationId = ctx.url.searchParams.get('application_id');
+
+  let query = ctx.supabaseAdmin
+    .from('user_notifications')
+    .select('*', { count: 'exact' })
+    .eq('user_id', ctx.userId!)
+    .eq('tenant_id', ctx.tenantId);
+
+  if (ctx.url.searchParams.get('unread') === 'true') {
+    query = query.is('read_at', null);
+  }
+  if (type) {
+    query = query.eq('type', type);
+  }
+  if (applicationId) {
+    if (!isValidUUID(applicationId)) {
+      throw new Error('Invalid application ID format');
+    }
+    query = query.eq('application_id', applicationId);
+  }
+
+  const [{ data, error, count }, summary] = await Promise.all([
+    query.order('created_at', { ascending: false }).range(offset, offset + limit - 1),
+    buildSummary(ctx),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to fetch inbox: ${error.message}`);
+  }
+
+  return jsonResponse({
+    data: (data || []).map((n: UserNotificationRecord) => formatNotificationResponse(n)),
+    summary,
+    pagination: {
+      total: count || 0,
+      limit,
+      offset,
+      hasMore: (count || 0) > offset + limit,
+    },
+  });
+}
+
+// ============================================
+// GET /me/inbox/summary - Badge counts only
+// ============================================
+
+export async function getInboxSummary(ctx: HandlerContext): Promise<Response> {
+  return jsonResponse({ data: await buildSummary(ctx) });
+}
+
+// ============================================
+// POST /me/inbox/:id/read - Mark one notification read
+// ============================================
+
+export async function markRead(ctx: HandlerContext): Promise<Response> {
+  const notificationId = ctx.pathParts[2];
+  if (!isValidUUID(notificationId)) {
+    throw new Error('Invalid notification ID format');
+  }
+
+  const { data: existing } = await ctx.supabaseAdmin
+    .from('user_notifications')
+    .select('*')
+    .eq('id', notificationId)
+    .eq('user_id', ctx.userId!)
+    .eq('tenant_id', ctx.tenantId)
+    .single();
+
+  if (!existing) {
+    throw new Error('Notification not found');
+  }
+
+  // Already read: keep the original read_at
+  if ((existing as UserNotificationRecord).read_at) {
+    return jsonResponse({ data: formatNotificationResponse(existing as UserNotificationRecord) });
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('user_notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('id', notificationId)
+    .eq('user_id', ctx.userId!)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to mark notification read: ${error.message}`);
+  }
+
+  return jsonResponse({ data: formatNotificationResponse(data as UserNotificationRecord) });
+}
+
+// ============================================
+// POST /me/inbox/read-all - Mark every unread notification read (?type=)
+// ============================================
+
+export async function markAllRead(ctx: HandlerContext): Promise<Response> {
+  const type = parseType(ctx.url.searchParams.get('type'));
+
+  let query = ctx.supabaseAdmin
+    .from('user_notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', ctx.userId!)
+    .eq('tenant_id', ctx.tenantId)
+    .is('read_at', null);
+
+  if (type) {
+    query = query.eq('type', type);
+  }
+
+  const { data, error } = await query.select('id');
+
+  if (error) {
+    throw new Error(`Failed to mark notifications read: ${error.message}`);
+  }
+
+  return jsonResponse({ success: true, updated: (data || []).length });
+}
@@ -0,0 +1,144 @@
+import type {
+  DispatchResultResponse,
+  HandlerContext,
+  NotificationLogRecord,
+  NotificationLogResponse,
+} from '../types.ts';
+import { isValidUUID, jsonResponse } from '../utils.ts';
+import { sendNotification } from '../dispatch.ts';
+import { getTransport } from '../transports.ts';
+
+// ============================================
+// Formatters
+// ============================================
+
+function formatLogResponse(record: NotificationLogRecord, includeBody = false): NotificationLogResponse {
+  const response: NotificationLogResponse = {
+    id: record.id,
+    triggerKey: record.trigger_key,
+    recipientEmail: record.recipient_email,
+    recipientName: record.recipient_name,
+    applicationId: record.application_id,
+    status: record.status,
+    subject: record.subject,
+    transport: record.transport,
+    providerMessageId: record.provider_message_id,
+    error: record.error,
+    attemptCount: record.attempt_count,
+    sentAt: record.sent_at,
+    createdAt: record.created_at,
+  };
+  if (includeBody) {
+    response.body = record.body;
+  }
+  return response;
+}
+
+// ============================================
+// GET /log - Per-tenant send log
+// ============================================
+
+export async function listLog(ctx: HandlerContext): Promise<Response> {
+  const limit = Math.min(parseInt(ctx.url.searchParams.get('limit') || '50'), 100);
+  const offset = parseInt(ctx.url.searchParams.get('offset') || '0');
+  const status = ctx.url.searchParams.get('status');
+  const trigger = ctx.url.searchParams.get('trigger');
+  const applicationId = ctx.url.searchParams.get('application_id');
+  const recipient = ctx.url.searchParams.get('recipient');
+
+  let query = ctx.supabaseAdmin
+    .from('notification_log')
+    .select('*', { count: 'exact' })
+    .eq('tenant_id', ctx.tenantId);
+
+  if (status) {
+    query = query.eq('status', status.toUpperCase());
+  }
+  if (trigger) {
+    query = query.eq('trigger_key', trigger);
+  }
+  if (applicationId) {
+    if (!isValidUUID(applicationId)) {
+      throw new Error('Invalid application ID format');
+    }
+    query = query.eq('application_id', applicationId);
+  }
+  if (recipient) {
+    query = query.eq('recipient_email', recipient.trim().toLowerCase());
+  }
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to fetch notification log: ${error.message}`);
+  }
+
+  return jsonResponse({
+    data: (data || []).map((n: NotificationLogRecord) => formatLogResponse(n)),
+    pagination: {
+      total: count || 0,
+      limit,
+      offset,
+      hasMore: (count || 0) > offset + limit,
+    },
+  });
+}
+
+// ============================================
+// GET /log/:id - Log entry with rendered body
+// ============================================
+
+export async function getLogEntry(ctx: HandlerContext): Promise<Response> {
+  const notificationId = ctx.pathParts[1];
+  if (!isValidUUID(notificationId)) {
+    throw new Error('Invalid notification ID format');
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('notification_log')
+    .select('*')
+    .eq('id', notificationId)
+    .eq('tenant_id', ctx.tenantId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Notification not found');
+  }
+
+  return jsonResponse({ data: formatLogResponse(data as NotificationLogRecord, true) });
+}
+
+// ============================================
+// POST /dispatch (service role) - Send due notifications
+// ============================================
+
+export async function dispatchDue(ctx: HandlerContext): Promise<Response> {
+  const limit = Math.min(parseInt(ctx.url.searchParams.get('limit') || '50'), 200);
+  const transport = getTransport();
+
+  const { data, error } = await ctx.supabaseAdmin.rpc('claim_notifications', { p_limit: limit });
+
+  if (error) {
+    throw new Error(`Failed to claim notifications: ${error.message}`);
+  }
+
+  const claimed = (data || []) as NotificationLogRecord[];
+  const result: DispatchResultResponse = { claimed: claimed.length, sent: 0, failed: 0, skipped: 0 };
+
+  for (const notification of claimed) {
+    try {
+      const updated = await sendNotification(ctx.supabaseAdmin, transport, notification);
+      if (updated.status === 'SENT') result.sent++;
+      else if (updated.status === 'SKIPPED') result.skipped++;
+      else result.failed++;
+    } catch (err) {
+      // Lease expiry returns the notification to the queue
+      console.error('Notification dispatch error', { notificationId: notification.id, error: (err as Error).message });
+      result.failed++;
+    }
+  }
+
+  return jsonResponse({ data: result });
+}
@@ -0,0 +1,186 @@
+import type {
+  HandlerContext,
+  NotificationTemplateRecord,
+  NotificationTemplateResponse,
+  NotificationTrigger,
+  PreviewNotificationTemplateDTO,
+  UpdateNotificationTemplateDTO,
+} from '../types.ts';
+import { NOTIFICATION_TRIGGERS } from '../types.ts';
+import {
+  DEFAULT_TEMPLATES,
+  findUnknownVariables,
+  renderTemplate,
+  SAMPLE_CONTEXT,
+  TEMPLATE_VARIABLES,
+  validateTemplate,
+} from '../render.ts';
+import { jsonResponse } from '../utils.ts';
+
+// ============================================
+// Helpers
+// ============================================
+
+function parseTrigger(value: string | undefined): NotificationTrigger {
+  if (!value || !(NOTIFICATION_TRIGGERS as readonly string[]).includes(value)) {
+    throw new Error(`Notification trigger not found: ${value}. Allowed: ${NOTIFICATION_TRIGGERS.join(', ')}`);
+  }
+  return value as NotificationTrigger;
+}
+
+// Custom template if the tenant saved one, otherwise the built-in default
+function formatTemplateResponse(
+  trigger: NotificationTrigger,
+  record: NotificationTemplateRecord | null,
+): NotificationTemplateResponse {
+  const fallback = DEFAULT_TEMPLATES[trigger];
+  return {
+    triggerKey: trigger,
+    subject: record?.subject ?? fallback.subject,
+    body: record?.body ?? fallback.body,
+    isActive: record?.is_active ?? true,
+    isCustom: record !== null,
+    variables: TEMPLATE_VARIABLES[trigger],
+    updatedAt: record?.updated_at ?? null,
+  };
+}
+
+async function fetchCustomTemplate(
+  ctx: HandlerContext,
+  trigger: NotificationTrigger,
+): Promise<NotificationTemplateRecord | null> {
+  const { data, error } = await ctx.supabaseAdmin
+    .from('notification_templates')
+    .select('*')
+    .eq('tenant_id', ctx.tenantId)
+    .eq('trigger_key', trigger)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch notification template: ${error.message}`);
+  }
+
+  return data as NotificationTemplateRecord | null;
+}
+
+// ============================================
+// GET /templates - Effective template per trigger
+// ============================================
+
+export async function listTemplates(ctx: HandlerContext): Promise<Response> {
+  const { data, error } = await ctx.supabaseAdmin
+    .from('notification_templates')
+    .select('*')
+    .eq('tenant_id', ctx.tenantId);
+
+  if (error) {
+    throw new Error(`Failed to fetch notification templates: ${error.message}`);
+  }
+
+  const byTrigger = new Map(
+    ((data || []) as NotificationTemplateRecord[]).map((t) => [t.trigger_key, t]),
+  );
+
+  return jsonResponse({
+    data: NOTIFICATION_TRIGGERS.map((trigger) => formatTemplateResponse(trigger, byTrigger.get(trigger) ?? null)),
+  });
+}
+
+// ============================================
+// GET /templates/:trigger
+// ============================================
+
+export async function getTemplate(ctx: HandlerContext): Promise<Response> {
+  const trigger = parseTrigger(ctx.pathParts[1]);
+  const record = await fetchCustomTemplate(ctx, trigger);
+  return jsonResponse({ data: formatTemplateResponse(trigger, record) });
+}
+
+// ============================================
+// PUT /templates/:trigger - Save tenant override
+// ============================================
+
+export async function updateTemplate(ctx: HandlerContext, req: Request): Promise<Response> {
+  const trigger = parseTrigger(ctx.pathParts[1]);
+  const body: UpdateNotificationTemplateDTO = await req.json();
+
+  if (body.is_active !== undefined && typeof body.is_active !== 'boolean') {
+    throw new Error('is_active must be a boolean');
+  }
+
+  // Partial updates fall back to the current effective template
+  const current = formatTemplateResponse(trigger, await fetchCustomTemplate(ctx, trigger));
+  const subject = body.subject ?? current.subject;
+  const templateBody = body.body ?? current.body;
+
+  if (typeof subject !== 'string' || typeof templateBody !== 'string') {
+    throw new Error('subject and body must be strings');
+  }
+
+  validateTemplate(trigger, subject, templateBody);
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('notification_templates')
+    .upsert({
+      tenant_id: ctx.tenantId,
+      trigger_key: trigger,
+      subject: subject.trim(),
+      body: templateBody,
+      is_active: body.is_active ?? current.isActive,
+      updated_by: ctx.userId,
+    }, { onConflict: 'tenant_id,trigger_key' })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save notification template: ${error.message}`);
+  }
+
+  return jsonResponse({ data: formatTemplateResponse(trigger, data as NotificationTemplateRecord) });
+}
+
+// ============================================
+// DELETE /templates/:trigger - Revert to built-in default
+// ============================================
+
+export async function resetTemplate(ctx: HandlerContext): Promise<Response> {
+  const trigger = parseTrigger(ctx.pathParts[1]);
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('notification_templates')
+    .delete()
+    .eq('tenant_id', ctx.tenantId)
+    .eq('trigger_key', trigger)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to reset notification template: ${error.message}`);
+  }
+  if (!data || data.length === 0) {
+    throw new Error('Custom notification template not found');
+  }
+
+  return jsonResponse({ message: 'Notification template reset to default' });
+}
+
+// ============================================
+// POST /templates/:trigger/preview - Render without saving
+// ============================================
+
+export async function previewTemplate(ctx: HandlerContext, req: Request): Promise<Response> {
+  const trigger = parseTrigger(ctx.pathParts[1]);
+  const body: PreviewNotificationTemplateDTO = await req.json().catch(() => ({}));
+
+  const current = formatTemplateResponse(trigger, await fetchCustomTemplate(ctx, trigger));
+  const subject = body.subject ?? current.subject;
+  const templateBody = body.body ?? current.body;
+  const context = { ...SAMPLE_CONTEXT, ...(body.context ?? {}) };
+
+  return jsonResponse({
+    data: {
+      subject: renderTemplate(subject, context),
+      body: renderTemplate(templateBody, context),
+      unknownVariables: findUnknownVariables(trigger, subject, templateBody),
+    },
+  });
+}
@@ -0,0 +1,173 @@
+import { getSupabaseAdmin, getSupabaseClient } from '../_shared/supabase.ts';
+import { corsResponse, handleError, jsonResponse, textResponse } from './utils.ts';
+import { canManageNotifications, getTenantIdFromAuth, getUserFromToken, isServiceRoleRequest } from './middleware.ts';
+import type { HandlerContext } from './types.ts';
+
+// Import handlers
+import * as templateHandlers from './handlers/templates.ts';
+import * as logHandlers from './handlers/log.ts';
+import * as inboxHandlers from './handlers/inbox.ts';
+
+// Parse path, removing function name prefix
+function parsePath(url: string): string[] {
+  return new URL(url).pathname
+    .replace(/^\/notifications\/?/, '')
+    .replace(/^\/functions\/v1\/notifications\/?/, '')
+    .replace(/\/$/, '')
+    .split('/')
+    .filter(Boolean);
+}
+
+Deno.serve(async (req: Request) => {
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    return corsResponse();
+  }
+
+  const url = new URL(req.url);
+  const pathParts = parsePath(req.url);
+  const fullPath = pathParts.join('/');
+  const method = req.method;
+
+  try {
+    // ==================== HEALTH CHECK (Public) ====================
+    if (method === 'GET' && fullPath === '') {
+      return textResponse('rtr-notifications-service: ok');
+    }
+
+    const supabaseAdmin = getSupabaseAdmin();
+    const supabaseUser = getSupabaseClient(req);
+
+    // ==================== SERVICE ROLE ROUTES ====================
+    // POST /dispatch - Send due notifications (invoked on a schedule)
+    if (method === 'POST' && fullPath === 'dispatch') {
+      if (!isServiceRoleRequest(req)) {
+        throw new Error('Forbidden: Service role required');
+      }
+      const ctx: HandlerContext = {
+        supabaseAdmin,
+        supabaseUser,
+        tenantId: '', // Notifications carry their own tenant
+        pathParts,
+        method,
+        url,
+        isServiceRole: true,
+      };
+      return await logHandlers.dispatchDue(ctx);
+    }
+
+    // ==================== USER AUTH REQUIRED ====================
+    const user = await getUserFromToken(supabaseUser);
+    if (!user) {
+      throw new Error('Unauthorized: Invalid or missing token');
+    }
+
+    // Get tenant ID
+    let tenantId: string;
+    const headerTenantId = req.headers.get('X-Tenant-ID');
+
+    if (user.role === 'SUPERADMIN' && headerTenantId) {
+      tenantId = headerTenantId;
+    } else {
+      tenantId = user.tenantId || await getTenantIdFromAuth(req, supabaseUser);
+    }
+
+    const ctx: HandlerContext = {
+      supabaseAdmin,
+      supabaseUser,
+      tenantId,
+      userId: user.id,
+      userRole: user.role,
+      pathParts,
+      method,
+      url,
+      isServiceRole: false,
+    };
+
+    // ==================== INBOX ROUTES (any signed-in user) ====================
+    // Routes: /me/inbox[/summary|/read-all|/:id/read] - always the caller's own inbox
+    if (pathParts[0] === 'me' && pathParts[1] === 'inbox') {
+      const sub = pathParts[2];
+
+      // GET /me/inbox - Notifications + pending-work summary
+      if (method === 'GET' && !sub) {
+        return await inboxHandlers.listInbox(ctx);
+      }
+
+      // GET /me/inbox/summary - Badge counts
+      if (method === 'GET' && sub === 'summary' && !pathParts[3]) {
+        return await inboxHandlers.getInboxSummary(ctx);
+      }
+
+      // POST /me/inbox/read-all - Mark all read (?type=)
+      if (method === 'POST' && sub === 'read-all' && !pathParts[3]) {
+        return await inboxHandlers.markAllRead(ctx);
+      }
+
+      // POST /me/inbox/:id/read - Mark one read
+      if (method === 'POST' && sub && pathParts[3] === 'read') {
+        return await inboxHandlers.markRead(ctx);
+      }
+    }
+
+    // ==================== ALL OTHER ROUTES REQUIRE ADMIN ====================
+    if (!canManageNotifications(user.role)) {
+      throw new Error('Forbidden: ADMIN role required');
+    }
+
+    // ==================== TEMPLATE ROUTES ====================
+    // Routes: /templates, /templates/:trigger, /templates/:trigger/preview
+    if (pathParts[0] === 'templates') {
+      const trigger = pathParts[1];
+      const action = pathParts[2];
+
+      // GET /templates - Effective template for every trigger
+      if (method === 'GET' && !trigger) {
+        return await templateHandlers.listTemplates(ctx);
+      }
+
+      // GET /templates/:trigger - Effective template
+      if (method === 'GET' && trigger && !action) {
+        return await templateHandlers.getTemplate(ctx);
+      }
+
+      // PUT /templates/:trigger - Save tenant override
+      if (method === 'PUT' && trigger && !action) {
+        return await templateHandlers.updateTemplate(ctx, req);
+      }
+
+      // DELETE /templates/:trigger - Revert to built-in default
+      if (method === 'DELETE' && trigger && !action) {
+        return await templateHandlers.resetTemplate(ctx);
+      }
+
+      // POST /templates/:trigger/preview - Render with sample data
+      if (method === 'POST' && trigger && action === 'preview') {
+        return await templateHandlers.previewTemplate(ctx, req);
+      }
+    }
+
+    // ==================== LOG ROUTES ====================
+    // Routes: /log, /log/:id
+    if (pathParts[0] === 'log') {
+      // GET /log - Send log (filters: status, trigger, application_id, recipient)
+      if (method === 'GET' && !pathParts[1]) {
+        return await logHandlers.listLog(ctx);
+      }
+
+      // GET /log/:id - Entry with rendered body
+      if (method === 'GET' && pathParts[1] && !pathParts[2]) {
+        return await logHandlers.getLogEntry(ctx);
+      }
+    }
+
+    // ==================== 404 ====================
+    return jsonResponse({
+      code: 'not_found',
+      message: 'Endpoint not found',
+      status_code: 404,
+    }, 404);
+  } catch (error) {
+    return handleError(error);
+  }
+});
@@ -0,0 +1,185 @@
+import type { NotificationTrigger } from './types.ts';
+
+// ============================================
+// Template rendering
+// ============================================
+// Plain-text templates with Handlebars-style variables: {{applicant_name}},
+// {{job.title}}. Dotted paths walk nested context objects. Missing values
+// render as an empty string. No helpers, partials or HTML escaping — the
+// output is sent as text/plain.
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*)\s*\}\}/g;
+
+const MAX_SUBJECT_LENGTH = 255;
+const MAX_BODY_LENGTH = 10_000;
+
+// Variables shared by every trigger (see notification_application_context())
+const APPLICATION_VARIABLES = [
+  'applicant_name',
+  'applicant_email',
+  'application_id',
+  'job.id',
+  'job.title',
+  'job.department',
+  'job.location',
+  'tenant.name',
+  'stage_name',
+];
+
+// Added by notification_interview_context()
+const INTERVIEW_VARIABLES = [
+  'interview_id',
+  'interviewer_name',
+  'round_type',
+  'scheduled_start',
+  'scheduled_end',
+  'location',
+  'meeting_link',
+];
+
+export const TEMPLATE_VARIABLES: Record<NotificationTrigger, string[]> = {
+  application_received: [...APPLICATION_VARIABLES, 'access_token'],
+  stage_changed: [...APPLICATION_VARIABLES, 'previous_stage_name'],
+  application_rejected: APPLICATION_VARIABLES,
+  interview_assigned: [...APPLICATION_VARIABLES, ...INTERVIEW_VARIABLES],
+  interview_cancelled: [...APPLICATION_VARIABLES, ...INTERVIEW_VARIABLES],
+};
+
+// Built-in templates used until a tenant saves its own
+export const DEFAULT_TEMPLATES: Record<NotificationTrigger, { subject: string; body: string }> = {
+  application_received: {
+    subject: 'We received your application for {{job.title}}',
+    body: [
+      'Hi {{applicant_name}},',
+      '',
+      'Thanks for applying for {{job.title}} at {{tenant.name}}. We have received your application',
+      'and will be in touch as it moves forward.',
+      '',
+      'You can check the status of your application at any time with this access code:',
+      '{{access_token}}',
+      '',
+      '{{tenant.name}}',
+    ].join('\n'),
+  },
+  stage_changed: {
+    subject: 'Update on your application for {{job.title}}',
+    body: [
+      'Hi {{applicant_name}},',
+      '',
+      'Your application for {{job.title}} has moved to the {{stage_name}} stage.',
+      '',
+      '{{tenant.name}}',
+    ].join('\n'),
+  },
+  application_rejected: {
+    subject: 'Your application for {{job.title}}',
+    body: [
+      'Hi {{applicant_name}},',
+      '',
+      'Thank you for your interest in {{job.title}} at {{tenant.name}}. After careful consideration',
+      'we have decided not to move forward with your application.',
+      '',
+      'We wish you the best in your search.',
+      '',
+      '{{tenant.name}}',
+    ].join('\n'),
+  },
+  interview_assigned: {
+    subject: 'Interview assigned: {{applicant_name}} ({{job.title}})',
+    body: [
+      'Hi {{interviewer_name}},',
+      '',
+      'You have been assigned to a {{round_type}} interview with {{applicant_name}} for {{job.title}}',
+      '({{stage_name}} stage).',
+      '',
+      'Starts: {{scheduled_start}}',
+      'Ends: {{scheduled_end}}',
+      'Location: {{location}}',
+      'Meeting link: {{meeting_link}}',
+    ].join('\n'),
+  },
+  interview_cancelled: {
+    subject: 'Interview cancelled: {{applicant_name}} ({{job.title}})',
+    body: [
+      'Hi {{interviewer_name}},',
+      '',
+      'The {{stage_name}} interview with {{applicant_name}} for {{job.title}} has been cancelled.',
+      'No further action is needed.',
+    ].join('\n'),
+  },
+};
+
+// Realistic values for previews
+export const SAMPLE_CONTEXT: Record<string, unknown> = {
+  applicant_name: 'Jordan Lee',
+  applicant_email: 'jordan.lee@example.com',
+  application_id: '00000000-0000-0000-0000-000000000000',
+  job: {
+    id: '00000000-0000-0000-0000-000000000000',
+    title: 'Senior Engineer',
+    department: 'Engineering',
+    location: 'Remote',
+  },
+  tenant: { name: 'Acme Inc' },
+  stage_name: 'Technical Interview',
+  previous_stage_name: 'Screening',
+  access_token: 'SAMPLE-ACCESS-TOKEN',
+  interview_id: '00000000-0000-0000-0000-000000000000',
+  interviewer_name: 'Sam Patel',
+  round_type: 'TECHNICAL',
+  scheduled_start: '2026-03-02T10:00:00Z',
+  scheduled_end: '2026-03-02T11:00:00Z',
+  location: 'Room 4B',
+  meeting_link: 'https://meet.example.com/abc-defg-hij',
+};
+
+function resolvePath(context: Record<string, unknown>, path: string): unknown {
+  let value: unknown = context;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+export function renderTemplate(template: string, context: Record<string, unknown>): string {
+  return template.replace(VARIABLE_PATTERN, (_match, path: string) => {
+    const value = resolvePath(context, path);
+    if (value === null || value === undefined) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+// Variable paths referenced by a template (deduplicated, in order of appearance)
+export function extractVariables(template: string): string[] {
+  return [...new Set([...template.matchAll(VARIABLE_PATTERN)].map((m) => m[1]))];
+}
+
+// Variables the trigger's context never provides
+export function findUnknownVariables(trigger: NotificationTrigger, ...templates: string[]): string[] {
+  const allowed = new Set(TEMPLATE_VARIABLES[trigger]);
+  return templates.flatMap(extractVariables).filter((v) => !allowed.has(v));
+}
+
+// Reject templates that would always render blanks or exceed limits
+export function validateTemplate(trigger: NotificationTrigger, subject: string, body: string): void {
+  if (subject.trim() === '') {
+    throw new Error('subject is required');
+  }
+  if (body.trim() === '') {
+    throw new Error('body is required');
+  }
+  if (subject.length > MAX_SUBJECT_LENGTH) {
+    throw new Error(`subject must be at most ${MAX_SUBJECT_LENGTH} characters`);
+  }
+  if (body.length > MAX_BODY_LENGTH) {
+    throw new Error(`body must be at most ${MAX_BODY_LENGTH} characters`);
+  }
+
+  const unknown = findUnknownVariables(trigger, subject, body);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown template variables: ${unknown.join(', ')}. Allowed: ${TEMPLATE_VARIABLES[trigger].join(', ')}`,
+    );
+  }
+}
@@ -0,0 +1,265 @@
+// ============================================
+// Email transports
+// ============================================
+// Selected with EMAIL_TRANSPORT:
+//   log  (default) - print to stdout and optionally append JSON lines to
+//                    NOTIFICATIONS_LOG_FILE; nothing leaves the machine
+//   smtp           - SMTP_HOST, SMTP_PORT (587), SMTP_USER, SMTP_PASS,
+//                    SMTP_SECURE=true for implicit TLS (465); otherwise
+//                    STARTTLS is used when the server offers it. Credentials
+//                    are only sent over TLS
+// SMTP_FROM / EMAIL_FROM sets the sender for both.
+
+export interface EmailMessage {
+  to: string;
+  toName: string | null;
+  subject: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<{ messageId: string }>;
+}
+
+const SMTP_TIMEOUT_MS = 15_000;
+
+function getFromAddress(): string {
+  return Deno.env.get('SMTP_FROM') || Deno.env.get('EMAIL_FROM') || 'no-reply@localhost';
+}
+
+// RFC 2047 encoded-word for non-ASCII header values
+function encodeHeader(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, ' ');
+  // deno-lint-ignore no-control-regex
+  if (/^[\x00-\x7F]*$/.test(singleLine)) return singleLine;
+  return `=?UTF-8?B?${toBase64(singleLine)}?=`;
+}
+
+function toBase64(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+// Addresses go verbatim into SMTP commands and headers: a line break would
+// inject further commands or headers, so anything but a plain addr-spec is
+// rejected (enqueue_notification() already filters recipients)
+function assertSafeAddress(email: string): string {
+  if (/[\r\n]/.test(email) || !/^[^\s<>()[\]\\,;:"@]+@[^\s<>()[\]\\,;:"@]+$/.test(email)) {
+    throw new Error('Invalid email address');
+  }
+  return email;
+}
+
+function formatAddress(email: string, name: string | null): string {
+  assertSafeAddress(email);
+  return name ? `"${encodeHeader(name).replace(/"/g, "'")}" <${email}>` : `<${email}>`;
+}
+
+function buildMimeMessage(message: EmailMessage, from: string, messageId: string): string {
+  // Base64 body keeps us clear of 8BITMIME and line-length limits
+  const body = toBase64(message.text.replace(/\r?\n/g, '\r\n')).replace(/.{1,76}/g, '$&\r\n');
+  return [
+    `From: ${formatAddress(from, null)}`,
+    `To: ${formatAddress(message.to, message.toName)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+function generateMessageId(from: string): string {
+  const domain = from.split('@')[1] || 'localhost';
+  return `<${crypto.randomUUID()}@${domain}>`;
+}
+
+// ============================================
+// Log transport (local development / tests)
+// ============================================
+
+class LogTransport implements EmailTransport {
+  name = 'log';
+
+  async send(message: EmailMessage): Promise<{ messageId: string }> {
+    const from = getFromAddress();
+    const messageId = generateMessageId(from);
+    const entry = { messageId, from, ...message, loggedAt: new Date().toISOString() };
+
+    console.log('Email (log transport)', { messageId, to: message.to, subject: message.subject });
+
+    const logFile = Deno.env.get('NOTIFICATIONS_LOG_FILE');
+    if (logFile) {
+      await Deno.writeTextFile(logFile, JSON.stringify(entry) + '\n', { append: true });
+    }
+
+    return { messageId };
+  }
+}
+
+// ============================================
+// SMTP transport
+// ============================================
+
+class SmtpConnection {
+  private buffer = '';
+  private decoder = new TextDecoder();
+  private encoder = new TextEncoder();
+
+  constructor(private conn: Deno.Conn) {}
+
+  upgrade(conn: Deno.Conn): void {
+    this.conn = conn;
+    this.buffer = '';
+  }
+
+  get raw(): Deno.Conn {
+    return this.conn;
+  }
+
+  private async readLine(): Promise<string> {
+    while (!this.buffer.includes('\r\n')) {
+      const chunk = new Uint8Array(4096);
+      const n = await this.conn.read(chunk);
+      if (n === null) throw new Error('SMTP connection closed unexpectedly');
+      this.buffer += this.decoder.decode(chunk.subarray(0, n));
+    }
+    const index = this.buffer.indexOf('\r\n');
+    const line = this.buffer.slice(0, index);
+    this.buffer = this.buffer.slice(index + 2);
+    return line;
+  }
+
+  // Read a (possibly multi-line) reply and check its code
+  async expect(expected: number): Promise<string[]> {
+    const lines: string[] = [];
+    let line: string;
+    do {
+      line = await this.readLine();
+      lines.push(line);
+    } while (line[3] === '-');
+
+    const code = parseInt(line.slice(0, 3));
+    if (code !== expected) {
+      throw new Error(`SMTP error: expected ${expected}, got ${lines.join(' | ')}`);
+    }
+    return lines.map((l) => l.slice(4));
+  }
+
+  async command(command: string, expected: number): Promise<string[]> {
+    await this.write(command + '\r\n');
+    return await this.expect(expected);
+  }
+
+  async write(data: string): Promise<void> {
+    const bytes = this.encoder.encode(data);
+    let written = 0;
+    while (written < bytes.length) {
+      written += await this.conn.write(bytes.subarray(written));
+    }
+  }
+
+  close(): void {
+    try {
+      this.conn.close();
+    } catch {
+      // already closed
+    }
+  }
+}
+
+class SmtpTransport implements EmailTransport {
+  name = 'smtp';
+
+  constructor(
+    private host: string,
+    private port: number,
+    private secure: boolean,
+    private user: string | undefined,
+    private pass: string | undefined,
+  ) {}
+
+  async send(message: EmailMessage): Promise<{ messageId: string }> {
+    const from = assertSafeAddress(getFromAddress());
+    const to = assertSafeAddress(message.to);
+    const messageId = generateMessageId(from);
+
+    const conn = this.secure
+      ? await Deno.connectTls({ hostname: this.host, port: this.port })
+      : await Deno.connect({ hostname: this.host, port: this.port });
+    const smtp = new SmtpConnection(conn);
+    const timer = setTimeout(() => smtp.close(), SMTP_TIMEOUT_MS);
+
+    try {
+      await smtp.expect(220);
+      let capabilities = await smtp.command('EHLO rtr-notifications', 250);
+
+      let tls = this.secure;
+      if (!tls && capabilities.some((c) => c.toUpperCase() === 'STARTTLS')) {
+        await smtp.command('STARTTLS', 220);
+        smtp.upgrade(await Deno.startTls(smtp.raw as Deno.TcpConn, { hostname: this.host }));
+        capabilities = await smtp.command('EHLO rtr-notifications', 250);
+        tls = true;
+      }
+
+      if (this.user && this.pass) {
+        if (!tls) {
+          throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials in cleartext');
+        }
+        const auth = capabilities.find((c) => c.toUpperCase().startsWith('AUTH')) || '';
+        if (/\bPLAIN\b/i.test(auth)) {
+          await smtp.command(`AUTH PLAIN ${toBase64(`\0${this.user}\0${this.pass}`)}`, 235);
+        } else {
+          await smtp.command('AUTH LOGIN', 334);
+          await smtp.command(toBase64(this.user), 334);
+          await smtp.command(toBase64(this.pass), 235);
+        }
+      }
+
+      await smtp.command(`MAIL FROM:<${from}>`, 250);
+      await smtp.command(`RCPT TO:<${to}>`, 250);
+      await smtp.command('DATA', 354);
+
+      // Dot-stuffing (RFC 5321 §4.5.2)
+      const data = buildMimeMessage(message, from, messageId).replace(/^\./gm, '..');
+      await smtp.write(data + '\r\n.\r\n');
+      await smtp.expect(250);
+
+      await smtp.command('QUIT', 221).catch(() => undefined);
+      return { messageId };
+    } finally {
+      clearTimeout(timer);
+      smtp.close();
+    }
+  }
+}
+
+// ============================================
+// Factory
+// ============================================
+
+export function getTransport(): EmailTransport {
+  const kind = (Deno.env.get('EMAIL_TRANSPORT') || 'log').toLowerCase();
+
+  if (kind === 'smtp') {
+    const host = Deno.env.get('SMTP_HOST');
+    if (!host) {
+      throw new Error('SMTP_HOST is required when EMAIL_TRANSPORT=smtp');
+    }
+    const secure = Deno.env.get('SMTP_SECURE') === 'true';
+    const port = parseInt(Deno.env.get('SMTP_PORT') || (secure ? '465' : '587'));
+    return new SmtpTransport(host, port, secure, Deno.env.get('SMTP_USER'), Deno.env.get('SMTP_PASS'));
+  }
+
+  if (kind === 'log') {
+    return new LogTransport();
+  }
+
+  throw new Error(`Unsupported EMAIL_TRANSPORT: ${kind}`);
+}
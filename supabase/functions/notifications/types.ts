@@ -0,0 +1,193 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { InboxNotificationType } from '../_shared/inbox.ts';
+
+// ============================================
+// Handler Context
+// ============================================
+
+export interface HandlerContext {
+  supabaseAdmin: SupabaseClient;
+  supabaseUser: SupabaseClient;
+  tenantId: string;
+  userId?: string;
+  userRole?: string;
+  pathParts: string[];
+  method: string;
+  url: URL;
+  isServiceRole?: boolean;
+}
+
+// ============================================
+// Trigger Keys
+// ============================================
+
+export const NOTIFICATION_TRIGGERS = [
+  'application_received',
+  'stage_changed',
+  'application_rejected',
+  'interview_assigned',
+  'interview_cancelled',
+] as const;
+
+export type NotificationTrigger = typeof NOTIFICATION_TRIGGERS[number];
+
+export type NotificationStatus = 'PENDING' | 'SENT' | 'FAILED' | 'SKIPPED';
+
+// ============================================
+// Database Records (snake_case - matches PostgreSQL)
+// ============================================
+
+export interface NotificationTemplateRecord {
+  id: string;
+  tenant_id: string;
+  trigger_key: NotificationTrigger;
+  subject: string;
+  body: string;
+  is_active: boolean;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NotificationLogRecord {
+  id: string;
+  tenant_id: string;
+  trigger_key: NotificationTrigger;
+  recipient_email: string;
+  recipient_name: string | null;
+  recipient_user_id: string | null;
+  application_id: string | null;
+  context: Record<string, unknown>;
+  status: NotificationStatus;
+  subject: string | null;
+  body: string | null;
+  transport: string | null;
+  provider_message_id: string | null;
+  error: string | null;
+  attempt_count: number;
+  next_attempt_at: string;
+  sent_at: string | null;
+  created_at: string;
+}
+
+// ============================================
+// API Responses (camelCase)
+// ============================================
+
+export interface NotificationTemplateResponse {
+  triggerKey: NotificationTrigger;
+  subject: string;
+  body: string;
+  isActive: boolean;
+  isCustom: boolean; // false = built-in default
+  variables: string[];
+  updatedAt: string | null;
+}
+
+export interface NotificationPreviewResponse {
+  subject: string;
+  body: string;
+  unknownVariables: string[];
+}
+
+export interface NotificationLogResponse {
+  id: string;
+  triggerKey: NotificationTrigger;
+  recipientEmail: string;
+  recipientName: string | null;
+  applicationId: string | null;
+  status: NotificationStatus;
+  subject: string | null;
+  body?: string | null; // detail only
+  transport: string | null;
+  providerMessageId: string | null;
+  error: string | null;
+  attemptCount: number;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+export interface DispatchResultResponse {
+  claimed: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+// ============================================
+// User Inbox
+// ============================================
+
+export const INBOX_NOTIFICATION_TYPES: InboxNotificationType[] = [
+  'INTERVIEW_ASSIGNED',
+  'INTERVIEW_CANCELLED',
+  'EVALUATION_REQUESTED',
+  'COMMENT_MENTION',
+  'SLA_BREACHED',
+];
+
+export interface UserNotificationRecord {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  type: InboxNotificationType;
+  title: string;
+  body: string | null;
+  application_id: string | null;
+  resource_type: string | null;
+  resource_id: string | null;
+  actor_id: string | null;
+  metadata: Record<string, unknown>;
+  dedupe_key: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface UserNotificationResponse {
+  id: string;
+  type: InboxNotificationType;
+  title: string;
+  body: string | null;
+  applicationId: string | null;
+  resourceType: string | null;
+  resourceId: string | null;
+  actorId: string | null;
+  metadata: Record<string, unknown>;
+  isRead: boolean;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// Work still waiting on the user, whether or not its notification was read
+export interface InboxSummaryResponse {
+  unread: number;
+  pendingEvaluations: number; // stage-level, as in GET /evaluations/my-pending
+  pendingInterviewFeedback: number; // round-level, as in GET /interview/my-pending
+}
+
+// ============================================
+// Request DTOs
+// ============================================
+
+export interface UpdateNotificationTemplateDTO {
+  subject?: string;
+  body?: string;
+  is_active?: boolean;
+}
+
+export interface PreviewNotificationTemplateDTO {
+  subject?: string;
+  body?: string;
+  context?: Record<string, unknown>; // overrides the sample context
+}
+
+// ============================================
+// Error Response
+// ============================================
+
+export interface ErrorResponse {
+  code: string;
+  message: string;
+  status_code: number;
+  details?: string;
+}
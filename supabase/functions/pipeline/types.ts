@@ -6,6 +6,7 @@ export interface Stage {
   type: string;
   conducted_by: string;
   metadata?: Record<string, unknown>;
+  sla_hours?: number | null; // target time-in-stage, synced to pipeline_stages.sla_hours
 }
 
 // Database Records (snake_case - matches PostgreSQL)
@@ -72,7 +72,9 @@ export function validateStages(stages: unknown): stages is Stage[] {
       s.type.length <= 50 &&
       typeof s.conducted_by === 'string' &&
       s.conducted_by.length >= 1 &&
-      s.conducted_by.length <= 50,
+      s.conducted_by.length <= 50 &&
+      (s.sla_hours === undefined || s.sla_hours === null ||
+        (typeof s.sla_hours === 'number' && s.sla_hours > 0 && s.sla_hours <= 8760)),
   );
 }
 
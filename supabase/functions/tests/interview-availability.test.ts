@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { findCommonSlots } from '../interview/handlers/availability.ts';
+import type { HandlerContext, ScheduleConflictRecord } from '../interview/types.ts';
+
+// ============================================
+// Fake Supabase client: every query on a table resolves to its fixture rows
+// ============================================
+
+interface Fixtures {
+  interviewer_availability?: Record<string, unknown>[];
+  interviewer_blackout_dates?: Record<string, unknown>[];
+  conflicts?: ScheduleConflictRecord[];
+}
+
+function fakeContext(fixtures: Fixtures): HandlerContext {
+  const query = (rows: unknown[]) => {
+    const builder: Record<string, unknown> = {
+      then: (resolve: (value: unknown) => unknown) => resolve({ data: rows, error: null }),
+    };
+    for (const method of ['select', 'eq', 'in', 'gte', 'lte', 'order']) {
+      builder[method] = () => builder;
+    }
+    return builder;
+  };
+
+  const supabaseAdmin = {
+    from: (table: keyof Fixtures) => query(fixtures[table] ?? []),
+    rpc: () => query(fixtures.conflicts ?? []),
+  };
+
+  return { supabaseAdmin, tenantId: 'tenant-1', pathParts: [] } as unknown as HandlerContext;
+}
+
+const ALICE = 'alice';
+const BOB = 'bob';
+
+// Monday 2026-11-02, 00:00 to 24:00 UTC
+const MONDAY = { from: new Date('2026-11-02T00:00:00Z'), to: new Date('2026-11-03T00:00:00Z') };
+
+Deno.test('findCommonSlots: defaults to 09:00-17:00 UTC on weekdays', async () => {
+  const slots = await findCommonSlots(fakeContext({}), {
+    userIds: [ALICE],
+    durationMinutes: 60,
+    stepMinutes: 60,
+    ...MONDAY,
+  });
+
+  assert.equal(slots.length, 8);
+  assert.deepEqual(slots[0], { start: '2026-11-02T09:00:00.000Z', end: '2026-11-02T10:00:00.000Z' });
+  assert.deepEqual(slots[7], { start: '2026-11-02T16:00:00.000Z', end: '2026-11-02T17:00:00.000Z' });
+});
+
+Deno.test('findCommonSlots: skips booked rounds and intersects interviewers', async () => {
+  const ctx = fakeContext({
+    conflicts: [
+      {
+        user_id: ALICE,
+        round_id: 'r1',
+        interview_id: 'i1',
+        scheduled_start: '2026-11-02T10:00:00Z',
+        scheduled_end: '2026-11-02T11:00:00Z',
+      },
+      {
+        user_id: BOB,
+        round_id: 'r2',
+        interview_id: 'i2',
+        scheduled_start: '2026-11-02T11:30:00Z',
+        scheduled_end: '2026-11-02T16:00:00Z',
+      },
+    ],
+  });
+
+  const slots = await findCommonSlots(ctx, { userIds: [ALICE, BOB], durationMinutes: 60, ...MONDAY });
+
+  assert.deepEqual(slots.map((s) => s.start), [
+    '2026-11-02T09:00:00.000Z',
+    '2026-11-02T16:00:00.000Z',
+  ]);
+});
+
+Deno.test('findCommonSlots: converts working hours from the interviewer time zone', async () => {
+  const ctx = fakeContext({
+    interviewer_availability: [
+      // 09:00-17:00 in Kolkata (UTC+5:30) is 03:30-11:30 UTC
+      { user_id: BOB, time_zone: 'Asia/Kolkata', weekly_hours: { mon: [{ start: '09:00', end: '17:00' }] } },
+    ],
+  });
+
+  const slots = await findCommonSlots(ctx, { userIds: [ALICE, BOB], durationMinutes: 60, ...MONDAY });
+
+  assert.deepEqual(slots.map((s) => s.start), [
+    '2026-11-02T09:00:00.000Z',
+    '2026-11-02T09:30:00.000Z',
+    '2026-11-02T10:00:00.000Z',
+    '2026-11-02T10:30:00.000Z',
+  ]);
+});
+
+Deno.test('findCommonSlots: a blackout date removes the whole day', async () => {
+  const ctx = fakeContext({
+    interviewer_blackout_dates: [{ user_id: BOB, blackout_date: '2026-11-02' }],
+  });
+
+  const slots = await findCommonSlots(ctx, { userIds: [ALICE, BOB], durationMinutes: 30, ...MONDAY });
+
+  assert.deepEqual(slots, []);
+});
+
+Deno.test('findCommonSlots: honours windows claimed earlier in the request and the limit', async () => {
+  const slots = await findCommonSlots(fakeContext({}), {
+    userIds: [ALICE],
+    durationMinutes: 60,
+    limit: 2,
+    extraBusy: new Map([[ALICE, [{ start: '2026-11-02T09:00:00Z', end: '2026-11-02T12:00:00Z' }]]]),
+    ...MONDAY,
+  });
+
+  assert.deepEqual(slots, [
+    { start: '2026-11-02T12:00:00.000Z', end: '2026-11-02T13:00:00.000Z' },
+    { start: '2026-11-02T12:30:00.000Z', end: '2026-11-02T13:30:00.000Z' },
+  ]);
+});
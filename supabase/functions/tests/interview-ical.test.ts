@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { buildCalendar, type IcsEvent } from '../interview/ical.ts';
+
+const EVENT: IcsEvent = {
+  uid: 'round-1@rtr',
+  sequence: 2,
+  start: '2026-11-02T09:00:00Z',
+  end: '2026-11-02T10:00:00Z',
+  summary: 'Tech interview: Jane Doe',
+  status: 'CONFIRMED',
+  organizer: { name: 'HR Team', email: 'hr@example.com' },
+  attendees: [{ name: 'Sam Interviewer', email: 'sam@example.com' }],
+};
+
+// Unfold continuation lines (RFC 5545 §3.1) and split into content lines
+function contentLines(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n').filter((line) => line !== '');
+}
+
+Deno.test('buildCalendar: renders a REQUEST event with CRLF line endings', () => {
+  const ics = buildCalendar('REQUEST', [EVENT], 'Interviews');
+  const lines = contentLines(ics);
+
+  assert.ok(ics.endsWith('END:VCALENDAR\r\n'));
+  assert.equal(lines[0], 'BEGIN:VCALENDAR');
+  assert.ok(lines.includes('METHOD:REQUEST'));
+  assert.ok(lines.includes('X-WR-CALNAME:Interviews'));
+  assert.ok(lines.includes('UID:round-1@rtr'));
+  assert.ok(lines.includes('SEQUENCE:2'));
+  assert.ok(lines.includes('DTSTART:20261102T090000Z'));
+  assert.ok(lines.includes('DTEND:20261102T100000Z'));
+  assert.ok(lines.includes('STATUS:CONFIRMED'));
+  assert.ok(lines.includes('ORGANIZER;CN="HR Team":mailto:hr@example.com'));
+  assert.ok(
+    lines.includes(
+      'ATTENDEE;CN="Sam Interviewer";ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:sam@example.com',
+    ),
+  );
+});
+
+Deno.test('buildCalendar: CANCEL forces STATUS:CANCELLED', () => {
+  const lines = contentLines(buildCalendar('CANCEL', [EVENT]));
+
+  assert.ok(lines.includes('METHOD:CANCEL'));
+  assert.ok(lines.includes('STATUS:CANCELLED'));
+  assert.ok(!lines.some((line) => line.includes('RSVP=TRUE')));
+});
+
+Deno.test('buildCalendar: escapes TEXT values and strips control characters', () => {
+  const lines = contentLines(buildCalendar('PUBLISH', [{
+    ...EVENT,
+    summary: 'Round 1; panel, with notes\\',
+    description: 'Line one\nLine two\rBEGIN:VALARM',
+    organizer: { name: 'HR "Team"\r\nX-INJECTED:1', email: 'hr@example.com' },
+  }]));
+
+  assert.ok(lines.includes('SUMMARY:Round 1\\; panel\\, with notes\\\\'));
+  assert.ok(lines.includes('DESCRIPTION:Line one\\nLine twoBEGIN:VALARM'));
+  assert.ok(lines.includes(`ORGANIZER;CN="HR 'Team'X-INJECTED:1":mailto:hr@example.com`));
+  assert.ok(!lines.some((line) => line.startsWith('X-INJECTED') || line === 'BEGIN:VALARM'));
+});
+
+Deno.test('buildCalendar: drops URI values containing control characters', () => {
+  const lines = contentLines(buildCalendar('REQUEST', [{
+    ...EVENT,
+    url: 'https://meet.example.com/abc\r\nATTENDEE:mailto:attacker@example.com',
+    attendees: [
+      { name: null, email: 'victim@example.com\r\nX-INJECTED:1' },
+      { name: null, email: 'ok@example.com' },
+    ],
+  }]));
+
+  assert.ok(!lines.some((line) => line.startsWith('URL:')));
+  assert.ok(!lines.some((line) => line.includes('attacker@example.com') || line.includes('victim@example.com')));
+  assert.ok(!lines.some((line) => line.startsWith('X-INJECTED')));
+  assert.ok(lines.includes('ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:ok@example.com'));
+});
+
+Deno.test('buildCalendar: keeps a clean meeting link', () => {
+  const lines = contentLines(buildCalendar('REQUEST', [{ ...EVENT, url: 'https://meet.example.com/abc' }]));
+
+  assert.ok(lines.includes('URL:https://meet.example.com/abc'));
+});
+
+Deno.test('buildCalendar: folds lines longer than 75 octets', () => {
+  const ics = buildCalendar('PUBLISH', [{ ...EVENT, description: 'é'.repeat(100) }]);
+  const encoder = new TextEncoder();
+
+  for (const line of ics.split('\r\n')) {
+    assert.ok(encoder.encode(line).length <= 75, `line exceeds 75 octets: ${line}`);
+  }
+  assert.ok(contentLines(ics).includes(`DESCRIPTION:${'é'.repeat(100)}`));
+});
@@ -0,0 +1,195 @@
+import assert from 'node:assert/strict';
+import { extractResumeText, MAX_RESUME_TEXT_LENGTH, parseResumeText } from '../jobs/resume-parser.ts';
+
+// ============================================
+// Fixture builders
+// ============================================
+
+const encoder = new TextEncoder();
+
+async function compress(data: Uint8Array<ArrayBuffer>, format: 'deflate' | 'deflate-raw'): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// Byte-for-byte string (PDF syntax is byte-oriented)
+function latin1(str: string): Uint8Array {
+  return Uint8Array.from(str, (ch) => ch.charCodeAt(0));
+}
+
+async function buildPdf(content: string, compressed: boolean): Promise<Uint8Array> {
+  const data = compressed ? await compress(encoder.encode(content), 'deflate') : encoder.encode(content);
+  return concat([
+    latin1(`%PDF-1.4\n1 0 obj\n<< /Length ${data.length}${compressed ? ' /Filter /FlateDecode' : ''} >>\nstream\n`),
+    data,
+    latin1('\nendstream\nendobj\n%%EOF\n'),
+  ]);
+}
+
+// Single-entry ZIP archive (CRC is not checked by the reader)
+async function buildDocx(
+  documentXml: string,
+  compressed: boolean,
+  entryName = 'word/document.xml',
+): Promise<Uint8Array> {
+  const name = encoder.encode(entryName);
+  const raw = encoder.encode(documentXml);
+  const data = compressed ? await compress(raw, 'deflate-raw') : raw;
+  const method = compressed ? 8 : 0;
+
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint16(8, method, true);
+  local.setUint32(18, data.length, true);
+  local.setUint32(22, raw.length, true);
+  local.setUint16(26, name.length, true);
+
+  const central = new DataView(new ArrayBuffer(46));
+  central.setUint32(0, 0x02014b50, true);
+  central.setUint16(10, method, true);
+  central.setUint32(20, data.length, true);
+  central.setUint32(24, raw.length, true);
+  central.setUint16(28, name.length, true);
+  central.setUint32(42, 0, true);
+
+  const centralOffset = 30 + name.length + data.length;
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, 0x06054b50, true);
+  eocd.setUint16(8, 1, true);
+  eocd.setUint16(10, 1, true);
+  eocd.setUint32(12, 46 + name.length, true);
+  eocd.setUint32(16, centralOffset, true);
+
+  return concat([
+    new Uint8Array(local.buffer),
+    name,
+    data,
+    new Uint8Array(central.buffer),
+    name,
+    new Uint8Array(eocd.buffer),
+  ]);
+}
+
+const PDF_CONTENT = 'BT /F1 12 Tf 72 720 Td (Jane Doe) Tj 0 -14 Td [(Senior)-250(Engineer)] TJ ' +
+  '0 -14 Td (Skills: Python\\, Docker) Tj ET';
+
+const DOCUMENT_XML = '<?xml version="1.0"?><w:document><w:body>' +
+  '<w:p><w:r><w:t>Jane Doe</w:t></w:r></w:p>' +
+  '<w:p><w:r><w:t>R&amp;D Engineer</w:t><w:tab/><w:t>2020</w:t></w:r></w:p>' +
+  '</w:body></w:document>';
+
+// ============================================
+// Text extraction
+// ============================================
+
+Deno.test('extractResumeText: reads text operators of an uncompressed PDF', async () => {
+  const text = await extractResumeText(await buildPdf(PDF_CONTENT, false));
+
+  assert.equal(text, 'Jane Doe\nSenior Engineer\nSkills: Python, Docker');
+});
+
+Deno.test('extractResumeText: inflates Flate-compressed PDF streams', async () => {
+  const text = await extractResumeText(await buildPdf(PDF_CONTENT, true));
+
+  assert.equal(text, 'Jane Doe\nSenior Engineer\nSkills: Python, Docker');
+});
+
+Deno.test('extractResumeText: reads paragraphs of a DOCX, stored or deflated', async () => {
+  for (const compressed of [false, true]) {
+    const text = await extractResumeText(await buildDocx(DOCUMENT_XML, compressed));
+
+    assert.equal(text, 'Jane Doe\nR&D Engineer 2020');
+  }
+});
+
+Deno.test('extractResumeText: strips control characters and caps the length', async () => {
+  const long = 'A'.repeat(MAX_RESUME_TEXT_LENGTH + 50);
+  const text = await extractResumeText(await buildPdf(`BT (Jane\\000 Doe) Tj T* (${long}) Tj ET`, false));
+
+  assert.ok(text.startsWith('Jane Doe\nAAA'));
+  assert.equal(text.length, MAX_RESUME_TEXT_LENGTH);
+});
+
+Deno.test('extractResumeText: rejects other formats and DOCX files without a body', async () => {
+  await assert.rejects(() => extractResumeText(encoder.encode('plain text resume')), /expected PDF or DOCX/);
+
+  const docx = await buildDocx(DOCUMENT_XML, false, 'word/styles.xml');
+  await assert.rejects(() => extractResumeText(docx), /no document body/);
+});
+
+// ============================================
+// Parsing
+// ============================================
+
+const RESUME = `Jane Doe
+Senior Software Engineer
+linkedin.com/in/janedoe | https://github.com/janedoe
+
+Summary
+Backend engineer building reliable services.
+
+Experience
+Senior Engineer at Acme Corp, Jan 2020 - Present
+Software Engineer, Globex | 2016 - 2019
+
+Education
+University of Somewhere, B.Sc. Computer Science, 2015
+
+Skills
+Languages: Go, Python
+Docker, Kubernetes`;
+
+const NOW = new Date('2024-12-15T00:00:00Z');
+
+Deno.test('parseResumeText: extracts every field of a typical resume', () => {
+  const profile = parseResumeText(RESUME, NOW);
+
+  assert.deepEqual(profile.skills, ['go', 'python', 'docker', 'kubernetes']);
+  assert.equal(profile.years_of_experience, 9); // Jan 2020-Dec 2024 plus 2016-2019
+  assert.deepEqual(profile.education, [
+    { institution: 'University of Somewhere', degree: 'B.Sc. Computer Science', year: 2015 },
+  ]);
+  assert.equal(profile.current_employer, 'Acme Corp');
+  assert.deepEqual(profile.links, [
+    { type: 'linkedin', url: 'https://linkedin.com/in/janedoe' },
+    { type: 'github', url: 'https://github.com/janedoe' },
+  ]);
+  assert.equal(profile.parser_version, 1);
+});
+
+Deno.test('parseResumeText: a stated number of years wins over date ranges', () => {
+  const profile = parseResumeText(`Engineer with 12+ years of experience\n\n${RESUME}`, NOW);
+
+  assert.equal(profile.years_of_experience, 12);
+});
+
+Deno.test('parseResumeText: overlapping roles are not counted twice', () => {
+  const profile = parseResumeText(
+    'Experience\nEngineer, Initech, Jan 2018 - Dec 2019\nAdvisor, Hooli, Jan 2019 - Dec 2020',
+    NOW,
+  );
+
+  assert.equal(profile.years_of_experience, 3);
+  assert.equal(profile.current_employer, null);
+});
+
+Deno.test('parseResumeText: empty text yields an empty profile', () => {
+  assert.deepEqual(parseResumeText('', NOW), {
+    skills: [],
+    years_of_experience: null,
+    education: [],
+    current_employer: null,
+    links: [],
+    parser_version: 1,
+  });
+});
@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { generateWebhookSecret, sendDelivery, signPayload } from '../webhooks/dispatch.ts';
+import type { WebhookDeliveryRecord } from '../webhooks/types.ts';
+
+// ============================================
+// Signing
+// ============================================
+
+Deno.test('signPayload: HMAC-SHA256 of "<t>.<body>" in the documented header format', async () => {
+  const signature = await signPayload('whsec_test', 1700000000, '{"hello":"world"}');
+
+  assert.equal(signature, 't=1700000000,v1=f592bbf3951cfc94e560eecfb5d9dd4da6b0fff2e626235f8ab4b54860925d0b');
+});
+
+Deno.test('signPayload: signature changes with the timestamp and the body', async () => {
+  const base = await signPayload('whsec_test', 1700000000, '{}');
+
+  assert.notEqual(base.split('v1=')[1], (await signPayload('whsec_test', 1700000001, '{}')).split('v1=')[1]);
+  assert.notEqual(base, await signPayload('whsec_test', 1700000000, '{ }'));
+  assert.notEqual(base, await signPayload('whsec_other', 1700000000, '{}'));
+});
+
+Deno.test('generateWebhookSecret: 32 random bytes, hex encoded', () => {
+  const secret = generateWebhookSecret();
+
+  assert.match(secret, /^whsec_[0-9a-f]{64}$/);
+  assert.notEqual(secret, generateWebhookSecret());
+});
+
+// ============================================
+// Delivery: every outcome is handed to record_webhook_attempt(), which
+// applies the retry backoff (see supabase/tests/webhook-delivery-tests.sql)
+// ============================================
+
+const DELIVERY = { id: 'delivery-1', endpoint_id: 'endpoint-1', event_id: 'event-1' } as WebhookDeliveryRecord;
+
+function fakeAdmin(endpointUrl: string) {
+  const attempts: Record<string, unknown>[] = [];
+  const rows: Record<string, unknown> = {
+    webhook_endpoints: { id: 'endpoint-1', url: endpointUrl, secret: 'whsec_test', is_active: true },
+    webhook_events: { id: 'event-1', event_type: 'application.created', payload: { application_id: 'app-1' } },
+  };
+
+  const client = {
+    from: (table: string) => {
+      const builder = {
+        select: () => builder,
+        eq: () => builder,
+        single: () => Promise.resolve({ data: rows[table], error: null }),
+      };
+      return builder;
+    },
+    rpc: (_name: string, args: Record<string, unknown>) => {
+      attempts.push(args);
+      return Promise.resolve({ data: { ...DELIVERY, attempt_count: attempts.length }, error: null });
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, attempts };
+}
+
+async function withFetch(stub: typeof fetch, run: () => Promise<void>): Promise<void> {
+  const original = globalThis.fetch;
+  globalThis.fetch = stub;
+  try {
+    await run();
+  } finally {
+    globalThis.fetch = original;
+  }
+}
+
+Deno.test('sendDelivery: posts the signed payload and records success', async () => {
+  Deno.env.set('WEBHOOKS_ALLOW_PRIVATE_URLS', 'true');
+  const { client, attempts } = fakeAdmin('http://localhost:8787/hook');
+  let request: Request | null = null;
+
+  await withFetch((input, init) => {
+    request = new Request(input, init);
+    return Promise.resolve(new Response('ok', { status: 200 }));
+  }, async () => {
+    await sendDelivery(client, DELIVERY);
+  });
+
+  const sent = request as Request | null;
+  assert.ok(sent);
+  assert.equal(sent.redirect, 'manual');
+  assert.equal(sent.headers.get('X-Webhook-Id'), 'delivery-1');
+  assert.equal(sent.headers.get('X-Webhook-Event'), 'application.created');
+
+  const body = await sent.text();
+  const [t, v1] = sent.headers.get('X-Webhook-Signature')!.split(',');
+  const timestamp = Number(t.slice(2));
+  assert.equal(`${t},${v1}`, await signPayload('whsec_test', timestamp, body));
+
+  assert.equal(attempts.length, 1);
+  assert.equal(attempts[0].p_success, true);
+  assert.equal(attempts[0].p_response_status, 200);
+  assert.equal(attempts[0].p_error, null);
+  assert.equal(attempts[0].p_response_body, null);
+});
+
+Deno.test('sendDelivery: records non-2xx, redirects and network errors as failed attempts', async () => {
+  Deno.env.set('WEBHOOKS_ALLOW_PRIVATE_URLS', 'true');
+  const { client, attempts } = fakeAdmin('http://localhost:8787/hook');
+
+  await withFetch(() => Promise.resolve(new Response('boom', { status: 500 })), async () => {
+    await sendDelivery(client, DELIVERY);
+  });
+  await withFetch(
+    () => Promise.resolve(new Response(null, { status: 302, headers: { Location: 'http://169.254.169.254/' } })),
+    async () => {
+      await sendDelivery(client, DELIVERY);
+    },
+  );
+  await withFetch(() => Promise.reject(new TypeError('connection refused')), async () => {
+    await sendDelivery(client, DELIVERY);
+  });
+
+  assert.deepEqual(
+    attempts.map((a) => [a.p_success, a.p_response_status, a.p_error]),
+    [
+      [false, 500, 'HTTP 500'],
+      [false, 302, 'HTTP 302'],
+      [false, null, 'connection refused'],
+    ],
+  );
+});
+
+Deno.test('sendDelivery: never contacts a non-public endpoint', async () => {
+  Deno.env.delete('WEBHOOKS_ALLOW_PRIVATE_URLS');
+  const { client, attempts } = fakeAdmin('http://169.254.169.254/latest/meta-data');
+  let called = false;
+
+  await withFetch(() => {
+    called = true;
+    return Promise.resolve(new Response('ok'));
+  }, async () => {
+    await sendDelivery(client, DELIVERY);
+  });
+
+  assert.equal(called, false);
+  assert.equal(attempts[0].p_success, false);
+  assert.equal(attempts[0].p_error, 'Endpoint url host is not allowed');
+});
@@ -1,12 +1,16 @@
 import type {
   AvailableActionResponse,
+  BulkActionResultResponse,
+  BulkExecuteActionDTO,
   EvaluationRequirement,
   ExecuteActionDTO,
   HandlerContext,
   PipelineStageRecord,
   SignalCondition,
   SignalConditions,
+  TrackingStateResponse,
 } from '../types.ts';
+import { hideBlindedSignalValues } from '../../_shared/blind-evaluations.ts';
 import { isValidUUID, jsonResponse } from '../utils.ts';
 
 // ============================================================================
@@ -29,7 +33,7 @@ interface TrackingRpcResult {
 function formatRpcResult(
   result: TrackingRpcResult,
   stage: PipelineStageRecord,
-) {
+): TrackingStateResponse {
   return {
     id: result.id,
     applicationId: result.application_id,
@@ -148,6 +152,113 @@ export async function executeAction(ctx: HandlerContext, req: Request): Promise<
   });
 }
 
+// ============================================================================
+// POST /applications/bulk-act - Execute one action on many applications
+// ============================================================================
+
+const MAX_BULK_APPLICATIONS = 200;
+
+// RPC error prefixes that mean "a gate said no" rather than "something broke"
+const BLOCKING_RPC_ERRORS: Record<string, string> = {
+  SIGNALS_NOT_MET: 'signals_not_met',
+  EVALUATIONS_INCOMPLETE: 'evaluations_incomplete',
+  FEEDBACK_REQUIRED: 'feedback_required',
+  TERMINAL_STATUS: 'terminal_status',
+  INVALID_ACTION: 'invalid_action',
+  FORBIDDEN: 'forbidden',
+  VALIDATION: 'validation',
+};
+
+// Each application goes through execute_action_v2 on its own, so every gate
+// (capability, signals, evaluation completion) applies exactly as for /act and
+// one blocked application never rolls back the others.
+export async function executeBulkAction(ctx: HandlerContext, req: Request): Promise<Response> {
+  const body: BulkExecuteActionDTO = await req.json();
+
+  if (!body.action || typeof body.action !== 'string' || body.action.trim() === '') {
+    throw new Error('action is required');
+  }
+  if (!Array.isArray(body.application_ids) || body.application_ids.length === 0) {
+    throw new Error('application_ids must be a non-empty array');
+  }
+
+  const applicationIds = [...new Set(body.application_ids)];
+  if (applicationIds.length > MAX_BULK_APPLICATIONS) {
+    throw new Error(`application_ids cannot contain more than ${MAX_BULK_APPLICATIONS} entries`);
+  }
+
+  const actionCode = body.action.toUpperCase().trim();
+  const stageCache = new Map<string, PipelineStageRecord>();
+  const results: BulkActionResultResponse[] = [];
+
+  for (const applicationId of applicationIds) {
+    if (typeof applicationId !== 'string' || !isValidUUID(applicationId)) {
+      results.push({ applicationId, result: 'error', message: 'Invalid application ID format' });
+      continue;
+    }
+
+    const { data: result, error: rpcError } = await ctx.supabaseAdmin
+      .rpc('execute_action_v2', {
+        p_application_id: applicationId,
+        p_tenant_id: ctx.tenantId,
+        p_user_id: ctx.userId,
+        p_action_code: actionCode,
+        p_notes: body.notes || null,
+        p_override_reason: body.override_reason || null,
+        p_reviewed_by: body.reviewed_by || null,
+        p_approved_by: body.approved_by || null,
+      });
+
+    if (rpcError) {
+      const rawMessage = rpcError.message || '';
+      const code = Object.keys(BLOCKING_RPC_ERRORS).find((prefix) => rawMessage.startsWith(`${prefix}:`));
+      let message = rawMessage;
+      try {
+        handleRpcError(rpcError);
+      } catch (err) {
+        message = (err as Error).message;
+      }
+      results.push(
+        code
+          ? { applicationId, result: 'blocked', reason: BLOCKING_RPC_ERRORS[code], message }
+          : { applicationId, result: 'error', message },
+      );
+      continue;
+    }
+
+    const rpcResult = result as TrackingRpcResult;
+    let stage = stageCache.get(rpcResult.current_stage_id);
+    if (!stage) {
+      const { data: stageData } = await ctx.supabaseAdmin
+        .from('pipeline_stages')
+        .select('*')
+        .eq('id', rpcResult.current_stage_id)
+        .single();
+      if (stageData) {
+        stage = stageData as PipelineStageRecord;
+        stageCache.set(stage.id, stage);
+      }
+    }
+
+    // The action committed even if the stage lookup failed
+    results.push({
+      applicationId,
+      result: 'executed',
+      state: stage ? formatRpcResult(rpcResult, stage) : undefined,
+    });
+  }
+
+  return jsonResponse({
+    data: results,
+    summary: {
+      total: results.length,
+      executed: results.filter((r) => r.result === 'executed').length,
+      blocked: results.filter((r) => r.result === 'blocked').length,
+      failed: results.filter((r) => r.result === 'error').length,
+    },
+  });
+}
+
 // ============================================================================
 // GET /applications/:id/actions - Get available actions for current stage
 // ============================================================================
@@ -324,6 +435,15 @@ export async function getAvailableActions(ctx: HandlerContext): Promise<Response
     }
   }
 
+  // Blinded panelists see which conditions are met, not the values
+  await hideBlindedSignalValues(
+    ctx.supabaseAdmin,
+    ctx.tenantId,
+    ctx.userId,
+    applicationId,
+    Object.values(signalStatusMap),
+  );
+
   // Format response
   const availableActions: AvailableActionResponse[] = contextualActions.map(
     (a: {
@@ -0,0 +1,380 @@
+import type {
+  AutomationConditionsDTO,
+  AutomationRuleRecord,
+  AutomationRuleResponse,
+  AutomationRuleRunRecord,
+  AutomationRuleRunResponse,
+  CreateAutomationRuleDTO,
+  HandlerContext,
+  UpdateAutomationRuleDTO,
+} from '../types.ts';
+import { isValidUUID, jsonResponse } from '../utils.ts';
+
+const VALID_OPERATORS = ['=', '!=', '>', '>=', '<', '<=', 'in', 'contains'];
+const MAX_DELAY_MINUTES = 43200; // 30 days, matches the DB check
+
+// ============================================================================
+// Formatters & validation
+// ============================================================================
+
+function formatRuleResponse(record: AutomationRuleRecord): AutomationRuleResponse {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description,
+    stageId: record.stage_id,
+    actionCode: record.action_code,
+    conditions: record.conditions,
+    delayMinutes: record.delay_minutes,
+    notes: record.notes,
+    isActive: record.is_active,
+    createdBy: record.created_by,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+  };
+}
+
+function formatRunResponse(record: AutomationRuleRunRecord): AutomationRuleRunResponse {
+  return {
+    id: record.id,
+    ruleId: record.rule_id,
+    applicationId: record.application_id,
+    stageId: record.stage_id,
+    status: record.status,
+    conditionsEvaluated: record.conditions_evaluated,
+    executeAfter: record.execute_after,
+    executedAt: record.executed_at,
+    actionLogId: record.action_log_id,
+    error: record.error,
+    createdAt: record.created_at,
+  };
+}
+
+// Same shape as tenant_stage_actions.signal_conditions, minus WARN
+export function validateConditions(input: unknown): AutomationConditionsDTO {
+  const conditions = input as AutomationConditionsDTO | null;
+  if (!conditions || typeof conditions !== 'object' || !Array.isArray(conditions.conditions)) {
+    throw new Error('conditions must be an object with a conditions array');
+  }
+  if (conditions.conditions.length === 0) {
+    throw new Error('conditions must contain at least one condition');
+  }
+
+  const logic = conditions.logic ?? 'ALL';
+  if (logic !== 'ALL' && logic !== 'ANY') {
+    throw new Error('conditions.logic must be ALL or ANY');
+  }
+
+  return {
+    logic,
+    conditions: conditions.conditions.map((c, i) => {
+      if (!c || typeof c.signal !== 'string' || c.signal.trim() === '') {
+        throw new Error(`conditions[${i}].signal is required`);
+      }
+      if (!VALID_OPERATORS.includes(c.operator)) {
+        throw new Error(`conditions[${i}].operator must be one of: ${VALID_OPERATORS.join(', ')}`);
+      }
+      if (c.value === undefined || c.value === null) {
+        throw new Error(`conditions[${i}].value is required`);
+      }
+      if (c.operator === 'in' && (!Array.isArray(c.value) || c.value.length === 0)) {
+        throw new Error(`conditions[${i}].value must be a non-empty array for the in operator`);
+      }
+      const onMissing = c.on_missing ?? 'BLOCK';
+      if (onMissing !== 'BLOCK' && onMissing !== 'ALLOW') {
+        throw new Error(`conditions[${i}].on_missing must be BLOCK or ALLOW`);
+      }
+      return { signal: c.signal.trim(), operator: c.operator, value: c.value, on_missing: onMissing };
+    }),
+  };
+}
+
+function validateDelay(input: unknown): number {
+  if (typeof input !== 'number' || !Number.isInteger(input) || input < 0 || input > MAX_DELAY_MINUTES) {
+    throw new Error(`delay_minutes must be an integer between 0 and ${MAX_DELAY_MINUTES}`);
+  }
+  return input;
+}
+
+// The action must exist on the rule's stage (or on at least one stage when unscoped)
+async function assertActionAvailable(ctx: HandlerContext, stageId: string | null, actionCode: string): Promise<void> {
+  if (stageId) {
+    if (!isValidUUID(stageId)) {
+      throw new Error('Invalid stage ID format');
+    }
+
+    const { data: stage } = await ctx.supabaseAdmin
+      .from('pipeline_stages')
+      .select('id, tenant_id')
+      .eq('id', stageId)
+      .single();
+
+    if (!stage || (stage.tenant_id !== null && stage.tenant_id !== ctx.tenantId)) {
+      throw new Error('Stage not found');
+    }
+  }
+
+  let query = ctx.supabaseAdmin
+    .from('tenant_stage_actions')
+    .select('id', { count: 'exact', head: true })
+    .eq('tenant_id', ctx.tenantId)
+    .eq('action_code', actionCode)
+    .eq('is_active', true);
+
+  if (stageId) {
+    query = query.eq('stage_id', stageId);
+  }
+
+  const { count, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to verify action: ${error.message}`);
+  }
+  if (!count) {
+    throw new Error(
+      stageId ? `Action "${actionCode}" is not available for this stage` : `Action "${actionCode}" not found`,
+    );
+  }
+}
+
+async function fetchRule(ctx: HandlerContext, ruleId: string): Promise<AutomationRuleRecord> {
+  if (!isValidUUID(ruleId)) {
+    throw new Error('Invalid rule ID format');
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('automation_rules')
+    .select('*')
+    .eq('id', ruleId)
+    .eq('tenant_id', ctx.tenantId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Automation rule not found');
+  }
+
+  return data as AutomationRuleRecord;
+}
+
+// ============================================================================
+// GET /settings/automation-rules - List rules
+// ============================================================================
+export async function listRules(ctx: HandlerContext): Promise<Response> {
+  let query = ctx.supabaseAdmin
+    .from('automation_rules')
+    .select('*')
+    .eq('tenant_id', ctx.tenantId)
+    .order('created_at');
+
+  const stageId = ctx.url.searchParams.get('stage_id');
+  if (stageId) {
+    if (!isValidUUID(stageId)) {
+      throw new Error('Invalid stage ID format');
+    }
+    query = query.eq('stage_id', stageId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch automation rules: ${error.message}`);
+  }
+
+  return jsonResponse({ data: (data as AutomationRuleRecord[]).map(formatRuleResponse) });
+}
+
+// ============================================================================
+// GET /settings/automation-rules/:id
+// ============================================================================
+export async function getRule(ctx: HandlerContext): Promise<Response> {
+  const rule = await fetchRule(ctx, ctx.pathParts[2]);
+  return jsonResponse({ data: formatRuleResponse(rule) });
+}
+
+// ============================================================================
+// POST /settings/automation-rules - Create rule
+// ============================================================================
+export async function createRule(ctx: HandlerContext, req: Request): Promise<Response> {
+  const body: CreateAutomationRuleDTO = await req.json();
+
+  if (!body.name || typeof body.name !== 'string' || body.name.trim() === '') {
+    throw new Error('name is required');
+  }
+  if (!body.action_code || typeof body.action_code !== 'string') {
+    throw new Error('action_code is required');
+  }
+
+  const actionCode = body.action_code.toUpperCase().trim();
+  const stageId = body.stage_id ?? null;
+  const conditions = validateConditions(body.conditions);
+  const delayMinutes = body.delay_minutes === undefined ? 0 : validateDelay(body.delay_minutes);
+
+  await assertActionAvailable(ctx, stageId, actionCode);
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('automation_rules')
+    .insert({
+      tenant_id: ctx.tenantId,
+      name: body.name.trim(),
+      description: body.description?.trim() || null,
+      stage_id: stageId,
+      action_code: actionCode,
+      conditions,
+      delay_minutes: delayMinutes,
+      notes: body.notes?.trim() || null,
+      is_active: body.is_active ?? true,
+      created_by: ctx.userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create automation rule: ${error.message}`);
+  }
+
+  return jsonResponse({ data: formatRuleResponse(data as AutomationRuleRecord) }, 201);
+}
+
+// ============================================================================
+// PATCH /settings/automation-rules/:id - Update rule
+// ============================================================================
+export async function updateRule(ctx: HandlerContext, req: Request): Promise<Response> {
+  const existing = await fetchRule(ctx, ctx.pathParts[2]);
+  const body: UpdateAutomationRuleDTO = await req.json();
+
+  const updates: Record<string, unknown> = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      throw new Error('name cannot be empty');
+    }
+    updates.name = body.name.trim();
+  }
+  if (body.description !== undefined) {
+    updates.description = body.description?.trim() || null;
+  }
+  if (body.notes !== undefined) {
+    updates.notes = body.notes?.trim() || null;
+  }
+  if (body.conditions !== undefined) {
+    updates.conditions = validateConditions(body.conditions);
+  }
+  if (body.delay_minutes !== undefined) {
+    updates.delay_minutes = validateDelay(body.delay_minutes);
+  }
+  if (body.is_active !== undefined) {
+    updates.is_active = body.is_active;
+  }
+
+  // Re-check the action when either half of (stage, action) changes
+  if (body.stage_id !== undefined || body.action_code !== undefined) {
+    const stageId = body.stage_id !== undefined ? body.stage_id : existing.stage_id;
+    const actionCode = body.action_code !== undefined ? body.action_code.toUpperCase().trim() : existing.action_code;
+    await assertActionAvailable(ctx, stageId, actionCode);
+    updates.stage_id = stageId;
+    updates.action_code = actionCode;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return jsonResponse({ data: formatRuleResponse(existing) });
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('automation_rules')
+    .update(updates)
+    .eq('id', existing.id)
+    .eq('tenant_id', ctx.tenantId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update automation rule: ${error.message}`);
+  }
+
+  return jsonResponse({ data: formatRuleResponse(data as AutomationRuleRecord) });
+}
+
+// ============================================================================
+// DELETE /settings/automation-rules/:id - Soft delete (audit log keeps the rule)
+// ============================================================================
+export async function deleteRule(ctx: HandlerContext): Promise<Response> {
+  const rule = await fetchRule(ctx, ctx.pathParts[2]);
+
+  const { error } = await ctx.supabaseAdmin
+    .from('automation_rules')
+    .update({ is_active: false })
+    .eq('id', rule.id)
+    .eq('tenant_id', ctx.tenantId);
+
+  if (error) {
+    throw new Error(`Failed to delete automation rule: ${error.message}`);
+  }
+
+  // Delayed runs would be cancelled by the dispatcher anyway; do it now so the run history says why
+  const { error: runsError } = await ctx.supabaseAdmin
+    .from('automation_rule_runs')
+    .update({ status: 'CANCELLED', error: 'Rule deleted', executed_at: new Date().toISOString() })
+    .eq('rule_id', rule.id)
+    .eq('tenant_id', ctx.tenantId)
+    .eq('status', 'PENDING');
+
+  if (runsError) {
+    throw new Error(`Failed to cancel pending runs: ${runsError.message}`);
+  }
+
+  return jsonResponse({ message: 'Automation rule deleted successfully' });
+}
+
+// ============================================================================
+// GET /settings/automation-rules/:id/runs - Match + execution history
+// ============================================================================
+export async function listRuleRuns(ctx: HandlerContext): Promise<Response> {
+  const rule = await fetchRule(ctx, ctx.pathParts[2]);
+
+  const limit = Math.min(parseInt(ctx.url.searchParams.get('limit') || '50'), 100);
+  const offset = parseInt(ctx.url.searchParams.get('offset') || '0');
+  const status = ctx.url.searchParams.get('status');
+
+  let query = ctx.supabaseAdmin
+    .from('automation_rule_runs')
+    .select('*', { count: 'exact' })
+    .eq('tenant_id', ctx.tenantId)
+    .eq('rule_id', rule.id);
+
+  if (status) {
+    query = query.eq('status', status.toUpperCase());
+  }
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to fetch automation rule runs: ${error.message}`);
+  }
+
+  return jsonResponse({
+    data: (data as AutomationRuleRunRecord[]).map(formatRunResponse),
+    pagination: {
+      total: count || 0,
+      limit,
+      offset,
+      hasMore: (count || 0) > offset + limit,
+    },
+  });
+}
+
+// ============================================================================
+// POST /automation/dispatch (service role) - Execute delayed runs that are due
+// ============================================================================
+export async function dispatchDueRuns(ctx: HandlerContext): Promise<Response> {
+  const limit = Math.min(parseInt(ctx.url.searchParams.get('limit') || '100'), 500);
+
+  const { data, error } = await ctx.supabaseAdmin.rpc('process_due_automation_runs', { p_limit: limit });
+
+  if (error) {
+    throw new Error(`Failed to process automation runs: ${error.message}`);
+  }
+
+  return jsonResponse({ data });
+}
@@ -1,27 +1,51 @@
 import type {
-  ApplicationRecord,
   BoardApplicationResponse,
+  BoardCardRecord,
+  BoardCursorRecord,
+  BoardStagePageRecord,
+  BoardStagePageResponse,
   BoardStageResponse,
+  BoardViewFiltersDTO,
   HandlerContext,
+  PipelineBoardRecord,
   PipelineBoardResponse,
   PipelineStageRecord,
 } from '../types.ts';
-import { formatStageResponse, isValidUUID, jsonResponse } from '../utils.ts';
+import { computeStageSla, formatStageResponse, isValidUUID, jsonResponse } from '../utils.ts';
+import { fetchVisibleView, resolveViewFilters } from './views.ts';
 
-// GET /pipelines/:id/board - Get kanban board view for a pipeline
-export async function getPipelineBoard(ctx: HandlerContext): Promise<Response> {
-  const pipelineId = ctx.pathParts[1];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Default direction per sort: longest in stage first, A-Z, highest signal first
+const SORT_DIRECTIONS: Record<string, 'asc' | 'desc'> = {
+  entered_stage_at: 'asc',
+  name: 'asc',
+  signal: 'desc',
+};
+
+interface BoardQuery {
+  viewId: string | null;
+  filters: BoardViewFiltersDTO & { status?: string; job_id?: string };
+  sort: string;
+  direction: 'asc' | 'desc';
+  signalKey: string | null;
+  limit: number;
+}
+
+// ============================================================================
+// Shared board setup
+// ============================================================================
 
+async function loadPipeline(
+  ctx: HandlerContext,
+  pipelineId: string,
+): Promise<{ name: string; stages: PipelineStageRecord[] }> {
   if (!isValidUUID(pipelineId)) {
     throw new Error('Invalid pipeline ID format');
   }
 
-  // Get query params
-  const params = Object.fromEntries(ctx.url.searchParams);
-  const statusFilter = params.status; // Optional: filter by status
-  const jobIdFilter = params.jobId; // Optional: filter by job
-
-  // 1. Verify pipeline exists and get details
+  // Verify pipeline exists and get details
   const { data: pipeline, error: pipelineError } = await ctx.supabaseAdmin
     .from('pipelines')
     .select('id, name, tenant_id')
@@ -38,7 +62,7 @@ export async function getPipelineBoard(ctx: HandlerContext): Promise<Response> {
     throw new Error('Forbidden: Tenant access violation');
   }
 
-  // 2. Get all stages for this pipeline (ordered)
+  // Get all stages for this pipeline (ordered)
   const { data: stages, error: stagesError } = await ctx.supabaseAdmin
     .from('pipeline_stages')
     .select('*')
@@ -49,69 +73,212 @@ export async function getPipelineBoard(ctx: HandlerContext): Promise<Response> {
     throw new Error(`Failed to fetch stages: ${stagesError.message}`);
   }
 
-  // 3. Build query for application states
-  let stateQuery = ctx.supabaseUser
-    .from('application_pipeline_state')
-    .select('*, applications(id, applicant_name, applicant_email)')
-    .eq('pipeline_id', pipelineId)
-    .eq('tenant_id', ctx.tenantId);
+  return { name: pipeline.name, stages: (stages || []) as PipelineStageRecord[] };
+}
+
+// ?view=, status, jobId, tags, sort, direction, signal, limit
+async function parseBoardQuery(ctx: HandlerContext, pipelineId: string): Promise<BoardQuery> {
+  const params = ctx.url.searchParams;
+
+  // Resolve the saved view, if any (see docs/BOARD_VIEWS.md)
+  const viewId = params.get('view');
+  const view = viewId ? await fetchVisibleView(ctx, viewId) : null;
+  if (view?.pipeline_id && view.pipeline_id !== pipelineId) {
+    throw new Error('Board view belongs to a different pipeline');
+  }
 
-  // Apply filters
-  if (statusFilter) {
-    stateQuery = stateQuery.eq('status', statusFilter);
+  // Explicit filters apply on top of the view
+  const filters: BoardQuery['filters'] = view ? { ...resolveViewFilters(view.filters, ctx.userId) } : {};
+  const status = params.get('status');
+  if (status) {
+    filters.status = status;
   }
-  if (jobIdFilter) {
-    stateQuery = stateQuery.eq('job_id', jobIdFilter);
+  const jobId = params.get('jobId');
+  if (jobId) {
+    if (!isValidUUID(jobId)) {
+      throw new Error('Invalid job ID format');
+    }
+    filters.job_id = jobId;
   }
 
-  const { data: states, error: statesError } = await stateQuery;
+  // Replaces the view's tag filter (any of the listed tags)
+  const tags = params.get('tags');
+  if (tags) {
+    const tagIds = tags.split(',').map((t) => t.trim()).filter(Boolean);
+    if (tagIds.some((id) => !isValidUUID(id))) {
+      throw new Error('tags must be a comma-separated list of tag IDs');
+    }
+    filters.tag_ids = tagIds;
+  }
+
+  const sort = params.get('sort') || 'entered_stage_at';
+  if (!SORT_DIRECTIONS[sort]) {
+    throw new Error(`sort must be one of: ${Object.keys(SORT_DIRECTIONS).join(', ')}`);
+  }
 
-  if (statesError) {
-    throw new Error(`Failed to fetch application states: ${statesError.message}`);
+  const direction = params.get('direction') || SORT_DIRECTIONS[sort];
+  if (direction !== 'asc' && direction !== 'desc') {
+    throw new Error('direction must be asc or desc');
   }
 
-  // 4. Group applications by stage
-  const stageApplications = new Map<string, BoardApplicationResponse[]>();
+  const signalKey = params.get('signal')?.trim() || null;
+  if (sort === 'signal' && !signalKey) {
+    throw new Error('signal is required when sorting by signal');
+  }
+
+  const limit = Math.min(
+    Math.max(parseInt(params.get('limit') || String(DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE,
+  );
+
+  return {
+    viewId: view?.id ?? null,
+    filters,
+    sort,
+    direction,
+    signalKey: sort === 'signal' ? signalKey : null,
+    limit,
+  };
+}
+
+// ============================================================================
+// Cursors: opaque to clients, bound to the sort they were issued for
+// ============================================================================
+
+function encodeCursor(query: BoardQuery, cursor: BoardCursorRecord | null): string | null {
+  if (!cursor) return null;
+  const json = JSON.stringify({ s: query.sort, d: query.direction, k: query.signalKey, c: cursor });
+  let binary = '';
+  for (const b of new TextEncoder().encode(json)) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeCursor(query: BoardQuery, value: string): BoardCursorRecord {
+  let decoded: { s?: string; d?: string; k?: string | null; c?: BoardCursorRecord };
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    decoded = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (ch) => ch.charCodeAt(0))));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
 
-  // Initialize all stages with empty arrays
-  for (const stage of (stages || [])) {
-    stageApplications.set(stage.id, []);
+  const c = decoded.c;
+  if (
+    !c || typeof c.r !== 'number' || typeof c.n !== 'string' || typeof c.t !== 'string' ||
+    typeof c.id !== 'string' || !isValidUUID(c.id)
+  ) {
+    throw new Error('Invalid cursor');
+  }
+  if (decoded.s !== query.sort || decoded.d !== query.direction || (decoded.k ?? null) !== query.signalKey) {
+    throw new Error('Cursor was issued for a different sort order');
   }
 
-  // Populate with applications
-  for (const state of (states || [])) {
-    const stageId = state.current_stage_id;
-    const appList = stageApplications.get(stageId) || [];
+  return c;
+}
+
+function formatCard(card: BoardCardRecord, slaHours: number | null, now: number): BoardApplicationResponse {
+  const sla = computeStageSla(card, slaHours, now);
+  return {
+    applicationId: card.application_id,
+    applicantName: card.applicant_name || 'Unknown',
+    applicantEmail: card.applicant_email || 'Unknown',
+    status: card.status,
+    enteredStageAt: card.entered_stage_at,
+    timeInStageHours: sla.timeInStageHours,
+    isOverdue: sla.isOverdue,
+    signalValue: card.signal_value,
+    tags: card.tags.map((tag) => ({ id: tag.id, name: tag.name, colorHex: tag.color_hex })),
+  };
+}
 
-    // Extract application info from join
-    const app = (state as { applications?: ApplicationRecord }).applications;
+// ============================================================================
+// GET /pipelines/:id/board - Per-stage counts and the first page of each stage
+// ============================================================================
+export async function getPipelineBoard(ctx: HandlerContext): Promise<Response> {
+  const pipelineId = ctx.pathParts[1];
+  const pipeline = await loadPipeline(ctx, pipelineId);
+  const query = await parseBoardQuery(ctx, pipelineId);
 
-    appList.push({
-      applicationId: state.application_id,
-      applicantName: app?.applicant_name || 'Unknown',
-      applicantEmail: app?.applicant_email || 'Unknown',
-      status: state.status,
-      enteredStageAt: state.entered_stage_at,
-    });
+  // Caller's client: RLS decides which applications and signals are visible
+  const { data, error } = await ctx.supabaseUser.rpc('get_pipeline_board', {
+    p_tenant_id: ctx.tenantId,
+    p_pipeline_id: pipelineId,
+    p_filters: query.filters,
+    p_sort: query.sort,
+    p_direction: query.direction,
+    p_signal_key: query.signalKey,
+    p_limit: query.limit,
+  });
 
-    stageApplications.set(stageId, appList);
+  if (error) {
+    throw new Error(`Failed to fetch board: ${error.message}`);
   }
 
-  // 5. Build response
-  const boardStages: BoardStageResponse[] = (stages || []).map((stage) => {
-    const applications = stageApplications.get(stage.id) || [];
+  const board = data as PipelineBoardRecord;
+  const pages = new Map(board.stages.map((s) => [s.stage_id, s]));
+  const now = Date.now();
+
+  const boardStages: BoardStageResponse[] = pipeline.stages.map((stage) => {
+    const page = pages.get(stage.id);
     return {
-      stage: formatStageResponse(stage as PipelineStageRecord),
-      applications,
-      count: applications.length,
+      stage: formatStageResponse(stage),
+      applications: (page?.applications || []).map((card) => formatCard(card, stage.sla_hours, now)),
+      count: page?.count ?? 0,
+      nextCursor: encodeCursor(query, page?.next_cursor ?? null),
     };
   });
 
   const response: PipelineBoardResponse = {
     pipelineId: pipelineId,
     pipelineName: pipeline.name,
+    viewId: query.viewId,
+    sort: query.sort,
+    direction: query.direction,
     stages: boardStages,
-    totalApplications: (states || []).length,
+    totalApplications: board.total,
+  };
+
+  return jsonResponse({ data: response });
+}
+
+// ============================================================================
+// GET /pipelines/:id/board/stages/:stageId - Next page of one stage (?cursor=)
+// ============================================================================
+export async function getBoardStagePage(ctx: HandlerContext): Promise<Response> {
+  const pipelineId = ctx.pathParts[1];
+  const stageId = ctx.pathParts[4];
+  const pipeline = await loadPipeline(ctx, pipelineId);
+
+  const stage = pipeline.stages.find((s) => s.id === stageId);
+  if (!stage) {
+    throw new Error(`Stage with ID ${stageId} not found in pipeline`);
+  }
+
+  const query = await parseBoardQuery(ctx, pipelineId);
+  const cursor = ctx.url.searchParams.get('cursor');
+
+  const { data, error } = await ctx.supabaseUser.rpc('get_board_stage_page', {
+    p_tenant_id: ctx.tenantId,
+    p_pipeline_id: pipelineId,
+    p_stage_id: stage.id,
+    p_filters: query.filters,
+    p_sort: query.sort,
+    p_direction: query.direction,
+    p_signal_key: query.signalKey,
+    p_cursor: cursor ? decodeCursor(query, cursor) : null,
+    p_limit: query.limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch board stage: ${error.message}`);
+  }
+
+  const page = data as BoardStagePageRecord;
+  const now = Date.now();
+  const response: BoardStagePageResponse = {
+    stage: formatStageResponse(stage),
+    applications: page.applications.map((card) => formatCard(card, stage.sla_hours, now)),
+    nextCursor: encodeCursor(query, page.next_cursor),
   };
 
   return jsonResponse({ data: response });
@@ -0,0 +1,537 @@
+import type {
+  ApplicationCommentMentionRecord,
+  ApplicationCommentRecord,
+  ApplicationCommentResponse,
+  ApplicationCommentRevisionRecord,
+  CommentMentionResponse,
+  CommentRevisionResponse,
+  CommentVisibility,
+  CreateCommentDTO,
+  HandlerContext,
+  MentionInboxResponse,
+  UpdateCommentDTO,
+} from '../types.ts';
+import { isValidUUID, jsonResponse } from '../utils.ts';
+import { canManageTracking, isInterviewerAssignedToApplication } from '../middleware.ts';
+import { notifyUsers } from '../../_shared/inbox.ts';
+
+const MAX_BODY_LENGTH = 10000; // matches the DB check
+const EXCERPT_LENGTH = 200;
+const VALID_VISIBILITIES: CommentVisibility[] = ['TEAM', 'MANAGERS'];
+
+// @[Display Name](<user uuid>) - the display name is informational only
+const MENTION_REGEX = /@\[([^\]\n]{1,100})\]\(([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\)/gi;
+
+interface CommentAccess {
+  restricted: boolean; // INTERVIEWER: TEAM comments only
+}
+
+// ============================================================================
+// Access & validation
+// ============================================================================
+
+// Application must belong to the tenant; interviewers must be assigned to it
+async function assertCanViewApplication(ctx: HandlerContext, applicationId: string): Promise<CommentAccess> {
+  if (!isValidUUID(applicationId)) {
+    throw new Error('Invalid application ID format');
+  }
+
+  const { data } = await ctx.supabaseAdmin
+    .from('applications')
+    .select('id')
+    .eq('id', applicationId)
+    .eq('tenant_id', ctx.tenantId)
+    .single();
+
+  if (!data) {
+    throw new Error(`Application ${applicationId} not found`);
+  }
+
+  if (canManageTracking(ctx.userRole || '')) {
+    return { restricted: false };
+  }
+
+  const assigned = await isInterviewerAssignedToApplication(
+    ctx.supabaseAdmin,
+    ctx.userId!,
+    ctx.tenantId,
+    applicationId,
+  );
+  if (!assigned) {
+    throw new Error('Forbidden: Not assigned to this application');
+  }
+
+  return { restricted: true };
+}
+
+// Comment visible to the caller (deleted comments included)
+async function fetchVisibleComment(
+  ctx: HandlerContext,
+  commentId: string,
+): Promise<{ comment: ApplicationCommentRecord; access: CommentAccess }> {
+  if (!isValidUUID(commentId)) {
+    throw new Error('Invalid comment ID format');
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('application_comments')
+    .select('*')
+    .eq('id', commentId)
+    .eq('tenant_id', ctx.tenantId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Comment not found');
+  }
+
+  const comment = data as ApplicationCommentRecord;
+  const access = await assertCanViewApplication(ctx, comment.application_id);
+  if (access.restricted && comment.visibility !== 'TEAM') {
+    throw new Error('Comment not found');
+  }
+
+  return { comment, access };
+}
+
+function validateBody(input: unknown): string {
+  if (typeof input !== 'string' || input.trim() === '') {
+    throw new Error('body is required');
+  }
+  if (input.length > MAX_BODY_LENGTH) {
+    throw new Error(`body must be at most ${MAX_BODY_LENGTH} characters`);
+  }
+  return input;
+}
+
+function parseMentionIds(body: string): string[] {
+  return [...new Set([...body.matchAll(MENTION_REGEX)].map((m) => m[2].toLowerCase()))];
+}
+
+// Mentioned users must be active users of the tenant who can read the comment:
+// managers always, assigned interviewers only on TEAM comments
+async function resolveMentions(
+  ctx: HandlerContext,
+  applicationId: string,
+  visibility: CommentVisibility,
+  body: string,
+): Promise<string[]> {
+  const userIds = parseMentionIds(body);
+  if (userIds.length === 0) return [];
+
+  const { data: profiles, error } = await ctx.supabaseAdmin
+    .from('user_profiles')
+    .select('id, name, role')
+    .eq('tenant_id', ctx.tenantId)
+    .eq('is_active', true)
+    .is('deleted_at', null)
+    .in('id', userIds);
+
+  if (error) {
+    throw new Error(`Failed to resolve mentions: ${error.message}`);
+  }
+
+  const byId = new Map((profiles || []).map((p) => [p.id as string, p as { id: string; name: string; role: string }]));
+
+  for (const userId of userIds) {
+    const profile = byId.get(userId);
+    if (!profile) {
+      throw new Error(`Mentioned user ${userId} not found`);
+    }
+    if (canManageTracking(profile.role)) continue;
+
+    const canSee = profile.role === 'INTERVIEWER' && visibility === 'TEAM' &&
+      await isInterviewerAssignedToApplication(ctx.supabaseAdmin, userId, ctx.tenantId, applicationId);
+    if (!canSee) {
+      throw new Error(`Mentioned user ${profile.name} cannot see this comment`);
+    }
+  }
+
+  return userIds;
+}
+
+// Replace the comment's mentions; users already mentioned keep their read state
+async function syncMentions(ctx: HandlerContext, commentId: string, userIds: string[]): Promise<void> {
+  let removal = ctx.supabaseAdmin
+    .from('application_comment_mentions')
+    .delete()
+    .eq('comment_id', commentId);
+  if (userIds.length > 0) {
+    removal = removal.not('user_id', 'in', `(${userIds.join(',')})`);
+  }
+
+  const { error: deleteError } = await removal;
+  if (deleteError) {
+    throw new Error(`Failed to update mentions: ${deleteError.message}`);
+  }
+
+  if (userIds.length === 0) return;
+
+  const { error } = await ctx.supabaseAdmin
+    .from('application_comment_mentions')
+    .upsert(
+      userIds.map((userId) => ({ comment_id: commentId, user_id: userId, tenant_id: ctx.tenantId })),
+      { onConflict: 'comment_id,user_id', ignoreDuplicates: true },
+    );
+
+  if (error) {
+    throw new Error(`Failed to record mentions: ${error.message}`);
+  }
+}
+
+// Inbox notification per mentioned user; re-saving a comment doesn't repeat it
+async function notifyMentions(
+  ctx: HandlerContext,
+  comment: ApplicationCommentRecord,
+  userIds: string[],
+): Promise<void> {
+  if (userIds.length === 0) return;
+
+  const [{ data: application }, names] = await Promise.all([
+    ctx.supabaseAdmin.from('applications').select('applicant_name').eq('id', comment.application_id).single(),
+    fetchUserNames(ctx, [comment.author_id]),
+  ]);
+
+  await notifyUsers(
+    ctx.supabaseAdmin,
+    userIds.map((userId) => ({
+      tenantId: ctx.tenantId,
+      userId,
+      type: 'COMMENT_MENTION' as const,
+      title: `${names.get(comment.author_id) || 'Someone'} mentioned you on ${
+        application?.applicant_name || 'an application'
+      }`,
+      body: comment.body.length > EXCERPT_LENGTH ? `${comment.body.slice(0, EXCERPT_LENGTH)}…` : comment.body,
+      applicationId: comment.application_id,
+      resourceType: 'comment',
+      resourceId: comment.id,
+      actorId: comment.author_id,
+      dedupeKey: `comment:${comment.id}`,
+    })),
+  );
+}
+
+// ============================================================================
+// Formatters
+// ============================================================================
+
+async function fetchUserNames(ctx: HandlerContext, userIds: string[]): Promise<Map<string, string>> {
+  const ids = [...new Set(userIds)];
+  if (ids.length === 0) return new Map();
+
+  const { data } = await ctx.supabaseAdmin
+    .from('user_profiles')
+    .select('id, name')
+    .in('id', ids);
+
+  return new Map((data || []).map((p) => [p.id as string, (p.name as string) || 'Unknown']));
+}
+
+async function formatComments(
+  ctx: HandlerContext,
+  comments: ApplicationCommentRecord[],
+): Promise<ApplicationCommentResponse[]> {
+  if (comments.length === 0) return [];
+
+  const { data: mentionRows } = await ctx.supabaseAdmin
+    .from('application_comment_mentions')
+    .select('comment_id, user_id')
+    .in('comment_id', comments.map((c) => c.id));
+
+  const mentions = (mentionRows || []) as Pick<ApplicationCommentMentionRecord, 'comment_id' | 'user_id'>[];
+  const names = await fetchUserNames(ctx, [...comments.map((c) => c.author_id), ...mentions.map((m) => m.user_id)]);
+
+  const mentionsByComment = new Map<string, CommentMentionResponse[]>();
+  for (const m of mentions) {
+    const list = mentionsByComment.get(m.comment_id) || [];
+    list.push({ userId: m.user_id, userName: names.get(m.user_id) || 'Unknown' });
+    mentionsByComment.set(m.comment_id, list);
+  }
+
+  return comments.map((c) => ({
+    id: c.id,
+    applicationId: c.application_id,
+    authorId: c.author_id,
+    authorName: names.get(c.author_id) || 'Unknown',
+    body: c.deleted_at ? null : c.body,
+    visibility: c.visibility,
+    mentions: c.deleted_at ? [] : mentionsByComment.get(c.id) || [],
+    isDeleted: c.deleted_at !== null,
+    createdAt: c.created_at,
+    editedAt: c.edited_at,
+    deletedAt: c.deleted_at,
+  }));
+}
+
+// ============================================================================
+// GET /applications/:id/comments - Comment thread, oldest first
+// ============================================================================
+export async function listComments(ctx: HandlerContext): Promise<Response> {
+  const applicationId = ctx.pathParts[1];
+  const access = await assertCanViewApplication(ctx, applicationId);
+
+  let query = ctx.supabaseAdmin
+    .from('application_comments')
+    .select('*')
+    .eq('application_id', applicationId)
+    .eq('tenant_id', ctx.tenantId);
+
+  if (access.restricted) {
+    query = query.eq('visibility', 'TEAM');
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch comments: ${error.message}`);
+  }
+
+  return jsonResponse({ data: await formatComments(ctx, data as ApplicationCommentRecord[]) });
+}
+
+// ============================================================================
+// POST /applications/:id/comments - Add a comment
+// ============================================================================
+export async function createComment(ctx: HandlerContext, req: Request): Promise<Response> {
+  const applicationId = ctx.pathParts[1];
+  const access = await assertCanViewApplication(ctx, applicationId);
+  const body: CreateCommentDTO = await req.json();
+
+  const text = validateBody(body.body);
+  if (body.visibility !== undefined && !VALID_VISIBILITIES.includes(body.visibility)) {
+    throw new Error(`visibility must be one of: ${VALID_VISIBILITIES.join(', ')}`);
+  }
+
+  // Interviewers can only write where they can read
+  const visibility: CommentVisibility = access.restricted ? 'TEAM' : body.visibility || 'MANAGERS';
+  const mentionIds = await resolveMentions(ctx, applicationId, visibility, text);
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('application_comments')
+    .insert({
+      tenant_id: ctx.tenantId,
+      application_id: applicationId,
+      author_id: ctx.userId,
+      body: text,
+      visibility,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create comment: ${error.message}`);
+  }
+
+  const comment = data as ApplicationCommentRecord;
+  await syncMentions(ctx, comment.id, mentionIds);
+  await notifyMentions(ctx, comment, mentionIds);
+
+  const [formatted] = await formatComments(ctx, [comment]);
+  return jsonResponse({ data: formatted }, 201);
+}
+
+// ============================================================================
+// PATCH /comments/:id - Edit own comment (previous body kept in history)
+// ============================================================================
+export async function updateComment(ctx: HandlerContext, req: Request): Promise<Response> {
+  const { comment } = await fetchVisibleComment(ctx, ctx.pathParts[1]);
+
+  if (comment.author_id !== ctx.userId) {
+    throw new Error('Forbidden: Only the author can edit this comment');
+  }
+  if (comment.deleted_at) {
+    throw new Error('Cannot edit a deleted comment');
+  }
+
+  const body: UpdateCommentDTO = await req.json();
+  const text = validateBody(body.body);
+
+  if (text === comment.body) {
+    const [unchanged] = await formatComments(ctx, [comment]);
+    return jsonResponse({ data: unchanged });
+  }
+
+  const mentionIds = await resolveMentions(ctx, comment.application_id, comment.visibility, text);
+
+  const { error: revisionError } = await ctx.supabaseAdmin
+    .from('application_comment_revisions')
+    .insert({
+      tenant_id: ctx.tenantId,
+      comment_id: comment.id,
+      body: comment.body,
+      edited_by: ctx.userId,
+    });
+
+  if (revisionError) {
+    throw new Error(`Failed to record comment history: ${revisionError.message}`);
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('application_comments')
+    .update({ body: text, edited_at: new Date().toISOString() })
+    .eq('id', comment.id)
+    .eq('tenant_id', ctx.tenantId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update comment: ${error.message}`);
+  }
+
+  const updated = data as ApplicationCommentRecord;
+  await syncMentions(ctx, comment.id, mentionIds);
+  await notifyMentions(ctx, updated, mentionIds);
+
+  const [formatted] = await formatComments(ctx, [updated]);
+  return jsonResponse({ data: formatted });
+}
+
+// ============================================================================
+// DELETE /comments/:id - Soft delete (author, or ADMIN/SUPERADMIN)
+// ============================================================================
+export async function deleteComment(ctx: HandlerContext): Promise<Response> {
+  const { comment } = await fetchVisibleComment(ctx, ctx.pathParts[1]);
+
+  const isAdmin = ['SUPERADMIN', 'ADMIN'].includes(ctx.userRole || '');
+  if (comment.author_id !== ctx.userId && !isAdmin) {
+    throw new Error('Forbidden: Only the author or an ADMIN can delete this comment');
+  }
+  if (comment.deleted_at) {
+    return jsonResponse({ success: true, message: 'Comment already deleted' });
+  }
+
+  const { error } = await ctx.supabaseAdmin
+    .from('application_comments')
+    .update({ deleted_at: new Date().toISOString(), deleted_by: ctx.userId })
+    .eq('id', comment.id)
+    .eq('tenant_id', ctx.tenantId);
+
+  if (error) {
+    throw new Error(`Failed to delete comment: ${error.message}`);
+  }
+
+  return jsonResponse({ success: true, message: 'Comment deleted' });
+}
+
+// ============================================================================
+// GET /comments/:id/history - Previous bodies, newest first (author or ADMIN/HR)
+// ============================================================================
+export async function getCommentHistory(ctx: HandlerContext): Promise<Response> {
+  const { comment, access } = await fetchVisibleComment(ctx, ctx.pathParts[1]);
+
+  if (access.restricted && comment.author_id !== ctx.userId) {
+    throw new Error('Forbidden: Only the author or ADMIN/HR can view comment history');
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('application_comment_revisions')
+    .select('*')
+    .eq('comment_id', comment.id)
+    .eq('tenant_id', ctx.tenantId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch comment history: ${error.message}`);
+  }
+
+  const revisions = data as ApplicationCommentRevisionRecord[];
+  const names = await fetchUserNames(ctx, revisions.map((r) => r.edited_by).filter((id): id is string => !!id));
+
+  const [current] = await formatComments(ctx, [comment]);
+  const history: CommentRevisionResponse[] = revisions.map((r) => ({
+    body: r.body,
+    editedBy: r.edited_by,
+    editedByName: r.edited_by ? names.get(r.edited_by) || 'Unknown' : null,
+    createdAt: r.created_at,
+  }));
+
+  return jsonResponse({ data: { comment: current, revisions: history } });
+}
+
+// ============================================================================
+// GET /me/mentions - Comments mentioning the caller (?unread=true, limit, offset)
+// ============================================================================
+export async function listMyMentions(ctx: HandlerContext): Promise<Response> {
+  const limit = Math.min(parseInt(ctx.url.searchParams.get('limit') || '50', 10) || 50, 100);
+  const offset = parseInt(ctx.url.searchParams.get('offset') || '0', 10) || 0;
+
+  // Deleted comments drop out of the inbox
+  let query = ctx.supabaseAdmin
+    .from('application_comment_mentions')
+    .select(
+      'comment_id, created_at, read_at, ' +
+        'application_comments!inner(application_id, author_id, body, visibility, deleted_at, applications(applicant_name))',
+      { count: 'exact' },
+    )
+    .eq('user_id', ctx.userId)
+    .eq('tenant_id', ctx.tenantId)
+    .is('application_comments.deleted_at', null);
+
+  if (ctx.url.searchParams.get('unread') === 'true') {
+    query = query.is('read_at', null);
+  }
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to fetch mentions: ${error.message}`);
+  }
+
+  const rows = (data || []) as unknown as (ApplicationCommentMentionRecord & {
+    application_comments: Pick<ApplicationCommentRecord, 'application_id' | 'author_id' | 'body' | 'visibility'> & {
+      applications: { applicant_name: string | null } | null;
+    };
+  })[];
+  const names = await fetchUserNames(ctx, rows.map((r) => r.application_comments.author_id));
+
+  const mentions: MentionInboxResponse[] = rows.map((r) => {
+    const comment = r.application_comments;
+    return {
+      commentId: r.comment_id,
+      applicationId: comment.application_id,
+      applicantName: comment.applications?.applicant_name || 'Unknown',
+      authorId: comment.author_id,
+      authorName: names.get(comment.author_id) || 'Unknown',
+      excerpt: comment.body.length > EXCERPT_LENGTH ? `${comment.body.slice(0, EXCERPT_LENGTH)}…` : comment.body,
+      visibility: comment.visibility,
+      mentionedAt: r.created_at,
+      readAt: r.read_at,
+    };
+  });
+
+  return jsonResponse({
+    data: mentions,
+    pagination: {
+      total: count || 0,
+      limit,
+      offset,
+      hasMore: (count || 0) > offset + limit,
+    },
+  });
+}
+
+// ============================================================================
+// POST /me/mentions/:commentId/read - Mark a mention as read
+// ============================================================================
+export async function markMentionRead(ctx: HandlerContext): Promise<Response> {
+  const commentId = ctx.pathParts[2];
+  if (!isValidUUID(commentId)) {
+    throw new Error('Invalid comment ID format');
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('application_comment_mentions')
+    .update({ read_at: new Date().toISOString() })
+    .eq('comment_id', commentId)
+    .eq('user_id', ctx.userId)
+    .eq('tenant_id', ctx.tenantId)
+    .is('read_at', null)
+    .select('comment_id');
+
+  if (error) {
+    throw new Error(`Failed to mark mention as read: ${error.message}`);
+  }
+
+  return jsonResponse({ success: true, updated: (data || []).length });
+}
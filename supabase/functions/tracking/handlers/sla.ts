@@ -0,0 +1,211 @@
+import type {
+  ApplicationRecord,
+  HandlerContext,
+  PipelineSlaResponse,
+  PipelineStageRecord,
+  SlaStageSummaryResponse,
+} from '../types.ts';
+import { computeStageSla, formatStageResponse, isValidUUID, jsonResponse } from '../utils.ts';
+import { notifyUsers } from '../../_shared/inbox.ts';
+
+const DEFAULT_APPROACHING_THRESHOLD = 0.8;
+
+// Open breaches detected this recently are (re)offered to the inbox; dedupe keys
+// make repeats free, and a window covers sweeps whose notify step failed
+const SLA_NOTIFY_LOOKBACK_HOURS = 24;
+
+// ============================================================================
+// GET /pipelines/:id/sla - Applications breaching or approaching their stage SLA
+// ============================================================================
+export async function getPipelineSla(ctx: HandlerContext): Promise<Response> {
+  const pipelineId = ctx.pathParts[1];
+
+  if (!isValidUUID(pipelineId)) {
+    throw new Error('Invalid pipeline ID format');
+  }
+
+  // ?threshold=0.8 - fraction of the SLA after which an application is "approaching"
+  const thresholdParam = ctx.url.searchParams.get('threshold');
+  const threshold = thresholdParam === null ? DEFAULT_APPROACHING_THRESHOLD : Number(thresholdParam);
+  if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1) {
+    throw new Error('threshold must be a number between 0 and 1');
+  }
+
+  // 1. Verify pipeline exists
+  const { data: pipeline, error: pipelineError } = await ctx.supabaseAdmin
+    .from('pipelines')
+    .select('id, name, tenant_id')
+    .eq('id', pipelineId)
+    .eq('is_deleted', false)
+    .single();
+
+  if (pipelineError || !pipeline) {
+    throw new Error(`Pipeline with ID ${pipelineId} not found`);
+  }
+
+  // Verify tenant access (global pipelines allowed)
+  if (pipeline.tenant_id !== null && pipeline.tenant_id !== ctx.tenantId) {
+    throw new Error('Forbidden: Tenant access violation');
+  }
+
+  // 2. Stages with an SLA
+  const { data: stages, error: stagesError } = await ctx.supabaseAdmin
+    .from('pipeline_stages')
+    .select('*')
+    .eq('pipeline_id', pipelineId)
+    .not('sla_hours', 'is', null)
+    .order('order_index', { ascending: true });
+
+  if (stagesError) {
+    throw new Error(`Failed to fetch stages: ${stagesError.message}`);
+  }
+
+  const slaStages = (stages || []) as PipelineStageRecord[];
+  const response: PipelineSlaResponse = {
+    pipelineId: pipeline.id,
+    pipelineName: pipeline.name,
+    approachingThreshold: threshold,
+    generatedAt: new Date().toISOString(),
+    stages: [],
+    applications: [],
+  };
+
+  if (slaStages.length === 0) {
+    return jsonResponse({ data: response });
+  }
+
+  // 3. Active applications sitting in those stages
+  const { data: states, error: statesError } = await ctx.supabaseUser
+    .from('application_pipeline_state')
+    .select('*, applications(id, applicant_name, applicant_email)')
+    .eq('pipeline_id', pipelineId)
+    .eq('tenant_id', ctx.tenantId)
+    .eq('outcome_type', 'ACTIVE')
+    .eq('is_terminal', false)
+    .in('current_stage_id', slaStages.map((s) => s.id));
+
+  if (statesError) {
+    throw new Error(`Failed to fetch application states: ${statesError.message}`);
+  }
+
+  // 4. Classify each application against its stage SLA
+  const now = Date.now();
+  const summaries = new Map<string, SlaStageSummaryResponse>(
+    slaStages.map((stage) => [stage.id, {
+      stage: formatStageResponse(stage),
+      activeCount: 0,
+      overdueCount: 0,
+      approachingCount: 0,
+    }]),
+  );
+
+  for (const state of states || []) {
+    const stage = slaStages.find((s) => s.id === state.current_stage_id)!;
+    const summary = summaries.get(stage.id)!;
+    const sla = computeStageSla(state, stage.sla_hours, now);
+    summary.activeCount++;
+
+    const approaching = sla.timeInStageHours >= stage.sla_hours! * threshold;
+    if (!sla.isOverdue && !approaching) {
+      continue;
+    }
+
+    if (sla.isOverdue) {
+      summary.overdueCount++;
+    } else {
+      summary.approachingCount++;
+    }
+
+    const app = (state as { applications?: ApplicationRecord }).applications;
+    response.applications.push({
+      applicationId: state.application_id,
+      applicantName: app?.applicant_name || 'Unknown',
+      applicantEmail: app?.applicant_email || 'Unknown',
+      stageId: stage.id,
+      stageName: stage.stage_name,
+      enteredStageAt: state.entered_stage_at,
+      timeInStageHours: sla.timeInStageHours,
+      slaHours: stage.sla_hours!,
+      dueAt: sla.dueAt!,
+      hoursRemaining: sla.hoursRemaining!,
+      slaStatus: sla.isOverdue ? 'OVERDUE' : 'APPROACHING',
+    });
+  }
+
+  // Most overdue first
+  response.applications.sort((a, b) => a.hoursRemaining - b.hoursRemaining);
+  response.stages = Array.from(summaries.values());
+
+  return jsonResponse({ data: response });
+}
+
+// ============================================================================
+// POST /sla/sweep (service role) - Record new breaches, resolve finished ones
+// ============================================================================
+export async function sweepSla(ctx: HandlerContext): Promise<Response> {
+  const { data, error } = await ctx.supabaseAdmin.rpc('sweep_stage_sla_breaches');
+
+  if (error) {
+    throw new Error(`Failed to sweep SLA breaches: ${error.message}`);
+  }
+
+  await notifySlaBreaches(ctx);
+
+  return jsonResponse({ data });
+}
+
+// Inbox notification per open breach for the tenant's ADMIN and HR users
+async function notifySlaBreaches(ctx: HandlerContext): Promise<void> {
+  const since = new Date(Date.now() - SLA_NOTIFY_LOOKBACK_HOURS * 3600 * 1000).toISOString();
+
+  const { data: breaches, error } = await ctx.supabaseAdmin
+    .from('stage_sla_breaches')
+    .select(
+      'id, tenant_id, application_id, stage_id, due_at, applications(applicant_name), pipeline_stages(stage_name)',
+    )
+    .is('resolved_at', null)
+    .gte('detected_at', since);
+
+  if (error || !breaches || breaches.length === 0) {
+    if (error) console.error('Failed to fetch SLA breaches for inbox:', error.message);
+    return;
+  }
+
+  const tenantIds = [...new Set(breaches.map((b) => b.tenant_id as string))];
+  const { data: managers } = await ctx.supabaseAdmin
+    .from('user_profiles')
+    .select('id, tenant_id')
+    .in('tenant_id', tenantIds)
+    .in('role', ['ADMIN', 'HR'])
+    .eq('is_active', true)
+    .is('deleted_at', null);
+
+  const notifications = breaches.flatMap((row) => {
+    const b = row as unknown as {
+      id: string;
+      tenant_id: string;
+      application_id: string;
+      stage_id: string;
+      due_at: string;
+      applications: { applicant_name: string | null } | null;
+      pipeline_stages: { stage_name: string } | null;
+    };
+    return (managers || [])
+      .filter((m) => m.tenant_id === b.tenant_id)
+      .map((m) => ({
+        tenantId: b.tenant_id,
+        userId: m.id as string,
+        type: 'SLA_BREACHED' as const,
+        title: `${b.applications?.applicant_name || 'An application'} is overdue in ${
+          b.pipeline_stages?.stage_name || 'its stage'
+        }`,
+        applicationId: b.application_id,
+        resourceType: 'sla_breach',
+        resourceId: b.id,
+        metadata: { stageId: b.stage_id, dueAt: b.due_at },
+        dedupeKey: `sla_breach:${b.id}`,
+      }));
+  });
+
+  await notifyUsers(ctx.supabaseAdmin, notifications);
+}
@@ -0,0 +1,268 @@
+import type {
+  ApplicationTagResponse,
+  CreateTagDTO,
+  HandlerContext,
+  TagApplicationDTO,
+  TenantTagRecord,
+  TenantTagResponse,
+  UpdateTagDTO,
+} from '../types.ts';
+import { isValidUUID, jsonResponse } from '../utils.ts';
+
+const MAX_NAME_LENGTH = 50; // matches the DB column
+const COLOR_HEX_REGEX = /^#[0-9A-Fa-f]{6}$/;
+
+// ============================================================================
+// Formatters & validation
+// ============================================================================
+
+function formatTagResponse(record: TenantTagRecord): TenantTagResponse {
+  return {
+    id: record.id,
+    name: record.name,
+    colorHex: record.color_hex,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+  };
+}
+
+function validateName(input: unknown): string {
+  if (typeof input !== 'string' || input.trim() === '') {
+    throw new Error('name is required');
+  }
+  const name = input.trim().replace(/\s+/g, ' ');
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new Error(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  return name;
+}
+
+function validateColor(input: unknown): string | null {
+  if (input === null || input === undefined || input === '') return null;
+  if (typeof input !== 'string' || !COLOR_HEX_REGEX.test(input)) {
+    throw new Error('color_hex must be a hex color like #22C55E');
+  }
+  return input.toUpperCase();
+}
+
+async function fetchActiveTag(ctx: HandlerContext, tagId: string): Promise<TenantTagRecord> {
+  if (!isValidUUID(tagId)) {
+    throw new Error('Invalid tag ID format');
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('tenant_application_tags')
+    .select('*')
+    .eq('id', tagId)
+    .eq('tenant_id', ctx.tenantId)
+    .eq('is_active', true)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Tag not found');
+  }
+
+  return data as TenantTagRecord;
+}
+
+async function assertApplicationExists(ctx: HandlerContext, applicationId: string): Promise<void> {
+  if (!isValidUUID(applicationId)) {
+    throw new Error('Invalid application ID format');
+  }
+
+  const { data } = await ctx.supabaseAdmin
+    .from('applications')
+    .select('id')
+    .eq('id', applicationId)
+    .eq('tenant_id', ctx.tenantId)
+    .single();
+
+  if (!data) {
+    throw new Error(`Application ${applicationId} not found`);
+  }
+}
+
+// Active tags on an application, by name
+async function fetchApplicationTags(ctx: HandlerContext, applicationId: string): Promise<ApplicationTagResponse[]> {
+  const { data, error } = await ctx.supabaseAdmin
+    .from('application_tags')
+    .select('tenant_application_tags!inner(id, name, color_hex, is_active)')
+    .eq('application_id', applicationId)
+    .eq('tenant_id', ctx.tenantId)
+    .eq('tenant_application_tags.is_active', true);
+
+  if (error) {
+    throw new Error(`Failed to fetch application tags: ${error.message}`);
+  }
+
+  return (data || [])
+    .map((row) => {
+      const tag = (row as unknown as { tenant_application_tags: TenantTagRecord }).tenant_application_tags;
+      return { id: tag.id, name: tag.name, colorHex: tag.color_hex };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// ============================================================================
+// GET /settings/tags - List active tags for tenant
+// ============================================================================
+export async function listTags(ctx: HandlerContext): Promise<Response> {
+  const { data, error } = await ctx.supabaseAdmin
+    .from('tenant_application_tags')
+    .select('*')
+    .eq('tenant_id', ctx.tenantId)
+    .eq('is_active', true)
+    .order('name');
+
+  if (error) {
+    throw new Error(`Failed to fetch tags: ${error.message}`);
+  }
+
+  return jsonResponse({ data: (data as TenantTagRecord[]).map(formatTagResponse) });
+}
+
+// ============================================================================
+// POST /settings/tags - Create a tag
+// ============================================================================
+export async function createTag(ctx: HandlerContext, req: Request): Promise<Response> {
+  const body: CreateTagDTO = await req.json();
+  const name = validateName(body.name);
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('tenant_application_tags')
+    .insert({
+      tenant_id: ctx.tenantId,
+      name,
+      color_hex: validateColor(body.color_hex),
+      created_by: ctx.userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`Tag "${name}" already exists for this tenant (conflict)`);
+    }
+    throw new Error(`Failed to create tag: ${error.message}`);
+  }
+
+  return jsonResponse({ data: formatTagResponse(data as TenantTagRecord) }, 201);
+}
+
+// ============================================================================
+// PATCH /settings/tags/:id - Rename or recolor a tag
+// ============================================================================
+export async function updateTag(ctx: HandlerContext, req: Request): Promise<Response> {
+  const existing = await fetchActiveTag(ctx, ctx.pathParts[2]);
+  const body: UpdateTagDTO = await req.json();
+
+  const updates: Record<string, unknown> = {};
+  if (body.name !== undefined) {
+    updates.name = validateName(body.name);
+  }
+  if (body.color_hex !== undefined) {
+    updates.color_hex = validateColor(body.color_hex);
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return jsonResponse({ data: formatTagResponse(existing) });
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('tenant_application_tags')
+    .update(updates)
+    .eq('id', existing.id)
+    .eq('tenant_id', ctx.tenantId)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`Tag "${updates.name}" already exists for this tenant (conflict)`);
+    }
+    throw new Error(`Failed to update tag: ${error.message}`);
+  }
+
+  return jsonResponse({ data: formatTagResponse(data as TenantTagRecord) });
+}
+
+// ============================================================================
+// DELETE /settings/tags/:id - Soft delete a tag (hidden everywhere, history kept)
+// ============================================================================
+export async function deleteTag(ctx: HandlerContext): Promise<Response> {
+  const tag = await fetchActiveTag(ctx, ctx.pathParts[2]);
+
+  const { error } = await ctx.supabaseAdmin
+    .from('tenant_application_tags')
+    .update({ is_active: false })
+    .eq('id', tag.id)
+    .eq('tenant_id', ctx.tenantId);
+
+  if (error) {
+    throw new Error(`Failed to delete tag: ${error.message}`);
+  }
+
+  return jsonResponse({ success: true, message: `Tag "${tag.name}" deleted` });
+}
+
+// ============================================================================
+// GET /applications/:id/tags - Tags on an application
+// ============================================================================
+export async function getApplicationTags(ctx: HandlerContext): Promise<Response> {
+  const applicationId = ctx.pathParts[1];
+  await assertApplicationExists(ctx, applicationId);
+
+  return jsonResponse({ data: await fetchApplicationTags(ctx, applicationId) });
+}
+
+// ============================================================================
+// POST /applications/:id/tags - Tag an application (idempotent)
+// ============================================================================
+export async function tagApplication(ctx: HandlerContext, req: Request): Promise<Response> {
+  const applicationId = ctx.pathParts[1];
+  const body: TagApplicationDTO = await req.json();
+
+  await assertApplicationExists(ctx, applicationId);
+  const tag = await fetchActiveTag(ctx, body.tag_id);
+
+  // Tag and ADDED event are written together; already tagged records nothing
+  const { error } = await ctx.supabaseAdmin.rpc('tag_application', {
+    p_tenant_id: ctx.tenantId,
+    p_application_id: applicationId,
+    p_tag_id: tag.id,
+    p_user_id: ctx.userId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to tag application: ${error.message}`);
+  }
+
+  return jsonResponse({ data: await fetchApplicationTags(ctx, applicationId) });
+}
+
+// ============================================================================
+// DELETE /applications/:id/tags/:tagId - Untag an application (idempotent)
+// ============================================================================
+export async function untagApplication(ctx: HandlerContext): Promise<Response> {
+  const applicationId = ctx.pathParts[1];
+  const tagId = ctx.pathParts[3];
+
+  await assertApplicationExists(ctx, applicationId);
+  if (!isValidUUID(tagId)) {
+    throw new Error('Invalid tag ID format');
+  }
+
+  // Untag and REMOVED event are written together; not tagged records nothing
+  const { error } = await ctx.supabaseAdmin.rpc('untag_application', {
+    p_tenant_id: ctx.tenantId,
+    p_application_id: applicationId,
+    p_tag_id: tagId,
+    p_user_id: ctx.userId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to untag application: ${error.message}`);
+  }
+
+  return jsonResponse({ data: await fetchApplicationTags(ctx, applicationId) });
+}
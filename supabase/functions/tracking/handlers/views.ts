@@ -0,0 +1,316 @@
+import type {
+  BoardViewFiltersDTO,
+  BoardViewRecord,
+  BoardViewResponse,
+  CreateBoardViewDTO,
+  HandlerContext,
+  UpdateBoardViewDTO,
+} from '../types.ts';
+import { isValidUUID, jsonResponse } from '../utils.ts';
+import { canManageTracking } from '../middleware.ts';
+import { validateConditions } from './automation.ts';
+
+const VALID_OUTCOME_TYPES = ['ACTIVE', 'HOLD', 'SUCCESS', 'FAILURE', 'NEUTRAL'];
+const MAX_NAME_LENGTH = 100; // matches the DB column
+
+// ============================================================================
+// Formatters & validation
+// ============================================================================
+
+function formatViewResponse(record: BoardViewRecord, userId: string | undefined): BoardViewResponse {
+  return {
+    id: record.id,
+    name: record.name,
+    pipelineId: record.pipeline_id,
+    isShared: record.is_shared,
+    isOwner: record.owner_id === userId,
+    ownerId: record.owner_id,
+    filters: record.filters,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+  };
+}
+
+function validateStringList(input: unknown, name: string): string[] {
+  if (!Array.isArray(input) || input.length === 0 || input.some((v) => typeof v !== 'string' || v.trim() === '')) {
+    throw new Error(`filters.${name} must be a non-empty array of strings`);
+  }
+  return [...new Set(input.map((v: string) => v.trim()))];
+}
+
+function validateHours(input: unknown, name: string): number {
+  if (typeof input !== 'number' || !Number.isFinite(input) || input < 0) {
+    throw new Error(`filters.${name} must be a non-negative number`);
+  }
+  return input;
+}
+
+// Unknown keys are rejected so a typo doesn't silently show the whole board
+function validateFilters(input: unknown): BoardViewFiltersDTO {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('filters must be an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  const filters: BoardViewFiltersDTO = {};
+
+  for (const key of Object.keys(raw)) {
+    if (raw[key] === undefined || raw[key] === null) continue;
+
+    switch (key) {
+      case 'stage_ids':
+        filters.stage_ids = validateStringList(raw.stage_ids, key);
+        if (filters.stage_ids.some((id) => !isValidUUID(id))) {
+          throw new Error('filters.stage_ids must contain valid UUIDs');
+        }
+        break;
+      case 'outcome_types':
+        filters.outcome_types = validateStringList(raw.outcome_types, key).map((t) => t.toUpperCase());
+        if (filters.outcome_types.some((t) => !VALID_OUTCOME_TYPES.includes(t))) {
+          throw new Error(`filters.outcome_types must be among: ${VALID_OUTCOME_TYPES.join(', ')}`);
+        }
+        break;
+      case 'sources':
+        // Source labels are stored lowercased
+        filters.sources = validateStringList(raw.sources, key).map((s) => s.toLowerCase());
+        break;
+      case 'min_hours_in_stage':
+        filters.min_hours_in_stage = validateHours(raw.min_hours_in_stage, key);
+        break;
+      case 'max_hours_in_stage':
+        filters.max_hours_in_stage = validateHours(raw.max_hours_in_stage, key);
+        break;
+      case 'interviewer_id':
+        if (raw.interviewer_id !== 'me' && !isValidUUID(String(raw.interviewer_id))) {
+          throw new Error('filters.interviewer_id must be a user ID or "me"');
+        }
+        filters.interviewer_id = raw.interviewer_id as string;
+        break;
+      case 'tag_ids':
+        filters.tag_ids = validateStringList(raw.tag_ids, key);
+        if (filters.tag_ids.some((id) => !isValidUUID(id))) {
+          throw new Error('filters.tag_ids must contain valid UUIDs');
+        }
+        break;
+      case 'signals':
+        filters.signals = validateConditions(raw.signals);
+        break;
+      default:
+        throw new Error(`filters.${key} is not a supported filter`);
+    }
+  }
+
+  if (
+    filters.min_hours_in_stage !== undefined && filters.max_hours_in_stage !== undefined &&
+    filters.min_hours_in_stage > filters.max_hours_in_stage
+  ) {
+    throw new Error('filters.min_hours_in_stage cannot exceed filters.max_hours_in_stage');
+  }
+
+  return filters;
+}
+
+async function assertPipelineAccessible(ctx: HandlerContext, pipelineId: string): Promise<void> {
+  if (!isValidUUID(pipelineId)) {
+    throw new Error('Invalid pipeline ID format');
+  }
+
+  const { data: pipeline } = await ctx.supabaseAdmin
+    .from('pipelines')
+    .select('id, tenant_id')
+    .eq('id', pipelineId)
+    .eq('is_deleted', false)
+    .single();
+
+  // Global pipelines allowed
+  if (!pipeline || (pipeline.tenant_id !== null && pipeline.tenant_id !== ctx.tenantId)) {
+    throw new Error(`Pipeline with ID ${pipelineId} not found`);
+  }
+}
+
+// Own views and views shared with the tenant
+export async function fetchVisibleView(ctx: HandlerContext, viewId: string): Promise<BoardViewRecord> {
+  if (!isValidUUID(viewId)) {
+    throw new Error('Invalid view ID format');
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('board_views')
+    .select('*')
+    .eq('id', viewId)
+    .eq('tenant_id', ctx.tenantId)
+    .single();
+
+  if (error || !data || (data.owner_id !== ctx.userId && !data.is_shared)) {
+    throw new Error('Board view not found');
+  }
+
+  return data as BoardViewRecord;
+}
+
+// Filters as passed to board_filtered_states(), with "me" bound to the viewer
+export function resolveViewFilters(filters: BoardViewFiltersDTO, userId: string | undefined): BoardViewFiltersDTO {
+  if (filters.interviewer_id !== 'me') return filters;
+  return { ...filters, interviewer_id: userId };
+}
+
+// Owners edit their views; ADMIN/SUPERADMIN can also edit views shared with the tenant
+function assertCanEdit(ctx: HandlerContext, view: BoardViewRecord): void {
+  const isAdmin = ['SUPERADMIN', 'ADMIN'].includes(ctx.userRole || '');
+  if (view.owner_id !== ctx.userId && !(view.is_shared && isAdmin)) {
+    throw new Error('Forbidden: Only the owner can change this view');
+  }
+}
+
+// ============================================================================
+// GET /views - List own and shared views (?pipeline_id=)
+// ============================================================================
+export async function listViews(ctx: HandlerContext): Promise<Response> {
+  let query = ctx.supabaseAdmin
+    .from('board_views')
+    .select('*')
+    .eq('tenant_id', ctx.tenantId)
+    .or(`owner_id.eq.${ctx.userId},is_shared.eq.true`)
+    .order('name');
+
+  // Views scoped to the pipeline plus views usable on any pipeline
+  const pipelineId = ctx.url.searchParams.get('pipeline_id');
+  if (pipelineId) {
+    if (!isValidUUID(pipelineId)) {
+      throw new Error('Invalid pipeline ID format');
+    }
+    query = query.or(`pipeline_id.is.null,pipeline_id.eq.${pipelineId}`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch board views: ${error.message}`);
+  }
+
+  return jsonResponse({ data: (data as BoardViewRecord[]).map((v) => formatViewResponse(v, ctx.userId)) });
+}
+
+// ============================================================================
+// GET /views/:id
+// ============================================================================
+export async function getView(ctx: HandlerContext): Promise<Response> {
+  const view = await fetchVisibleView(ctx, ctx.pathParts[1]);
+  return jsonResponse({ data: formatViewResponse(view, ctx.userId) });
+}
+
+// ============================================================================
+// POST /views - Create view
+// ============================================================================
+export async function createView(ctx: HandlerContext, req: Request): Promise<Response> {
+  const body: CreateBoardViewDTO = await req.json();
+
+  if (!body.name || typeof body.name !== 'string' || body.name.trim() === '') {
+    throw new Error('name is required');
+  }
+  if (body.name.trim().length > MAX_NAME_LENGTH) {
+    throw new Error(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  if (body.is_shared && !canManageTracking(ctx.userRole || '')) {
+    throw new Error('Forbidden: ADMIN or HR role required to share views');
+  }
+
+  const filters = validateFilters(body.filters ?? {});
+  const pipelineId = body.pipeline_id ?? null;
+  if (pipelineId) {
+    await assertPipelineAccessible(ctx, pipelineId);
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('board_views')
+    .insert({
+      tenant_id: ctx.tenantId,
+      owner_id: ctx.userId,
+      name: body.name.trim(),
+      pipeline_id: pipelineId,
+      is_shared: body.is_shared ?? false,
+      filters,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create board view: ${error.message}`);
+  }
+
+  return jsonResponse({ data: formatViewResponse(data as BoardViewRecord, ctx.userId) }, 201);
+}
+
+// ============================================================================
+// PATCH /views/:id - Update view
+// ============================================================================
+export async function updateView(ctx: HandlerContext, req: Request): Promise<Response> {
+  const existing = await fetchVisibleView(ctx, ctx.pathParts[1]);
+  assertCanEdit(ctx, existing);
+
+  const body: UpdateBoardViewDTO = await req.json();
+  const updates: Record<string, unknown> = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      throw new Error('name cannot be empty');
+    }
+    if (body.name.trim().length > MAX_NAME_LENGTH) {
+      throw new Error(`name must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    updates.name = body.name.trim();
+  }
+  if (body.filters !== undefined) {
+    updates.filters = validateFilters(body.filters);
+  }
+  if (body.pipeline_id !== undefined) {
+    if (body.pipeline_id) {
+      await assertPipelineAccessible(ctx, body.pipeline_id);
+    }
+    updates.pipeline_id = body.pipeline_id || null;
+  }
+  if (body.is_shared !== undefined) {
+    if (body.is_shared && !existing.is_shared && !canManageTracking(ctx.userRole || '')) {
+      throw new Error('Forbidden: ADMIN or HR role required to share views');
+    }
+    updates.is_shared = body.is_shared;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return jsonResponse({ data: formatViewResponse(existing, ctx.userId) });
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('board_views')
+    .update(updates)
+    .eq('id', existing.id)
+    .eq('tenant_id', ctx.tenantId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update board view: ${error.message}`);
+  }
+
+  return jsonResponse({ data: formatViewResponse(data as BoardViewRecord, ctx.userId) });
+}
+
+// ============================================================================
+// DELETE /views/:id - Delete view
+// ============================================================================
+export async function deleteView(ctx: HandlerContext): Promise<Response> {
+  const view = await fetchVisibleView(ctx, ctx.pathParts[1]);
+  assertCanEdit(ctx, view);
+
+  const { error } = await ctx.supabaseAdmin
+    .from('board_views')
+    .delete()
+    .eq('id', view.id)
+    .eq('tenant_id', ctx.tenantId);
+
+  if (error) {
+    throw new Error(`Failed to delete board view: ${error.message}`);
+  }
+
+  return jsonResponse({ message: 'Board view deleted successfully' });
+}
@@ -7,8 +7,13 @@ import type { HandlerContext } from './types.ts';
 import * as stateHandlers from './handlers/state.ts';
 import * as historyHandlers from './handlers/history.ts';
 import * as boardHandlers from './handlers/board.ts';
+import * as slaHandlers from './handlers/sla.ts';
 import * as settingsHandlers from './handlers/settings.ts';
 import * as actionHandlers from './handlers/actions.ts';
+import * as automationHandlers from './handlers/automation.ts';
+import * as viewHandlers from './handlers/views.ts';
+import * as tagHandlers from './handlers/tags.ts';
+import * as commentHandlers from './handlers/comments.ts';
 
 // Parse path, removing function name prefix
 function parsePath(url: string): string[] {
@@ -70,6 +75,40 @@ Deno.serve(async (req: Request) => {
       // Fall through to user auth
     }
 
+    // POST /tracking/automation/dispatch - Execute delayed automation runs (scheduled)
+    if (method === 'POST' && fullPath === 'automation/dispatch') {
+      if (!isServiceRole) {
+        throw new Error('Forbidden: Service role required');
+      }
+      const ctx: HandlerContext = {
+        supabaseAdmin,
+        supabaseUser,
+        tenantId: '', // Runs carry their own tenant
+        pathParts,
+        method,
+        url,
+        isServiceRole: true,
+      };
+      return await automationHandlers.dispatchDueRuns(ctx);
+    }
+
+    // POST /tracking/sla/sweep - Record stage SLA breaches (scheduled)
+    if (method === 'POST' && fullPath === 'sla/sweep') {
+      if (!isServiceRole) {
+        throw new Error('Forbidden: Service role required');
+      }
+      const ctx: HandlerContext = {
+        supabaseAdmin,
+        supabaseUser,
+        tenantId: '', // Sweep covers all tenants
+        pathParts,
+        method,
+        url,
+        isServiceRole: true,
+      };
+      return await slaHandlers.sweepSla(ctx);
+    }
+
     // ==================== USER AUTH REQUIRED ====================
     const user = await getUserFromToken(supabaseUser);
     if (!user) {
@@ -103,6 +142,13 @@ Deno.serve(async (req: Request) => {
       isServiceRole: false,
     };
 
+    // ==================== BULK ACTION ROUTES ====================
+    // POST /applications/bulk-act - Execute one action on many applications
+    // Role check is per-action inside RPC, same as /act
+    if (method === 'POST' && fullPath === 'applications/bulk-act') {
+      return await actionHandlers.executeBulkAction(ctx, req);
+    }
+
     // ==================== APPLICATION STATE ROUTES ====================
     // Routes: /applications/:id/...
 
@@ -129,6 +175,37 @@ Deno.serve(async (req: Request) => {
         return await stateHandlers.attachToPipeline(ctx, req);
       }
 
+      // GET /applications/:id/tags - Tags on the application
+      if (method === 'GET' && action === 'tags' && !pathParts[3]) {
+        return await tagHandlers.getApplicationTags(ctx);
+      }
+
+      // POST /applications/:id/tags - Tag the application
+      if (method === 'POST' && action === 'tags' && !pathParts[3]) {
+        if (!canManageTracking(user.role)) {
+          throw new Error('Forbidden: ADMIN or HR role required');
+        }
+        return await tagHandlers.tagApplication(ctx, req);
+      }
+
+      // DELETE /applications/:id/tags/:tagId - Untag the application
+      if (method === 'DELETE' && action === 'tags' && pathParts[3]) {
+        if (!canManageTracking(user.role)) {
+          throw new Error('Forbidden: ADMIN or HR role required');
+        }
+        return await tagHandlers.untagApplication(ctx);
+      }
+
+      // GET /applications/:id/comments - Comment thread (interviewers: assigned, TEAM only)
+      if (method === 'GET' && action === 'comments' && !pathParts[3]) {
+        return await commentHandlers.listComments(ctx);
+      }
+
+      // POST /applications/:id/comments - Add a comment (@mentions notify)
+      if (method === 'POST' && action === 'comments' && !pathParts[3]) {
+        return await commentHandlers.createComment(ctx, req);
+      }
+
       // GET /applications/:id - Get tracking state
       if (method === 'GET' && !action) {
         return await stateHandlers.getState(ctx);
@@ -156,12 +233,88 @@ Deno.serve(async (req: Request) => {
       }
     }
 
+    // ==================== COMMENT ROUTES ====================
+    // Routes: /comments/:id[/history] - visibility checked in handlers
+    if (pathParts[0] === 'comments' && pathParts[1]) {
+      const sub = pathParts[2];
+
+      // PATCH /comments/:id - Edit comment (author only)
+      if (method === 'PATCH' && !sub) {
+        return await commentHandlers.updateComment(ctx, req);
+      }
+
+      // DELETE /comments/:id - Delete comment (author, or ADMIN)
+      if (method === 'DELETE' && !sub) {
+        return await commentHandlers.deleteComment(ctx);
+      }
+
+      // GET /comments/:id/history - Edit history
+      if (method === 'GET' && sub === 'history') {
+        return await commentHandlers.getCommentHistory(ctx);
+      }
+    }
+
+    // GET /me/mentions - Comments mentioning the caller (?unread=true)
+    if (method === 'GET' && fullPath === 'me/mentions') {
+      return await commentHandlers.listMyMentions(ctx);
+    }
+
+    // POST /me/mentions/:commentId/read - Mark a mention as read
+    if (method === 'POST' && pathParts[0] === 'me' && pathParts[1] === 'mentions' && pathParts[3] === 'read') {
+      return await commentHandlers.markMentionRead(ctx);
+    }
+
     // ==================== PIPELINE BOARD ROUTES ====================
-    // GET /pipelines/:id/board - Kanban board view
-    if (method === 'GET' && pathParts[0] === 'pipelines' && pathParts[1] && pathParts[2] === 'board') {
+    // GET /pipelines/:id/board/stages/:stageId - Next page of one board column (?cursor=)
+    if (
+      method === 'GET' && pathParts[0] === 'pipelines' && pathParts[1] && pathParts[2] === 'board' &&
+      pathParts[3] === 'stages' && pathParts[4]
+    ) {
+      return await boardHandlers.getBoardStagePage(ctx);
+    }
+
+    // GET /pipelines/:id/board - Kanban board: stage counts + first page per stage
+    // (?view=, status, jobId, tags, sort, direction, signal, limit)
+    if (method === 'GET' && pathParts[0] === 'pipelines' && pathParts[1] && pathParts[2] === 'board' && !pathParts[3]) {
       return await boardHandlers.getPipelineBoard(ctx);
     }
 
+    // GET /pipelines/:id/sla - Applications breaching or approaching stage SLA
+    if (method === 'GET' && pathParts[0] === 'pipelines' && pathParts[1] && pathParts[2] === 'sla') {
+      return await slaHandlers.getPipelineSla(ctx);
+    }
+
+    // ==================== BOARD VIEW ROUTES ====================
+    // Routes: /views[/:id] - saved board filters (own + shared with the tenant)
+    if (pathParts[0] === 'views') {
+      const viewId = pathParts[1];
+
+      // GET /views - List own and shared views (?pipeline_id=)
+      if (method === 'GET' && !viewId) {
+        return await viewHandlers.listViews(ctx);
+      }
+
+      // POST /views - Create view (sharing requires ADMIN/HR)
+      if (method === 'POST' && !viewId) {
+        return await viewHandlers.createView(ctx, req);
+      }
+
+      // GET /views/:id - View detail
+      if (method === 'GET' && viewId && !pathParts[2]) {
+        return await viewHandlers.getView(ctx);
+      }
+
+      // PATCH /views/:id - Update view (owner, or ADMIN for shared views)
+      if (method === 'PATCH' && viewId && !pathParts[2]) {
+        return await viewHandlers.updateView(ctx, req);
+      }
+
+      // DELETE /views/:id - Delete view (owner, or ADMIN for shared views)
+      if (method === 'DELETE' && viewId && !pathParts[2]) {
+        return await viewHandlers.deleteView(ctx);
+      }
+    }
+
     // ==================== SETTINGS ROUTES ====================
     // Routes: /settings/statuses[/:id]
 
@@ -175,6 +328,75 @@ Deno.serve(async (req: Request) => {
       return await actionHandlers.listCapabilities(ctx);
     }
 
+    // Routes: /settings/automation-rules[/:id[/runs]] (ADMIN/HR only)
+    if (pathParts[0] === 'settings' && pathParts[1] === 'automation-rules') {
+      const ruleId = pathParts[2];
+      const sub = pathParts[3];
+
+      if (!canManageTracking(user.role)) {
+        throw new Error('Forbidden: ADMIN or HR role required to manage automation rules');
+      }
+
+      // GET /settings/automation-rules - List rules (?stage_id=)
+      if (method === 'GET' && !ruleId) {
+        return await automationHandlers.listRules(ctx);
+      }
+
+      // POST /settings/automation-rules - Create rule
+      if (method === 'POST' && !ruleId) {
+        return await automationHandlers.createRule(ctx, req);
+      }
+
+      // GET /settings/automation-rules/:id - Rule detail
+      if (method === 'GET' && ruleId && !sub) {
+        return await automationHandlers.getRule(ctx);
+      }
+
+      // PATCH /settings/automation-rules/:id - Update rule
+      if (method === 'PATCH' && ruleId && !sub) {
+        return await automationHandlers.updateRule(ctx, req);
+      }
+
+      // DELETE /settings/automation-rules/:id - Delete rule
+      if (method === 'DELETE' && ruleId && !sub) {
+        return await automationHandlers.deleteRule(ctx);
+      }
+
+      // GET /settings/automation-rules/:id/runs - Match + execution history
+      if (method === 'GET' && ruleId && sub === 'runs') {
+        return await automationHandlers.listRuleRuns(ctx);
+      }
+    }
+
+    // Routes: /settings/tags[/:id]
+    if (pathParts[0] === 'settings' && pathParts[1] === 'tags') {
+      const tagId = pathParts[2];
+
+      // GET /settings/tags - List tags
+      if (method === 'GET' && !tagId) {
+        return await tagHandlers.listTags(ctx);
+      }
+
+      if (!canManageTracking(user.role)) {
+        throw new Error('Forbidden: ADMIN or HR role required to manage tags');
+      }
+
+      // POST /settings/tags - Create tag
+      if (method === 'POST' && !tagId) {
+        return await tagHandlers.createTag(ctx, req);
+      }
+
+      // PATCH /settings/tags/:id - Rename or recolor tag
+      if (method === 'PATCH' && tagId) {
+        return await tagHandlers.updateTag(ctx, req);
+      }
+
+      // DELETE /settings/tags/:id - Delete tag (soft)
+      if (method === 'DELETE' && tagId) {
+        return await tagHandlers.deleteTag(ctx);
+      }
+    }
+
     if (pathParts[0] === 'settings' && pathParts[1] === 'statuses') {
       const statusId = pathParts[2];
 
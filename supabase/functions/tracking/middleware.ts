@@ -62,3 +62,25 @@ export function canManageTracking(role: string): boolean {
 export function canViewTracking(role: string): boolean {
   return ['SUPERADMIN', 'ADMIN', 'HR', 'INTERVIEWER'].includes(role);
 }
+
+// Check if an INTERVIEWER is assigned to any interview round of the application
+// (same rule as the application-detail restricted view)
+export async function isInterviewerAssignedToApplication(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  tenantId: string,
+  applicationId: string,
+): Promise<boolean> {
+  const { count, error } = await supabaseAdmin
+    .from('interviewer_assignments')
+    .select('id, interview_rounds!inner(id, interviews!inner(id))', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('tenant_id', tenantId)
+    .eq('interview_rounds.interviews.application_id', applicationId);
+
+  if (error) {
+    throw new Error(`Failed to check interviewer assignment: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
@@ -13,6 +13,7 @@ export interface PipelineStageRecord {
   conducted_by: string;
   order_index: number;
   metadata: Record<string, unknown> | null;
+  sla_hours: number | null;
   created_at: string;
 }
 
@@ -96,12 +97,20 @@ export interface PipelineStageResponse {
   stageType: string;
   conductedBy: string;
   orderIndex: number;
+  slaHours: number | null;
 }
 
 export interface BoardStageResponse {
+  stage: PipelineStageResponse;
+  applications: BoardApplicationResponse[]; // first page only
+  count: number; // all matching applications in the stage
+  nextCursor: string | null; // GET /pipelines/:id/board/stages/:stageId?cursor=
+}
+
+export interface BoardStagePageResponse {
   stage: PipelineStageResponse;
   applications: BoardApplicationResponse[];
-  count: number;
+  nextCursor: string | null;
 }
 
 export interface BoardApplicationResponse {
@@ -110,15 +119,82 @@ export interface BoardApplicationResponse {
   applicantEmail: string;
   status: string;
   enteredStageAt: string;
+  timeInStageHours: number;
+  isOverdue: boolean; // false when the stage has no SLA or the application is not ACTIVE
+  signalValue: number | null; // sort=signal only
+  tags: ApplicationTagResponse[];
+}
+
+export interface SlaApplicationResponse {
+  applicationId: string;
+  applicantName: string;
+  applicantEmail: string;
+  stageId: string;
+  stageName: string;
+  enteredStageAt: string;
+  timeInStageHours: number;
+  slaHours: number;
+  dueAt: string;
+  hoursRemaining: number; // negative once overdue
+  slaStatus: 'OVERDUE' | 'APPROACHING';
+}
+
+export interface SlaStageSummaryResponse {
+  stage: PipelineStageResponse;
+  activeCount: number;
+  overdueCount: number;
+  approachingCount: number;
+}
+
+export interface PipelineSlaResponse {
+  pipelineId: string;
+  pipelineName: string;
+  approachingThreshold: number; // fraction of the SLA after which an application is "approaching"
+  generatedAt: string;
+  stages: SlaStageSummaryResponse[];
+  applications: SlaApplicationResponse[];
 }
 
 export interface PipelineBoardResponse {
   pipelineId: string;
   pipelineName: string;
+  viewId: string | null; // saved view applied via ?view=
+  sort: string;
+  direction: 'asc' | 'desc';
   stages: BoardStageResponse[];
   totalApplications: number;
 }
 
+// get_board_stage_page() / get_pipeline_board() RPC results
+export interface BoardCardRecord {
+  application_id: string;
+  applicant_name: string | null;
+  applicant_email: string | null;
+  status: string;
+  outcome_type: string;
+  is_terminal: boolean;
+  entered_stage_at: string;
+  signal_value: number | null;
+  tags: Pick<TenantTagRecord, 'id' | 'name' | 'color_hex'>[];
+}
+
+export interface BoardCursorRecord {
+  r: number;
+  n: string;
+  t: string;
+  id: string;
+}
+
+export interface BoardStagePageRecord {
+  applications: BoardCardRecord[];
+  next_cursor: BoardCursorRecord | null;
+}
+
+export interface PipelineBoardRecord {
+  total: number;
+  stages: (BoardStagePageRecord & { stage_id: string; count: number })[];
+}
+
 // ============================================
 // Request DTOs
 // ============================================
@@ -151,10 +227,25 @@ export interface ExecuteActionDTO {
   approved_by?: string; // Required if forcing past block
 }
 
+// Bulk variant: same action + accountability fields applied to every application
+export interface BulkExecuteActionDTO extends ExecuteActionDTO {
+  application_ids: string[];
+}
+
+export type BulkActionOutcome = 'executed' | 'blocked' | 'error';
+
+export interface BulkActionResultResponse {
+  applicationId: string;
+  result: BulkActionOutcome;
+  reason?: string; // gate code when blocked (e.g. signals_not_met)
+  message?: string;
+  state?: TrackingStateResponse; // when executed
+}
+
 // Signal condition types (used by action engine for signal gate display)
 export interface SignalCondition {
   signal: string;
-  operator: '=' | '!=' | '>' | '>=' | '<' | '<=';
+  operator: '=' | '!=' | '>' | '>=' | '<' | '<=' | 'in' | 'contains';
   value: unknown;
   onMissing: 'BLOCK' | 'ALLOW' | 'WARN';
   currentValue: unknown | null;
@@ -263,3 +354,264 @@ export interface UpdateTenantStatusDTO {
   sort_order?: number;
   color_hex?: string;
 }
+
+// ============================================
+// Automation Rules
+// ============================================
+
+export interface AutomationConditionDTO {
+  signal: string;
+  operator: '=' | '!=' | '>' | '>=' | '<' | '<=' | 'in' | 'contains';
+  value: unknown;
+  on_missing?: 'BLOCK' | 'ALLOW'; // WARN needs a human note, so it is not allowed here
+}
+
+export interface AutomationConditionsDTO {
+  logic?: 'ALL' | 'ANY';
+  conditions: AutomationConditionDTO[];
+}
+
+export interface AutomationRuleRecord {
+  id: string;
+  tenant_id: string;
+  name: string;
+  description: string | null;
+  stage_id: string | null;
+  action_code: string;
+  conditions: AutomationConditionsDTO;
+  delay_minutes: number;
+  notes: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AutomationRuleRunRecord {
+  id: string;
+  tenant_id: string;
+  rule_id: string;
+  application_id: string;
+  stage_id: string;
+  status: 'PENDING' | 'EXECUTED' | 'BLOCKED' | 'FAILED' | 'CANCELLED';
+  conditions_evaluated: unknown[];
+  execute_after: string;
+  executed_at: string | null;
+  action_log_id: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+export interface AutomationRuleResponse {
+  id: string;
+  name: string;
+  description: string | null;
+  stageId: string | null;
+  actionCode: string;
+  conditions: AutomationConditionsDTO;
+  delayMinutes: number;
+  notes: string | null;
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AutomationRuleRunResponse {
+  id: string;
+  ruleId: string;
+  applicationId: string;
+  stageId: string;
+  status: string;
+  conditionsEvaluated: unknown[];
+  executeAfter: string;
+  executedAt: string | null;
+  actionLogId: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface CreateAutomationRuleDTO {
+  name: string;
+  description?: string;
+  stage_id?: string | null; // omit for any stage that offers action_code
+  action_code: string;
+  conditions: AutomationConditionsDTO;
+  delay_minutes?: number;
+  notes?: string;
+  is_active?: boolean;
+}
+
+export type UpdateAutomationRuleDTO = Partial<CreateAutomationRuleDTO>;
+
+// ============================================
+// Board Views
+// ============================================
+
+export interface BoardViewFiltersDTO {
+  stage_ids?: string[];
+  outcome_types?: string[]; // 'ACTIVE' | 'HOLD' | 'SUCCESS' | 'FAILURE' | 'NEUTRAL'
+  sources?: string[]; // source label, falling back to utm_source
+  min_hours_in_stage?: number;
+  max_hours_in_stage?: number;
+  interviewer_id?: string; // user ID, or 'me' for the viewing user
+  tag_ids?: string[]; // any of
+  signals?: AutomationConditionsDTO;
+}
+
+export interface BoardViewRecord {
+  id: string;
+  tenant_id: string;
+  owner_id: string;
+  name: string;
+  pipeline_id: string | null;
+  is_shared: boolean;
+  filters: BoardViewFiltersDTO;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BoardViewResponse {
+  id: string;
+  name: string;
+  pipelineId: string | null;
+  isShared: boolean;
+  isOwner: boolean;
+  ownerId: string;
+  filters: BoardViewFiltersDTO;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateBoardViewDTO {
+  name: string;
+  pipeline_id?: string | null; // omit for a view usable on any board
+  is_shared?: boolean;
+  filters: BoardViewFiltersDTO;
+}
+
+export type UpdateBoardViewDTO = Partial<CreateBoardViewDTO>;
+
+// ============================================
+// Application Tags
+// ============================================
+
+export interface TenantTagRecord {
+  id: string;
+  tenant_id: string;
+  name: string;
+  color_hex: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TenantTagResponse {
+  id: string;
+  name: string;
+  colorHex: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Tag as shown on an application (board card, tag/untag responses)
+export interface ApplicationTagResponse {
+  id: string;
+  name: string;
+  colorHex: string | null;
+}
+
+export interface CreateTagDTO {
+  name: string;
+  color_hex?: string | null;
+}
+
+export type UpdateTagDTO = Partial<CreateTagDTO>;
+
+export interface TagApplicationDTO {
+  tag_id: string;
+}
+
+// ============================================
+// Application Comments
+// ============================================
+
+export type CommentVisibility = 'TEAM' | 'MANAGERS';
+
+export interface ApplicationCommentRecord {
+  id: string;
+  tenant_id: string;
+  application_id: string;
+  author_id: string;
+  body: string;
+  visibility: CommentVisibility;
+  created_at: string;
+  updated_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  deleted_by: string | null;
+}
+
+export interface ApplicationCommentRevisionRecord {
+  id: string;
+  comment_id: string;
+  body: string;
+  edited_by: string | null;
+  created_at: string;
+}
+
+export interface ApplicationCommentMentionRecord {
+  comment_id: string;
+  user_id: string;
+  created_at: string;
+  read_at: string | null;
+}
+
+export interface CommentMentionResponse {
+  userId: string;
+  userName: string;
+}
+
+export interface ApplicationCommentResponse {
+  id: string;
+  applicationId: string;
+  authorId: string;
+  authorName: string;
+  body: string | null; // null once deleted
+  visibility: CommentVisibility;
+  mentions: CommentMentionResponse[];
+  isDeleted: boolean;
+  createdAt: string;
+  editedAt: string | null;
+  deletedAt: string | null;
+}
+
+export interface CommentRevisionResponse {
+  body: string;
+  editedBy: string | null;
+  editedByName: string | null;
+  createdAt: string;
+}
+
+// Entry in GET /me/mentions
+export interface MentionInboxResponse {
+  commentId: string;
+  applicationId: string;
+  applicantName: string;
+  authorId: string;
+  authorName: string;
+  excerpt: string;
+  visibility: CommentVisibility;
+  mentionedAt: string;
+  readAt: string | null;
+}
+
+export interface CreateCommentDTO {
+  body: string;
+  visibility?: CommentVisibility; // defaults to MANAGERS; interviewers always post TEAM
+}
+
+export interface UpdateCommentDTO {
+  body: string;
+}
@@ -89,6 +89,30 @@ export function formatStageResponse(stage: PipelineStageRecord): PipelineStageRe
     stageType: stage.stage_type,
     conductedBy: stage.conducted_by,
     orderIndex: stage.order_index,
+    slaHours: stage.sla_hours ?? null,
+  };
+}
+
+// Time in stage + SLA position. Only ACTIVE, non-terminal applications can be
+// overdue (matches sweep_stage_sla_breaches()).
+export function computeStageSla(
+  state: Pick<ApplicationPipelineStateRecord, 'entered_stage_at' | 'outcome_type' | 'is_terminal'>,
+  slaHours: number | null,
+  now = Date.now(),
+): { timeInStageHours: number; dueAt: string | null; hoursRemaining: number | null; isOverdue: boolean } {
+  const enteredAt = new Date(state.entered_stage_at).getTime();
+  const timeInStageHours = Math.round(((now - enteredAt) / 3_600_000) * 10) / 10;
+
+  if (!slaHours || state.is_terminal || state.outcome_type !== 'ACTIVE') {
+    return { timeInStageHours, dueAt: null, hoursRemaining: null, isOverdue: false };
+  }
+
+  const dueAt = enteredAt + slaHours * 3_600_000;
+  return {
+    timeInStageHours,
+    dueAt: new Date(dueAt).toISOString(),
+    hoursRemaining: Math.round(((dueAt - now) / 3_600_000) * 10) / 10,
+    isOverdue: now > dueAt,
   };
 }
 
@@ -0,0 +1,117 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { WebhookDeliveryRecord, WebhookEndpointRecord, WebhookEventRecord } from './types.ts';
+import { assertPublicHost } from '../_shared/outbound-url.ts';
+
+// ============================================
+// Delivery (signing + HTTP POST + attempt log)
+// ============================================
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+// Same lease as claim_webhook_deliveries(): a delivery sent inline is created
+// with next_attempt_at this far ahead so the dispatcher does not send it too
+export const DELIVERY_LEASE_MS = 5 * 60_000;
+
+export function leasedUntil(): string {
+  return new Date(Date.now() + DELIVERY_LEASE_MS).toISOString();
+}
+
+// Local development only: lets endpoints point at localhost or a private network
+export function allowPrivateEndpoints(): boolean {
+  return Deno.env.get('WEBHOOKS_ALLOW_PRIVATE_URLS') === 'true';
+}
+
+// Signature header: "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>"
+// Receivers recompute the HMAC with the endpoint secret and compare in constant time.
+export async function signPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+  const hex = Array.from(new Uint8Array(mac), (b) => b.toString(16).padStart(2, '0')).join('');
+  return `t=${timestamp},v1=${hex}`;
+}
+
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return 'whsec_' + Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Send one delivery and record the attempt. Never throws for HTTP/network
+// failures — those are recorded and retried with backoff by record_webhook_attempt().
+export async function sendDelivery(
+  supabaseAdmin: SupabaseClient,
+  delivery: WebhookDeliveryRecord,
+): Promise<WebhookDeliveryRecord> {
+  const [{ data: endpoint }, { data: event }] = await Promise.all([
+    supabaseAdmin.from('webhook_endpoints').select('*').eq('id', delivery.endpoint_id).single(),
+    supabaseAdmin.from('webhook_events').select('*').eq('id', delivery.event_id).single(),
+  ]);
+
+  let success = false;
+  let responseStatus: number | null = null;
+  let errorMessage: string | null = null;
+  const started = Date.now();
+
+  const endpointRecord = endpoint as WebhookEndpointRecord | null;
+  const eventRecord = event as WebhookEventRecord | null;
+
+  if (!endpointRecord || !eventRecord) {
+    errorMessage = 'Endpoint or event no longer exists';
+  } else if (!endpointRecord.is_active) {
+    errorMessage = 'Endpoint is disabled';
+  } else {
+    const body = JSON.stringify(eventRecord.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      // Narrows, but does not close, DNS rebinding: fetch() resolves the host again (see assertPublicHost)
+      if (!allowPrivateEndpoints()) {
+        await assertPublicHost(new URL(endpointRecord.url), 'Endpoint url');
+      }
+
+      // Redirects are not followed: they could lead to a non-public host
+      const res = await fetch(endpointRecord.url, {
+        method: 'POST',
+        redirect: 'manual',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'rtr-webhooks/1.0',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': eventRecord.event_type,
+          'X-Webhook-Event-Id': eventRecord.id,
+          'X-Webhook-Signature': await signPayload(endpointRecord.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+
+      // Only the status is recorded; the response body is never stored or returned
+      responseStatus = res.status;
+      await res.body?.cancel();
+      success = res.ok;
+      if (!success) errorMessage = `HTTP ${res.status}`;
+    } catch (err) {
+      errorMessage = (err as Error).message || 'Delivery failed';
+    }
+  }
+
+  const { data: updated, error } = await supabaseAdmin.rpc('record_webhook_attempt', {
+    p_delivery_id: delivery.id,
+    p_success: success,
+    p_response_status: responseStatus,
+    p_response_body: null,
+    p_error: errorMessage,
+    p_duration_ms: Date.now() - started,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record webhook attempt: ${error.message}`);
+  }
+
+  return updated as WebhookDeliveryRecord;
+}
@@ -0,0 +1,191 @@
+import type {
+  DispatchResultResponse,
+  HandlerContext,
+  WebhookDeliveryAttemptRecord,
+  WebhookDeliveryRecord,
+  WebhookDeliveryResponse,
+} from '../types.ts';
+import { isValidUUID, jsonResponse } from '../utils.ts';
+import { leasedUntil, sendDelivery } from '../dispatch.ts';
+
+// ============================================
+// Formatters
+// ============================================
+
+export function formatDeliveryResponse(record: WebhookDeliveryRecord): WebhookDeliveryResponse {
+  return {
+    id: record.id,
+    endpointId: record.endpoint_id,
+    eventId: record.event_id,
+    eventType: record.event_type,
+    status: record.status,
+    attemptCount: record.attempt_count,
+    maxAttempts: record.max_attempts,
+    nextAttemptAt: record.status === 'PENDING' ? record.next_attempt_at : null,
+    lastAttemptAt: record.last_attempt_at,
+    lastResponseStatus: record.last_response_status,
+    lastError: record.last_error,
+    deliveredAt: record.delivered_at,
+    redeliveryOf: record.redelivery_of,
+    createdAt: record.created_at,
+  };
+}
+
+async function fetchDelivery(ctx: HandlerContext, deliveryId: string): Promise<WebhookDeliveryRecord> {
+  if (!isValidUUID(deliveryId)) {
+    throw new Error('Invalid delivery ID format');
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('id', deliveryId)
+    .eq('tenant_id', ctx.tenantId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Webhook delivery not found');
+  }
+
+  return data as WebhookDeliveryRecord;
+}
+
+// ============================================
+// GET /endpoints/:id/deliveries
+// ============================================
+
+export async function listEndpointDeliveries(ctx: HandlerContext): Promise<Response> {
+  const endpointId = ctx.pathParts[1];
+  if (!isValidUUID(endpointId)) {
+    throw new Error('Invalid endpoint ID format');
+  }
+
+  const limit = Math.min(parseInt(ctx.url.searchParams.get('limit') || '50'), 100);
+  const offset = parseInt(ctx.url.searchParams.get('offset') || '0');
+  const status = ctx.url.searchParams.get('status');
+
+  let query = ctx.supabaseAdmin
+    .from('webhook_deliveries')
+    .select('*', { count: 'exact' })
+    .eq('tenant_id', ctx.tenantId)
+    .eq('endpoint_id', endpointId);
+
+  if (status) {
+    query = query.eq('status', status.toUpperCase());
+  }
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to fetch webhook deliveries: ${error.message}`);
+  }
+
+  return jsonResponse({
+    data: (data || []).map((d: WebhookDeliveryRecord) => formatDeliveryResponse(d)),
+    pagination: {
+      total: count || 0,
+      limit,
+      offset,
+      hasMore: (count || 0) > offset + limit,
+    },
+  });
+}
+
+// ============================================
+// GET /deliveries/:id - Delivery with payload + attempt log
+// ============================================
+
+export async function getDelivery(ctx: HandlerContext): Promise<Response> {
+  const delivery = await fetchDelivery(ctx, ctx.pathParts[1]);
+
+  const [{ data: event }, { data: attempts, error: attemptsError }] = await Promise.all([
+    ctx.supabaseAdmin.from('webhook_events').select('payload').eq('id', delivery.event_id).single(),
+    ctx.supabaseAdmin
+      .from('webhook_delivery_attempts')
+      .select('*')
+      .eq('delivery_id', delivery.id)
+      .order('attempt_number'),
+  ]);
+
+  if (attemptsError) {
+    throw new Error(`Failed to fetch delivery attempts: ${attemptsError.message}`);
+  }
+
+  const response = formatDeliveryResponse(delivery);
+  response.payload = event?.payload ?? undefined;
+  response.attempts = ((attempts || []) as WebhookDeliveryAttemptRecord[]).map((a) => ({
+    attemptNumber: a.attempt_number,
+    responseStatus: a.response_status,
+    error: a.error,
+    durationMs: a.duration_ms,
+    attemptedAt: a.attempted_at,
+  }));
+
+  return jsonResponse({ data: response });
+}
+
+// ============================================
+// POST /deliveries/:id/redeliver
+// ============================================
+
+export async function redeliver(ctx: HandlerContext): Promise<Response> {
+  const original = await fetchDelivery(ctx, ctx.pathParts[1]);
+
+  // New delivery row for the same event — the original log stays untouched.
+  // It is created leased so the dispatcher cannot send it at the same time
+  const { data: delivery, error } = await ctx.supabaseAdmin
+    .from('webhook_deliveries')
+    .insert({
+      tenant_id: ctx.tenantId,
+      endpoint_id: original.endpoint_id,
+      event_id: original.event_id,
+      event_type: original.event_type,
+      redelivery_of: original.id,
+      next_attempt_at: leasedUntil(),
+      created_by: ctx.userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create redelivery: ${error.message}`);
+  }
+
+  // First attempt inline; failures fall back to the normal retry schedule
+  const result = await sendDelivery(ctx.supabaseAdmin, delivery as WebhookDeliveryRecord);
+
+  return jsonResponse({ data: formatDeliveryResponse(result) }, 201);
+}
+
+// ============================================
+// POST /dispatch (service role) - Send due deliveries
+// ============================================
+
+export async function dispatchDue(ctx: HandlerContext): Promise<Response> {
+  const limit = Math.min(parseInt(ctx.url.searchParams.get('limit') || '50'), 200);
+
+  const { data, error } = await ctx.supabaseAdmin.rpc('claim_webhook_deliveries', { p_limit: limit });
+
+  if (error) {
+    throw new Error(`Failed to claim webhook deliveries: ${error.message}`);
+  }
+
+  const claimed = (data || []) as WebhookDeliveryRecord[];
+  const result: DispatchResultResponse = { claimed: claimed.length, succeeded: 0, failed: 0 };
+
+  for (const delivery of claimed) {
+    try {
+      const updated = await sendDelivery(ctx.supabaseAdmin, delivery);
+      if (updated.status === 'SUCCEEDED') result.succeeded++;
+      else result.failed++;
+    } catch (err) {
+      // Lease expiry returns the delivery to the queue
+      console.error('Webhook dispatch error', { deliveryId: delivery.id, error: (err as Error).message });
+      result.failed++;
+    }
+  }
+
+  return jsonResponse({ data: result });
+}
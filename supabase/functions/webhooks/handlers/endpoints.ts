@@ -0,0 +1,278 @@
+import type {
+  CreateWebhookEndpointDTO,
+  HandlerContext,
+  UpdateWebhookEndpointDTO,
+  WebhookDeliveryRecord,
+  WebhookEndpointRecord,
+  WebhookEndpointResponse,
+} from '../types.ts';
+import { WEBHOOK_EVENT_TYPES } from '../types.ts';
+import { isValidUUID, jsonResponse } from '../utils.ts';
+import { allowPrivateEndpoints, generateWebhookSecret, leasedUntil, sendDelivery } from '../dispatch.ts';
+import { assertPublicHost } from '../../_shared/outbound-url.ts';
+import { formatDeliveryResponse } from './deliveries.ts';
+
+// ============================================
+// Formatters & validation
+// ============================================
+
+function formatEndpointResponse(record: WebhookEndpointRecord, includeSecret = false): WebhookEndpointResponse {
+  const response: WebhookEndpointResponse = {
+    id: record.id,
+    url: record.url,
+    events: record.events,
+    description: record.description,
+    isActive: record.is_active,
+    secretPreview: `whsec_...${record.secret.slice(-4)}`,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+  };
+  if (includeSecret) {
+    response.secret = record.secret;
+  }
+  return response;
+}
+
+async function validateUrl(url: unknown): Promise<string> {
+  if (typeof url !== 'string' || url.trim() === '') {
+    throw new Error('url is required');
+  }
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error('Invalid url format');
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new Error('url must use http or https');
+  }
+  if (!allowPrivateEndpoints()) {
+    await assertPublicHost(parsed, 'url');
+  }
+  return parsed.toString();
+}
+
+function validateEvents(events: unknown): string[] {
+  if (!Array.isArray(events) || events.length === 0) {
+    throw new Error('events must be a non-empty array');
+  }
+  const allowed = new Set<string>([...WEBHOOK_EVENT_TYPES, '*']);
+  for (const e of events) {
+    if (typeof e !== 'string' || !allowed.has(e)) {
+      throw new Error(`Invalid event type: ${e}. Allowed: ${[...allowed].join(', ')}`);
+    }
+  }
+  return [...new Set(events as string[])];
+}
+
+async function fetchEndpoint(ctx: HandlerContext, endpointId: string): Promise<WebhookEndpointRecord> {
+  if (!isValidUUID(endpointId)) {
+    throw new Error('Invalid endpoint ID format');
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('id', endpointId)
+    .eq('tenant_id', ctx.tenantId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Webhook endpoint not found');
+  }
+
+  return data as WebhookEndpointRecord;
+}
+
+// ============================================
+// GET /endpoints
+// ============================================
+
+export async function listEndpoints(ctx: HandlerContext): Promise<Response> {
+  const { data, error } = await ctx.supabaseAdmin
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('tenant_id', ctx.tenantId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch webhook endpoints: ${error.message}`);
+  }
+
+  return jsonResponse({
+    data: (data || []).map((e: WebhookEndpointRecord) => formatEndpointResponse(e)),
+  });
+}
+
+// ============================================
+// GET /endpoints/:id
+// ============================================
+
+export async function getEndpoint(ctx: HandlerContext): Promise<Response> {
+  const endpoint = await fetchEndpoint(ctx, ctx.pathParts[1]);
+  return jsonResponse({ data: formatEndpointResponse(endpoint) });
+}
+
+// ============================================
+// POST /endpoints
+// ============================================
+
+export async function createEndpoint(ctx: HandlerContext, req: Request): Promise<Response> {
+  const body: CreateWebhookEndpointDTO = await req.json();
+
+  const url = await validateUrl(body.url);
+  const events = body.events === undefined ? ['*'] : validateEvents(body.events);
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('webhook_endpoints')
+    .insert({
+      tenant_id: ctx.tenantId,
+      url,
+      secret: generateWebhookSecret(),
+      events,
+      description: body.description?.trim() || null,
+      created_by: ctx.userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create webhook endpoint: ${error.message}`);
+  }
+
+  // Secret is only ever returned here and on rotate
+  return jsonResponse({ data: formatEndpointResponse(data as WebhookEndpointRecord, true) }, 201);
+}
+
+// ============================================
+// PATCH /endpoints/:id
+// ============================================
+
+export async function updateEndpoint(ctx: HandlerContext, req: Request): Promise<Response> {
+  const endpoint = await fetchEndpoint(ctx, ctx.pathParts[1]);
+  const body: UpdateWebhookEndpointDTO = await req.json();
+
+  const updates: Record<string, unknown> = {};
+  if (body.url !== undefined) updates.url = await validateUrl(body.url);
+  if (body.events !== undefined) updates.events = validateEvents(body.events);
+  if (body.description !== undefined) updates.description = body.description?.trim() || null;
+  if (body.is_active !== undefined) {
+    if (typeof body.is_active !== 'boolean') {
+      throw new Error('is_active must be a boolean');
+    }
+    updates.is_active = body.is_active;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    throw new Error('No valid fields to update');
+  }
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('webhook_endpoints')
+    .update(updates)
+    .eq('id', endpoint.id)
+    .eq('tenant_id', ctx.tenantId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update webhook endpoint: ${error.message}`);
+  }
+
+  return jsonResponse({ data: formatEndpointResponse(data as WebhookEndpointRecord) });
+}
+
+// ============================================
+// DELETE /endpoints/:id
+// ============================================
+
+export async function deleteEndpoint(ctx: HandlerContext): Promise<Response> {
+  const endpoint = await fetchEndpoint(ctx, ctx.pathParts[1]);
+
+  // Hard delete — deliveries and attempts cascade
+  const { error } = await ctx.supabaseAdmin
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', endpoint.id)
+    .eq('tenant_id', ctx.tenantId);
+
+  if (error) {
+    throw new Error(`Failed to delete webhook endpoint: ${error.message}`);
+  }
+
+  return jsonResponse({ message: 'Webhook endpoint deleted successfully' });
+}
+
+// ============================================
+// POST /endpoints/:id/rotate-secret
+// ============================================
+
+export async function rotateEndpointSecret(ctx: HandlerContext): Promise<Response> {
+  const endpoint = await fetchEndpoint(ctx, ctx.pathParts[1]);
+
+  const { data, error } = await ctx.supabaseAdmin
+    .from('webhook_endpoints')
+    .update({ secret: generateWebhookSecret() })
+    .eq('id', endpoint.id)
+    .eq('tenant_id', ctx.tenantId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to rotate webhook secret: ${error.message}`);
+  }
+
+  return jsonResponse({ data: formatEndpointResponse(data as WebhookEndpointRecord, true) });
+}
+
+// ============================================
+// POST /endpoints/:id/test - Send a webhook.test event synchronously
+// ============================================
+
+export async function testEndpoint(ctx: HandlerContext): Promise<Response> {
+  const endpoint = await fetchEndpoint(ctx, ctx.pathParts[1]);
+
+  const eventId = crypto.randomUUID();
+  const { error: eventError } = await ctx.supabaseAdmin
+    .from('webhook_events')
+    .insert({
+      id: eventId,
+      tenant_id: ctx.tenantId,
+      event_type: 'webhook.test',
+      payload: {
+        id: eventId,
+        type: 'webhook.test',
+        tenant_id: ctx.tenantId,
+        created_at: new Date().toISOString(),
+        data: { endpoint_id: endpoint.id },
+      },
+    });
+
+  if (eventError) {
+    throw new Error(`Failed to create test event: ${eventError.message}`);
+  }
+
+  // Single attempt — test deliveries are not retried. Created leased so the
+  // dispatcher cannot pick it up while it is sent here
+  const { data: delivery, error: deliveryError } = await ctx.supabaseAdmin
+    .from('webhook_deliveries')
+    .insert({
+      tenant_id: ctx.tenantId,
+      endpoint_id: endpoint.id,
+      event_id: eventId,
+      event_type: 'webhook.test',
+      max_attempts: 1,
+      next_attempt_at: leasedUntil(),
+      created_by: ctx.userId,
+    })
+    .select()
+    .single();
+
+  if (deliveryError) {
+    throw new Error(`Failed to create test delivery: ${deliveryError.message}`);
+  }
+
+  const result = await sendDelivery(ctx.supabaseAdmin, delivery as WebhookDeliveryRecord);
+
+  return jsonResponse({ data: formatDeliveryResponse(result) });
+}
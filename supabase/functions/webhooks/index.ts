@@ -0,0 +1,160 @@
+import { getSupabaseAdmin, getSupabaseClient } from '../_shared/supabase.ts';
+import { corsResponse, handleError, jsonResponse, textResponse } from './utils.ts';
+import { canManageWebhooks, getTenantIdFromAuth, getUserFromToken, isServiceRoleRequest } from './middleware.ts';
+import type { HandlerContext } from './types.ts';
+
+// Import handlers
+import * as endpointHandlers from './handlers/endpoints.ts';
+import * as deliveryHandlers from './handlers/deliveries.ts';
+
+// Parse path, removing function name prefix
+function parsePath(url: string): string[] {
+  return new URL(url).pathname
+    .replace(/^\/webhooks\/?/, '')
+    .replace(/^\/functions\/v1\/webhooks\/?/, '')
+    .replace(/\/$/, '')
+    .split('/')
+    .filter(Boolean);
+}
+
+Deno.serve(async (req: Request) => {
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    return corsResponse();
+  }
+
+  const url = new URL(req.url);
+  const pathParts = parsePath(req.url);
+  const fullPath = pathParts.join('/');
+  const method = req.method;
+
+  try {
+    // ==================== HEALTH CHECK (Public) ====================
+    if (method === 'GET' && fullPath === '') {
+      return textResponse('rtr-webhooks-service: ok');
+    }
+
+    const supabaseAdmin = getSupabaseAdmin();
+    const supabaseUser = getSupabaseClient(req);
+
+    // ==================== SERVICE ROLE ROUTES ====================
+    // POST /dispatch - Send due deliveries (invoked on a schedule)
+    if (method === 'POST' && fullPath === 'dispatch') {
+      if (!isServiceRoleRequest(req)) {
+        throw new Error('Forbidden: Service role required');
+      }
+      const ctx: HandlerContext = {
+        supabaseAdmin,
+        supabaseUser,
+        tenantId: '', // Deliveries carry their own tenant
+        pathParts,
+        method,
+        url,
+        isServiceRole: true,
+      };
+      return await deliveryHandlers.dispatchDue(ctx);
+    }
+
+    // ==================== ALL OTHER ROUTES REQUIRE ADMIN ====================
+    const user = await getUserFromToken(supabaseUser);
+    if (!user) {
+      throw new Error('Unauthorized: Invalid or missing token');
+    }
+
+    if (!canManageWebhooks(user.role)) {
+      throw new Error('Forbidden: ADMIN role required');
+    }
+
+    // Get tenant ID
+    let tenantId: string;
+    const headerTenantId = req.headers.get('X-Tenant-ID');
+
+    if (user.role === 'SUPERADMIN' && headerTenantId) {
+      tenantId = headerTenantId;
+    } else {
+      tenantId = user.tenantId || await getTenantIdFromAuth(req, supabaseUser);
+    }
+
+    const ctx: HandlerContext = {
+      supabaseAdmin,
+      supabaseUser,
+      tenantId,
+      userId: user.id,
+      userRole: user.role,
+      pathParts,
+      method,
+      url,
+      isServiceRole: false,
+    };
+
+    // ==================== ENDPOINT ROUTES ====================
+    // Routes: /endpoints, /endpoints/:id, /endpoints/:id/:action
+    if (pathParts[0] === 'endpoints') {
+      const endpointId = pathParts[1];
+      const action = pathParts[2];
+
+      // GET /endpoints - List endpoints
+      if (method === 'GET' && !endpointId) {
+        return await endpointHandlers.listEndpoints(ctx);
+      }
+
+      // POST /endpoints - Register endpoint (returns secret once)
+      if (method === 'POST' && !endpointId) {
+        return await endpointHandlers.createEndpoint(ctx, req);
+      }
+
+      // GET /endpoints/:id - Endpoint detail
+      if (method === 'GET' && endpointId && !action) {
+        return await endpointHandlers.getEndpoint(ctx);
+      }
+
+      // PATCH /endpoints/:id - Update url/events/description/is_active
+      if (method === 'PATCH' && endpointId && !action) {
+        return await endpointHandlers.updateEndpoint(ctx, req);
+      }
+
+      // DELETE /endpoints/:id - Remove endpoint
+      if (method === 'DELETE' && endpointId && !action) {
+        return await endpointHandlers.deleteEndpoint(ctx);
+      }
+
+      // POST /endpoints/:id/rotate-secret - New signing secret
+      if (method === 'POST' && action === 'rotate-secret') {
+        return await endpointHandlers.rotateEndpointSecret(ctx);
+      }
+
+      // POST /endpoints/:id/test - Send webhook.test synchronously
+      if (method === 'POST' && action === 'test') {
+        return await endpointHandlers.testEndpoint(ctx);
+      }
+
+      // GET /endpoints/:id/deliveries - Delivery log
+      if (method === 'GET' && action === 'deliveries') {
+        return await deliveryHandlers.listEndpointDeliveries(ctx);
+      }
+    }
+
+    // ==================== DELIVERY ROUTES ====================
+    // Routes: /deliveries/:id, /deliveries/:id/redeliver
+    if (pathParts[0] === 'deliveries' && pathParts[1]) {
+      // GET /deliveries/:id - Delivery detail with payload + attempts
+      if (method === 'GET' && !pathParts[2]) {
+        return await deliveryHandlers.getDelivery(ctx);
+      }
+
+      // POST /deliveries/:id/redeliver - Manual redelivery
+      if (method === 'POST' && pathParts[2] === 'redeliver') {
+        return await deliveryHandlers.redeliver(ctx);
+      }
+    }
+
+    // ==================== 404 ====================
+    return jsonResponse({
+      code: 'not_found',
+      message: 'Endpoint not found',
+      status_code: 404,
+    }, 404);
+  } catch (error) {
+    return handleError(error);
+  }
+});
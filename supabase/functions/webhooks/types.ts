@@ -0,0 +1,165 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ============================================
+// Handler Context
+// ============================================
+
+export interface HandlerContext {
+  supabaseAdmin: SupabaseClient;
+  supabaseUser: SupabaseClient;
+  tenantId: string;
+  userId?: string;
+  userRole?: string;
+  pathParts: string[];
+  method: string;
+  url: URL;
+  isServiceRole?: boolean;
+}
+
+// ============================================
+// Event Types
+// ============================================
+
+export const WEBHOOK_EVENT_TYPES = [
+  'application.created',
+  'application.stage_changed',
+  'application.terminal',
+  'application.sla_breached',
+  'evaluation.completed',
+  'interview.cancelled',
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+// ============================================
+// Database Records (snake_case - matches PostgreSQL)
+// ============================================
+
+export interface WebhookEndpointRecord {
+  id: string;
+  tenant_id: string;
+  url: string;
+  secret: string;
+  events: string[];
+  description: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookEventRecord {
+  id: string;
+  tenant_id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface WebhookDeliveryRecord {
+  id: string;
+  tenant_id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: string;
+  status: 'PENDING' | 'SUCCEEDED' | 'FAILED';
+  attempt_count: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  last_response_status: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  redelivery_of: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface WebhookDeliveryAttemptRecord {
+  id: string;
+  tenant_id: string;
+  delivery_id: string;
+  attempt_number: number;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number | null;
+  attempted_at: string;
+}
+
+// ============================================
+// API Responses (camelCase)
+// ============================================
+
+export interface WebhookEndpointResponse {
+  id: string;
+  url: string;
+  events: string[];
+  description: string | null;
+  isActive: boolean;
+  secretPreview: string;
+  secret?: string; // only returned on create and rotate
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDeliveryResponse {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: string;
+  status: string;
+  attemptCount: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  lastResponseStatus: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  redeliveryOf: string | null;
+  createdAt: string;
+  payload?: Record<string, unknown>;
+  attempts?: WebhookDeliveryAttemptResponse[];
+}
+
+export interface WebhookDeliveryAttemptResponse {
+  attemptNumber: number;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number | null;
+  attemptedAt: string;
+}
+
+export interface DispatchResultResponse {
+  claimed: number;
+  succeeded: number;
+  failed: number;
+}
+
+// ============================================
+// Request DTOs
+// ============================================
+
+export interface CreateWebhookEndpointDTO {
+  url: string;
+  events?: string[]; // defaults to ['*']
+  description?: string;
+}
+
+export interface UpdateWebhookEndpointDTO {
+  url?: string;
+  events?: string[];
+  description?: string | null;
+  is_active?: boolean;
+}
+
+// ============================================
+// Error Response
+// ============================================
+
+export interface ErrorResponse {
+  code: string;
+  message: string;
+  status_code: number;
+  details?: string;
+}
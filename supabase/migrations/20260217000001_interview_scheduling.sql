@@ -0,0 +1,280 @@
+-- ============================================================================
+-- Interview Scheduling - time slots, conflict detection, reschedule history
+-- ============================================================================
+-- Adds a scheduled window (start/end, derived duration), location and
+-- meeting link to interview_rounds.
+-- Interviewers cannot be double-booked: overlapping scheduled rounds for the
+-- same interviewer are rejected at the DB level (handler pre-checks too),
+-- with checks serialised per interviewer by an advisory lock.
+-- Reschedules go through reschedule_interview_round() which keeps the
+-- previous slot in interview_round_schedule_history.
+-- ============================================================================
+
+-- ============================================================================
+-- Part 1: Schedule columns on interview_rounds
+-- ============================================================================
+-- Nullable — unscheduled rounds (and all existing rows) keep working.
+
+ALTER TABLE interview_rounds
+  ADD COLUMN IF NOT EXISTS scheduled_start TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS scheduled_end TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS location TEXT,
+  ADD COLUMN IF NOT EXISTS meeting_link TEXT;
+
+ALTER TABLE interview_rounds
+  ADD COLUMN IF NOT EXISTS duration_minutes INT
+  GENERATED ALWAYS AS ((EXTRACT(EPOCH FROM (scheduled_end - scheduled_start)) / 60)::INT) STORED;
+
+-- Start and end are set together, and the window must be non-empty
+ALTER TABLE interview_rounds
+  ADD CONSTRAINT chk_interview_rounds_schedule
+  CHECK (
+    (scheduled_start IS NULL AND scheduled_end IS NULL)
+    OR (scheduled_start IS NOT NULL AND scheduled_end IS NOT NULL AND scheduled_end > scheduled_start)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_interview_rounds_schedule
+  ON interview_rounds (tenant_id, scheduled_start, scheduled_end)
+  WHERE scheduled_start IS NOT NULL;
+
+-- ============================================================================
+-- Part 2: interview_round_schedule_history table
+-- ============================================================================
+-- Append-only. One row per reschedule, holding the slot that was replaced.
+
+CREATE TABLE IF NOT EXISTS interview_round_schedule_history (
+  id                      UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id               UUID NOT NULL REFERENCES tenants(id),
+  round_id                UUID NOT NULL REFERENCES interview_rounds(id) ON DELETE CASCADE,
+  previous_start          TIMESTAMPTZ,
+  previous_end            TIMESTAMPTZ,
+  previous_location       TEXT,
+  previous_meeting_link   TEXT,
+  new_start               TIMESTAMPTZ NOT NULL,
+  new_end                 TIMESTAMPTZ NOT NULL,
+  reason                  TEXT,
+  changed_by              UUID,
+  changed_at              TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_round_schedule_history_round
+  ON interview_round_schedule_history (round_id, changed_at DESC);
+
+ALTER TABLE interview_round_schedule_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tenant schedule history" ON interview_round_schedule_history
+  FOR SELECT USING (tenant_id = get_tenant_id());
+
+CREATE POLICY "HR can record schedule history" ON interview_round_schedule_history
+  FOR INSERT WITH CHECK (tenant_id = get_tenant_id() AND can_manage_tracking());
+
+-- No UPDATE/DELETE policies (append-only)
+
+-- ============================================================================
+-- Part 3: find_interviewer_schedule_conflicts()
+-- ============================================================================
+-- Returns every scheduled round that overlaps [p_start, p_end) for any of the
+-- given interviewers. Rounds of CANCELLED interviews never conflict.
+-- Used by the triggers below and by the handler pre-check.
+
+CREATE OR REPLACE FUNCTION find_interviewer_schedule_conflicts(
+  p_tenant_id UUID,
+  p_user_ids UUID[],
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_exclude_round_id UUID DEFAULT NULL
+) RETURNS TABLE (
+  user_id UUID,
+  round_id UUID,
+  interview_id UUID,
+  scheduled_start TIMESTAMPTZ,
+  scheduled_end TIMESTAMPTZ
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT ia.user_id, ir.id, ir.interview_id, ir.scheduled_start, ir.scheduled_end
+  FROM interviewer_assignments ia
+  JOIN interview_rounds ir ON ir.id = ia.round_id
+  JOIN interviews i ON i.id = ir.interview_id
+  WHERE ia.tenant_id = p_tenant_id
+    AND ia.user_id = ANY(p_user_ids)
+    AND ir.scheduled_start IS NOT NULL
+    AND ir.id IS DISTINCT FROM p_exclude_round_id
+    AND i.status != 'CANCELLED'
+    AND tstzrange(ir.scheduled_start, ir.scheduled_end) && tstzrange(p_start, p_end)
+  ORDER BY ir.scheduled_start;
+$$;
+
+-- ============================================================================
+-- Part 4: Conflict triggers
+-- ============================================================================
+-- Each trigger first takes a transaction-level advisory lock per interviewer,
+-- so two concurrent bookings of the same interviewer run their checks one
+-- after the other. The second sees the first's committed row and fails.
+
+-- Locks in user_id order so that two multi-interviewer bookings cannot deadlock
+CREATE OR REPLACE FUNCTION lock_interviewer_schedules(p_tenant_id UUID, p_user_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  SELECT pg_advisory_xact_lock(hashtext(p_tenant_id::TEXT || ':' || u::TEXT))
+  FROM (SELECT DISTINCT unnest(p_user_ids) AS u ORDER BY 1) ids;
+$$;
+
+COMMENT ON FUNCTION lock_interviewer_schedules IS
+  'Serialise schedule conflict checks per interviewer until the end of the transaction';
+
+-- 4a: Assigning an interviewer to an already-scheduled round
+CREATE OR REPLACE FUNCTION trg_check_interviewer_assignment_conflict()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_round interview_rounds;
+  v_conflict RECORD;
+BEGIN
+  SELECT * INTO v_round
+  FROM interview_rounds
+  WHERE id = NEW.round_id
+    AND tenant_id = NEW.tenant_id;
+
+  -- Unscheduled rounds cannot conflict
+  IF v_round.scheduled_start IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM lock_interviewer_schedules(NEW.tenant_id, ARRAY[NEW.user_id]);
+
+  SELECT * INTO v_conflict
+  FROM find_interviewer_schedule_conflicts(
+    NEW.tenant_id, ARRAY[NEW.user_id], v_round.scheduled_start, v_round.scheduled_end, v_round.id
+  )
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'INTERVIEWER_CONFLICT: Interviewer % is already booked for round % (% - %)',
+      v_conflict.user_id, v_conflict.round_id, v_conflict.scheduled_start, v_conflict.scheduled_end
+      USING ERRCODE = '23P01';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_prevent_interviewer_assignment_conflict
+  BEFORE INSERT OR UPDATE OF user_id, round_id ON interviewer_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION trg_check_interviewer_assignment_conflict();
+
+-- 4b: Moving a round's window onto an assigned interviewer's other rounds
+CREATE OR REPLACE FUNCTION trg_check_round_schedule_conflict()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_user_ids UUID[];
+  v_conflict RECORD;
+BEGIN
+  IF NEW.scheduled_start IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.scheduled_start IS NOT DISTINCT FROM NEW.scheduled_start
+     AND OLD.scheduled_end IS NOT DISTINCT FROM NEW.scheduled_end THEN
+    RETURN NEW;
+  END IF;
+
+  v_user_ids := ARRAY(SELECT ia.user_id FROM interviewer_assignments ia WHERE ia.round_id = NEW.id);
+  PERFORM lock_interviewer_schedules(NEW.tenant_id, v_user_ids);
+
+  SELECT * INTO v_conflict
+  FROM find_interviewer_schedule_conflicts(
+    NEW.tenant_id, v_user_ids, NEW.scheduled_start, NEW.scheduled_end, NEW.id
+  )
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'INTERVIEWER_CONFLICT: Interviewer % is already booked for round % (% - %)',
+      v_conflict.user_id, v_conflict.round_id, v_conflict.scheduled_start, v_conflict.scheduled_end
+      USING ERRCODE = '23P01';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_prevent_round_schedule_conflict
+  BEFORE UPDATE OF scheduled_start, scheduled_end ON interview_rounds
+  FOR EACH ROW
+  EXECUTE FUNCTION trg_check_round_schedule_conflict();
+
+-- ============================================================================
+-- Part 5: reschedule_interview_round RPC
+-- ============================================================================
+-- Atomically records the replaced slot and applies the new one.
+-- Conflict detection is enforced by trg_prevent_round_schedule_conflict.
+
+CREATE OR REPLACE FUNCTION reschedule_interview_round(
+  p_tenant_id UUID,
+  p_round_id UUID,
+  p_user_id UUID,
+  p_scheduled_start TIMESTAMPTZ,
+  p_scheduled_end TIMESTAMPTZ,
+  p_location TEXT DEFAULT NULL,
+  p_meeting_link TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+) RETURNS interview_rounds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_round interview_rounds;
+  v_interview_status TEXT;
+BEGIN
+  SELECT * INTO v_round
+  FROM interview_rounds
+  WHERE id = p_round_id
+    AND tenant_id = p_tenant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Interview round not found'
+      USING ERRCODE = 'P0004';
+  END IF;
+
+  SELECT status INTO v_interview_status
+  FROM interviews
+  WHERE id = v_round.interview_id;
+
+  IF v_interview_status = 'CANCELLED' THEN
+    RAISE EXCEPTION 'INVALID_ACTION: Cannot reschedule a round of a CANCELLED interview'
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  IF p_scheduled_start IS NULL OR p_scheduled_end IS NULL OR p_scheduled_end <= p_scheduled_start THEN
+    RAISE EXCEPTION 'VALIDATION: scheduled_end must be after scheduled_start'
+      USING ERRCODE = 'P0009';
+  END IF;
+
+  INSERT INTO interview_round_schedule_history (
+    tenant_id, round_id,
+    previous_start, previous_end, previous_location, previous_meeting_link,
+    new_start, new_end, reason, changed_by
+  ) VALUES (
+    p_tenant_id, p_round_id,
+    v_round.scheduled_start, v_round.scheduled_end, v_round.location, v_round.meeting_link,
+    p_scheduled_start, p_scheduled_end, p_reason, p_user_id
+  );
+
+  UPDATE interview_rounds
+  SET scheduled_start = p_scheduled_start,
+      scheduled_end = p_scheduled_end,
+      location = p_location,
+      meeting_link = p_meeting_link
+  WHERE id = p_round_id
+  RETURNING * INTO v_round;
+
+  RETURN v_round;
+END;
+$$;
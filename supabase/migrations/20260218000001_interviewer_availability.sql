@@ -0,0 +1,81 @@
+-- ============================================================================
+-- Interviewer Availability - weekly working hours, time zone, blackout dates
+-- ============================================================================
+-- Owns: per-user availability used by the interview slot finder
+-- Busy time is NOT stored here — it is derived from scheduled interview_rounds
+-- (see find_interviewer_schedule_conflicts).
+-- ============================================================================
+
+-- ============================================================================
+-- Part 1: interviewer_availability table
+-- ============================================================================
+-- weekly_hours shape (local wall-clock time in time_zone):
+--   { "mon": [{ "start": "09:00", "end": "17:00" }], "tue": [...], ... }
+-- Missing day key = not working that day.
+-- Users without a row fall back to the handler default (Mon-Fri 09:00-17:00 UTC).
+
+CREATE TABLE IF NOT EXISTS interviewer_availability (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id     UUID NOT NULL REFERENCES tenants(id),
+  user_id       UUID NOT NULL,
+  time_zone     TEXT NOT NULL DEFAULT 'UTC',
+  weekly_hours  JSONB NOT NULL DEFAULT '{}',
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(tenant_id, user_id),
+  CONSTRAINT chk_interviewer_availability_weekly_hours CHECK (jsonb_typeof(weekly_hours) = 'object')
+);
+
+-- ============================================================================
+-- Part 2: interviewer_blackout_dates table
+-- ============================================================================
+-- Whole local days (in the user's time_zone) on which the user is unavailable.
+
+CREATE TABLE IF NOT EXISTS interviewer_blackout_dates (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id     UUID NOT NULL REFERENCES tenants(id),
+  user_id       UUID NOT NULL,
+  blackout_date DATE NOT NULL,
+  reason        TEXT,
+  created_by    UUID,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(tenant_id, user_id, blackout_date)
+);
+
+-- ============================================================================
+-- Part 3: RLS Policies
+-- ============================================================================
+-- Users manage their own availability; HR can manage anyone's in the tenant.
+
+ALTER TABLE interviewer_availability ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tenant availability" ON interviewer_availability
+  FOR SELECT USING (tenant_id = get_tenant_id());
+
+CREATE POLICY "Users or HR can set availability" ON interviewer_availability
+  FOR INSERT WITH CHECK (tenant_id = get_tenant_id() AND (user_id = auth.uid() OR can_manage_tracking()));
+
+CREATE POLICY "Users or HR can update availability" ON interviewer_availability
+  FOR UPDATE USING (tenant_id = get_tenant_id() AND (user_id = auth.uid() OR can_manage_tracking()));
+
+ALTER TABLE interviewer_blackout_dates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tenant blackout dates" ON interviewer_blackout_dates
+  FOR SELECT USING (tenant_id = get_tenant_id());
+
+CREATE POLICY "Users or HR can add blackout dates" ON interviewer_blackout_dates
+  FOR INSERT WITH CHECK (tenant_id = get_tenant_id() AND (user_id = auth.uid() OR can_manage_tracking()));
+
+CREATE POLICY "Users or HR can remove blackout dates" ON interviewer_blackout_dates
+  FOR DELETE USING (tenant_id = get_tenant_id() AND (user_id = auth.uid() OR can_manage_tracking()));
+
+-- ============================================================================
+-- Part 4: Indexes + Triggers
+-- ============================================================================
+
+CREATE INDEX idx_interviewer_blackout_user_date
+  ON interviewer_blackout_dates (tenant_id, user_id, blackout_date);
+
+CREATE TRIGGER update_interviewer_availability_updated_at
+  BEFORE UPDATE ON interviewer_availability
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
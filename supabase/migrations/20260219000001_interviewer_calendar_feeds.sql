@@ -0,0 +1,28 @@
+-- ============================================================================
+-- Interviewer Calendar Feeds - tokenized .ics subscription URLs
+-- ============================================================================
+-- Calendar clients cannot send a bearer token, so each interviewer gets an
+-- opaque feed token embedded in the subscription URL:
+--   GET /interview/feeds/:token.ics
+-- One active token per user; rotating revokes the previous one.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS interviewer_calendar_feeds (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id   UUID NOT NULL REFERENCES tenants(id),
+  user_id     UUID NOT NULL,
+  token       TEXT NOT NULL UNIQUE,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  revoked_at  TIMESTAMPTZ
+);
+
+-- At most one active feed per user
+CREATE UNIQUE INDEX uq_interviewer_calendar_feeds_active
+  ON interviewer_calendar_feeds (tenant_id, user_id)
+  WHERE revoked_at IS NULL;
+
+-- RLS: users can see their own feed; writes go through the interview service (service role)
+ALTER TABLE interviewer_calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar feed" ON interviewer_calendar_feeds
+  FOR SELECT USING (tenant_id = get_tenant_id() AND user_id = auth.uid());
@@ -0,0 +1,402 @@
+-- ============================================================================
+-- Outbound Webhooks - tenant endpoints, transactional outbox, delivery log
+-- ============================================================================
+-- Owns: webhook endpoint registration, event outbox, delivery attempts
+-- Emits: HTTP POSTs signed with HMAC-SHA256 (sent by the webhooks function)
+--
+-- Events are enqueued by triggers on the owning domain tables, inside the
+-- same transaction as the state change (outbox pattern):
+--   application.created        application_pipeline_state INSERT
+--   application.stage_changed  application_pipeline_state current_stage_id change
+--   application.terminal       application_pipeline_state is_terminal false -> true
+--   evaluation.completed       evaluation_instances status -> COMPLETED
+--   interview.cancelled        interviews status -> CANCELLED
+--
+-- application.created keys off pipeline attach (not applications INSERT) so
+-- applications rolled back by jobs on attach failure never emit.
+--
+-- Delivery is asynchronous: POST /webhooks/dispatch (service role, run on a
+-- schedule) claims due deliveries and records each attempt.
+-- ============================================================================
+
+-- ============================================================================
+-- Part 1: webhook_endpoints
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id    UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  url          TEXT NOT NULL CHECK (url ~ '^https?://'),
+  secret       TEXT NOT NULL,
+  events       TEXT[] NOT NULL DEFAULT '{*}',   -- '*' = all events
+  description  TEXT,
+  is_active    BOOLEAN NOT NULL DEFAULT true,
+  created_by   UUID,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT chk_webhook_endpoints_events_not_empty CHECK (cardinality(events) > 0)
+);
+
+CREATE INDEX idx_webhook_endpoints_tenant_active ON webhook_endpoints(tenant_id) WHERE is_active = true;
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- Part 2: webhook_events (outbox) + webhook_deliveries + attempts
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id   UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  event_type  TEXT NOT NULL,
+  payload     JSONB NOT NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_webhook_events_tenant_created ON webhook_events(tenant_id, created_at DESC);
+
+-- One row per (event, endpoint). Redelivery creates a new row so the log stays intact.
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id                    UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id             UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  endpoint_id           UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  event_id              UUID NOT NULL REFERENCES webhook_events(id) ON DELETE CASCADE,
+  event_type            TEXT NOT NULL,
+  status                TEXT NOT NULL DEFAULT 'PENDING'
+                        CHECK (status IN ('PENDING', 'SUCCEEDED', 'FAILED')),
+  attempt_count         INT NOT NULL DEFAULT 0,
+  max_attempts          INT NOT NULL DEFAULT 8,
+  next_attempt_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_attempt_at       TIMESTAMPTZ,
+  last_response_status  INT,
+  last_error            TEXT,
+  delivered_at          TIMESTAMPTZ,
+  redelivery_of         UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_by            UUID,  -- set for manual redeliveries
+  created_at            TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_webhook_deliveries_due
+  ON webhook_deliveries(next_attempt_at)
+  WHERE status = 'PENDING';
+CREATE INDEX idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_event ON webhook_deliveries(event_id);
+
+CREATE TABLE IF NOT EXISTS webhook_delivery_attempts (
+  id               UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id        UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  delivery_id      UUID NOT NULL REFERENCES webhook_deliveries(id) ON DELETE CASCADE,
+  attempt_number   INT NOT NULL,
+  response_status  INT,
+  response_body    TEXT,      -- truncated by the dispatcher
+  error            TEXT,
+  duration_ms      INT,
+  attempted_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_webhook_delivery_attempts_delivery ON webhook_delivery_attempts(delivery_id, attempt_number);
+
+-- ============================================================================
+-- Part 3: RLS Policies
+-- ============================================================================
+-- Settings-level data: ADMIN-only. Writes to the outbox/log happen through
+-- SECURITY DEFINER functions and the webhooks function (service role).
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhook endpoints" ON webhook_endpoints
+  FOR SELECT USING (tenant_id = get_tenant_id() AND can_manage_settings());
+
+CREATE POLICY "Admins can create webhook endpoints" ON webhook_endpoints
+  FOR INSERT WITH CHECK (tenant_id = get_tenant_id() AND can_manage_settings());
+
+CREATE POLICY "Admins can update webhook endpoints" ON webhook_endpoints
+  FOR UPDATE USING (tenant_id = get_tenant_id() AND can_manage_settings());
+
+CREATE POLICY "Admins can delete webhook endpoints" ON webhook_endpoints
+  FOR DELETE USING (tenant_id = get_tenant_id() AND can_manage_settings());
+
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhook events" ON webhook_events
+  FOR SELECT USING (tenant_id = get_tenant_id() AND can_manage_settings());
+
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhook deliveries" ON webhook_deliveries
+  FOR SELECT USING (tenant_id = get_tenant_id() AND can_manage_settings());
+
+ALTER TABLE webhook_delivery_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhook delivery attempts" ON webhook_delivery_attempts
+  FOR SELECT USING (tenant_id = get_tenant_id() AND can_manage_settings());
+
+-- ============================================================================
+-- Part 4: enqueue_webhook_event()
+-- ============================================================================
+-- Writes the event once and fans out one delivery per subscribed endpoint.
+-- No-op (no event row) when the tenant has no matching endpoint.
+
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(
+  p_tenant_id UUID,
+  p_event_type TEXT,
+  p_data JSONB
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_event_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM webhook_endpoints
+    WHERE tenant_id = p_tenant_id
+      AND is_active = true
+      AND (p_event_type = ANY(events) OR '*' = ANY(events))
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  v_event_id := gen_random_uuid();
+
+  INSERT INTO webhook_events (id, tenant_id, event_type, payload)
+  VALUES (
+    v_event_id,
+    p_tenant_id,
+    p_event_type,
+    jsonb_build_object(
+      'id', v_event_id,
+      'type', p_event_type,
+      'tenant_id', p_tenant_id,
+      'created_at', now(),
+      'data', p_data
+    )
+  );
+
+  INSERT INTO webhook_deliveries (tenant_id, endpoint_id, event_id, event_type)
+  SELECT p_tenant_id, we.id, v_event_id, p_event_type
+  FROM webhook_endpoints we
+  WHERE we.tenant_id = p_tenant_id
+    AND we.is_active = true
+    AND (p_event_type = ANY(we.events) OR '*' = ANY(we.events));
+
+  RETURN v_event_id;
+END;
+$$;
+
+-- ============================================================================
+-- Part 5: Dispatcher support
+-- ============================================================================
+
+-- Claim due deliveries. The lease (next_attempt_at pushed 5 minutes out)
+-- keeps concurrent dispatchers from sending the same delivery twice.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+  p_limit INT DEFAULT 50
+) RETURNS SETOF webhook_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE webhook_deliveries wd
+  SET next_attempt_at = now() + INTERVAL '5 minutes'
+  WHERE wd.id IN (
+    SELECT id FROM webhook_deliveries
+    WHERE status = 'PENDING'
+      AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING wd.*;
+END;
+$$;
+
+-- Record one attempt and schedule the next one with exponential backoff:
+-- 30s, 1m, 2m, 4m, ... until max_attempts, then FAILED.
+CREATE OR REPLACE FUNCTION record_webhook_attempt(
+  p_delivery_id UUID,
+  p_success BOOLEAN,
+  p_response_status INT DEFAULT NULL,
+  p_response_body TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL,
+  p_duration_ms INT DEFAULT NULL
+) RETURNS webhook_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_delivery webhook_deliveries;
+  v_attempt INT;
+BEGIN
+  SELECT * INTO v_delivery
+  FROM webhook_deliveries
+  WHERE id = p_delivery_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Webhook delivery not found'
+      USING ERRCODE = 'P0004';
+  END IF;
+
+  v_attempt := v_delivery.attempt_count + 1;
+
+  INSERT INTO webhook_delivery_attempts (
+    tenant_id, delivery_id, attempt_number, response_status, response_body, error, duration_ms
+  ) VALUES (
+    v_delivery.tenant_id, p_delivery_id, v_attempt, p_response_status, p_response_body, p_error, p_duration_ms
+  );
+
+  UPDATE webhook_deliveries
+  SET attempt_count = v_attempt,
+      last_attempt_at = now(),
+      last_response_status = p_response_status,
+      last_error = CASE WHEN p_success THEN NULL ELSE p_error END,
+      status = CASE
+        WHEN p_success THEN 'SUCCEEDED'
+        WHEN v_attempt >= max_attempts THEN 'FAILED'
+        ELSE 'PENDING'
+      END,
+      delivered_at = CASE WHEN p_success THEN now() ELSE NULL END,
+      next_attempt_at = CASE
+        WHEN p_success OR v_attempt >= max_attempts THEN next_attempt_at
+        ELSE now() + (INTERVAL '30 seconds' * power(2, v_attempt - 1))
+      END
+  WHERE id = p_delivery_id
+  RETURNING * INTO v_delivery;
+
+  RETURN v_delivery;
+END;
+$$;
+
+-- ============================================================================
+-- Part 6: Domain triggers (outbox producers)
+-- ============================================================================
+
+-- 6a: application_pipeline_state → created / stage_changed / terminal
+CREATE OR REPLACE FUNCTION trg_webhook_application_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_app applications;
+  v_from_stage_name TEXT;
+  v_to_stage_name TEXT;
+BEGIN
+  SELECT * INTO v_app FROM applications WHERE id = NEW.application_id;
+  SELECT stage_name INTO v_to_stage_name FROM pipeline_stages WHERE id = NEW.current_stage_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM enqueue_webhook_event(NEW.tenant_id, 'application.created', jsonb_build_object(
+      'application_id', NEW.application_id,
+      'job_id', NEW.job_id,
+      'pipeline_id', NEW.pipeline_id,
+      'stage_id', NEW.current_stage_id,
+      'stage_name', v_to_stage_name,
+      'status', NEW.status,
+      'applicant_name', v_app.applicant_name,
+      'applicant_email', v_app.applicant_email
+    ));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.current_stage_id IS DISTINCT FROM OLD.current_stage_id THEN
+    SELECT stage_name INTO v_from_stage_name FROM pipeline_stages WHERE id = OLD.current_stage_id;
+
+    PERFORM enqueue_webhook_event(NEW.tenant_id, 'application.stage_changed', jsonb_build_object(
+      'application_id', NEW.application_id,
+      'job_id', NEW.job_id,
+      'pipeline_id', NEW.pipeline_id,
+      'from_stage_id', OLD.current_stage_id,
+      'from_stage_name', v_from_stage_name,
+      'to_stage_id', NEW.current_stage_id,
+      'to_stage_name', v_to_stage_name,
+      'status', NEW.status,
+      'outcome_type', NEW.outcome_type
+    ));
+  END IF;
+
+  IF NEW.is_terminal = true AND OLD.is_terminal IS DISTINCT FROM true THEN
+    PERFORM enqueue_webhook_event(NEW.tenant_id, 'application.terminal', jsonb_build_object(
+      'application_id', NEW.application_id,
+      'job_id', NEW.job_id,
+      'pipeline_id', NEW.pipeline_id,
+      'stage_id', NEW.current_stage_id,
+      'stage_name', v_to_stage_name,
+      'status', NEW.status,
+      'outcome_type', NEW.outcome_type
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_webhook_application_state
+  AFTER INSERT OR UPDATE ON application_pipeline_state
+  FOR EACH ROW EXECUTE FUNCTION trg_webhook_application_state();
+
+-- 6b: evaluation_instances → evaluation.completed
+CREATE OR REPLACE FUNCTION trg_webhook_evaluation_completed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_template_name TEXT;
+BEGIN
+  IF NEW.status = 'COMPLETED' AND OLD.status IS DISTINCT FROM 'COMPLETED' THEN
+    SELECT name INTO v_template_name FROM evaluation_templates WHERE id = NEW.template_id;
+
+    PERFORM enqueue_webhook_event(NEW.tenant_id, 'evaluation.completed', jsonb_build_object(
+      'evaluation_id', NEW.id,
+      'application_id', NEW.application_id,
+      'template_id', NEW.template_id,
+      'template_name', v_template_name,
+      'stage_id', NEW.stage_id,
+      'interview_round_id', NEW.interview_round_id,
+      'force_completed', COALESCE(NEW.force_completed, false),
+      'completed_at', NEW.completed_at
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_webhook_evaluation_completed
+  AFTER UPDATE OF status ON evaluation_instances
+  FOR EACH ROW EXECUTE FUNCTION trg_webhook_evaluation_completed();
+
+-- 6c: interviews → interview.cancelled
+CREATE OR REPLACE FUNCTION trg_webhook_interview_cancelled()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.status = 'CANCELLED' AND OLD.status IS DISTINCT FROM 'CANCELLED' THEN
+    PERFORM enqueue_webhook_event(NEW.tenant_id, 'interview.cancelled', jsonb_build_object(
+      'interview_id', NEW.id,
+      'application_id', NEW.application_id,
+      'pipeline_stage_id', NEW.pipeline_stage_id,
+      'cancelled_at', NEW.updated_at
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_webhook_interview_cancelled
+  AFTER UPDATE OF status ON interviews
+  FOR EACH ROW EXECUTE FUNCTION trg_webhook_interview_cancelled();
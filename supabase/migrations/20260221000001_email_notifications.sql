@@ -0,0 +1,370 @@
+-- ============================================================================
+-- Email Notifications - tenant-editable templates, outbox, send log
+-- ============================================================================
+-- Owns: notification templates and the per-tenant send log
+-- Emits: transactional email (sent by the notifications function)
+--
+-- Triggers on the owning domain tables enqueue one notification_log row per
+-- recipient with a JSON render context. The template is resolved and rendered
+-- at send time, so edits apply to anything still queued.
+--
+-- Trigger keys:
+--   application_received  application_pipeline_state INSERT         → candidate
+--   stage_changed         current_stage_id change (non-terminal)     → candidate
+--   application_rejected  is_terminal → true with outcome FAILURE    → candidate
+--   interview_assigned    interviewer_assignments INSERT             → interviewer
+--   interview_cancelled   interviews status → CANCELLED              → each interviewer
+--
+-- Tenants without a custom template use the built-in default (see
+-- notifications/templates.ts). A custom template with is_active = false
+-- disables that trigger for the tenant; queued rows are then SKIPPED.
+--
+-- The candidate access token is not part of the stored context: the
+-- dispatcher looks it up at send time and stores the rendered email with the
+-- token redacted.
+-- ============================================================================
+
+-- ============================================================================
+-- Part 1: notification_templates
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS notification_templates (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id    UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  trigger_key  TEXT NOT NULL
+               CHECK (trigger_key IN (
+                 'application_received', 'stage_changed', 'application_rejected',
+                 'interview_assigned', 'interview_cancelled'
+               )),
+  subject      TEXT NOT NULL,
+  body         TEXT NOT NULL,       -- plain text with {{variables}}
+  is_active    BOOLEAN NOT NULL DEFAULT true,
+  updated_by   UUID,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(tenant_id, trigger_key)
+);
+
+CREATE TRIGGER update_notification_templates_updated_at
+  BEFORE UPDATE ON notification_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- Part 2: notification_log (outbox + send log)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS notification_log (
+  id                   UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id            UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  trigger_key          TEXT NOT NULL,
+  recipient_email      TEXT NOT NULL,
+  recipient_name       TEXT,
+  recipient_user_id    UUID,                 -- set for internal users (interviewers)
+  application_id       UUID,
+  context              JSONB NOT NULL DEFAULT '{}',
+  status               TEXT NOT NULL DEFAULT 'PENDING'
+                       CHECK (status IN ('PENDING', 'SENT', 'FAILED', 'SKIPPED')),
+  subject              TEXT,                 -- rendered at send time
+  body                 TEXT,
+  transport            TEXT,
+  provider_message_id  TEXT,
+  error                TEXT,
+  attempt_count        INT NOT NULL DEFAULT 0,
+  next_attempt_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  sent_at              TIMESTAMPTZ,
+  created_at           TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notification_log_due
+  ON notification_log(next_attempt_at)
+  WHERE status = 'PENDING';
+CREATE INDEX idx_notification_log_tenant_created ON notification_log(tenant_id, created_at DESC);
+CREATE INDEX idx_notification_log_application ON notification_log(application_id);
+
+-- ============================================================================
+-- Part 3: RLS Policies
+-- ============================================================================
+
+ALTER TABLE notification_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tenant notification templates" ON notification_templates
+  FOR SELECT USING (tenant_id = get_tenant_id());
+
+CREATE POLICY "Admins can create notification templates" ON notification_templates
+  FOR INSERT WITH CHECK (tenant_id = get_tenant_id() AND can_manage_settings());
+
+CREATE POLICY "Admins can update notification templates" ON notification_templates
+  FOR UPDATE USING (tenant_id = get_tenant_id() AND can_manage_settings());
+
+CREATE POLICY "Admins can delete notification templates" ON notification_templates
+  FOR DELETE USING (tenant_id = get_tenant_id() AND can_manage_settings());
+
+ALTER TABLE notification_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view notification log" ON notification_log
+  FOR SELECT USING (tenant_id = get_tenant_id() AND can_manage_settings());
+
+-- ============================================================================
+-- Part 4: enqueue_notification()
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION enqueue_notification(
+  p_tenant_id UUID,
+  p_trigger_key TEXT,
+  p_recipient_email TEXT,
+  p_recipient_name TEXT,
+  p_recipient_user_id UUID,
+  p_application_id UUID,
+  p_context JSONB
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  -- Nothing to send without an address
+  IF p_recipient_email IS NULL OR TRIM(p_recipient_email) = '' THEN
+    RETURN NULL;
+  END IF;
+
+  -- applicant_email is public input and ends up in SMTP commands and MIME
+  -- headers: queue only plain addr-spec addresses (no spaces, quotes, brackets
+  -- or line breaks)
+  IF LENGTH(TRIM(p_recipient_email)) > 254
+     OR TRIM(p_recipient_email) !~ '^[A-Za-z0-9.!#$%&''*+/=?^_`{|}~-]+@[A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?(\.[A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?)+$'
+  THEN
+    RETURN NULL;
+  END IF;
+
+  -- Explicitly disabled by the tenant: don't even queue
+  IF EXISTS (
+    SELECT 1 FROM notification_templates
+    WHERE tenant_id = p_tenant_id
+      AND trigger_key = p_trigger_key
+      AND is_active = false
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notification_log (
+    tenant_id, trigger_key, recipient_email, recipient_name, recipient_user_id, application_id, context
+  ) VALUES (
+    p_tenant_id, p_trigger_key, LOWER(TRIM(p_recipient_email)), p_recipient_name, p_recipient_user_id,
+    p_application_id, COALESCE(p_context, '{}')
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Shared render context for application-scoped notifications
+CREATE OR REPLACE FUNCTION notification_application_context(
+  p_application_id UUID
+) RETURNS JSONB
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT jsonb_build_object(
+    'applicant_name', a.applicant_name,
+    'applicant_email', a.applicant_email,
+    'application_id', a.id,
+    'job', jsonb_build_object('id', j.id, 'title', j.title, 'department', j.department, 'location', j.location),
+    'tenant', jsonb_build_object('name', t.name)
+  )
+  FROM applications a
+  LEFT JOIN jobs j ON j.id = a.job_id
+  LEFT JOIN tenants t ON t.id = a.tenant_id
+  WHERE a.id = p_application_id;
+$$;
+
+-- ============================================================================
+-- Part 5: Domain triggers (producers)
+-- ============================================================================
+
+-- 5a: application_pipeline_state → received / stage_changed / rejected
+CREATE OR REPLACE FUNCTION trg_notify_application_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_context JSONB;
+  v_email TEXT;
+  v_name TEXT;
+  v_stage_name TEXT;
+  v_prev_stage_name TEXT;
+BEGIN
+  v_context := notification_application_context(NEW.application_id);
+  IF v_context IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_email := v_context->>'applicant_email';
+  v_name := v_context->>'applicant_name';
+  SELECT stage_name INTO v_stage_name FROM pipeline_stages WHERE id = NEW.current_stage_id;
+  v_context := v_context || jsonb_build_object('stage_name', v_stage_name);
+
+  -- access_token is added by the dispatcher at send time (never stored here)
+  IF TG_OP = 'INSERT' THEN
+    PERFORM enqueue_notification(
+      NEW.tenant_id, 'application_received', v_email, v_name, NULL, NEW.application_id, v_context
+    );
+    RETURN NEW;
+  END IF;
+
+  -- Rejection takes precedence over the stage move it may come with
+  IF NEW.is_terminal = true AND OLD.is_terminal IS DISTINCT FROM true THEN
+    IF NEW.outcome_type = 'FAILURE' THEN
+      PERFORM enqueue_notification(
+        NEW.tenant_id, 'application_rejected', v_email, v_name, NULL, NEW.application_id, v_context
+      );
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.current_stage_id IS DISTINCT FROM OLD.current_stage_id THEN
+    SELECT stage_name INTO v_prev_stage_name FROM pipeline_stages WHERE id = OLD.current_stage_id;
+
+    PERFORM enqueue_notification(
+      NEW.tenant_id, 'stage_changed', v_email, v_name, NULL, NEW.application_id,
+      v_context || jsonb_build_object('previous_stage_name', v_prev_stage_name)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_notify_application_state
+  AFTER INSERT OR UPDATE ON application_pipeline_state
+  FOR EACH ROW EXECUTE FUNCTION trg_notify_application_state();
+
+-- Interview-scoped context: application context + round + interviewer
+CREATE OR REPLACE FUNCTION notification_interview_context(
+  p_interview_id UUID,
+  p_round_id UUID,
+  p_user_id UUID
+) RETURNS JSONB
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT notification_application_context(i.application_id) || jsonb_build_object(
+    'interview_id', i.id,
+    'stage_name', ps.stage_name,
+    'interviewer_name', up.name,
+    'round_type', ir.round_type,
+    'scheduled_start', ir.scheduled_start,
+    'scheduled_end', ir.scheduled_end,
+    'location', ir.location,
+    'meeting_link', ir.meeting_link
+  )
+  FROM interviews i
+  LEFT JOIN pipeline_stages ps ON ps.id = i.pipeline_stage_id
+  LEFT JOIN interview_rounds ir ON ir.id = p_round_id
+  LEFT JOIN user_profiles up ON up.id = p_user_id
+  WHERE i.id = p_interview_id;
+$$;
+
+-- 5b: interviewer_assignments INSERT → interview_assigned
+CREATE OR REPLACE FUNCTION trg_notify_interview_assigned()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_interview_id UUID;
+  v_application_id UUID;
+  v_context JSONB;
+  v_email TEXT;
+BEGIN
+  SELECT ir.interview_id, i.application_id INTO v_interview_id, v_application_id
+  FROM interview_rounds ir
+  JOIN interviews i ON i.id = ir.interview_id
+  WHERE ir.id = NEW.round_id;
+
+  SELECT email INTO v_email FROM auth.users WHERE id = NEW.user_id;
+  v_context := notification_interview_context(v_interview_id, NEW.round_id, NEW.user_id);
+
+  PERFORM enqueue_notification(
+    NEW.tenant_id, 'interview_assigned', v_email, v_context->>'interviewer_name', NEW.user_id,
+    v_application_id, v_context
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_notify_interview_assigned
+  AFTER INSERT ON interviewer_assignments
+  FOR EACH ROW EXECUTE FUNCTION trg_notify_interview_assigned();
+
+-- 5c: interviews → CANCELLED → interview_cancelled (one per assigned interviewer)
+CREATE OR REPLACE FUNCTION trg_notify_interview_cancelled()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_rec RECORD;
+  v_context JSONB;
+BEGIN
+  IF NEW.status = 'CANCELLED' AND OLD.status IS DISTINCT FROM 'CANCELLED' THEN
+    FOR v_rec IN
+      SELECT DISTINCT ON (ia.user_id) ia.user_id, ia.round_id, u.email
+      FROM interviewer_assignments ia
+      JOIN interview_rounds ir ON ir.id = ia.round_id
+      LEFT JOIN auth.users u ON u.id = ia.user_id
+      WHERE ir.interview_id = NEW.id
+      ORDER BY ia.user_id, ir.sequence
+    LOOP
+      v_context := notification_interview_context(NEW.id, v_rec.round_id, v_rec.user_id);
+      PERFORM enqueue_notification(
+        NEW.tenant_id, 'interview_cancelled', v_rec.email, v_context->>'interviewer_name', v_rec.user_id,
+        NEW.application_id, v_context
+      );
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_notify_interview_cancelled
+  AFTER UPDATE OF status ON interviews
+  FOR EACH ROW EXECUTE FUNCTION trg_notify_interview_cancelled();
+
+-- ============================================================================
+-- Part 6: Dispatcher support
+-- ============================================================================
+
+-- Claim due notifications with a 5-minute lease (same pattern as webhooks)
+CREATE OR REPLACE FUNCTION claim_notifications(
+  p_limit INT DEFAULT 50
+) RETURNS SETOF notification_log
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE notification_log nl
+  SET next_attempt_at = now() + INTERVAL '5 minutes'
+  WHERE nl.id IN (
+    SELECT id FROM notification_log
+    WHERE status = 'PENDING'
+      AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING nl.*;
+END;
+$$;
@@ -0,0 +1,906 @@
+-- ============================================================================
+-- AUTOMATION RULES - fire actions when signals change
+-- ============================================================================
+-- Mental Model: Evaluation -> Emits Signals -> Automation rule matches ->
+--               Action Engine executes as SYSTEM actor
+--
+-- A rule binds signal conditions (same shape as tenant_stage_actions.signal_conditions)
+-- to an action code, optionally scoped to a stage, with an optional delay:
+--   { "logic": "ALL", "conditions": [
+--       { "signal": "TECH_SCORE", "operator": ">=", "value": 4 },
+--       { "signal": "CULTURE_FIT", "operator": "=", "value": true } ] }
+--
+-- Rules are evaluated at commit of every transaction that writes
+-- application_signals (deferred constraint trigger), so all signals from one
+-- aggregation are visible together. A match queues an automation_rule_runs
+-- row; delay_minutes = 0 executes it immediately, otherwise
+-- process_due_automation_runs() (scheduled) executes it once due, after
+-- re-checking stage and conditions.
+--
+-- Execution goes through execute_action_v2() with p_automation_rule_id, so
+-- every gate (evaluation completion, signal conditions, notes, HOLD/ACTIVATE)
+-- still applies. Only the capability check is replaced by rule validation.
+-- action_execution_log records actor_type = 'SYSTEM' and the rule ID.
+--
+-- Part 1: automation_rules table
+-- Part 2: automation_rule_runs table
+-- Part 3: action_execution_log SYSTEM actor columns
+-- Part 4: Replace execute_action_v2() with p_automation_rule_id
+-- Part 5: Condition evaluation + rule matching
+-- Part 6: Run execution + scheduled processing
+-- Part 7: Signal trigger
+-- Part 8: RLS policies
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: automation_rules
+-- ============================================================================
+
+CREATE TABLE automation_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+
+  -- NULL = any stage that offers action_code
+  stage_id UUID REFERENCES pipeline_stages(id) ON DELETE CASCADE,
+  action_code VARCHAR(50) NOT NULL,
+
+  -- { "logic": "ALL" | "ANY", "conditions": [{ signal, operator, value, on_missing }] }
+  conditions JSONB NOT NULL,
+
+  delay_minutes INT NOT NULL DEFAULT 0
+    CHECK (delay_minutes >= 0 AND delay_minutes <= 43200),  -- up to 30 days
+  notes TEXT,  -- decision_note on the executed action (defaults to the rule name)
+
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_automation_rules_tenant_active ON automation_rules(tenant_id) WHERE is_active = TRUE;
+CREATE INDEX idx_automation_rules_stage ON automation_rules(stage_id);
+
+CREATE TRIGGER update_automation_rules_updated_at
+  BEFORE UPDATE ON automation_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+COMMENT ON TABLE automation_rules IS 'Tenant-defined rules that execute an action as SYSTEM when signal conditions are met';
+
+-- ============================================================================
+-- PART 2: automation_rule_runs
+-- ============================================================================
+
+CREATE TABLE automation_rule_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  rule_id UUID NOT NULL REFERENCES automation_rules(id) ON DELETE CASCADE,
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  stage_id UUID NOT NULL REFERENCES pipeline_stages(id) ON DELETE CASCADE,  -- stage at match time
+
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING'
+    CHECK (status IN ('PENDING', 'EXECUTED', 'BLOCKED', 'FAILED', 'CANCELLED')),
+  conditions_evaluated JSONB NOT NULL DEFAULT '[]',
+
+  execute_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  executed_at TIMESTAMPTZ,
+  action_log_id UUID REFERENCES action_execution_log(id),
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- A rule fires at most once per application per stage. BLOCKED/FAILED/CANCELLED
+-- runs don't count, so a later signal write can try again.
+CREATE UNIQUE INDEX uq_automation_rule_runs_active
+  ON automation_rule_runs(rule_id, application_id, stage_id)
+  WHERE status IN ('PENDING', 'EXECUTED');
+
+CREATE INDEX idx_automation_rule_runs_due ON automation_rule_runs(execute_after) WHERE status = 'PENDING';
+CREATE INDEX idx_automation_rule_runs_rule ON automation_rule_runs(rule_id, created_at DESC);
+CREATE INDEX idx_automation_rule_runs_application ON automation_rule_runs(application_id);
+
+COMMENT ON TABLE automation_rule_runs IS 'Each match of an automation rule and its execution outcome';
+
+-- ============================================================================
+-- PART 3: action_execution_log SYSTEM actor
+-- ============================================================================
+
+ALTER TABLE action_execution_log
+  ALTER COLUMN executed_by DROP NOT NULL,
+  ADD COLUMN actor_type VARCHAR(20) NOT NULL DEFAULT 'USER'
+    CHECK (actor_type IN ('USER', 'SYSTEM')),
+  -- The audit log keeps its rule: a rule that has fired can only be deactivated.
+  -- NO ACTION rather than RESTRICT so deleting a whole tenant (which cascades to
+  -- both tables) is still checked only at the end of the statement.
+  ADD COLUMN automation_rule_id UUID REFERENCES automation_rules(id) ON DELETE NO ACTION;
+
+ALTER TABLE action_execution_log
+  ADD CONSTRAINT chk_action_execution_log_actor CHECK (
+    (actor_type = 'USER' AND executed_by IS NOT NULL) OR
+    (actor_type = 'SYSTEM' AND automation_rule_id IS NOT NULL)
+  ) NOT VALID;
+
+CREATE INDEX idx_action_execution_log_rule ON action_execution_log(automation_rule_id)
+  WHERE automation_rule_id IS NOT NULL;
+
+COMMENT ON COLUMN action_execution_log.actor_type IS 'USER = executed_by; SYSTEM = automation_rule_id (executed_by is NULL)';
+
+-- ============================================================================
+-- PART 4: Replace execute_action_v2() — SYSTEM actor via p_automation_rule_id
+-- ============================================================================
+-- New trailing parameter changes the signature, so drop the 8-arg version
+-- first (otherwise both overloads exist and named calls become ambiguous).
+
+DROP FUNCTION IF EXISTS execute_action_v2(UUID, UUID, UUID, TEXT, TEXT, TEXT, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION execute_action_v2(
+  p_application_id UUID,
+  p_tenant_id UUID,
+  p_user_id UUID,
+  p_action_code TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_override_reason TEXT DEFAULT NULL,
+  p_reviewed_by UUID DEFAULT NULL,
+  p_approved_by UUID DEFAULT NULL,
+  p_automation_rule_id UUID DEFAULT NULL
+) RETURNS tracking_state_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_state application_pipeline_state;
+  v_result tracking_state_result;
+  v_current_stage pipeline_stages;
+  v_next_stage pipeline_stages;
+  v_action tenant_stage_actions;
+  v_rule automation_rules;
+  v_event_hash TEXT;
+  v_new_stage_id UUID;
+  v_new_status TEXT;
+  v_new_outcome VARCHAR(20);
+  v_new_is_terminal BOOLEAN;
+  v_has_capability BOOLEAN;
+  v_incomplete_evals TEXT[];
+  v_incomplete_count INT;
+  -- Signal-related variables
+  v_signal_snapshot JSONB := '{}';
+  v_conditions_evaluated JSONB := '[]';
+  v_has_warnings BOOLEAN := FALSE;
+  v_requires_note_for_warning BOOLEAN := FALSE;
+BEGIN
+  -- ================================================================
+  -- STEP 1: Lock and load application state
+  -- ================================================================
+  SELECT * INTO v_state
+  FROM application_pipeline_state
+  WHERE application_id = p_application_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Application state not found'
+      USING ERRCODE = 'P0004';
+  END IF;
+
+  -- SECURITY: Verify tenant from actual DB row
+  IF v_state.tenant_id != p_tenant_id THEN
+    RAISE EXCEPTION 'TENANT_MISMATCH: Access denied'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- ================================================================
+  -- STEP 2: Check terminal — use is_terminal from state row
+  -- ================================================================
+  IF v_state.is_terminal = TRUE THEN
+    RAISE EXCEPTION 'TERMINAL_STATUS: Cannot perform actions on application in terminal status (outcome=%)', v_state.outcome_type
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- ================================================================
+  -- STEP 3: Get current stage details
+  -- ================================================================
+  SELECT * INTO v_current_stage
+  FROM pipeline_stages
+  WHERE id = v_state.current_stage_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Current stage not found (data integrity error)'
+      USING ERRCODE = 'P0004';
+  END IF;
+
+  -- ================================================================
+  -- STEP 4: Validate action — scoped to stage_id (not stage_type)
+  -- ================================================================
+  SELECT * INTO v_action
+  FROM tenant_stage_actions
+  WHERE tenant_id = v_state.tenant_id
+    AND stage_id = v_state.current_stage_id
+    AND action_code = p_action_code
+    AND is_active = TRUE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'INVALID_ACTION: Action "%" is not available for stage "%"', p_action_code, v_current_stage.stage_name
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  -- ================================================================
+  -- STEP 5: Capability check — derived from user_id, not passed role
+  -- SYSTEM actor (automation rule): the rule itself is the authority.
+  -- It must belong to this tenant, be active, and target this action.
+  -- ================================================================
+  IF p_automation_rule_id IS NOT NULL THEN
+    SELECT * INTO v_rule
+    FROM automation_rules
+    WHERE id = p_automation_rule_id
+      AND tenant_id = v_state.tenant_id
+      AND is_active = TRUE;
+
+    IF NOT FOUND OR v_rule.action_code != p_action_code THEN
+      RAISE EXCEPTION 'FORBIDDEN: Automation rule does not authorize action "%"', p_action_code
+        USING ERRCODE = 'P0008';
+    END IF;
+  ELSE
+    SELECT EXISTS (
+      SELECT 1 FROM role_capabilities rc
+      JOIN user_profiles up ON up.tenant_id = rc.tenant_id AND up.role = rc.role_name
+      WHERE up.id = p_user_id
+        AND rc.tenant_id = v_state.tenant_id
+        AND rc.capability = v_action.required_capability
+    ) INTO v_has_capability;
+
+    IF NOT v_has_capability THEN
+      RAISE EXCEPTION 'FORBIDDEN: User does not have capability "%" required for action "%"', v_action.required_capability, p_action_code
+        USING ERRCODE = 'P0008';
+    END IF;
+  END IF;
+
+  -- ================================================================
+  -- STEP 6: Notes gate
+  -- ================================================================
+  IF v_action.requires_notes = TRUE AND (p_notes IS NULL OR TRIM(p_notes) = '') THEN
+    RAISE EXCEPTION 'VALIDATION: Notes are required for action "%"', p_action_code
+      USING ERRCODE = 'P0009';
+  END IF;
+
+  -- ================================================================
+  -- STEP 7: Evaluation completion gate (replaces legacy feedback gate)
+  -- Fail-open: no required stage_evaluations = no block.
+  -- Only checks stage-level instances (interview_round_id IS NULL).
+  -- ================================================================
+  SELECT
+    COALESCE(array_agg(et.name ORDER BY se.execution_order), '{}'),
+    COUNT(*)
+  INTO v_incomplete_evals, v_incomplete_count
+  FROM stage_evaluations se
+  JOIN evaluation_templates et ON et.id = se.evaluation_template_id
+  LEFT JOIN evaluation_instances ei
+    ON ei.template_id = se.evaluation_template_id
+    AND ei.stage_id = se.stage_id
+    AND ei.application_id = p_application_id
+    AND ei.tenant_id = p_tenant_id
+    AND ei.status = 'COMPLETED'
+    AND ei.interview_round_id IS NULL
+  WHERE se.stage_id = v_state.current_stage_id
+    AND se.required = true
+    AND se.is_active = true
+    AND se.tenant_id = p_tenant_id
+    AND ei.id IS NULL;  -- no completed stage-level instance
+
+  IF v_incomplete_count > 0 THEN
+    RAISE EXCEPTION 'EVALUATIONS_INCOMPLETE: % required evaluation(s) not completed for stage "%": %',
+      v_incomplete_count, v_current_stage.stage_name,
+      array_to_string(v_incomplete_evals, ', ')
+      USING ERRCODE = 'P0014';
+  END IF;
+
+  -- ================================================================
+  -- STEP 7.5: Signal conditions gate + snapshot capture
+  -- ================================================================
+  -- CONSTRAINT: Signals are READ-ONLY at action time.
+  -- Signal generation MUST NOT depend on action availability.
+  -- This prevents cyclic dependencies.
+  -- ================================================================
+
+  -- Always capture signal snapshot for audit (even if no conditions)
+  SELECT COALESCE(
+    jsonb_object_agg(
+      signal_key,
+      jsonb_build_object(
+        'value', COALESCE(signal_value_boolean::TEXT, signal_value_numeric::TEXT, signal_value_text),
+        'type', signal_type,
+        'set_at', set_at,
+        'set_by', set_by,
+        'source_type', source_type,
+        'source_id', source_id
+      )
+    ),
+    '{}'::jsonb
+  ) INTO v_signal_snapshot
+  FROM application_signals_latest
+  WHERE application_id = p_application_id;
+
+  -- Evaluate signal conditions if defined
+  IF v_action.signal_conditions IS NOT NULL THEN
+    DECLARE
+      v_conditions JSONB := v_action.signal_conditions->'conditions';
+      v_logic TEXT := COALESCE(v_action.signal_conditions->>'logic', 'ALL');
+      v_condition JSONB;
+      v_signal_key TEXT;
+      v_signal_type TEXT;
+      v_operator TEXT;
+      v_expected_value TEXT;
+      v_on_missing TEXT;
+      v_actual_text TEXT;
+      v_actual_numeric NUMERIC;
+      v_actual_boolean BOOLEAN;
+      v_signal_found BOOLEAN;
+      v_condition_met BOOLEAN;
+      v_condition_result JSONB;
+      v_all_met BOOLEAN := TRUE;
+      v_any_met BOOLEAN := FALSE;
+      v_failed_conditions TEXT[] := '{}';
+    BEGIN
+      IF v_conditions IS NOT NULL THEN
+        FOR v_condition IN SELECT * FROM jsonb_array_elements(v_conditions) LOOP
+          v_signal_key := v_condition->>'signal';
+          v_operator := v_condition->>'operator';
+          v_expected_value := v_condition->>'value';
+          v_on_missing := COALESCE(v_condition->>'on_missing', 'BLOCK');  -- Default: BLOCK
+
+          -- Query the LATEST view for current signal values
+          SELECT signal_type, signal_value_text, signal_value_numeric, signal_value_boolean, TRUE
+          INTO v_signal_type, v_actual_text, v_actual_numeric, v_actual_boolean, v_signal_found
+          FROM application_signals_latest
+          WHERE application_id = p_application_id
+            AND signal_key = v_signal_key;
+
+          v_signal_found := COALESCE(v_signal_found, FALSE);
+
+          -- Handle missing signal with explicit semantics
+          IF NOT v_signal_found THEN
+            CASE v_on_missing
+              WHEN 'BLOCK' THEN
+                v_condition_met := FALSE;
+                v_condition_result := jsonb_build_object(
+                  'signal', v_signal_key, 'operator', v_operator, 'expected', v_expected_value,
+                  'actual', NULL, 'on_missing', v_on_missing, 'met', FALSE, 'reason', 'SIGNAL_MISSING'
+                );
+              WHEN 'ALLOW' THEN
+                v_condition_met := TRUE;
+                v_condition_result := jsonb_build_object(
+                  'signal', v_signal_key, 'operator', v_operator, 'expected', v_expected_value,
+                  'actual', NULL, 'on_missing', v_on_missing, 'met', TRUE, 'reason', 'MISSING_ALLOWED'
+                );
+              WHEN 'WARN' THEN
+                v_condition_met := TRUE;
+                v_has_warnings := TRUE;
+                v_requires_note_for_warning := TRUE;
+                v_condition_result := jsonb_build_object(
+                  'signal', v_signal_key, 'operator', v_operator, 'expected', v_expected_value,
+                  'actual', NULL, 'on_missing', v_on_missing, 'met', TRUE, 'warning', TRUE,
+                  'reason', 'MISSING_WITH_WARNING'
+                );
+                RAISE WARNING 'Signal "%" missing for action "%", proceeding with warning', v_signal_key, p_action_code;
+              ELSE
+                -- Unknown on_missing value, default to BLOCK
+                v_condition_met := FALSE;
+                v_condition_result := jsonb_build_object(
+                  'signal', v_signal_key, 'operator', v_operator, 'expected', v_expected_value,
+                  'actual', NULL, 'on_missing', v_on_missing, 'met', FALSE, 'reason', 'SIGNAL_MISSING'
+                );
+            END CASE;
+          ELSE
+            -- Signal exists - evaluate normally
+            v_condition_met := evaluate_signal_condition(
+              v_signal_key, v_actual_text, v_actual_numeric, v_actual_boolean,
+              v_signal_type, v_operator, v_expected_value
+            );
+            v_condition_result := jsonb_build_object(
+              'signal', v_signal_key, 'operator', v_operator, 'expected', v_expected_value,
+              'actual', COALESCE(v_actual_boolean::TEXT, v_actual_numeric::TEXT, v_actual_text),
+              'met', v_condition_met
+            );
+          END IF;
+
+          -- Accumulate results
+          v_conditions_evaluated := v_conditions_evaluated || v_condition_result;
+
+          IF v_condition_met THEN
+            v_any_met := TRUE;
+          ELSE
+            v_all_met := FALSE;
+            v_failed_conditions := array_append(v_failed_conditions,
+              format('%s %s %s (actual: %s)',
+                v_signal_key, v_operator, v_expected_value,
+                COALESCE(v_actual_text, v_actual_numeric::TEXT, v_actual_boolean::TEXT, 'MISSING')
+              )
+            );
+          END IF;
+        END LOOP;
+
+        -- WARN conditions require a note
+        IF v_requires_note_for_warning AND (p_notes IS NULL OR TRIM(p_notes) = '') THEN
+          RAISE EXCEPTION 'VALIDATION: Note required when proceeding with missing signal warnings'
+            USING ERRCODE = 'P0009';
+        END IF;
+
+        -- Apply logic with detailed error message
+        IF v_logic = 'ALL' AND NOT v_all_met THEN
+          RAISE EXCEPTION 'SIGNALS_NOT_MET: Required signal conditions not satisfied for action "%". Failed: %',
+            p_action_code, array_to_string(v_failed_conditions, ', ')
+            USING ERRCODE = 'P0012';
+        END IF;
+
+        IF v_logic = 'ANY' AND NOT v_any_met THEN
+          RAISE EXCEPTION 'SIGNALS_NOT_MET: At least one signal condition must be met for action "%". Checked: %',
+            p_action_code, array_to_string(v_failed_conditions, ', ')
+            USING ERRCODE = 'P0012';
+        END IF;
+      END IF;
+    END;
+  END IF;
+
+  -- ================================================================
+  -- STEP 8: HOLD/ACTIVATE guards — using outcome_type from state row
+  -- ================================================================
+  IF v_action.outcome_type = 'HOLD' AND v_state.outcome_type != 'ACTIVE' THEN
+    RAISE EXCEPTION 'INVALID_ACTION: Cannot hold application that is not ACTIVE (current outcome: %)', v_state.outcome_type
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  IF v_action.outcome_type = 'ACTIVE' AND v_state.outcome_type != 'HOLD' THEN
+    RAISE EXCEPTION 'INVALID_ACTION: Cannot reactivate application that is not on HOLD (current outcome: %)', v_state.outcome_type
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  -- ================================================================
+  -- STEP 9: Compute next stage, outcome, and status
+  -- ================================================================
+  v_new_stage_id := v_state.current_stage_id;
+  v_new_outcome := v_state.outcome_type;
+  v_new_is_terminal := v_action.is_terminal;
+  v_new_status := v_state.status;
+
+  -- Stage advancement
+  IF v_action.moves_to_next_stage = TRUE THEN
+    SELECT * INTO v_next_stage
+    FROM pipeline_stages
+    WHERE pipeline_id = v_state.pipeline_id
+      AND order_index = v_current_stage.order_index + 1;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'INVALID_ACTION: At last stage — use a terminal action instead'
+        USING ERRCODE = 'P0007';
+    END IF;
+
+    v_new_stage_id := v_next_stage.id;
+  END IF;
+
+  -- Outcome resolution (outcome_type is primary, status is derived)
+  IF v_action.outcome_type IS NOT NULL THEN
+    v_new_outcome := v_action.outcome_type;
+
+    -- Derive presentation status from outcome_type
+    SELECT status_code INTO v_new_status
+    FROM tenant_application_statuses
+    WHERE tenant_id = v_state.tenant_id
+      AND outcome_type = v_action.outcome_type
+      AND is_terminal = v_action.is_terminal
+      AND is_active = TRUE
+    ORDER BY sort_order
+    LIMIT 1;
+
+    IF v_new_status IS NULL THEN
+      RAISE EXCEPTION 'INVALID_STATUS: No status configured for outcome=% terminal=%', v_action.outcome_type, v_action.is_terminal
+        USING ERRCODE = 'P0006';
+    END IF;
+  END IF;
+
+  -- ================================================================
+  -- STEP 10: Idempotency check
+  -- ================================================================
+  v_event_hash := md5(
+    p_application_id::text || p_action_code ||
+    v_state.current_stage_id::text || v_new_stage_id::text ||
+    COALESCE(v_new_outcome, 'null') || COALESCE(v_new_status, 'null')
+  );
+
+  IF v_new_stage_id = v_state.current_stage_id
+     AND v_new_outcome = v_state.outcome_type
+     AND v_new_is_terminal = v_state.is_terminal
+     AND COALESCE(v_new_status, '') = COALESCE(v_state.status, '') THEN
+    v_result := (v_state.id, v_state.application_id, v_state.job_id, v_state.pipeline_id,
+                 v_state.current_stage_id, v_state.status, v_state.entered_stage_at, v_state.updated_at,
+                 v_state.outcome_type, v_state.is_terminal);
+    RETURN v_result;
+  END IF;
+
+  -- ================================================================
+  -- STEP 11: Execute the mutation
+  -- ================================================================
+  UPDATE application_pipeline_state
+  SET
+    current_stage_id = v_new_stage_id,
+    outcome_type = v_new_outcome,
+    is_terminal = v_new_is_terminal,
+    status = COALESCE(v_new_status, status),
+    entered_stage_at = CASE WHEN v_new_stage_id != v_state.current_stage_id THEN NOW() ELSE entered_stage_at END,
+    updated_at = NOW()
+  WHERE id = v_state.id
+  RETURNING * INTO v_state;
+
+  -- ================================================================
+  -- STEP 12: Record history
+  -- ================================================================
+  INSERT INTO application_stage_history (
+    tenant_id, application_id, pipeline_id,
+    from_stage_id, to_stage_id, action, changed_by, reason, event_hash
+  ) VALUES (
+    p_tenant_id, p_application_id, v_state.pipeline_id,
+    v_current_stage.id, v_new_stage_id, p_action_code, p_user_id, p_notes, v_event_hash
+  )
+  ON CONFLICT (event_hash) WHERE event_hash IS NOT NULL DO NOTHING;
+
+  -- ================================================================
+  -- STEP 12.5: Write to action_execution_log (immutable audit record)
+  -- ================================================================
+  INSERT INTO action_execution_log (
+    tenant_id,
+    application_id,
+    action_code,
+    stage_id,
+    executed_by,
+    executed_at,
+    signal_snapshot,
+    conditions_evaluated,
+    decision_note,
+    override_reason,
+    reviewed_by,
+    approved_by,
+    outcome_type,
+    is_terminal,
+    from_stage_id,
+    to_stage_id,
+    actor_type,
+    automation_rule_id
+  ) VALUES (
+    p_tenant_id,
+    p_application_id,
+    p_action_code,
+    v_state.current_stage_id,
+    p_user_id,
+    NOW(),
+    COALESCE(v_signal_snapshot, '{}'),
+    COALESCE(v_conditions_evaluated, '[]'),
+    p_notes,
+    p_override_reason,
+    p_reviewed_by,
+    p_approved_by,
+    v_new_outcome,
+    v_new_is_terminal,
+    v_current_stage.id,
+    v_new_stage_id,
+    CASE WHEN p_automation_rule_id IS NOT NULL THEN 'SYSTEM' ELSE 'USER' END,
+    p_automation_rule_id
+  );
+
+  -- ================================================================
+  -- STEP 13: Log and return (with outcome_type + is_terminal)
+  -- ================================================================
+  RAISE LOG 'ACTION_ENGINE_V2: app=% action=% from_stage=% to_stage=% outcome=% terminal=% signals_met=% rule=%',
+    p_application_id, p_action_code, v_current_stage.id, v_new_stage_id, v_new_outcome, v_new_is_terminal,
+    CASE WHEN v_conditions_evaluated = '[]'::jsonb THEN 'N/A' ELSE 'YES' END,
+    COALESCE(p_automation_rule_id::TEXT, 'N/A');
+
+  v_result := (v_state.id, v_state.application_id, v_state.job_id, v_state.pipeline_id,
+               v_state.current_stage_id, v_state.status, v_state.entered_stage_at, v_state.updated_at,
+               v_state.outcome_type, v_state.is_terminal);
+  RETURN v_result;
+END;
+$$;
+
+COMMENT ON FUNCTION execute_action_v2 IS
+  'Execute an action on an application with evaluation completion gate and signal condition gates.
+   p_automation_rule_id executes as SYSTEM: the active rule replaces the capability check
+   and is recorded in action_execution_log.automation_rule_id.';
+
+-- ============================================================================
+-- PART 5: Condition evaluation + rule matching
+-- ============================================================================
+
+-- Evaluate a { logic, conditions } object against the latest signals.
+-- Returns { "met": bool, "conditions": [...] }. Unlike the action gate, WARN
+-- behaves like BLOCK: there is no human to write the required note.
+CREATE OR REPLACE FUNCTION evaluate_automation_conditions(
+  p_application_id UUID,
+  p_conditions JSONB
+) RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_logic TEXT := COALESCE(p_conditions->>'logic', 'ALL');
+  v_condition JSONB;
+  v_signal RECORD;
+  v_met BOOLEAN;
+  v_results JSONB := '[]';
+  v_all_met BOOLEAN := TRUE;
+  v_any_met BOOLEAN := FALSE;
+BEGIN
+  IF p_conditions->'conditions' IS NULL OR jsonb_array_length(p_conditions->'conditions') = 0 THEN
+    RETURN jsonb_build_object('met', FALSE, 'conditions', '[]'::jsonb);
+  END IF;
+
+  FOR v_condition IN SELECT * FROM jsonb_array_elements(p_conditions->'conditions') LOOP
+    SELECT signal_type, signal_value_text, signal_value_numeric, signal_value_boolean
+    INTO v_signal
+    FROM application_signals_latest
+    WHERE application_id = p_application_id
+      AND signal_key = v_condition->>'signal';
+
+    IF NOT FOUND THEN
+      v_met := COALESCE(v_condition->>'on_missing', 'BLOCK') = 'ALLOW';
+      v_results := v_results || jsonb_build_object(
+        'signal', v_condition->>'signal', 'operator', v_condition->>'operator',
+        'expected', v_condition->>'value', 'actual', NULL, 'met', v_met,
+        'reason', CASE WHEN v_met THEN 'MISSING_ALLOWED' ELSE 'SIGNAL_MISSING' END
+      );
+    ELSE
+      v_met := evaluate_signal_condition(
+        v_condition->>'signal', v_signal.signal_value_text, v_signal.signal_value_numeric,
+        v_signal.signal_value_boolean, v_signal.signal_type,
+        v_condition->>'operator', v_condition->>'value'
+      );
+      v_results := v_results || jsonb_build_object(
+        'signal', v_condition->>'signal', 'operator', v_condition->>'operator',
+        'expected', v_condition->>'value',
+        'actual', COALESCE(v_signal.signal_value_boolean::TEXT, v_signal.signal_value_numeric::TEXT, v_signal.signal_value_text),
+        'met', v_met
+      );
+    END IF;
+
+    IF v_met THEN
+      v_any_met := TRUE;
+    ELSE
+      v_all_met := FALSE;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'met', CASE WHEN v_logic = 'ANY' THEN v_any_met ELSE v_all_met END,
+    'conditions', v_results
+  );
+END;
+$$;
+
+-- Match active rules against the application's current stage and signals.
+-- Queues one run per newly matched rule; immediate rules execute right away.
+-- Stops after the first executed action: the application has moved on and
+-- the remaining rules no longer describe its state.
+CREATE OR REPLACE FUNCTION evaluate_automation_rules(
+  p_application_id UUID
+) RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_state application_pipeline_state;
+  v_rule automation_rules;
+  v_eval JSONB;
+  v_run_id UUID;
+  v_run automation_rule_runs;
+  v_queued INT := 0;
+BEGIN
+  SELECT * INTO v_state
+  FROM application_pipeline_state
+  WHERE application_id = p_application_id;
+
+  IF NOT FOUND OR v_state.is_terminal THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_rule IN
+    SELECT ar.* FROM automation_rules ar
+    WHERE ar.tenant_id = v_state.tenant_id
+      AND ar.is_active = TRUE
+      AND (ar.stage_id IS NULL OR ar.stage_id = v_state.current_stage_id)
+      AND EXISTS (
+        SELECT 1 FROM tenant_stage_actions tsa
+        WHERE tsa.tenant_id = v_state.tenant_id
+          AND tsa.stage_id = v_state.current_stage_id
+          AND tsa.action_code = ar.action_code
+          AND tsa.is_active = TRUE
+      )
+    ORDER BY ar.created_at
+  LOOP
+    v_eval := evaluate_automation_conditions(p_application_id, v_rule.conditions);
+    CONTINUE WHEN NOT (v_eval->>'met')::BOOLEAN;
+
+    v_run_id := NULL;
+    INSERT INTO automation_rule_runs (
+      tenant_id, rule_id, application_id, stage_id, conditions_evaluated, execute_after
+    ) VALUES (
+      v_state.tenant_id, v_rule.id, p_application_id, v_state.current_stage_id,
+      v_eval->'conditions', NOW() + make_interval(mins => v_rule.delay_minutes)
+    )
+    ON CONFLICT (rule_id, application_id, stage_id) WHERE status IN ('PENDING', 'EXECUTED') DO NOTHING
+    RETURNING id INTO v_run_id;
+
+    CONTINUE WHEN v_run_id IS NULL;
+    v_queued := v_queued + 1;
+
+    RAISE LOG 'AUTOMATION_MATCH: app=% rule=% action=% delay=%m',
+      p_application_id, v_rule.id, v_rule.action_code, v_rule.delay_minutes;
+
+    IF v_rule.delay_minutes = 0 THEN
+      v_run := execute_automation_run(v_run_id);
+      EXIT WHEN v_run.status = 'EXECUTED';
+    END IF;
+  END LOOP;
+
+  RETURN v_queued;
+END;
+$$;
+
+-- ============================================================================
+-- PART 6: Run execution + scheduled processing
+-- ============================================================================
+
+-- Execute one PENDING run. Never raises: gate failures are recorded as
+-- BLOCKED, anything else as FAILED, and the action is rolled back.
+CREATE OR REPLACE FUNCTION execute_automation_run(
+  p_run_id UUID
+) RETURNS automation_rule_runs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_run automation_rule_runs;
+  v_rule automation_rules;
+  v_state application_pipeline_state;
+  v_eval JSONB;
+  v_log_id UUID;
+BEGIN
+  SELECT * INTO v_run FROM automation_rule_runs WHERE id = p_run_id FOR UPDATE;
+  IF NOT FOUND OR v_run.status != 'PENDING' THEN
+    RETURN v_run;
+  END IF;
+
+  SELECT * INTO v_rule FROM automation_rules WHERE id = v_run.rule_id;
+  SELECT * INTO v_state FROM application_pipeline_state WHERE application_id = v_run.application_id;
+
+  -- Delayed runs: the world may have changed since the match
+  IF NOT v_rule.is_active THEN
+    UPDATE automation_rule_runs SET status = 'CANCELLED', error = 'Rule disabled', executed_at = NOW()
+    WHERE id = p_run_id RETURNING * INTO v_run;
+    RETURN v_run;
+  END IF;
+
+  IF v_state.id IS NULL OR v_state.is_terminal OR v_state.current_stage_id != v_run.stage_id THEN
+    UPDATE automation_rule_runs SET status = 'CANCELLED', error = 'Application left the stage', executed_at = NOW()
+    WHERE id = p_run_id RETURNING * INTO v_run;
+    RETURN v_run;
+  END IF;
+
+  v_eval := evaluate_automation_conditions(v_run.application_id, v_rule.conditions);
+  IF NOT (v_eval->>'met')::BOOLEAN THEN
+    UPDATE automation_rule_runs
+    SET status = 'CANCELLED', error = 'Conditions no longer met', conditions_evaluated = v_eval->'conditions',
+        executed_at = NOW()
+    WHERE id = p_run_id RETURNING * INTO v_run;
+    RETURN v_run;
+  END IF;
+
+  BEGIN
+    PERFORM execute_action_v2(
+      p_application_id := v_run.application_id,
+      p_tenant_id := v_run.tenant_id,
+      p_user_id := NULL,
+      p_action_code := v_rule.action_code,
+      p_notes := COALESCE(v_rule.notes, format('Automation rule "%s"', v_rule.name)),
+      p_automation_rule_id := v_rule.id
+    );
+
+    SELECT id INTO v_log_id
+    FROM action_execution_log
+    WHERE application_id = v_run.application_id
+      AND automation_rule_id = v_rule.id
+    ORDER BY executed_at DESC
+    LIMIT 1;
+
+    UPDATE automation_rule_runs
+    SET status = 'EXECUTED', action_log_id = v_log_id, conditions_evaluated = v_eval->'conditions',
+        executed_at = NOW()
+    WHERE id = p_run_id RETURNING * INTO v_run;
+  EXCEPTION WHEN OTHERS THEN
+    UPDATE automation_rule_runs
+    SET status = CASE
+          WHEN SQLERRM ~ '^(SIGNALS_NOT_MET|EVALUATIONS_INCOMPLETE|FEEDBACK_REQUIRED|TERMINAL_STATUS|INVALID_ACTION|INVALID_STATUS|FORBIDDEN|VALIDATION):'
+          THEN 'BLOCKED' ELSE 'FAILED' END,
+        error = SQLERRM,
+        executed_at = NOW()
+    WHERE id = p_run_id RETURNING * INTO v_run;
+
+    RAISE LOG 'AUTOMATION_RUN_%: run=% rule=% app=% error=%',
+      v_run.status, p_run_id, v_rule.id, v_run.application_id, SQLERRM;
+  END;
+
+  RETURN v_run;
+END;
+$$;
+
+-- Execute delayed runs that are due. Called by the tracking service on a schedule.
+CREATE OR REPLACE FUNCTION process_due_automation_runs(
+  p_limit INT DEFAULT 100
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_run_id UUID;
+  v_run automation_rule_runs;
+  v_counts JSONB := jsonb_build_object('processed', 0, 'executed', 0, 'blocked', 0, 'failed', 0, 'cancelled', 0);
+  v_key TEXT;
+BEGIN
+  FOR v_run_id IN
+    SELECT id FROM automation_rule_runs
+    WHERE status = 'PENDING'
+      AND execute_after <= NOW()
+    ORDER BY execute_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_run := execute_automation_run(v_run_id);
+    v_key := LOWER(v_run.status);
+    v_counts := v_counts
+      || jsonb_build_object('processed', (v_counts->>'processed')::INT + 1)
+      || jsonb_build_object(v_key, COALESCE((v_counts->>v_key)::INT, 0) + 1);
+  END LOOP;
+
+  RETURN v_counts;
+END;
+$$;
+
+-- ============================================================================
+-- PART 7: Signal trigger (deferred to commit)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION trg_evaluate_automation_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.superseded_at IS NULL THEN
+    PERFORM evaluate_automation_rules(NEW.application_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Deferred: aggregate_evaluation_signals() writes signals one key at a time;
+-- evaluating at commit sees the full set instead of a half-updated snapshot.
+CREATE CONSTRAINT TRIGGER trg_evaluate_automation_rules
+  AFTER INSERT ON application_signals
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION trg_evaluate_automation_rules();
+
+-- ============================================================================
+-- PART 8: RLS policies (writes go through the tracking service)
+-- ============================================================================
+
+ALTER TABLE automation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view automation rules" ON automation_rules
+  FOR SELECT USING (tenant_id = get_tenant_id() AND can_manage_tracking());
+
+ALTER TABLE automation_rule_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view automation rule runs" ON automation_rule_runs
+  FOR SELECT USING (tenant_id = get_tenant_id() AND can_manage_tracking());
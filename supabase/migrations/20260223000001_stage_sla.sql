@@ -0,0 +1,168 @@
+-- ============================================================================
+-- STAGE SLA TRACKING
+-- ============================================================================
+-- Target time-in-stage per pipeline stage, measured from
+-- application_pipeline_state.entered_stage_at.
+--
+-- The target lives with the stage definition (pipelines.stages JSONB,
+-- "sla_hours") and is synced into pipeline_stages.sla_hours like every other
+-- stage attribute, so it survives pipeline edits that re-create stage rows.
+--
+-- Only ACTIVE, non-terminal applications are measured: HOLD pauses the
+-- clock for reporting purposes, terminal applications are done.
+--
+-- Part 1: pipeline_stages.sla_hours + sync
+-- Part 2: stage_sla_breaches table
+-- Part 3: sweep_stage_sla_breaches() (scheduled)
+-- Part 4: RLS policies
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: pipeline_stages.sla_hours
+-- ============================================================================
+
+ALTER TABLE pipeline_stages
+  ADD COLUMN sla_hours NUMERIC CHECK (sla_hours IS NULL OR sla_hours > 0);
+
+COMMENT ON COLUMN pipeline_stages.sla_hours IS 'Target time-in-stage in hours (NULL = no SLA). Synced from pipelines.stages[].sla_hours';
+
+CREATE OR REPLACE FUNCTION sync_pipeline_stages()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Delete existing stages for this pipeline
+  DELETE FROM pipeline_stages WHERE pipeline_id = NEW.id;
+
+  -- Insert stages from JSONB array
+  INSERT INTO pipeline_stages (
+    tenant_id,
+    pipeline_id,
+    stage_name,
+    stage_type,
+    conducted_by,
+    order_index,
+    metadata,
+    sla_hours
+  )
+  SELECT
+    NEW.tenant_id,
+    NEW.id,
+    (stage->>'stage')::VARCHAR(255),
+    (stage->>'type')::VARCHAR(50),
+    (stage->>'conducted_by')::VARCHAR(50),
+    (ordinality - 1)::INT,  -- 0-indexed
+    stage->'metadata',
+    NULLIF(stage->>'sla_hours', '')::NUMERIC
+  FROM jsonb_array_elements(COALESCE(NEW.stages, '[]'::jsonb)) WITH ORDINALITY AS t(stage, ordinality);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backfill from existing definitions (no-op unless sla_hours was already stored)
+UPDATE pipeline_stages ps
+SET sla_hours = NULLIF(p.stages->ps.order_index->>'sla_hours', '')::NUMERIC
+FROM pipelines p
+WHERE p.id = ps.pipeline_id
+  AND p.stages->ps.order_index ? 'sla_hours';
+
+-- ============================================================================
+-- PART 2: stage_sla_breaches
+-- ============================================================================
+-- One row per stage visit that ran past its SLA. Resolved when the
+-- application leaves the stage (moved, terminal, or put on hold).
+
+CREATE TABLE stage_sla_breaches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  pipeline_id UUID NOT NULL REFERENCES pipelines(id),
+  stage_id UUID NOT NULL REFERENCES pipeline_stages(id) ON DELETE CASCADE,
+
+  entered_stage_at TIMESTAMPTZ NOT NULL,
+  sla_hours NUMERIC NOT NULL,           -- target at detection time
+  due_at TIMESTAMPTZ NOT NULL,          -- entered_stage_at + sla_hours
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+
+  UNIQUE(application_id, stage_id, entered_stage_at)
+);
+
+CREATE INDEX idx_stage_sla_breaches_open ON stage_sla_breaches(tenant_id) WHERE resolved_at IS NULL;
+CREATE INDEX idx_stage_sla_breaches_pipeline ON stage_sla_breaches(pipeline_id, detected_at DESC);
+
+COMMENT ON TABLE stage_sla_breaches IS 'Stage visits that exceeded pipeline_stages.sla_hours, recorded by sweep_stage_sla_breaches()';
+
+-- ============================================================================
+-- PART 3: sweep_stage_sla_breaches()
+-- ============================================================================
+-- Idempotent: re-running never duplicates a breach. New breaches emit
+-- application.sla_breached to webhook subscribers.
+
+CREATE OR REPLACE FUNCTION sweep_stage_sla_breaches()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_breach stage_sla_breaches;
+  v_recorded INT := 0;
+  v_resolved INT := 0;
+BEGIN
+  -- Close breaches whose stage visit has ended
+  UPDATE stage_sla_breaches b
+  SET resolved_at = NOW()
+  FROM application_pipeline_state aps
+  WHERE b.resolved_at IS NULL
+    AND aps.application_id = b.application_id
+    AND (
+      aps.current_stage_id != b.stage_id
+      OR aps.entered_stage_at != b.entered_stage_at
+      OR aps.is_terminal = TRUE
+      OR aps.outcome_type != 'ACTIVE'
+    );
+  GET DIAGNOSTICS v_resolved = ROW_COUNT;
+
+  -- Record new breaches
+  FOR v_breach IN
+    INSERT INTO stage_sla_breaches (
+      tenant_id, application_id, pipeline_id, stage_id, entered_stage_at, sla_hours, due_at
+    )
+    SELECT
+      aps.tenant_id, aps.application_id, aps.pipeline_id, aps.current_stage_id, aps.entered_stage_at,
+      ps.sla_hours, aps.entered_stage_at + make_interval(secs => ps.sla_hours * 3600)
+    FROM application_pipeline_state aps
+    JOIN pipeline_stages ps ON ps.id = aps.current_stage_id
+    WHERE ps.sla_hours IS NOT NULL
+      AND aps.is_terminal = FALSE
+      AND aps.outcome_type = 'ACTIVE'
+      AND aps.entered_stage_at + make_interval(secs => ps.sla_hours * 3600) < NOW()
+    ON CONFLICT (application_id, stage_id, entered_stage_at) DO NOTHING
+    RETURNING *
+  LOOP
+    v_recorded := v_recorded + 1;
+
+    PERFORM enqueue_webhook_event(v_breach.tenant_id, 'application.sla_breached', jsonb_build_object(
+      'application_id', v_breach.application_id,
+      'pipeline_id', v_breach.pipeline_id,
+      'stage_id', v_breach.stage_id,
+      'entered_stage_at', v_breach.entered_stage_at,
+      'sla_hours', v_breach.sla_hours,
+      'due_at', v_breach.due_at
+    ));
+  END LOOP;
+
+  RAISE LOG 'SLA_SWEEP: recorded=% resolved=%', v_recorded, v_resolved;
+
+  RETURN jsonb_build_object('recorded', v_recorded, 'resolved', v_resolved);
+END;
+$$;
+
+-- ============================================================================
+-- PART 4: RLS policies (writes happen only in the sweep)
+-- ============================================================================
+
+ALTER TABLE stage_sla_breaches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view SLA breaches" ON stage_sla_breaches
+  FOR SELECT USING (tenant_id = get_tenant_id() AND can_manage_tracking());
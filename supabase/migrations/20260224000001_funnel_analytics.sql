@@ -0,0 +1,179 @@
+-- ============================================================================
+-- HIRING FUNNEL ANALYTICS
+-- ============================================================================
+-- Read-only aggregation over application_pipeline_state and
+-- application_stage_history for the analytics service.
+--
+-- Cohort = applications created in [p_from, p_to), optionally narrowed by
+-- pipeline, job and job department. All figures describe that cohort.
+--
+-- Stage metrics (per pipeline, by order_index):
+--   reached          applications that were ever in the stage (current stage
+--                    or any history row from/to it)
+--   in_stage         non-terminal applications currently in the stage
+--   dropped_off      applications that ended (terminal, not SUCCESS) there
+--   conversion_rate  reached(next stage) / reached(stage)
+--   median_hours     median of completed visits: a MOVE out of the stage, or
+--                    the terminal action for an application that ended there
+--
+-- Time to hire = application created_at -> last history event of a SUCCESS
+-- terminal application (the terminal action).
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_jobs_tenant_department ON jobs(tenant_id, department);
+
+CREATE OR REPLACE FUNCTION get_funnel_analytics(
+  p_tenant_id UUID,
+  p_pipeline_id UUID DEFAULT NULL,
+  p_job_id UUID DEFAULT NULL,
+  p_department TEXT DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  WITH cohort AS (
+    SELECT
+      aps.application_id,
+      aps.pipeline_id,
+      aps.current_stage_id,
+      aps.outcome_type,
+      aps.is_terminal,
+      aps.entered_stage_at,
+      aps.created_at AS attached_at,
+      a.created_at AS applied_at
+    FROM application_pipeline_state aps
+    JOIN applications a ON a.id = aps.application_id
+    JOIN jobs j ON j.id = aps.job_id
+    WHERE aps.tenant_id = p_tenant_id
+      AND (p_pipeline_id IS NULL OR aps.pipeline_id = p_pipeline_id)
+      AND (p_job_id IS NULL OR aps.job_id = p_job_id)
+      AND (p_department IS NULL OR j.department = p_department)
+      AND (p_from IS NULL OR a.created_at >= p_from)
+      AND (p_to IS NULL OR a.created_at < p_to)
+  ),
+  history AS (
+    SELECT h.application_id, h.from_stage_id, h.to_stage_id, h.changed_at
+    FROM application_stage_history h
+    JOIN cohort c ON c.application_id = h.application_id AND c.pipeline_id = h.pipeline_id
+    WHERE h.tenant_id = p_tenant_id
+  ),
+  last_event AS (
+    SELECT application_id, MAX(changed_at) AS last_changed_at
+    FROM history
+    GROUP BY application_id
+  ),
+  -- Each move closes the visit to from_stage_id; the visit began at the
+  -- previous move (or when the application was attached to the pipeline)
+  moves AS (
+    SELECT
+      application_id,
+      from_stage_id,
+      changed_at,
+      LAG(changed_at) OVER (PARTITION BY application_id ORDER BY changed_at) AS prev_move_at
+    FROM history
+    WHERE from_stage_id IS NOT NULL
+      AND to_stage_id IS NOT NULL
+      AND from_stage_id != to_stage_id
+  ),
+  visits AS (
+    SELECT m.application_id, m.from_stage_id AS stage_id, m.changed_at - COALESCE(m.prev_move_at, c.attached_at) AS duration
+    FROM moves m
+    JOIN cohort c ON c.application_id = m.application_id
+    UNION ALL
+    -- Final visit of a terminal application ends at the terminal action
+    SELECT c.application_id, c.current_stage_id, le.last_changed_at - c.entered_stage_at
+    FROM cohort c
+    JOIN last_event le ON le.application_id = c.application_id
+    WHERE c.is_terminal = TRUE
+      AND le.last_changed_at >= c.entered_stage_at
+  ),
+  reached AS (
+    SELECT DISTINCT application_id, stage_id
+    FROM (
+      SELECT application_id, current_stage_id AS stage_id FROM cohort
+      UNION ALL
+      SELECT application_id, from_stage_id FROM history WHERE from_stage_id IS NOT NULL
+      UNION ALL
+      SELECT application_id, to_stage_id FROM history WHERE to_stage_id IS NOT NULL
+    ) s
+  ),
+  stage_stats AS (
+    SELECT
+      ps.pipeline_id,
+      ps.id AS stage_id,
+      ps.stage_name,
+      ps.order_index,
+      (SELECT COUNT(*) FROM reached r WHERE r.stage_id = ps.id) AS reached,
+      (SELECT COUNT(*) FROM cohort c WHERE c.current_stage_id = ps.id AND c.is_terminal = FALSE) AS in_stage,
+      (SELECT COUNT(*) FROM cohort c
+        WHERE c.current_stage_id = ps.id AND c.is_terminal = TRUE AND c.outcome_type != 'SUCCESS') AS dropped_off,
+      (SELECT COUNT(*) FROM visits v WHERE v.stage_id = ps.id) AS completed_visits,
+      (SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM v.duration))
+        FROM visits v WHERE v.stage_id = ps.id) / 3600 AS median_hours
+    FROM pipeline_stages ps
+    WHERE ps.pipeline_id IN (SELECT DISTINCT pipeline_id FROM cohort)
+  ),
+  stage_funnel AS (
+    SELECT
+      s.*,
+      LEAD(s.reached) OVER (PARTITION BY s.pipeline_id ORDER BY s.order_index) AS next_reached
+    FROM stage_stats s
+  ),
+  hires AS (
+    SELECT le.last_changed_at - c.applied_at AS duration
+    FROM cohort c
+    JOIN last_event le ON le.application_id = c.application_id
+    WHERE c.is_terminal = TRUE
+      AND c.outcome_type = 'SUCCESS'
+  )
+  SELECT jsonb_build_object(
+    'total_applications', (SELECT COUNT(*) FROM cohort),
+    'outcomes', COALESCE(
+      (SELECT jsonb_object_agg(outcome_type, n) FROM (
+        SELECT outcome_type, COUNT(*) AS n FROM cohort GROUP BY outcome_type
+      ) o),
+      '{}'::jsonb
+    ),
+    'time_to_hire', (
+      SELECT jsonb_build_object(
+        'hires', COUNT(*),
+        'median_days', ROUND((percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM duration)) / 86400)::NUMERIC, 1),
+        'average_days', ROUND((AVG(EXTRACT(EPOCH FROM duration)) / 86400)::NUMERIC, 1)
+      )
+      FROM hires
+    ),
+    'pipelines', COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object(
+        'pipeline_id', p.id,
+        'pipeline_name', p.name,
+        'applications', (SELECT COUNT(*) FROM cohort c WHERE c.pipeline_id = p.id),
+        'stages', COALESCE(
+          (SELECT jsonb_agg(jsonb_build_object(
+            'stage_id', f.stage_id,
+            'stage_name', f.stage_name,
+            'order_index', f.order_index,
+            'reached', f.reached,
+            'in_stage', f.in_stage,
+            'dropped_off', f.dropped_off,
+            'drop_off_rate', ROUND(f.dropped_off::NUMERIC / NULLIF(f.reached, 0), 4),
+            'conversion_rate', ROUND(f.next_reached::NUMERIC / NULLIF(f.reached, 0), 4),
+            'completed_visits', f.completed_visits,
+            'median_hours_in_stage', ROUND(f.median_hours::NUMERIC, 1)
+          ) ORDER BY f.order_index)
+          FROM stage_funnel f WHERE f.pipeline_id = p.id),
+          '[]'::jsonb
+        )
+      ) ORDER BY p.name)
+      FROM pipelines p
+      WHERE p.id IN (SELECT DISTINCT pipeline_id FROM cohort)),
+      '[]'::jsonb
+    )
+  );
+$$;
+
+COMMENT ON FUNCTION get_funnel_analytics IS 'Funnel conversion, drop-off, time-in-stage, time-to-hire and outcomes for an application cohort (analytics service)';
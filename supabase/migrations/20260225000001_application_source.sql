@@ -0,0 +1,211 @@
+-- ============================================================================
+-- APPLICATION SOURCE TRACKING
+-- ============================================================================
+-- Where a candidate came from: an explicit source label (e.g. "linkedin",
+-- "referral") plus the standard UTM parameters and the referring page.
+-- Set once at creation (public apply or internal create).
+--
+-- Part 1: applications columns
+-- Part 2: get_source_analytics() (analytics service)
+-- Part 3: create_public_application_v2() - public apply with source fields
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: applications columns
+-- ============================================================================
+
+ALTER TABLE applications
+  ADD COLUMN source VARCHAR(100),
+  ADD COLUMN utm_source VARCHAR(255),
+  ADD COLUMN utm_medium VARCHAR(255),
+  ADD COLUMN utm_campaign VARCHAR(255),
+  ADD COLUMN referrer TEXT;
+
+CREATE INDEX idx_applications_tenant_source ON applications(tenant_id, source);
+
+COMMENT ON COLUMN applications.source IS 'Source label supplied by the apply form or recruiter (lowercased)';
+COMMENT ON COLUMN applications.referrer IS 'Referring page URL captured by the apply form';
+
+-- ============================================================================
+-- PART 2: get_source_analytics()
+-- ============================================================================
+-- Applications, advances and hires per source value for an application
+-- cohort (same filters as get_funnel_analytics).
+--
+--   p_group_by  source | utm_source | utm_medium | utm_campaign
+--               "source" falls back to utm_source when no label was given
+--   advanced    applications that moved out of their first stage at least once
+--   hired       terminal applications with outcome SUCCESS
+-- Applications without a value are grouped under NULL.
+
+CREATE OR REPLACE FUNCTION get_source_analytics(
+  p_tenant_id UUID,
+  p_group_by TEXT DEFAULT 'source',
+  p_pipeline_id UUID DEFAULT NULL,
+  p_job_id UUID DEFAULT NULL,
+  p_department TEXT DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF p_group_by NOT IN ('source', 'utm_source', 'utm_medium', 'utm_campaign') THEN
+    RAISE EXCEPTION 'VALIDATION: group_by must be one of source, utm_source, utm_medium, utm_campaign'
+      USING ERRCODE = 'P0009';
+  END IF;
+
+  RETURN (
+    WITH cohort AS (
+      SELECT
+        aps.application_id,
+        aps.outcome_type,
+        aps.is_terminal,
+        CASE p_group_by
+          WHEN 'source' THEN COALESCE(a.source, LOWER(a.utm_source))
+          WHEN 'utm_source' THEN a.utm_source
+          WHEN 'utm_medium' THEN a.utm_medium
+          WHEN 'utm_campaign' THEN a.utm_campaign
+        END AS source_value
+      FROM application_pipeline_state aps
+      JOIN applications a ON a.id = aps.application_id
+      JOIN jobs j ON j.id = aps.job_id
+      WHERE aps.tenant_id = p_tenant_id
+        AND (p_pipeline_id IS NULL OR aps.pipeline_id = p_pipeline_id)
+        AND (p_job_id IS NULL OR aps.job_id = p_job_id)
+        AND (p_department IS NULL OR j.department = p_department)
+        AND (p_from IS NULL OR a.created_at >= p_from)
+        AND (p_to IS NULL OR a.created_at < p_to)
+    ),
+    per_source AS (
+      SELECT
+        c.source_value,
+        COUNT(*) AS applications,
+        COUNT(*) FILTER (WHERE EXISTS (
+          SELECT 1 FROM application_stage_history h
+          WHERE h.application_id = c.application_id
+            AND h.tenant_id = p_tenant_id
+            AND h.from_stage_id IS NOT NULL
+            AND h.to_stage_id IS NOT NULL
+            AND h.from_stage_id != h.to_stage_id
+        )) AS advanced,
+        COUNT(*) FILTER (WHERE c.is_terminal = TRUE AND c.outcome_type = 'SUCCESS') AS hired,
+        COUNT(*) FILTER (WHERE c.is_terminal = TRUE AND c.outcome_type = 'FAILURE') AS rejected
+      FROM cohort c
+      GROUP BY c.source_value
+    )
+    SELECT jsonb_build_object(
+      'group_by', p_group_by,
+      'total_applications', (SELECT COUNT(*) FROM cohort),
+      'sources', COALESCE(
+        (SELECT jsonb_agg(jsonb_build_object(
+          'source', s.source_value,
+          'applications', s.applications,
+          'advanced', s.advanced,
+          'hired', s.hired,
+          'rejected', s.rejected,
+          'advance_rate', ROUND(s.advanced::NUMERIC / s.applications, 4),
+          'hire_rate', ROUND(s.hired::NUMERIC / s.applications, 4)
+        ) ORDER BY s.applications DESC, s.source_value NULLS LAST)
+        FROM per_source s),
+        '[]'::jsonb
+      )
+    )
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION get_source_analytics IS 'Applications, advances and hires per application source for an application cohort (analytics service)';
+
+-- ============================================================================
+-- PART 3: create_public_application_v2()
+-- ============================================================================
+-- create_public_application_v1() with the source fields. They are handed to
+-- the applications INSERT through a transaction-local setting, so the row is
+-- created with them: insert-time triggers, webhooks and a failed apply never
+-- see a half-attributed application.
+
+CREATE OR REPLACE FUNCTION trg_application_source_from_apply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_source JSONB := NULLIF(current_setting('rtr.application_source', true), '')::jsonb;
+BEGIN
+  IF v_source IS NOT NULL THEN
+    NEW.source := COALESCE(NEW.source, v_source->>'source');
+    NEW.utm_source := COALESCE(NEW.utm_source, v_source->>'utm_source');
+    NEW.utm_medium := COALESCE(NEW.utm_medium, v_source->>'utm_medium');
+    NEW.utm_campaign := COALESCE(NEW.utm_campaign, v_source->>'utm_campaign');
+    NEW.referrer := COALESCE(NEW.referrer, v_source->>'referrer');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run before the other BEFORE INSERT triggers on applications
+CREATE TRIGGER trg_application_source_from_apply
+  BEFORE INSERT ON applications
+  FOR EACH ROW EXECUTE FUNCTION trg_application_source_from_apply();
+
+CREATE OR REPLACE FUNCTION create_public_application_v2(
+  p_tenant_id UUID,
+  p_job_id UUID,
+  p_applicant_name TEXT,
+  p_applicant_email TEXT,
+  p_applicant_phone TEXT DEFAULT NULL,
+  p_resume_url TEXT DEFAULT NULL,
+  p_cover_letter TEXT DEFAULT NULL,
+  p_ip_address TEXT DEFAULT NULL,
+  p_user_agent TEXT DEFAULT NULL,
+  p_source TEXT DEFAULT NULL,
+  p_utm_source TEXT DEFAULT NULL,
+  p_utm_medium TEXT DEFAULT NULL,
+  p_utm_campaign TEXT DEFAULT NULL,
+  p_referrer TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_result JSONB;
+BEGIN
+  -- Values arrive normalized by the jobs service (extractApplicationSource)
+  PERFORM set_config('rtr.application_source', jsonb_build_object(
+    'source', p_source,
+    'utm_source', p_utm_source,
+    'utm_medium', p_utm_medium,
+    'utm_campaign', p_utm_campaign,
+    'referrer', p_referrer
+  )::text, true);
+
+  SELECT to_jsonb(r) INTO v_result
+  FROM create_public_application_v1(
+    p_tenant_id := p_tenant_id,
+    p_job_id := p_job_id,
+    p_applicant_name := p_applicant_name,
+    p_applicant_email := p_applicant_email,
+    p_applicant_phone := p_applicant_phone,
+    p_resume_url := p_resume_url,
+    p_cover_letter := p_cover_letter,
+    p_ip_address := p_ip_address,
+    p_user_agent := p_user_agent
+  ) r
+  LIMIT 1;
+
+  -- Only this call's insert is attributed
+  PERFORM set_config('rtr.application_source', '', true);
+
+  RETURN v_result;
+END;
+$$;
+
+COMMENT ON FUNCTION create_public_application_v2 IS
+  'create_public_application_v1 plus source / UTM attribution set in the applications INSERT';
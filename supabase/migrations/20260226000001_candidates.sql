@@ -0,0 +1,250 @@
+-- ============================================================================
+-- CANDIDATES
+-- ============================================================================
+-- One row per person per tenant. Every application links to a candidate,
+-- resolved on insert by normalized email, then normalized phone.
+--
+-- Linking happens in a BEFORE INSERT trigger on applications, so every
+-- creation path (public apply RPC, internal create, imports) is covered
+-- without changing callers. Editing applicant_email later does not relink.
+--
+-- Duplicates that normalization cannot catch (typo'd email, new address)
+-- are merged explicitly: the merged candidate keeps its row with
+-- merged_into_id set, so its email/phone still resolve to the survivor.
+--
+-- Part 1: candidates table + applications.candidate_id
+-- Part 2: resolve_candidate() + link trigger
+-- Part 3: Backfill
+-- Part 4: merge_candidates()
+-- Part 5: RLS policies
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: Tables
+-- ============================================================================
+
+CREATE TABLE candidates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+
+  email VARCHAR(255) NOT NULL,        -- lower(trim(applicant_email))
+  name VARCHAR(255) NOT NULL,         -- latest applicant_name
+  phone VARCHAR(255),                 -- as entered
+  phone_normalized VARCHAR(32),       -- digits only, NULL when too short to match on
+
+  -- Merge bookkeeping (merged rows are kept for lookups)
+  merged_into_id UUID REFERENCES candidates(id),
+  merged_at TIMESTAMPTZ,
+  merged_by UUID REFERENCES auth.users(id),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(tenant_id, email),
+  CHECK (merged_into_id IS NULL OR merged_into_id != id)
+);
+
+CREATE INDEX idx_candidates_phone ON candidates(tenant_id, phone_normalized) WHERE phone_normalized IS NOT NULL;
+CREATE INDEX idx_candidates_active ON candidates(tenant_id, created_at DESC) WHERE merged_into_id IS NULL;
+
+CREATE TRIGGER update_candidates_updated_at
+  BEFORE UPDATE ON candidates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE applications
+  ADD COLUMN candidate_id UUID REFERENCES candidates(id);
+
+CREATE INDEX idx_applications_candidate ON applications(candidate_id);
+
+COMMENT ON TABLE candidates IS 'Person-level identity across applications; linked by resolve_candidate() on application insert';
+
+-- ============================================================================
+-- PART 2: resolve_candidate() + link trigger
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION normalize_candidate_phone(p_phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN length(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g')) >= 7
+      THEN regexp_replace(p_phone, '\D', '', 'g')
+    ELSE NULL
+  END;
+$$;
+
+-- Find (or create) the candidate for an email/phone. Always returns the
+-- surviving candidate when the match was merged.
+CREATE OR REPLACE FUNCTION resolve_candidate(
+  p_tenant_id UUID,
+  p_email TEXT,
+  p_name TEXT,
+  p_phone TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_email TEXT := LOWER(TRIM(p_email));
+  v_phone TEXT := normalize_candidate_phone(p_phone);
+  v_candidate_id UUID;
+BEGIN
+  -- 1. Email
+  SELECT COALESCE(merged_into_id, id) INTO v_candidate_id
+  FROM candidates
+  WHERE tenant_id = p_tenant_id AND email = v_email;
+
+  -- 2. Phone
+  IF v_candidate_id IS NULL AND v_phone IS NOT NULL THEN
+    SELECT COALESCE(merged_into_id, id) INTO v_candidate_id
+    FROM candidates
+    WHERE tenant_id = p_tenant_id AND phone_normalized = v_phone
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  IF v_candidate_id IS NULL THEN
+    INSERT INTO candidates (tenant_id, email, name, phone, phone_normalized)
+    VALUES (p_tenant_id, v_email, TRIM(p_name), NULLIF(TRIM(p_phone), ''), v_phone)
+    ON CONFLICT (tenant_id, email) DO UPDATE SET updated_at = NOW()
+    RETURNING COALESCE(merged_into_id, id) INTO v_candidate_id;
+  ELSE
+    UPDATE candidates
+    SET name = TRIM(p_name),
+        phone = COALESCE(phone, NULLIF(TRIM(p_phone), '')),
+        phone_normalized = COALESCE(phone_normalized, v_phone)
+    WHERE id = v_candidate_id;
+  END IF;
+
+  RETURN v_candidate_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION link_application_candidate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  -- Never trust a caller-supplied candidate_id
+  NEW.candidate_id := resolve_candidate(NEW.tenant_id, NEW.applicant_email, NEW.applicant_name, NEW.applicant_phone);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_link_application_candidate
+  BEFORE INSERT ON applications
+  FOR EACH ROW EXECUTE FUNCTION link_application_candidate();
+
+-- ============================================================================
+-- PART 3: Backfill (oldest first, so the earliest application names the candidate)
+-- ============================================================================
+
+ALTER TABLE applications DISABLE TRIGGER update_applications_updated_at;
+
+DO $$
+DECLARE
+  v_app RECORD;
+BEGIN
+  FOR v_app IN
+    SELECT id, tenant_id, applicant_email, applicant_name, applicant_phone
+    FROM applications
+    WHERE candidate_id IS NULL
+    ORDER BY created_at
+  LOOP
+    UPDATE applications
+    SET candidate_id = resolve_candidate(v_app.tenant_id, v_app.applicant_email, v_app.applicant_name, v_app.applicant_phone)
+    WHERE id = v_app.id;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE applications ENABLE TRIGGER update_applications_updated_at;
+
+-- ============================================================================
+-- PART 4: merge_candidates()
+-- ============================================================================
+-- Moves every application of p_source_id to p_target_id and marks the
+-- source as merged. Candidates merged into the source earlier are pointed
+-- at the target too, so merged_into_id is never more than one hop and
+-- resolve_candidate() always lands on an unmerged candidate. Irreversible
+-- (applications are not tagged with their original candidate).
+
+CREATE OR REPLACE FUNCTION merge_candidates(
+  p_tenant_id UUID,
+  p_target_id UUID,
+  p_source_id UUID,
+  p_user_id UUID
+)
+RETURNS candidates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_target candidates;
+  v_source candidates;
+  v_moved INT;
+BEGIN
+  IF p_target_id = p_source_id THEN
+    RAISE EXCEPTION 'VALIDATION: Cannot merge a candidate into itself' USING ERRCODE = 'P0009';
+  END IF;
+
+  -- Lock both rows in a stable order
+  PERFORM 1 FROM candidates
+  WHERE id IN (p_target_id, p_source_id) AND tenant_id = p_tenant_id
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_target FROM candidates WHERE id = p_target_id AND tenant_id = p_tenant_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Candidate not found' USING ERRCODE = 'P0004';
+  END IF;
+
+  SELECT * INTO v_source FROM candidates WHERE id = p_source_id AND tenant_id = p_tenant_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Source candidate not found' USING ERRCODE = 'P0004';
+  END IF;
+
+  IF v_target.merged_into_id IS NOT NULL OR v_source.merged_into_id IS NOT NULL THEN
+    RAISE EXCEPTION 'INVALID_ACTION: Candidate already merged' USING ERRCODE = 'P0007';
+  END IF;
+
+  UPDATE applications SET candidate_id = p_target_id WHERE candidate_id = p_source_id;
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  UPDATE candidates
+  SET merged_into_id = p_target_id, merged_at = NOW(), merged_by = p_user_id
+  WHERE id = p_source_id;
+
+  UPDATE candidates
+  SET merged_into_id = p_target_id
+  WHERE merged_into_id = p_source_id AND tenant_id = p_tenant_id;
+
+  UPDATE candidates
+  SET phone = COALESCE(phone, v_source.phone),
+      phone_normalized = COALESCE(phone_normalized, v_source.phone_normalized)
+  WHERE id = p_target_id
+  RETURNING * INTO v_target;
+
+  RAISE LOG 'CANDIDATE_MERGE: tenant=% source=% target=% applications=%', p_tenant_id, p_source_id, p_target_id, v_moved;
+
+  RETURN v_target;
+END;
+$$;
+
+-- ============================================================================
+-- PART 5: RLS policies
+-- ============================================================================
+
+ALTER TABLE candidates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Superadmin full access to candidates" ON candidates
+  FOR ALL USING (public.is_superadmin());
+
+CREATE POLICY "Managers can view candidates" ON candidates
+  FOR SELECT USING (tenant_id = public.get_tenant_id() AND public.can_manage_applications());
@@ -0,0 +1,33 @@
+-- ============================================================================
+-- RESUME UPLOADS
+-- ============================================================================
+-- Candidates can upload a resume file with the public apply request instead
+-- of linking to a hosted copy. Files live in the private "resumes" bucket
+-- under {tenant_id}/{application_id}/resume.{pdf|docx} and are only ever
+-- served through short-lived signed URLs (application-detail service).
+--
+-- No storage.objects policies are created: the bucket is reachable only
+-- with the service role, which the edge functions use after their own
+-- tenant and role checks.
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'resumes',
+  'resumes',
+  FALSE,
+  5242880, -- 5 MB, matches MAX_RESUME_BYTES in jobs/utils.ts
+  ARRAY[
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE applications
+  ADD COLUMN resume_path TEXT,
+  ADD COLUMN resume_file_name VARCHAR(255),
+  ADD COLUMN resume_mime_type VARCHAR(100),
+  ADD COLUMN resume_size_bytes INT;
+
+COMMENT ON COLUMN applications.resume_path IS 'Object path in the private "resumes" bucket (NULL when resume_url is used instead)';
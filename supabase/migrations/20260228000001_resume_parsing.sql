@@ -0,0 +1,111 @@
+-- ============================================================================
+-- RESUME PARSING
+-- ============================================================================
+-- Structured data extracted from the application's resume (uploaded file
+-- or resume_url): skills, years of experience, education, current employer
+-- and links, stored as applications.resume_profile.
+--
+-- Parsing is queued: setting resume_path / resume_url marks the application
+-- PENDING, and POST /jobs/resumes/parse (service role, scheduled) claims
+-- and parses due rows. Failures retry with backoff up to 3 attempts.
+--
+-- Part 1: applications columns + search indexes
+-- Part 2: queue trigger
+-- Part 3: claim_resume_parses()
+-- Part 4: Backfill existing resumes
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: Columns
+-- ============================================================================
+
+ALTER TABLE applications
+  ADD COLUMN resume_profile JSONB,
+  ADD COLUMN resume_text TEXT,
+  ADD COLUMN resume_parse_status VARCHAR(20)
+    CHECK (resume_parse_status IN ('PENDING', 'PARSED', 'FAILED')),
+  ADD COLUMN resume_parse_error TEXT,
+  ADD COLUMN resume_parse_attempts INT NOT NULL DEFAULT 0,
+  ADD COLUMN resume_parse_next_at TIMESTAMPTZ,
+  ADD COLUMN resume_parsed_at TIMESTAMPTZ,
+  ADD COLUMN resume_search TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('english', COALESCE(resume_text, ''))) STORED;
+
+CREATE INDEX idx_applications_resume_search ON applications USING GIN (resume_search);
+CREATE INDEX idx_applications_resume_profile ON applications USING GIN (resume_profile jsonb_path_ops);
+CREATE INDEX idx_applications_resume_parse_due ON applications(resume_parse_next_at)
+  WHERE resume_parse_status = 'PENDING';
+
+COMMENT ON COLUMN applications.resume_profile IS 'Parsed resume: { skills, years_of_experience, education, current_employer, links, parser_version }';
+COMMENT ON COLUMN applications.resume_text IS 'Plain text extracted from the resume (capped), source of resume_search';
+
+-- ============================================================================
+-- PART 2: Queue trigger
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION queue_resume_parse()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.resume_path IS NULL AND NEW.resume_url IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+     OR NEW.resume_path IS DISTINCT FROM OLD.resume_path
+     OR NEW.resume_url IS DISTINCT FROM OLD.resume_url THEN
+    NEW.resume_parse_status := 'PENDING';
+    NEW.resume_parse_attempts := 0;
+    NEW.resume_parse_next_at := NOW();
+    NEW.resume_parse_error := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_queue_resume_parse
+  BEFORE INSERT OR UPDATE OF resume_path, resume_url ON applications
+  FOR EACH ROW EXECUTE FUNCTION queue_resume_parse();
+
+-- ============================================================================
+-- PART 3: claim_resume_parses()
+-- ============================================================================
+-- Lease: next_at is pushed 10 minutes out so a crashed worker's rows come
+-- back on their own.
+
+CREATE OR REPLACE FUNCTION claim_resume_parses(
+  p_limit INT DEFAULT 10
+) RETURNS SETOF applications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE applications a
+  SET resume_parse_next_at = now() + INTERVAL '10 minutes'
+  WHERE a.id IN (
+    SELECT id FROM applications
+    WHERE resume_parse_status = 'PENDING'
+      AND resume_parse_next_at <= now()
+    ORDER BY resume_parse_next_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING a.*;
+END;
+$$;
+
+-- ============================================================================
+-- PART 4: Backfill
+-- ============================================================================
+
+ALTER TABLE applications DISABLE TRIGGER update_applications_updated_at;
+
+UPDATE applications
+SET resume_parse_status = 'PENDING',
+    resume_parse_next_at = NOW()
+WHERE resume_parse_status IS NULL
+  AND (resume_path IS NOT NULL OR resume_url IS NOT NULL);
+
+ALTER TABLE applications ENABLE TRIGGER update_applications_updated_at;
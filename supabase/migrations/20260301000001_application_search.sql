@@ -0,0 +1,376 @@
+-- ============================================================================
+-- APPLICATION FULL-TEXT SEARCH
+-- ============================================================================
+-- One search document per application, rebuilt by triggers whenever one of
+-- its sources changes:
+--
+--   weight A  applicant name + email (simple config: names are not stemmed)
+--   weight B  cover letter + parsed resume text (english)
+--   weight C  free-text evaluation answers, interview feedback notes and
+--             stage change reasons (english)
+--
+-- search_applications() ranks matches, builds highlighted snippets and
+-- returns job / stage / status facet counts (GET /jobs/applications/search).
+--
+-- Part 1: application_search_documents table
+-- Part 2: refresh_application_search_document() + source triggers
+-- Part 3: Backfill
+-- Part 4: search_applications()
+-- Part 5: RLS policies
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: Tables
+-- ============================================================================
+
+CREATE TABLE application_search_documents (
+  application_id UUID PRIMARY KEY REFERENCES applications(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  document TEXT NOT NULL,           -- concatenated source text (for snippets)
+  search_vector TSVECTOR NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_application_search_vector ON application_search_documents USING GIN (search_vector);
+CREATE INDEX idx_application_search_tenant ON application_search_documents(tenant_id);
+
+COMMENT ON TABLE application_search_documents IS 'Full-text search document per application; maintained by triggers, read by search_applications()';
+
+-- ============================================================================
+-- PART 2: refresh_application_search_document() + source triggers
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION refresh_application_search_document(p_application_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_app applications;
+  v_notes TEXT;
+BEGIN
+  SELECT * INTO v_app FROM applications WHERE id = p_application_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT string_agg(n.body, E'\n' ORDER BY n.written_at) INTO v_notes
+  FROM (
+    -- Free-text evaluation answers (string values of response_data)
+    SELECT r.submitted_at AS written_at, v.value #>> '{}' AS body
+    FROM evaluation_instances ei
+    JOIN evaluation_participants ep ON ep.evaluation_id = ei.id
+    JOIN evaluation_responses r ON r.participant_id = ep.id
+    CROSS JOIN LATERAL jsonb_each(r.response_data) v
+    WHERE ei.application_id = p_application_id
+      AND jsonb_typeof(v.value) = 'string'
+    UNION ALL
+    -- Interview feedback notes
+    SELECT f.created_at, f.notes
+    FROM interviews i
+    JOIN interview_rounds ir ON ir.interview_id = i.id
+    JOIN interview_feedback f ON f.round_id = ir.id
+    WHERE i.application_id = p_application_id
+      AND f.notes IS NOT NULL
+    UNION ALL
+    -- Move / reject reasons
+    SELECT h.changed_at, h.reason
+    FROM application_stage_history h
+    WHERE h.application_id = p_application_id
+      AND h.reason IS NOT NULL
+  ) n
+  WHERE btrim(n.body) != '';
+
+  INSERT INTO application_search_documents (application_id, tenant_id, document, search_vector)
+  VALUES (
+    v_app.id,
+    v_app.tenant_id,
+    concat_ws(E'\n', v_app.applicant_name, v_app.applicant_email, v_app.cover_letter, v_app.resume_text, v_notes),
+    setweight(to_tsvector('simple', concat_ws(' ',
+      v_app.applicant_name,
+      v_app.applicant_email,
+      regexp_replace(v_app.applicant_email, '[@._+-]', ' ', 'g')
+    )), 'A')
+      || setweight(to_tsvector('english', concat_ws(' ', v_app.cover_letter, v_app.resume_text)), 'B')
+      || setweight(to_tsvector('english', COALESCE(v_notes, '')), 'C')
+  )
+  ON CONFLICT (application_id) DO UPDATE
+  SET document = EXCLUDED.document,
+      search_vector = EXCLUDED.search_vector,
+      updated_at = NOW();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION search_document_on_application()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  PERFORM refresh_application_search_document(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_search_document_application
+  AFTER INSERT OR UPDATE OF applicant_name, applicant_email, cover_letter, resume_text ON applications
+  FOR EACH ROW EXECUTE FUNCTION search_document_on_application();
+
+CREATE OR REPLACE FUNCTION search_document_on_evaluation_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_application_id UUID;
+BEGIN
+  SELECT ei.application_id INTO v_application_id
+  FROM evaluation_participants ep
+  JOIN evaluation_instances ei ON ei.id = ep.evaluation_id
+  WHERE ep.id = NEW.participant_id;
+
+  PERFORM refresh_application_search_document(v_application_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_search_document_evaluation_response
+  AFTER INSERT ON evaluation_responses
+  FOR EACH ROW EXECUTE FUNCTION search_document_on_evaluation_response();
+
+CREATE OR REPLACE FUNCTION search_document_on_interview_feedback()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_application_id UUID;
+BEGIN
+  SELECT i.application_id INTO v_application_id
+  FROM interview_rounds ir
+  JOIN interviews i ON i.id = ir.interview_id
+  WHERE ir.id = NEW.round_id;
+
+  PERFORM refresh_application_search_document(v_application_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_search_document_interview_feedback
+  AFTER INSERT OR UPDATE OF notes ON interview_feedback
+  FOR EACH ROW EXECUTE FUNCTION search_document_on_interview_feedback();
+
+CREATE OR REPLACE FUNCTION search_document_on_stage_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  PERFORM refresh_application_search_document(NEW.application_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_search_document_stage_history
+  AFTER INSERT ON application_stage_history
+  FOR EACH ROW
+  WHEN (NEW.reason IS NOT NULL)
+  EXECUTE FUNCTION search_document_on_stage_history();
+
+-- ============================================================================
+-- PART 3: Backfill
+-- ============================================================================
+
+DO $$
+DECLARE
+  v_app RECORD;
+BEGIN
+  FOR v_app IN SELECT id FROM applications LOOP
+    PERFORM refresh_application_search_document(v_app.id);
+  END LOOP;
+END;
+$$;
+
+-- ============================================================================
+-- PART 4: search_applications()
+-- ============================================================================
+-- p_query     web-search syntax ("kotlin android", "react -angular", "\"team lead\"");
+--             matched stemmed (english) or as typed (simple). NULL lists by date.
+-- p_signals   {"SIGNAL_KEY": "value", ...}; every key must match the latest signal
+--             (booleans as true/false, numbers compared numerically)
+-- p_job_id / p_stage_id / p_status  facet filters (status = tracking status)
+--
+-- Facet counts are disjunctive: each facet is counted with the other two
+-- facet filters applied but not its own, so the UI can offer alternatives.
+-- Highlights mark matches with chr(1) / chr(2); the API turns them into <mark>.
+
+CREATE OR REPLACE FUNCTION search_applications(
+  p_tenant_id UUID,
+  p_query TEXT DEFAULT NULL,
+  p_job_id UUID DEFAULT NULL,
+  p_stage_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_signals JSONB DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INT DEFAULT 20,
+  p_offset INT DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_query TSQUERY;
+  v_headline_options TEXT := 'StartSel=' || chr(1) || ', StopSel=' || chr(2) ||
+    ', MaxFragments=3, MaxWords=20, MinWords=8, FragmentDelimiter=" … "';
+BEGIN
+  IF p_signals IS NOT NULL AND jsonb_typeof(p_signals) != 'object' THEN
+    RAISE EXCEPTION 'VALIDATION: signals must be an object of signal key to value' USING ERRCODE = 'P0009';
+  END IF;
+
+  IF NULLIF(btrim(p_query), '') IS NOT NULL THEN
+    v_query := websearch_to_tsquery('english', p_query) || websearch_to_tsquery('simple', p_query);
+  END IF;
+
+  RETURN (
+    WITH matched AS (
+      SELECT
+        a.id,
+        a.candidate_id,
+        a.applicant_name,
+        a.applicant_email,
+        a.job_id,
+        a.created_at,
+        aps.current_stage_id,
+        aps.status AS tracking_status,
+        CASE WHEN v_query IS NOT NULL THEN ts_rank_cd(d.search_vector, v_query) END AS rank,
+        d.document
+      FROM applications a
+      LEFT JOIN application_search_documents d ON d.application_id = a.id
+      LEFT JOIN application_pipeline_state aps ON aps.application_id = a.id
+      WHERE a.tenant_id = p_tenant_id
+        AND (v_query IS NULL OR d.search_vector @@ v_query)
+        AND (p_from IS NULL OR a.created_at >= p_from)
+        AND (p_to IS NULL OR a.created_at < p_to)
+        AND (p_signals IS NULL OR NOT EXISTS (
+          SELECT 1
+          FROM jsonb_each_text(p_signals) f
+          WHERE NOT EXISTS (
+            SELECT 1
+            FROM application_signals_latest s
+            WHERE s.application_id = a.id
+              AND s.signal_key = f.key
+              AND CASE s.signal_type
+                WHEN 'boolean' THEN s.signal_value_boolean::TEXT = LOWER(f.value)
+                WHEN 'text' THEN s.signal_value_text = f.value
+                ELSE CASE WHEN f.value ~ '^-?[0-9]+(\.[0-9]+)?$'
+                  THEN s.signal_value_numeric = f.value::NUMERIC
+                  ELSE FALSE
+                END
+              END
+          )
+        ))
+    ),
+    filtered AS (
+      SELECT *
+      FROM matched m
+      WHERE (p_job_id IS NULL OR m.job_id = p_job_id)
+        AND (p_stage_id IS NULL OR m.current_stage_id = p_stage_id)
+        AND (p_status IS NULL OR m.tracking_status = p_status)
+    ),
+    page AS (
+      SELECT *
+      FROM filtered
+      ORDER BY rank DESC NULLS LAST, created_at DESC, id
+      LIMIT p_limit OFFSET p_offset
+    )
+    SELECT jsonb_build_object(
+      'total', (SELECT COUNT(*) FROM filtered),
+      'results', COALESCE(
+        (SELECT jsonb_agg(jsonb_build_object(
+          'application_id', p.id,
+          'candidate_id', p.candidate_id,
+          'applicant_name', p.applicant_name,
+          'applicant_email', p.applicant_email,
+          'job_id', p.job_id,
+          'job_title', j.title,
+          'stage_id', p.current_stage_id,
+          'stage_name', ps.stage_name,
+          'status', p.tracking_status,
+          'applied_at', p.created_at,
+          'rank', ROUND(p.rank::NUMERIC, 4),
+          'highlight', CASE WHEN v_query IS NOT NULL
+            THEN ts_headline('english', p.document, v_query, v_headline_options)
+          END
+        ) ORDER BY p.rank DESC NULLS LAST, p.created_at DESC, p.id)
+        FROM page p
+        JOIN jobs j ON j.id = p.job_id
+        LEFT JOIN pipeline_stages ps ON ps.id = p.current_stage_id),
+        '[]'::jsonb
+      ),
+      'facets', jsonb_build_object(
+        'jobs', COALESCE(
+          (SELECT jsonb_agg(jsonb_build_object('job_id', f.job_id, 'job_title', j.title, 'count', f.n)
+            ORDER BY f.n DESC, j.title)
+          FROM (
+            SELECT m.job_id, COUNT(*) AS n
+            FROM matched m
+            WHERE (p_stage_id IS NULL OR m.current_stage_id = p_stage_id)
+              AND (p_status IS NULL OR m.tracking_status = p_status)
+            GROUP BY m.job_id
+          ) f
+          JOIN jobs j ON j.id = f.job_id),
+          '[]'::jsonb
+        ),
+        'stages', COALESCE(
+          (SELECT jsonb_agg(jsonb_build_object('stage_id', f.stage_id, 'stage_name', ps.stage_name, 'count', f.n)
+            ORDER BY f.n DESC, ps.stage_name)
+          FROM (
+            SELECT m.current_stage_id AS stage_id, COUNT(*) AS n
+            FROM matched m
+            WHERE m.current_stage_id IS NOT NULL
+              AND (p_job_id IS NULL OR m.job_id = p_job_id)
+              AND (p_status IS NULL OR m.tracking_status = p_status)
+            GROUP BY m.current_stage_id
+          ) f
+          JOIN pipeline_stages ps ON ps.id = f.stage_id),
+          '[]'::jsonb
+        ),
+        'statuses', COALESCE(
+          (SELECT jsonb_agg(jsonb_build_object('status', f.status, 'count', f.n) ORDER BY f.n DESC, f.status)
+          FROM (
+            SELECT m.tracking_status AS status, COUNT(*) AS n
+            FROM matched m
+            WHERE m.tracking_status IS NOT NULL
+              AND (p_job_id IS NULL OR m.job_id = p_job_id)
+              AND (p_stage_id IS NULL OR m.current_stage_id = p_stage_id)
+            GROUP BY m.tracking_status
+          ) f),
+          '[]'::jsonb
+        )
+      )
+    )
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION search_applications IS 'Ranked full-text application search with highlights and job/stage/status facets (jobs service)';
+
+-- ============================================================================
+-- PART 5: RLS policies
+-- ============================================================================
+-- Documents include evaluation and interview notes: read only through
+-- search_applications() (SECURITY DEFINER).
+
+ALTER TABLE application_search_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Superadmin full access to application search documents" ON application_search_documents
+  FOR ALL USING (public.is_superadmin());
@@ -0,0 +1,125 @@
+-- ============================================================================
+-- BOARD VIEWS - saved filter presets for the pipeline board
+-- ============================================================================
+-- A board view is a named set of board filters, owned by a user and
+-- optionally shared with the whole tenant:
+--   { "stage_ids": ["<uuid>"],
+--     "outcome_types": ["ACTIVE", "HOLD"],
+--     "sources": ["linkedin", "referral"],
+--     "min_hours_in_stage": 48, "max_hours_in_stage": 168,
+--     "interviewer_id": "me" | "<uuid>",
+--     "signals": { "logic": "ALL", "conditions": [
+--       { "signal": "TECH_SCORE", "operator": ">=", "value": 4 } ] } }
+--
+-- Every key is optional; an omitted key does not filter. "signals" uses the
+-- automation rule condition shape and evaluate_automation_conditions(), so a
+-- missing signal excludes the application unless on_missing = ALLOW.
+-- "interviewer_id": "me" is stored as-is and resolved to the viewing user by
+-- the tracking service, so one shared view works for every interviewer.
+--
+-- Part 1: board_views table
+-- Part 2: board_filtered_states()
+-- Part 3: RLS policies
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: board_views
+-- ============================================================================
+
+CREATE TABLE board_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+
+  -- NULL = usable on any pipeline board
+  pipeline_id UUID REFERENCES pipelines(id) ON DELETE CASCADE,
+  is_shared BOOLEAN NOT NULL DEFAULT FALSE,
+  filters JSONB NOT NULL DEFAULT '{}',
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(tenant_id, owner_id, name)
+);
+
+CREATE INDEX idx_board_views_owner ON board_views(tenant_id, owner_id);
+CREATE INDEX idx_board_views_shared ON board_views(tenant_id) WHERE is_shared = TRUE;
+
+CREATE TRIGGER update_board_views_updated_at
+  BEFORE UPDATE ON board_views
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+COMMENT ON TABLE board_views IS 'Named pipeline board filter presets, private to the owner or shared with the tenant';
+
+-- ============================================================================
+-- PART 2: board_filtered_states()
+-- ============================================================================
+
+-- Pipeline states matching a board view's filters. SECURITY INVOKER: the
+-- caller's RLS still decides which applications and signals are visible.
+-- Returns application_pipeline_state rows so PostgREST can embed
+-- applications(...) and apply further filters on the result.
+CREATE OR REPLACE FUNCTION board_filtered_states(
+  p_tenant_id UUID,
+  p_pipeline_id UUID,
+  p_filters JSONB DEFAULT '{}'
+) RETURNS SETOF application_pipeline_state
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT s.*
+  FROM application_pipeline_state s
+  JOIN applications a ON a.id = s.application_id
+  WHERE s.tenant_id = p_tenant_id
+    AND s.pipeline_id = p_pipeline_id
+    AND (
+      p_filters->'stage_ids' IS NULL
+      OR s.current_stage_id::TEXT IN (SELECT jsonb_array_elements_text(p_filters->'stage_ids'))
+    )
+    AND (
+      p_filters->'outcome_types' IS NULL
+      OR s.outcome_type IN (SELECT jsonb_array_elements_text(p_filters->'outcome_types'))
+    )
+    -- Same fallback as the source report
+    AND (
+      p_filters->'sources' IS NULL
+      OR COALESCE(a.source, LOWER(a.utm_source)) IN (SELECT jsonb_array_elements_text(p_filters->'sources'))
+    )
+    AND (
+      p_filters->'min_hours_in_stage' IS NULL
+      OR s.entered_stage_at <= NOW() - (p_filters->>'min_hours_in_stage')::NUMERIC * INTERVAL '1 hour'
+    )
+    AND (
+      p_filters->'max_hours_in_stage' IS NULL
+      OR s.entered_stage_at >= NOW() - (p_filters->>'max_hours_in_stage')::NUMERIC * INTERVAL '1 hour'
+    )
+    AND (
+      p_filters->'interviewer_id' IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM interviews i
+        JOIN interview_rounds r ON r.interview_id = i.id
+        JOIN interviewer_assignments ia ON ia.round_id = r.id
+        WHERE i.application_id = s.application_id
+          AND i.status <> 'CANCELLED'
+          AND ia.user_id = (p_filters->>'interviewer_id')::UUID
+      )
+    )
+    AND (
+      p_filters->'signals' IS NULL
+      OR (evaluate_automation_conditions(s.application_id, p_filters->'signals')->>'met')::BOOLEAN
+    );
+$$;
+
+COMMENT ON FUNCTION board_filtered_states IS
+  'Pipeline states matching board view filters (stage, outcome, source, time in stage, interviewer, signals)';
+
+-- ============================================================================
+-- PART 3: RLS policies (writes go through the tracking service)
+-- ============================================================================
+
+ALTER TABLE board_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own and shared board views" ON board_views
+  FOR SELECT USING (tenant_id = get_tenant_id() AND (owner_id = auth.uid() OR is_shared));
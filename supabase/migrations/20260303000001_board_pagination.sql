@@ -0,0 +1,314 @@
+-- ============================================================================
+-- BOARD PAGINATION - per-stage counts and cursor pages for the pipeline board
+-- ============================================================================
+-- The board used to load every application_pipeline_state row of a pipeline
+-- and group it in the tracking service. For high-volume roles that is
+-- thousands of cards per request. The board now returns, per stage, the
+-- number of matching applications plus the first page of cards; further
+-- pages are loaded one column at a time with a keyset cursor.
+--
+-- Sort orders (ties broken by application_id):
+--   entered_stage_at  default ASC (longest in stage first)
+--   name              applicant_name, case-insensitive, default ASC
+--   signal            latest numeric/boolean value of p_signal_key,
+--                     default DESC; applications without it always last
+--
+-- Every sort is expressed as one ascending or descending tuple
+-- (sort_rank, sort_number, sort_text, application_id), so a cursor is just
+-- the tuple of the last card. sort_number is passed as text in the cursor to
+-- keep epoch microseconds exact through JSON.
+--
+-- Part 1: board_filtered_states() - status and job_id keys, inlinable
+-- Part 2: get_board_stage_page()
+-- Part 3: get_pipeline_board()
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: board_filtered_states()
+-- ============================================================================
+
+-- Extension points for features that add a board filter key or card fields,
+-- so they redefine one small function instead of the two below:
+--   board_extra_filter(application_id, filters)  FALSE drops the application
+--   board_card_extra(application_id)             JSONB merged into each card
+-- A feature that redefines one keeps the clauses added before it.
+CREATE OR REPLACE FUNCTION board_extra_filter(
+  p_application_id UUID,
+  p_filters JSONB
+) RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT TRUE;
+$$;
+
+CREATE OR REPLACE FUNCTION board_card_extra(
+  p_application_id UUID
+) RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT '{}'::jsonb;
+$$;
+
+-- Adds "status" and "job_id" (the board's query parameters; not view
+-- filters). No SET clause so the planner can inline it into the page query.
+CREATE OR REPLACE FUNCTION board_filtered_states(
+  p_tenant_id UUID,
+  p_pipeline_id UUID,
+  p_filters JSONB DEFAULT '{}'
+) RETURNS SETOF application_pipeline_state
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT s.*
+  FROM public.application_pipeline_state s
+  JOIN public.applications a ON a.id = s.application_id
+  WHERE s.tenant_id = p_tenant_id
+    AND s.pipeline_id = p_pipeline_id
+    AND (p_filters->>'status' IS NULL OR s.status = p_filters->>'status')
+    AND (p_filters->>'job_id' IS NULL OR s.job_id = (p_filters->>'job_id')::UUID)
+    AND (
+      p_filters->'stage_ids' IS NULL
+      OR s.current_stage_id::TEXT IN (SELECT jsonb_array_elements_text(p_filters->'stage_ids'))
+    )
+    AND (
+      p_filters->'outcome_types' IS NULL
+      OR s.outcome_type IN (SELECT jsonb_array_elements_text(p_filters->'outcome_types'))
+    )
+    -- Same fallback as the source report
+    AND (
+      p_filters->'sources' IS NULL
+      OR COALESCE(a.source, LOWER(a.utm_source)) IN (SELECT jsonb_array_elements_text(p_filters->'sources'))
+    )
+    AND (
+      p_filters->'min_hours_in_stage' IS NULL
+      OR s.entered_stage_at <= NOW() - (p_filters->>'min_hours_in_stage')::NUMERIC * INTERVAL '1 hour'
+    )
+    AND (
+      p_filters->'max_hours_in_stage' IS NULL
+      OR s.entered_stage_at >= NOW() - (p_filters->>'max_hours_in_stage')::NUMERIC * INTERVAL '1 hour'
+    )
+    AND (
+      p_filters->'interviewer_id' IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM public.interviews i
+        JOIN public.interview_rounds r ON r.interview_id = i.id
+        JOIN public.interviewer_assignments ia ON ia.round_id = r.id
+        WHERE i.application_id = s.application_id
+          AND i.status <> 'CANCELLED'
+          AND ia.user_id = (p_filters->>'interviewer_id')::UUID
+      )
+    )
+    AND (
+      p_filters->'signals' IS NULL
+      OR (public.evaluate_automation_conditions(s.application_id, p_filters->'signals')->>'met')::BOOLEAN
+    )
+    AND public.board_extra_filter(s.application_id, p_filters);
+$$;
+
+-- ============================================================================
+-- PART 2: get_board_stage_page()
+-- ============================================================================
+
+-- One page of cards for one stage. p_cursor is the next_cursor of the
+-- previous page ({ "r", "n", "t", "id" }) or NULL for the first page.
+-- Returns { "applications": [...], "next_cursor": {...} | null }.
+CREATE OR REPLACE FUNCTION get_board_stage_page(
+  p_tenant_id UUID,
+  p_pipeline_id UUID,
+  p_stage_id UUID,
+  p_filters JSONB DEFAULT '{}',
+  p_sort TEXT DEFAULT 'entered_stage_at',
+  p_direction TEXT DEFAULT 'asc',
+  p_signal_key TEXT DEFAULT NULL,
+  p_cursor JSONB DEFAULT NULL,
+  p_limit INT DEFAULT 20
+) RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_desc BOOLEAN := p_direction = 'desc';
+  v_rows JSONB;
+  v_count INT;
+  v_last JSONB;
+BEGIN
+  IF p_sort NOT IN ('entered_stage_at', 'name', 'signal') THEN
+    RAISE EXCEPTION 'VALIDATION: sort must be one of entered_stage_at, name, signal'
+      USING ERRCODE = 'P0009';
+  END IF;
+  IF p_direction NOT IN ('asc', 'desc') THEN
+    RAISE EXCEPTION 'VALIDATION: direction must be asc or desc'
+      USING ERRCODE = 'P0009';
+  END IF;
+  IF p_sort = 'signal' AND p_signal_key IS NULL THEN
+    RAISE EXCEPTION 'VALIDATION: signal is required when sorting by signal'
+      USING ERRCODE = 'P0009';
+  END IF;
+
+  WITH cards AS (
+    SELECT
+      s.application_id,
+      s.status,
+      s.outcome_type,
+      s.is_terminal,
+      s.entered_stage_at,
+      a.applicant_name,
+      a.applicant_email,
+      sig.value AS signal_value,
+      -- Missing signal values sort last in either direction
+      CASE
+        WHEN p_sort <> 'signal' THEN 0
+        WHEN sig.value IS NULL THEN CASE WHEN v_desc THEN 0 ELSE 1 END
+        ELSE CASE WHEN v_desc THEN 1 ELSE 0 END
+      END AS sort_rank,
+      CASE p_sort
+        WHEN 'entered_stage_at' THEN EXTRACT(EPOCH FROM s.entered_stage_at)
+        WHEN 'signal' THEN COALESCE(sig.value, 0)
+        ELSE 0
+      END AS sort_number,
+      CASE WHEN p_sort = 'name' THEN COALESCE(LOWER(a.applicant_name), '') ELSE '' END AS sort_text
+    FROM board_filtered_states(p_tenant_id, p_pipeline_id, p_filters) s
+    JOIN applications a ON a.id = s.application_id
+    LEFT JOIN LATERAL (
+      SELECT COALESCE(l.signal_value_numeric, l.signal_value_boolean::INT) AS value
+      FROM application_signals_latest l
+      WHERE l.application_id = s.application_id
+        AND l.signal_key = p_signal_key
+    ) sig ON p_sort = 'signal'
+    WHERE s.current_stage_id = p_stage_id
+  ),
+  page AS (
+    SELECT *
+    FROM cards c
+    WHERE p_cursor IS NULL
+      OR (
+        NOT v_desc AND (c.sort_rank, c.sort_number, c.sort_text, c.application_id) >
+          ((p_cursor->>'r')::INT, (p_cursor->>'n')::NUMERIC, p_cursor->>'t', (p_cursor->>'id')::UUID)
+      )
+      OR (
+        v_desc AND (c.sort_rank, c.sort_number, c.sort_text, c.application_id) <
+          ((p_cursor->>'r')::INT, (p_cursor->>'n')::NUMERIC, p_cursor->>'t', (p_cursor->>'id')::UUID)
+      )
+    ORDER BY
+      CASE WHEN NOT v_desc THEN c.sort_rank END ASC,
+      CASE WHEN NOT v_desc THEN c.sort_number END ASC,
+      CASE WHEN NOT v_desc THEN c.sort_text END ASC,
+      CASE WHEN NOT v_desc THEN c.application_id END ASC,
+      CASE WHEN v_desc THEN c.sort_rank END DESC,
+      CASE WHEN v_desc THEN c.sort_number END DESC,
+      CASE WHEN v_desc THEN c.sort_text END DESC,
+      CASE WHEN v_desc THEN c.application_id END DESC
+    LIMIT p_limit + 1  -- one extra row tells whether there is a next page
+  )
+  SELECT
+    COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'application_id', p.application_id,
+        'applicant_name', p.applicant_name,
+        'applicant_email', p.applicant_email,
+        'status', p.status,
+        'outcome_type', p.outcome_type,
+        'is_terminal', p.is_terminal,
+        'entered_stage_at', p.entered_stage_at,
+        'signal_value', p.signal_value,
+        'cursor', jsonb_build_object(
+          'r', p.sort_rank, 'n', p.sort_number::TEXT, 't', p.sort_text, 'id', p.application_id
+        )
+      ) || board_card_extra(p.application_id)
+      ORDER BY
+        CASE WHEN NOT v_desc THEN p.sort_rank END ASC,
+        CASE WHEN NOT v_desc THEN p.sort_number END ASC,
+        CASE WHEN NOT v_desc THEN p.sort_text END ASC,
+        CASE WHEN NOT v_desc THEN p.application_id END ASC,
+        CASE WHEN v_desc THEN p.sort_rank END DESC,
+        CASE WHEN v_desc THEN p.sort_number END DESC,
+        CASE WHEN v_desc THEN p.sort_text END DESC,
+        CASE WHEN v_desc THEN p.application_id END DESC
+    ), '[]'::jsonb),
+    COUNT(*)
+  INTO v_rows, v_count
+  FROM page p;
+
+  IF v_count > p_limit THEN
+    v_rows := v_rows - p_limit;  -- drop the look-ahead row
+    v_last := v_rows->(p_limit - 1)->'cursor';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'applications', (SELECT COALESCE(jsonb_agg(r - 'cursor'), '[]'::jsonb) FROM jsonb_array_elements(v_rows) r),
+    'next_cursor', v_last
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION get_board_stage_page IS
+  'One keyset-paginated page of board cards for a stage (sort by entered_stage_at, name or signal value)';
+
+-- ============================================================================
+-- PART 3: get_pipeline_board()
+-- ============================================================================
+
+-- Per-stage counts plus the first page of each stage.
+-- Returns { "total": n, "stages": [{ "stage_id", "count", "applications", "next_cursor" }] }
+-- in stage order; stages without matching applications have count 0.
+CREATE OR REPLACE FUNCTION get_pipeline_board(
+  p_tenant_id UUID,
+  p_pipeline_id UUID,
+  p_filters JSONB DEFAULT '{}',
+  p_sort TEXT DEFAULT 'entered_stage_at',
+  p_direction TEXT DEFAULT 'asc',
+  p_signal_key TEXT DEFAULT NULL,
+  p_limit INT DEFAULT 20
+) RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_counts JSONB;
+  v_stage RECORD;
+  v_count INT;
+  v_page JSONB;
+  v_stages JSONB := '[]';
+  v_total INT := 0;
+BEGIN
+  SELECT COALESCE(jsonb_object_agg(stage_id, n), '{}'::jsonb)
+  INTO v_counts
+  FROM (
+    SELECT current_stage_id AS stage_id, COUNT(*) AS n
+    FROM board_filtered_states(p_tenant_id, p_pipeline_id, p_filters)
+    GROUP BY current_stage_id
+  ) c;
+
+  FOR v_stage IN
+    SELECT id FROM pipeline_stages WHERE pipeline_id = p_pipeline_id ORDER BY order_index
+  LOOP
+    v_count := COALESCE((v_counts->>v_stage.id::TEXT)::INT, 0);
+
+    IF v_count = 0 THEN
+      v_page := jsonb_build_object('applications', '[]'::jsonb, 'next_cursor', NULL);
+    ELSE
+      v_page := get_board_stage_page(
+        p_tenant_id, p_pipeline_id, v_stage.id, p_filters,
+        p_sort, p_direction, p_signal_key, NULL, p_limit
+      );
+    END IF;
+
+    v_total := v_total + v_count;
+    v_stages := v_stages || jsonb_build_object(
+      'stage_id', v_stage.id,
+      'count', v_count,
+      'applications', v_page->'applications',
+      'next_cursor', v_page->'next_cursor'
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('total', v_total, 'stages', v_stages);
+END;
+$$;
+
+COMMENT ON FUNCTION get_pipeline_board IS 'Pipeline board: per-stage counts and the first page of cards for each stage';
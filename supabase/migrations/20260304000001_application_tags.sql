@@ -0,0 +1,214 @@
+-- ============================================================================
+-- APPLICATION TAGS - tenant-defined labels on applications
+-- ============================================================================
+-- Ad-hoc labels such as "referral", "relocation needed" or "silver medalist".
+-- A tenant defines its tags (name + optional color, like
+-- tenant_application_statuses.color_hex); ADMIN/HR attach them to
+-- applications through the tracking service.
+--
+-- Deleting a tag deactivates it (same as statuses): it disappears from cards,
+-- application detail and filters, but its history stays readable.
+-- Every tag and untag is recorded in application_tag_events, which feeds the
+-- application-detail timeline.
+--
+-- Part 1: tenant_application_tags
+-- Part 2: application_tags + application_tag_events
+-- Part 3: tag_application() / untag_application(), board filter ("tag_ids",
+--         any of) and tags on board cards
+-- Part 4: RLS policies
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: tenant_application_tags
+-- ============================================================================
+
+CREATE TABLE tenant_application_tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL,
+  color_hex VARCHAR(7) CHECK (color_hex ~ '^#[0-9A-Fa-f]{6}$'),  -- '#22C55E' (optional)
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,  -- Soft delete
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- A deleted tag's name can be reused
+CREATE UNIQUE INDEX uq_tenant_application_tags_name
+  ON tenant_application_tags(tenant_id, LOWER(name))
+  WHERE is_active = TRUE;
+
+CREATE TRIGGER update_tenant_application_tags_updated_at
+  BEFORE UPDATE ON tenant_application_tags
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+COMMENT ON TABLE tenant_application_tags IS 'Tenant-defined labels that can be attached to applications';
+
+-- ============================================================================
+-- PART 2: application_tags + application_tag_events
+-- ============================================================================
+
+CREATE TABLE application_tags (
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES tenant_application_tags(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  tagged_by UUID REFERENCES auth.users(id),
+  tagged_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (application_id, tag_id)
+);
+
+CREATE INDEX idx_application_tags_tag ON application_tags(tag_id);
+
+COMMENT ON TABLE application_tags IS 'Tags currently attached to an application';
+
+CREATE TABLE application_tag_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES tenant_application_tags(id) ON DELETE CASCADE,
+  action VARCHAR(10) NOT NULL CHECK (action IN ('ADDED', 'REMOVED')),
+  actor_id UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_application_tag_events_application ON application_tag_events(application_id, created_at DESC);
+
+COMMENT ON TABLE application_tag_events IS 'Tag and untag history per application (timeline source)';
+
+-- ============================================================================
+-- PART 3: Tagging RPCs, board filter and card tags
+-- ============================================================================
+
+-- Attach a tag and record the ADDED event in one transaction. Idempotent:
+-- returns FALSE (and records nothing) when the tag was already attached.
+-- The tracking service has checked the application and the active tag.
+CREATE OR REPLACE FUNCTION tag_application(
+  p_tenant_id UUID,
+  p_application_id UUID,
+  p_tag_id UUID,
+  p_user_id UUID
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  INSERT INTO application_tags (application_id, tag_id, tenant_id, tagged_by)
+  VALUES (p_application_id, p_tag_id, p_tenant_id, p_user_id)
+  ON CONFLICT (application_id, tag_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO application_tag_events (tenant_id, application_id, tag_id, action, actor_id)
+  VALUES (p_tenant_id, p_application_id, p_tag_id, 'ADDED', p_user_id);
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Detach a tag and record the REMOVED event in one transaction. Idempotent:
+-- returns FALSE when the tag was not attached.
+CREATE OR REPLACE FUNCTION untag_application(
+  p_tenant_id UUID,
+  p_application_id UUID,
+  p_tag_id UUID,
+  p_user_id UUID
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  DELETE FROM application_tags
+  WHERE application_id = p_application_id
+    AND tag_id = p_tag_id
+    AND tenant_id = p_tenant_id;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO application_tag_events (tenant_id, application_id, tag_id, action, actor_id)
+  VALUES (p_tenant_id, p_application_id, p_tag_id, 'REMOVED', p_user_id);
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Active tags of an application as [{ id, name, color_hex }], by name
+CREATE OR REPLACE FUNCTION application_tag_list(
+  p_application_id UUID
+) RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object('id', d.id, 'name', d.name, 'color_hex', d.color_hex) ORDER BY d.name
+  ), '[]'::jsonb)
+  FROM public.application_tags t
+  JOIN public.tenant_application_tags d ON d.id = t.tag_id
+  WHERE t.application_id = p_application_id
+    AND d.is_active = TRUE;
+$$;
+
+-- Board hooks (see 20260303000001_board_pagination.sql)
+
+-- "tag_ids": applications carrying any of the listed tags
+CREATE OR REPLACE FUNCTION board_tag_filter(
+  p_application_id UUID,
+  p_filters JSONB
+) RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_filters->'tag_ids' IS NULL
+    OR EXISTS (
+      SELECT 1
+      FROM public.application_tags t
+      WHERE t.application_id = p_application_id
+        AND t.tag_id::TEXT IN (SELECT jsonb_array_elements_text(p_filters->'tag_ids'))
+    );
+$$;
+
+-- Each filter key is its own function; a later feature adds its function
+-- and ANDs it in here
+CREATE OR REPLACE FUNCTION board_extra_filter(
+  p_application_id UUID,
+  p_filters JSONB
+) RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT public.board_tag_filter(p_application_id, p_filters);
+$$;
+
+-- "tags" on every card
+CREATE OR REPLACE FUNCTION board_card_extra(
+  p_application_id UUID
+) RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object('tags', public.application_tag_list(p_application_id));
+$$;
+
+-- ============================================================================
+-- PART 4: RLS policies (writes go through the tracking service)
+-- ============================================================================
+
+ALTER TABLE tenant_application_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tenant tags" ON tenant_application_tags
+  FOR SELECT USING (tenant_id = get_tenant_id());
+
+ALTER TABLE application_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tenant application tags" ON application_tags
+  FOR SELECT USING (tenant_id = get_tenant_id());
+
+ALTER TABLE application_tag_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view application tag events" ON application_tag_events
+  FOR SELECT USING (tenant_id = get_tenant_id() AND can_manage_tracking());
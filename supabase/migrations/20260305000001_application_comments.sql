@@ -0,0 +1,106 @@
+-- ============================================================================
+-- APPLICATION COMMENTS - internal discussion threads with @mentions
+-- ============================================================================
+-- One thread per application. Bodies are markdown, stored as written and
+-- rendered (escaped) by the client. A mention is written as
+--   @[Display Name](<user uuid>)
+-- and resolved against user_profiles by the tracking service.
+--
+-- Visibility follows the application-detail restricted view:
+--   MANAGERS  SUPERADMIN, ADMIN, HR only (default for managers)
+--   TEAM      also INTERVIEWERs assigned to the application
+--             (interviewer comments are always TEAM)
+--
+-- Edits keep the previous body in application_comment_revisions. Deleting
+-- a comment is a soft delete: the body is hidden from the thread and the
+-- timeline but stays in the history.
+--
+-- Part 1: application_comments
+-- Part 2: application_comment_revisions
+-- Part 3: application_comment_mentions (per-user mention inbox)
+-- Part 4: RLS policies
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: application_comments
+-- ============================================================================
+
+CREATE TABLE application_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES auth.users(id),
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 10000),
+  visibility VARCHAR(20) NOT NULL DEFAULT 'MANAGERS'
+    CHECK (visibility IN ('TEAM', 'MANAGERS')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  edited_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ,
+  deleted_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX idx_application_comments_application ON application_comments(application_id, created_at);
+
+CREATE TRIGGER update_application_comments_updated_at
+  BEFORE UPDATE ON application_comments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+COMMENT ON TABLE application_comments IS 'Internal discussion on an application (markdown, soft-deleted)';
+
+-- ============================================================================
+-- PART 2: application_comment_revisions
+-- ============================================================================
+
+CREATE TABLE application_comment_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  comment_id UUID NOT NULL REFERENCES application_comments(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,  -- body before the edit
+  edited_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_application_comment_revisions_comment ON application_comment_revisions(comment_id, created_at);
+
+COMMENT ON TABLE application_comment_revisions IS 'Previous bodies of edited comments';
+
+-- ============================================================================
+-- PART 3: application_comment_mentions
+-- ============================================================================
+
+CREATE TABLE application_comment_mentions (
+  comment_id UUID NOT NULL REFERENCES application_comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  read_at TIMESTAMPTZ,
+  PRIMARY KEY (comment_id, user_id)
+);
+
+CREATE INDEX idx_application_comment_mentions_user ON application_comment_mentions(user_id, created_at DESC);
+CREATE INDEX idx_application_comment_mentions_unread ON application_comment_mentions(user_id) WHERE read_at IS NULL;
+
+COMMENT ON TABLE application_comment_mentions IS 'Users mentioned in a comment, with per-user read state';
+
+-- ============================================================================
+-- PART 4: RLS policies (writes go through the tracking service)
+-- ============================================================================
+
+ALTER TABLE application_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view comments" ON application_comments
+  FOR SELECT USING (tenant_id = get_tenant_id() AND can_manage_tracking());
+
+CREATE POLICY "Authors can view own comments" ON application_comments
+  FOR SELECT USING (tenant_id = get_tenant_id() AND author_id = auth.uid());
+
+ALTER TABLE application_comment_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view comment revisions" ON application_comment_revisions
+  FOR SELECT USING (tenant_id = get_tenant_id() AND can_manage_tracking());
+
+ALTER TABLE application_comment_mentions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own mentions" ON application_comment_mentions
+  FOR SELECT USING (tenant_id = get_tenant_id() AND user_id = auth.uid());
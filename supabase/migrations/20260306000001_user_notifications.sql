@@ -0,0 +1,148 @@
+-- ============================================================================
+-- USER NOTIFICATIONS - per-user in-app inbox
+-- ============================================================================
+-- Staff-facing counterpart of notification_log (which emails candidates and
+-- interviewers). Rows are written by the services that own each event:
+--
+--   INTERVIEW_ASSIGNED    interview   interviewer assigned to a new round
+--   INTERVIEW_CANCELLED   interview   interview with an assigned round cancelled
+--   EVALUATION_REQUESTED  evaluations user added as an evaluation participant
+--   COMMENT_MENTION       tracking    user @mentioned in an application comment
+--   SLA_BREACHED          tracking    stage SLA breach recorded by the sweep (ADMIN/HR)
+--
+-- dedupe_key makes producers idempotent: re-running a sweep or re-saving a
+-- comment never notifies the same user twice for the same event.
+--
+-- Part 1: user_notifications
+-- Part 2: RLS policies
+-- Part 3: Mention read state shared with application_comment_mentions
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: user_notifications
+-- ============================================================================
+
+CREATE TABLE user_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type VARCHAR(40) NOT NULL CHECK (type IN (
+    'INTERVIEW_ASSIGNED', 'INTERVIEW_CANCELLED', 'EVALUATION_REQUESTED', 'COMMENT_MENTION', 'SLA_BREACHED'
+  )),
+  title TEXT NOT NULL,
+  body TEXT,
+  application_id UUID REFERENCES applications(id) ON DELETE CASCADE,
+  resource_type VARCHAR(40),  -- interview_round, interview, evaluation, comment, sla_breach
+  resource_id UUID,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  dedupe_key TEXT NOT NULL,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(user_id, dedupe_key)
+);
+
+CREATE INDEX idx_user_notifications_user ON user_notifications(user_id, created_at DESC);
+CREATE INDEX idx_user_notifications_unread ON user_notifications(user_id) WHERE read_at IS NULL;
+
+COMMENT ON TABLE user_notifications IS 'Per-user in-app inbox, written by the interview, evaluations and tracking services';
+
+-- ============================================================================
+-- PART 2: RLS policies (writes go through the services)
+-- ============================================================================
+
+ALTER TABLE user_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications" ON user_notifications
+  FOR SELECT USING (tenant_id = get_tenant_id() AND user_id = auth.uid());
+
+-- ============================================================================
+-- PART 3: Mention read state
+-- ============================================================================
+-- A COMMENT_MENTION notification and its application_comment_mentions row
+-- (GET /tracking/me/mentions) are the same event, so they share one read
+-- state: reading either marks both, and a row written after the other was
+-- read starts out read. Each side only updates rows that are still unread,
+-- so the two triggers stop after one hop.
+
+CREATE OR REPLACE FUNCTION sync_mention_read_from_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  UPDATE application_comment_mentions
+  SET read_at = NEW.read_at
+  WHERE comment_id = NEW.resource_id
+    AND user_id = NEW.user_id
+    AND read_at IS NULL;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_sync_mention_read_from_notification
+  AFTER UPDATE OF read_at ON user_notifications
+  FOR EACH ROW
+  WHEN (NEW.type = 'COMMENT_MENTION' AND OLD.read_at IS NULL AND NEW.read_at IS NOT NULL)
+  EXECUTE FUNCTION sync_mention_read_from_notification();
+
+CREATE OR REPLACE FUNCTION sync_notification_read_from_mention()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  UPDATE user_notifications
+  SET read_at = NEW.read_at
+  WHERE type = 'COMMENT_MENTION'
+    AND resource_id = NEW.comment_id
+    AND user_id = NEW.user_id
+    AND read_at IS NULL;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_sync_notification_read_from_mention
+  AFTER UPDATE OF read_at ON application_comment_mentions
+  FOR EACH ROW
+  WHEN (OLD.read_at IS NULL AND NEW.read_at IS NOT NULL)
+  EXECUTE FUNCTION sync_notification_read_from_mention();
+
+-- A user mentioned again after an edit removed them gets no new notification
+-- (dedupe_key), so the new mention row takes over the notification's state;
+-- likewise a notification written late takes over the mention's
+CREATE OR REPLACE FUNCTION inherit_mention_read_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.read_at IS NULL THEN
+    IF TG_TABLE_NAME = 'application_comment_mentions' THEN
+      SELECT n.read_at INTO NEW.read_at
+      FROM user_notifications n
+      WHERE n.type = 'COMMENT_MENTION'
+        AND n.resource_id = NEW.comment_id
+        AND n.user_id = NEW.user_id;
+    ELSIF NEW.type = 'COMMENT_MENTION' THEN
+      SELECT m.read_at INTO NEW.read_at
+      FROM application_comment_mentions m
+      WHERE m.comment_id = NEW.resource_id
+        AND m.user_id = NEW.user_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_inherit_mention_read_state
+  BEFORE INSERT ON application_comment_mentions
+  FOR EACH ROW EXECUTE FUNCTION inherit_mention_read_state();
+
+CREATE TRIGGER trg_inherit_mention_read_state
+  BEFORE INSERT ON user_notifications
+  FOR EACH ROW EXECUTE FUNCTION inherit_mention_read_state();
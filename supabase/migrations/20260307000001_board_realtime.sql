@@ -0,0 +1,220 @@
+-- ============================================================================
+-- BOARD REALTIME - broadcast pipeline board changes over Supabase Realtime
+-- ============================================================================
+-- Every change to application_pipeline_state that the board shows is
+-- broadcast on a private channel per tenant + pipeline:
+--
+--   topic   board:<tenant_id>:<pipeline_id>
+--   events  card_attached   application attached to the pipeline
+--           card_moved      current stage changed
+--           card_updated    status / outcome changed in place, or tags changed
+--           card_removed    tracking state deleted or moved to another pipeline
+--
+-- Cards use the BoardApplicationResponse shape of GET /pipelines/:id/board,
+-- so clients can patch their board without refetching. The contract is
+-- documented in docs/BOARD_REALTIME.md.
+--
+-- Broadcasting is best-effort: a Realtime failure never blocks a state change.
+--
+-- Part 1: board_realtime_card() - card JSON for one application
+-- Part 2: broadcast_board_event() - realtime.send wrapper
+-- Part 3: Triggers on application_pipeline_state and application_tags
+-- Part 4: Channel authorization (realtime.messages RLS)
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: board_realtime_card()
+-- ============================================================================
+-- Mirrors formatCard() in the tracking service. signalValue is always null:
+-- it depends on the viewer's sort, so clients keep their own value.
+
+CREATE OR REPLACE FUNCTION board_realtime_card(p_state application_pipeline_state)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT jsonb_build_object(
+    'applicationId', p_state.application_id,
+    'applicantName', COALESCE(a.applicant_name, 'Unknown'),
+    'applicantEmail', COALESCE(a.applicant_email, 'Unknown'),
+    'status', p_state.status,
+    'enteredStageAt', p_state.entered_stage_at,
+    'timeInStageHours', ROUND((EXTRACT(EPOCH FROM (NOW() - p_state.entered_stage_at)) / 3600)::NUMERIC, 1),
+    'isOverdue', COALESCE(
+      ps.sla_hours IS NOT NULL
+        AND p_state.is_terminal = FALSE
+        AND p_state.outcome_type = 'ACTIVE'
+        AND NOW() > p_state.entered_stage_at + make_interval(secs => ps.sla_hours * 3600),
+      FALSE
+    ),
+    'signalValue', NULL,
+    'tags', (
+      SELECT COALESCE(jsonb_agg(
+        jsonb_build_object('id', d.id, 'name', d.name, 'colorHex', d.color_hex) ORDER BY d.name
+      ), '[]'::jsonb)
+      FROM application_tags t
+      JOIN tenant_application_tags d ON d.id = t.tag_id
+      WHERE t.application_id = p_state.application_id
+        AND d.is_active = TRUE
+    )
+  )
+  FROM applications a
+  LEFT JOIN pipeline_stages ps ON ps.id = p_state.current_stage_id
+  WHERE a.id = p_state.application_id;
+$$;
+
+-- ============================================================================
+-- PART 2: broadcast_board_event()
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION broadcast_board_event(
+  p_event TEXT,
+  p_tenant_id UUID,
+  p_pipeline_id UUID,
+  p_application_id UUID,
+  p_from_stage_id UUID,
+  p_to_stage_id UUID,
+  p_card JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  PERFORM realtime.send(
+    jsonb_build_object(
+      'version', 1,
+      'event', p_event,
+      'tenantId', p_tenant_id,
+      'pipelineId', p_pipeline_id,
+      'applicationId', p_application_id,
+      'fromStageId', p_from_stage_id,
+      'toStageId', p_to_stage_id,
+      'card', p_card,
+      'occurredAt', NOW()
+    ),
+    p_event,
+    'board:' || p_tenant_id::TEXT || ':' || p_pipeline_id::TEXT,
+    TRUE  -- private channel, see PART 4
+  );
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'BOARD_REALTIME: failed to broadcast % for application %: %', p_event, p_application_id, SQLERRM;
+END;
+$$;
+
+-- ============================================================================
+-- PART 3: Triggers
+-- ============================================================================
+
+-- 3a: application_pipeline_state → attached / moved / updated / removed
+CREATE OR REPLACE FUNCTION trg_board_realtime_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM broadcast_board_event(
+      'card_removed', OLD.tenant_id, OLD.pipeline_id, OLD.application_id, OLD.current_stage_id, NULL, NULL
+    );
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM broadcast_board_event(
+      'card_attached', NEW.tenant_id, NEW.pipeline_id, NEW.application_id, NULL, NEW.current_stage_id,
+      board_realtime_card(NEW)
+    );
+    RETURN NEW;
+  END IF;
+
+  -- Re-attached to another pipeline: leaves one board, joins the other
+  IF NEW.pipeline_id IS DISTINCT FROM OLD.pipeline_id THEN
+    PERFORM broadcast_board_event(
+      'card_removed', OLD.tenant_id, OLD.pipeline_id, OLD.application_id, OLD.current_stage_id, NULL, NULL
+    );
+    PERFORM broadcast_board_event(
+      'card_attached', NEW.tenant_id, NEW.pipeline_id, NEW.application_id, NULL, NEW.current_stage_id,
+      board_realtime_card(NEW)
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.current_stage_id IS DISTINCT FROM OLD.current_stage_id THEN
+    PERFORM broadcast_board_event(
+      'card_moved', NEW.tenant_id, NEW.pipeline_id, NEW.application_id, OLD.current_stage_id, NEW.current_stage_id,
+      board_realtime_card(NEW)
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.outcome_type IS DISTINCT FROM OLD.outcome_type
+    OR NEW.is_terminal IS DISTINCT FROM OLD.is_terminal
+    OR NEW.entered_stage_at IS DISTINCT FROM OLD.entered_stage_at
+  THEN
+    PERFORM broadcast_board_event(
+      'card_updated', NEW.tenant_id, NEW.pipeline_id, NEW.application_id, NEW.current_stage_id, NEW.current_stage_id,
+      board_realtime_card(NEW)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_board_realtime_state
+  AFTER INSERT OR UPDATE OR DELETE ON application_pipeline_state
+  FOR EACH ROW EXECUTE FUNCTION trg_board_realtime_state();
+
+-- 3b: application_tags → card_updated (cards carry their tags)
+CREATE OR REPLACE FUNCTION trg_board_realtime_tags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_state application_pipeline_state;
+BEGIN
+  SELECT * INTO v_state
+  FROM application_pipeline_state
+  WHERE application_id = COALESCE(NEW.application_id, OLD.application_id);
+
+  IF FOUND THEN
+    PERFORM broadcast_board_event(
+      'card_updated', v_state.tenant_id, v_state.pipeline_id, v_state.application_id,
+      v_state.current_stage_id, v_state.current_stage_id, board_realtime_card(v_state)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_board_realtime_tags
+  AFTER INSERT OR DELETE ON application_tags
+  FOR EACH ROW EXECUTE FUNCTION trg_board_realtime_tags();
+
+-- ============================================================================
+-- PART 4: Channel authorization
+-- ============================================================================
+-- Clients join board:<tenant_id>:<pipeline_id> with { config: { private: true } }.
+-- Tracking viewers (SUPERADMIN, ADMIN, HR, INTERVIEWER) may receive their
+-- tenant's board broadcasts; SUPERADMIN may receive any tenant's. Nobody can
+-- send on these topics from a client.
+
+CREATE POLICY "Tracking users can receive board broadcasts" ON realtime.messages
+  FOR SELECT TO authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND split_part(realtime.topic(), ':', 1) = 'board'
+    AND (
+      public.is_superadmin()
+      OR (
+        split_part(realtime.topic(), ':', 2) = public.get_tenant_id()::TEXT
+        AND public.get_user_role() IN ('ADMIN', 'HR', 'INTERVIEWER')
+      )
+    )
+  );
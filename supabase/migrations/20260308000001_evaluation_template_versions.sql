@@ -0,0 +1,162 @@
+-- ============================================================================
+-- EVALUATION TEMPLATE VERSIONS - lineage and migration of open instances
+-- ============================================================================
+-- updateEvaluationTemplate creates a new row per version once a template is
+-- referenced, linking old -> new through superseded_by. Instances stay bound
+-- to the version they were created with.
+--
+-- This migration adds:
+--   * evaluation_template_lineage(): every version of a template, given any
+--     one of its version IDs
+--   * migrate_evaluation_instances_to_latest(): rebind PENDING / IN_PROGRESS
+--     instances of older versions to the latest version. Instances that
+--     already have a submitted response are left on their version, because
+--     the response was validated against that version's signal_schema.
+--
+-- Part 1: evaluation_template_lineage()
+-- Part 2: migrate_evaluation_instances_to_latest()
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: evaluation_template_lineage()
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION evaluation_template_lineage(p_tenant_id UUID, p_template_id UUID)
+RETURNS SETOF evaluation_templates
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  WITH RECURSIVE older AS (
+    SELECT t.* FROM evaluation_templates t
+    WHERE t.id = p_template_id AND t.tenant_id = p_tenant_id
+    UNION ALL
+    SELECT t.* FROM evaluation_templates t
+    JOIN older o ON t.superseded_by = o.id
+    WHERE t.tenant_id = p_tenant_id
+  ),
+  newer AS (
+    SELECT t.* FROM evaluation_templates t
+    WHERE t.id = p_template_id AND t.tenant_id = p_tenant_id
+    UNION ALL
+    SELECT t.* FROM evaluation_templates t
+    JOIN newer n ON t.id = n.superseded_by
+    WHERE t.tenant_id = p_tenant_id
+  )
+  SELECT * FROM older
+  UNION
+  SELECT * FROM newer
+  ORDER BY version;
+$$;
+
+COMMENT ON FUNCTION evaluation_template_lineage IS 'All versions of an evaluation template (oldest first), given any version ID';
+
+-- ============================================================================
+-- PART 2: migrate_evaluation_instances_to_latest()
+-- ============================================================================
+-- Returns:
+--   { template_id, version, dry_run,
+--     moved:   [{ instance_id, application_id, from_template_id, from_version, status }],
+--     skipped: [{ instance_id, application_id, from_template_id, from_version, status,
+--                 reason: 'HAS_RESPONSES', response_count }] }
+--
+-- Participant rows are locked before responses are counted, so a response
+-- submitted concurrently either lands first (instance skipped) or waits and
+-- is validated against the latest version.
+
+CREATE OR REPLACE FUNCTION migrate_evaluation_instances_to_latest(
+  p_tenant_id UUID,
+  p_template_id UUID,
+  p_dry_run BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_latest evaluation_templates;
+  v_instance RECORD;
+  v_response_count INT;
+  v_entry JSONB;
+  v_moved JSONB := '[]'::jsonb;
+  v_skipped JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_latest
+  FROM evaluation_template_lineage(p_tenant_id, p_template_id)
+  WHERE is_latest = TRUE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Template % not found', p_template_id
+      USING ERRCODE = 'P0004';
+  END IF;
+
+  IF v_latest.is_active IS DISTINCT FROM TRUE THEN
+    RAISE EXCEPTION 'INVALID_ACTION: Latest version of the template is inactive'
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  FOR v_instance IN
+    SELECT i.id, i.application_id, i.template_id, i.status, t.version
+    FROM evaluation_instances i
+    JOIN evaluation_templates t ON t.id = i.template_id
+    WHERE i.tenant_id = p_tenant_id
+      AND i.status IN ('PENDING', 'IN_PROGRESS')
+      AND i.template_id IN (
+        SELECT l.id FROM evaluation_template_lineage(p_tenant_id, p_template_id) l WHERE l.id != v_latest.id
+      )
+    ORDER BY i.created_at
+    FOR UPDATE OF i
+  LOOP
+    PERFORM 1 FROM evaluation_participants WHERE evaluation_id = v_instance.id FOR UPDATE;
+
+    SELECT COUNT(*) INTO v_response_count
+    FROM evaluation_responses r
+    JOIN evaluation_participants p ON p.id = r.participant_id
+    WHERE p.evaluation_id = v_instance.id;
+
+    v_entry := jsonb_build_object(
+      'instance_id', v_instance.id,
+      'application_id', v_instance.application_id,
+      'from_template_id', v_instance.template_id,
+      'from_version', v_instance.version,
+      'status', v_instance.status
+    );
+
+    IF v_response_count > 0 THEN
+      v_skipped := v_skipped || jsonb_build_array(
+        v_entry || jsonb_build_object('reason', 'HAS_RESPONSES', 'response_count', v_response_count)
+      );
+      CONTINUE;
+    END IF;
+
+    IF NOT p_dry_run THEN
+      UPDATE evaluation_instances
+      SET template_id = v_latest.id, updated_at = NOW()
+      WHERE id = v_instance.id;
+
+      -- Keep the interview round's template in step with its evaluation
+      UPDATE interview_rounds
+      SET evaluation_template_id = v_latest.id
+      WHERE evaluation_instance_id = v_instance.id;
+    END IF;
+
+    v_moved := v_moved || jsonb_build_array(v_entry);
+  END LOOP;
+
+  RAISE LOG 'TEMPLATE_MIGRATION: template=% version=% moved=% skipped=% dry_run=%',
+    v_latest.id, v_latest.version, jsonb_array_length(v_moved), jsonb_array_length(v_skipped), p_dry_run;
+
+  RETURN jsonb_build_object(
+    'template_id', v_latest.id,
+    'version', v_latest.version,
+    'dry_run', p_dry_run,
+    'moved', v_moved,
+    'skipped', v_skipped
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION migrate_evaluation_instances_to_latest IS
+  'Rebind open instances of older template versions to the latest version; instances with responses are skipped';
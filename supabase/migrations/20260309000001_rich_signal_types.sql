@@ -0,0 +1,762 @@
+-- ============================================================================
+-- RICH SIGNAL TYPES - enum, multi_select, rating, weights, in / contains
+-- ============================================================================
+-- New signal types in evaluation_templates.signal_schema:
+--
+--   enum          single choice  { "options": [{ "value": "STRONG", "label": "Strong hire" }, ...] }
+--   multi_select  many choices   { "options": [...] }
+--   rating        anchored scale { "rubric": [{ "score": 1, "label": "...", "description": "..." }, ...] }
+--
+-- Any integer, float or rating signal may carry "weight". When the template
+-- sets score_signal_key, aggregation also writes the weighted sum
+-- (weight x average response) of those signals as a float signal.
+--
+-- Signal storage:
+--   enum          signal_value_text     option value
+--   multi_select  signal_value_text     JSON array of option values, sorted
+--   rating        signal_value_numeric  score
+--
+-- Storing multi_select as JSON text keeps the (text, numeric, boolean)
+-- calling convention of evaluate_signal_condition(), so execute_action_v2,
+-- get_action_signal_status and evaluate_automation_conditions pick up the
+-- new types without changes.
+--
+-- Part 1: Schema changes (score_signal_key, signal_type check)
+-- Part 2: validate_evaluation_response() + submit_evaluation_response()
+-- Part 3: evaluate_signal_condition() - new types, in / contains
+-- Part 4: record_evaluation_signal() + aggregate_evaluation_signals()
+-- Part 5: search_signal_matches() + search_applications() - enum / multi_select
+--         search filters
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: Schema changes
+-- ============================================================================
+
+ALTER TABLE evaluation_templates
+  ADD COLUMN score_signal_key VARCHAR(100);
+
+COMMENT ON COLUMN evaluation_templates.score_signal_key IS
+  'Signal key that receives the weighted sum of weighted signals on aggregation. NULL = no score signal';
+
+ALTER TABLE application_signals
+  DROP CONSTRAINT application_signals_signal_type_check;
+
+ALTER TABLE application_signals
+  ADD CONSTRAINT application_signals_signal_type_check
+  CHECK (signal_type IN ('boolean', 'integer', 'float', 'text', 'enum', 'multi_select', 'rating'));
+
+COMMENT ON COLUMN application_signals.signal_value_text IS
+  'Value of text and enum signals; JSON array of option values for multi_select signals';
+
+-- ============================================================================
+-- PART 2: Response validation
+-- ============================================================================
+-- Only the new types are checked here; boolean / integer / float / text
+-- responses are stored as submitted, as before. Missing or null values are
+-- allowed for every type.
+
+CREATE OR REPLACE FUNCTION validate_evaluation_response(
+  p_signal_schema JSONB,
+  p_response_data JSONB
+) RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_signal_def JSONB;
+  v_key TEXT;
+  v_value JSONB;
+BEGIN
+  FOR v_signal_def IN SELECT * FROM jsonb_array_elements(p_signal_schema) LOOP
+    v_key := v_signal_def->>'key';
+    v_value := p_response_data->v_key;
+
+    IF v_value IS NULL OR jsonb_typeof(v_value) = 'null' THEN
+      CONTINUE;
+    END IF;
+
+    CASE v_signal_def->>'type'
+      WHEN 'enum' THEN
+        IF jsonb_typeof(v_value) != 'string' OR NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(v_signal_def->'options') o
+          WHERE o->>'value' = v_value#>>'{}'
+        ) THEN
+          RAISE EXCEPTION 'VALIDATION: "%" must be one of the signal options', v_key
+            USING ERRCODE = 'P0009';
+        END IF;
+
+      WHEN 'multi_select' THEN
+        IF jsonb_typeof(v_value) != 'array' THEN
+          RAISE EXCEPTION 'VALIDATION: "%" must be an array of option values', v_key
+            USING ERRCODE = 'P0009';
+        END IF;
+
+        IF EXISTS (
+          SELECT 1 FROM jsonb_array_elements(v_value) e
+          WHERE jsonb_typeof(e) != 'string'
+            OR NOT EXISTS (
+              SELECT 1 FROM jsonb_array_elements(v_signal_def->'options') o
+              WHERE o->>'value' = e#>>'{}'
+            )
+        ) THEN
+          RAISE EXCEPTION 'VALIDATION: "%" contains a value that is not a signal option', v_key
+            USING ERRCODE = 'P0009';
+        END IF;
+
+        IF (SELECT COUNT(*) != COUNT(DISTINCT e.value) FROM jsonb_array_elements_text(v_value) e(value)) THEN
+          RAISE EXCEPTION 'VALIDATION: "%" contains duplicate options', v_key
+            USING ERRCODE = 'P0009';
+        END IF;
+
+      WHEN 'rating' THEN
+        IF jsonb_typeof(v_value) != 'number' OR NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(v_signal_def->'rubric') r
+          WHERE (r->>'score')::NUMERIC = (v_value#>>'{}')::NUMERIC
+        ) THEN
+          RAISE EXCEPTION 'VALIDATION: "%" must be one of the rubric scores', v_key
+            USING ERRCODE = 'P0009';
+        END IF;
+
+      ELSE
+        NULL;
+    END CASE;
+  END LOOP;
+END;
+$$;
+
+COMMENT ON FUNCTION validate_evaluation_response IS 'Validates enum, multi_select and rating values of a response against the signal schema';
+
+CREATE OR REPLACE FUNCTION submit_evaluation_response(
+  p_evaluation_id UUID,
+  p_user_id UUID,
+  p_response_data JSONB
+) RETURNS evaluation_responses
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_participant evaluation_participants%ROWTYPE;
+  v_response evaluation_responses%ROWTYPE;
+  v_instance evaluation_instances%ROWTYPE;
+  v_signal_schema JSONB;
+BEGIN
+  -- Get participant record
+  SELECT * INTO v_participant
+  FROM evaluation_participants
+  WHERE evaluation_id = p_evaluation_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'FORBIDDEN: User is not a participant in this evaluation'
+      USING ERRCODE = 'P0008';
+  END IF;
+
+  IF v_participant.status = 'SUBMITTED' THEN
+    RAISE EXCEPTION 'INVALID_ACTION: Response already submitted'
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  IF v_participant.status = 'DECLINED' THEN
+    RAISE EXCEPTION 'INVALID_ACTION: Participant has declined this evaluation'
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  -- Check evaluation is still open
+  SELECT * INTO v_instance FROM evaluation_instances WHERE id = p_evaluation_id;
+  IF v_instance.status NOT IN ('PENDING', 'IN_PROGRESS') THEN
+    RAISE EXCEPTION 'INVALID_ACTION: Evaluation is no longer accepting responses (status: %)', v_instance.status
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  -- Validate choice and rating values against the template
+  SELECT signal_schema INTO v_signal_schema FROM evaluation_templates WHERE id = v_instance.template_id;
+  PERFORM validate_evaluation_response(COALESCE(v_signal_schema, '[]'::jsonb), p_response_data);
+
+  -- Insert response (immutable)
+  INSERT INTO evaluation_responses (tenant_id, participant_id, response_data)
+  VALUES (v_participant.tenant_id, v_participant.id, p_response_data)
+  RETURNING * INTO v_response;
+
+  -- Update participant status
+  UPDATE evaluation_participants
+  SET status = 'SUBMITTED', submitted_at = NOW()
+  WHERE id = v_participant.id;
+
+  -- Update evaluation instance status if needed
+  IF v_instance.status = 'PENDING' THEN
+    UPDATE evaluation_instances
+    SET status = 'IN_PROGRESS', updated_at = NOW()
+    WHERE id = p_evaluation_id;
+  END IF;
+
+  RAISE LOG 'EVALUATION_RESPONSE: evaluation=% participant=% user=%',
+    p_evaluation_id, v_participant.id, p_user_id;
+
+  RETURN v_response;
+END;
+$$;
+
+COMMENT ON FUNCTION submit_evaluation_response IS 'Submit an evaluation response. Immutable once submitted.';
+
+-- ============================================================================
+-- PART 3: evaluate_signal_condition()
+-- ============================================================================
+-- Operators per signal type:
+--   boolean                  =  !=
+--   integer, float, rating   =  !=  >  >=  <  <=  in
+--   text                     =  !=  in  contains (substring)
+--   enum                     =  !=  in
+--   multi_select             =  !=  (same set)  in (any selected value listed)
+--                            contains (every expected value selected)
+--
+-- "in" expects a JSON array of values; "contains" a single value or a JSON
+-- array. A scalar given to "in" is treated as a one-element list.
+
+CREATE OR REPLACE FUNCTION signal_expected_values(p_expected TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT CASE
+    WHEN LEFT(BTRIM(p_expected), 1) = '['
+      THEN ARRAY(SELECT jsonb_array_elements_text(p_expected::JSONB))
+    ELSE ARRAY[p_expected]
+  END;
+$$;
+
+COMMENT ON FUNCTION signal_expected_values IS 'Expected value(s) of an in / contains condition as a text array';
+
+CREATE OR REPLACE FUNCTION evaluate_signal_condition(
+  p_signal_key TEXT,
+  p_actual_text TEXT,
+  p_actual_numeric NUMERIC,
+  p_actual_boolean BOOLEAN,
+  p_signal_type TEXT,
+  p_operator TEXT,
+  p_expected TEXT
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_result BOOLEAN;
+  v_actual_set JSONB;
+  v_expected_set JSONB;
+BEGIN
+  -- Handle missing signal
+  IF p_actual_text IS NULL AND p_actual_numeric IS NULL AND p_actual_boolean IS NULL THEN
+    RAISE WARNING 'Signal "%" not found for evaluation', p_signal_key;
+    RETURN FALSE;
+  END IF;
+
+  -- Type-safe evaluation based on signal_type
+  CASE p_signal_type
+    WHEN 'boolean' THEN
+      IF p_operator = '=' THEN
+        v_result := p_actual_boolean = (p_expected::BOOLEAN);
+      ELSIF p_operator = '!=' THEN
+        v_result := p_actual_boolean != (p_expected::BOOLEAN);
+      ELSE
+        RAISE WARNING 'Invalid operator "%" for boolean signal "%"', p_operator, p_signal_key;
+        RETURN FALSE;
+      END IF;
+
+    WHEN 'integer', 'float', 'rating' THEN
+      CASE p_operator
+        WHEN '=' THEN v_result := p_actual_numeric = (p_expected::NUMERIC);
+        WHEN '!=' THEN v_result := p_actual_numeric != (p_expected::NUMERIC);
+        WHEN '>' THEN v_result := p_actual_numeric > (p_expected::NUMERIC);
+        WHEN '>=' THEN v_result := p_actual_numeric >= (p_expected::NUMERIC);
+        WHEN '<' THEN v_result := p_actual_numeric < (p_expected::NUMERIC);
+        WHEN '<=' THEN v_result := p_actual_numeric <= (p_expected::NUMERIC);
+        WHEN 'in' THEN
+          v_result := p_actual_numeric IN (SELECT e::NUMERIC FROM unnest(signal_expected_values(p_expected)) e);
+        ELSE
+          RAISE WARNING 'Invalid operator "%" for numeric signal "%"', p_operator, p_signal_key;
+          RETURN FALSE;
+      END CASE;
+
+    WHEN 'text', 'enum' THEN
+      IF p_operator = '=' THEN
+        v_result := p_actual_text = p_expected;
+      ELSIF p_operator = '!=' THEN
+        v_result := p_actual_text != p_expected;
+      ELSIF p_operator = 'in' THEN
+        v_result := p_actual_text = ANY(signal_expected_values(p_expected));
+      ELSIF p_operator = 'contains' AND p_signal_type = 'text' THEN
+        v_result := POSITION(p_expected IN p_actual_text) > 0;
+      ELSE
+        RAISE WARNING 'Invalid operator "%" for % signal "%"', p_operator, p_signal_type, p_signal_key;
+        RETURN FALSE;
+      END IF;
+
+    WHEN 'multi_select' THEN
+      v_actual_set := p_actual_text::JSONB;
+      v_expected_set := to_jsonb(signal_expected_values(p_expected));
+
+      CASE p_operator
+        WHEN '=' THEN v_result := v_actual_set @> v_expected_set AND v_expected_set @> v_actual_set;
+        WHEN '!=' THEN v_result := NOT (v_actual_set @> v_expected_set AND v_expected_set @> v_actual_set);
+        WHEN 'in' THEN v_result := v_actual_set ?| signal_expected_values(p_expected);
+        WHEN 'contains' THEN v_result := v_actual_set @> v_expected_set;
+        ELSE
+          RAISE WARNING 'Invalid operator "%" for multi_select signal "%"', p_operator, p_signal_key;
+          RETURN FALSE;
+      END CASE;
+
+    ELSE
+      RAISE WARNING 'Unknown signal type "%" for signal "%"', p_signal_type, p_signal_key;
+      RETURN FALSE;
+  END CASE;
+
+  RETURN COALESCE(v_result, FALSE);
+
+EXCEPTION WHEN OTHERS THEN
+  -- Log the error, don't silently swallow
+  RAISE WARNING 'Signal evaluation failed for "%": % % % (error: %)',
+    p_signal_key, p_actual_text, p_operator, p_expected, SQLERRM;
+  RETURN FALSE;
+END;
+$$;
+
+COMMENT ON FUNCTION evaluate_signal_condition IS 'Type-safe signal condition evaluation with logging';
+
+-- ============================================================================
+-- PART 4: Aggregation
+-- ============================================================================
+-- Rules for the new types (other types unchanged):
+--   enum          MAJORITY   option chosen most often; no signal on a tie
+--                 UNANIMOUS  the option when every response agrees, else no signal
+--   multi_select  MAJORITY   options selected by more than half of the responses
+--                 ANY        options selected by at least one response (union)
+--                 UNANIMOUS  options selected by every response (intersection)
+--   rating        AVERAGE    mean score
+
+-- 4a: Append one evaluation-sourced signal, superseding the current value
+CREATE OR REPLACE FUNCTION record_evaluation_signal(
+  p_instance evaluation_instances,
+  p_signal_key TEXT,
+  p_signal_type TEXT,
+  p_value_boolean BOOLEAN,
+  p_value_numeric NUMERIC,
+  p_value_text TEXT
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_old_signal_id UUID;
+  v_new_signal_id UUID;
+BEGIN
+  -- Mark old signal as superseded (APPEND-ONLY)
+  SELECT id INTO v_old_signal_id
+  FROM application_signals
+  WHERE application_id = p_instance.application_id
+    AND signal_key = p_signal_key
+    AND superseded_at IS NULL;
+
+  IF v_old_signal_id IS NOT NULL THEN
+    UPDATE application_signals
+    SET superseded_at = NOW()
+    WHERE id = v_old_signal_id;
+  END IF;
+
+  -- Insert new signal (never overwrite)
+  INSERT INTO application_signals (
+    tenant_id, application_id, signal_key, signal_type,
+    signal_value_boolean, signal_value_numeric, signal_value_text,
+    source_type, source_id, set_at
+  ) VALUES (
+    p_instance.tenant_id, p_instance.application_id,
+    p_signal_key, p_signal_type,
+    p_value_boolean, p_value_numeric, p_value_text,
+    'EVALUATION', p_instance.id, NOW()
+  )
+  RETURNING id INTO v_new_signal_id;
+
+  -- Link old signal to new one for audit trail
+  IF v_old_signal_id IS NOT NULL THEN
+    UPDATE application_signals
+    SET superseded_by = v_new_signal_id
+    WHERE id = v_old_signal_id;
+  END IF;
+
+  RAISE LOG 'SIGNAL_AGGREGATION: app=% signal=% type=% value=% from evaluation=%',
+    p_instance.application_id, p_signal_key, p_signal_type,
+    COALESCE(p_value_boolean::TEXT, p_value_numeric::TEXT, p_value_text),
+    p_instance.id;
+END;
+$$;
+
+-- 4b: aggregate_evaluation_signals()
+CREATE OR REPLACE FUNCTION aggregate_evaluation_signals(
+  p_evaluation_id UUID
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_instance evaluation_instances%ROWTYPE;
+  v_template evaluation_templates%ROWTYPE;
+  v_signal_def JSONB;
+  v_signal_key TEXT;
+  v_signal_type TEXT;
+  v_aggregation TEXT;
+  v_value_boolean BOOLEAN;
+  v_value_numeric NUMERIC;
+  v_value_text TEXT;
+  v_weight NUMERIC;
+  v_signal_average NUMERIC;
+  v_weighted_score NUMERIC;
+BEGIN
+  -- Get evaluation instance and template
+  SELECT * INTO v_instance FROM evaluation_instances WHERE id = p_evaluation_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Evaluation instance not found: %', p_evaluation_id;
+  END IF;
+
+  SELECT * INTO v_template FROM evaluation_templates WHERE id = v_instance.template_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Evaluation template not found: %', v_instance.template_id;
+  END IF;
+
+  -- For each signal in template
+  FOR v_signal_def IN SELECT * FROM jsonb_array_elements(v_template.signal_schema) LOOP
+    v_signal_key := v_signal_def->>'key';
+    v_signal_type := v_signal_def->>'type';
+    -- PER-SIGNAL aggregation, fallback to template default
+    v_aggregation := COALESCE(v_signal_def->>'aggregation', v_template.default_aggregation);
+
+    -- Weighted signals contribute weight x average response to the score,
+    -- whatever their own aggregation
+    v_weight := (v_signal_def->>'weight')::NUMERIC;
+    IF v_weight IS NOT NULL AND v_signal_type IN ('integer', 'float', 'rating') THEN
+      SELECT AVG((er.response_data->>v_signal_key)::NUMERIC)
+      INTO v_signal_average
+      FROM evaluation_responses er
+      JOIN evaluation_participants ep ON ep.id = er.participant_id
+      WHERE ep.evaluation_id = p_evaluation_id
+        AND er.response_data ? v_signal_key;
+
+      IF v_signal_average IS NOT NULL THEN
+        v_weighted_score := COALESCE(v_weighted_score, 0) + v_weight * v_signal_average;
+      END IF;
+    END IF;
+
+    -- Reset values
+    v_value_boolean := NULL;
+    v_value_numeric := NULL;
+    v_value_text := NULL;
+
+    -- Skip text signals (no aggregation) or signals with null aggregation
+    IF v_signal_type = 'text' OR v_aggregation IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    -- Aggregate based on PER-SIGNAL aggregation rule
+    CASE v_aggregation
+      WHEN 'MAJORITY' THEN
+        IF v_signal_type = 'boolean' THEN
+          SELECT COUNT(*) FILTER (WHERE (er.response_data->>v_signal_key)::boolean = true) >
+                 COUNT(*) FILTER (WHERE (er.response_data->>v_signal_key)::boolean = false)
+          INTO v_value_boolean
+          FROM evaluation_responses er
+          JOIN evaluation_participants ep ON ep.id = er.participant_id
+          WHERE ep.evaluation_id = p_evaluation_id
+            AND er.response_data ? v_signal_key;
+        ELSIF v_signal_type = 'enum' THEN
+          SELECT CASE WHEN COUNT(*) = 1 THEN MIN(ranked.value) END
+          INTO v_value_text
+          FROM (
+            SELECT er.response_data->>v_signal_key AS value,
+                   RANK() OVER (ORDER BY COUNT(*) DESC) AS rnk
+            FROM evaluation_responses er
+            JOIN evaluation_participants ep ON ep.id = er.participant_id
+            WHERE ep.evaluation_id = p_evaluation_id
+              AND er.response_data->>v_signal_key IS NOT NULL
+            GROUP BY er.response_data->>v_signal_key
+          ) ranked
+          WHERE ranked.rnk = 1;
+        END IF;
+
+      WHEN 'AVERAGE' THEN
+        IF v_signal_type IN ('integer', 'float', 'rating') THEN
+          SELECT AVG((er.response_data->>v_signal_key)::NUMERIC)
+          INTO v_value_numeric
+          FROM evaluation_responses er
+          JOIN evaluation_participants ep ON ep.id = er.participant_id
+          WHERE ep.evaluation_id = p_evaluation_id
+            AND er.response_data ? v_signal_key;
+        END IF;
+
+      WHEN 'ANY' THEN
+        IF v_signal_type = 'boolean' THEN
+          SELECT bool_or((er.response_data->>v_signal_key)::boolean)
+          INTO v_value_boolean
+          FROM evaluation_responses er
+          JOIN evaluation_participants ep ON ep.id = er.participant_id
+          WHERE ep.evaluation_id = p_evaluation_id
+            AND er.response_data ? v_signal_key;
+        END IF;
+
+      WHEN 'UNANIMOUS' THEN
+        IF v_signal_type = 'boolean' THEN
+          SELECT bool_and((er.response_data->>v_signal_key)::boolean)
+          INTO v_value_boolean
+          FROM evaluation_responses er
+          JOIN evaluation_participants ep ON ep.id = er.participant_id
+          WHERE ep.evaluation_id = p_evaluation_id
+            AND er.response_data ? v_signal_key;
+        ELSIF v_signal_type = 'enum' THEN
+          SELECT CASE WHEN COUNT(DISTINCT er.response_data->>v_signal_key) = 1
+                   THEN MIN(er.response_data->>v_signal_key) END
+          INTO v_value_text
+          FROM evaluation_responses er
+          JOIN evaluation_participants ep ON ep.id = er.participant_id
+          WHERE ep.evaluation_id = p_evaluation_id
+            AND er.response_data->>v_signal_key IS NOT NULL;
+        END IF;
+
+      ELSE
+        NULL;
+    END CASE;
+
+    -- multi_select: keep options picked by enough responses for the rule
+    IF v_signal_type = 'multi_select' AND v_aggregation IN ('MAJORITY', 'ANY', 'UNANIMOUS') THEN
+      WITH picks AS (
+        SELECT er.response_data->v_signal_key AS selected
+        FROM evaluation_responses er
+        JOIN evaluation_participants ep ON ep.id = er.participant_id
+        WHERE ep.evaluation_id = p_evaluation_id
+          AND jsonb_typeof(er.response_data->v_signal_key) = 'array'
+      ),
+      option_counts AS (
+        SELECT o.value, COUNT(*) AS picked
+        FROM picks p, jsonb_array_elements_text(p.selected) o(value)
+        GROUP BY o.value
+      )
+      SELECT CASE WHEN (SELECT COUNT(*) FROM picks) > 0 THEN
+        COALESCE((
+          SELECT jsonb_agg(c.value ORDER BY c.value)
+          FROM option_counts c
+          WHERE CASE v_aggregation
+            WHEN 'MAJORITY' THEN c.picked * 2 > (SELECT COUNT(*) FROM picks)
+            WHEN 'ANY' THEN c.picked >= 1
+            ELSE c.picked = (SELECT COUNT(*) FROM picks)
+          END
+        ), '[]'::jsonb)::TEXT
+      END
+      INTO v_value_text;
+    END IF;
+
+    -- Skip if no value was aggregated (no responses with this signal)
+    IF v_value_boolean IS NULL AND v_value_numeric IS NULL AND v_value_text IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    PERFORM record_evaluation_signal(
+      v_instance, v_signal_key, v_signal_type, v_value_boolean, v_value_numeric, v_value_text
+    );
+  END LOOP;
+
+  -- Weighted score across weighted signals
+  IF v_template.score_signal_key IS NOT NULL AND v_weighted_score IS NOT NULL THEN
+    PERFORM record_evaluation_signal(
+      v_instance, v_template.score_signal_key, 'float', NULL, ROUND(v_weighted_score, 4), NULL
+    );
+  END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION aggregate_evaluation_signals IS 'Aggregates signals from evaluation responses using per-signal aggregation rules, plus the weighted score';
+
+-- ============================================================================
+-- PART 5: search_signal_matches() + search_applications()
+-- ============================================================================
+-- Signal filters of search_applications() (20260301000001_application_search.sql)
+-- move into search_signal_matches(), which adds the new types:
+--   enum          option value must equal the filter
+--   multi_select  every value in the filter must be selected; the filter is
+--                 one option value or a JSON array of them
+--   rating        compared numerically, like integer and float
+
+CREATE OR REPLACE FUNCTION search_signal_matches(
+  p_signal_type TEXT,
+  p_value_text TEXT,
+  p_value_numeric NUMERIC,
+  p_value_boolean BOOLEAN,
+  p_filter TEXT
+) RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT CASE p_signal_type
+    WHEN 'boolean' THEN p_value_boolean::TEXT = LOWER(p_filter)
+    WHEN 'text' THEN p_value_text = p_filter
+    WHEN 'enum' THEN p_value_text = p_filter
+    WHEN 'multi_select' THEN p_value_text::JSONB @> to_jsonb(signal_expected_values(p_filter))
+    ELSE CASE WHEN p_filter ~ '^-?[0-9]+(\.[0-9]+)?$'
+      THEN p_value_numeric = p_filter::NUMERIC
+      ELSE FALSE
+    END
+  END;
+$$;
+
+COMMENT ON FUNCTION search_signal_matches IS 'Whether a signal value matches a search_applications() signal filter value';
+
+-- Unchanged apart from the signal filter calling search_signal_matches()
+CREATE OR REPLACE FUNCTION search_applications(
+  p_tenant_id UUID,
+  p_query TEXT DEFAULT NULL,
+  p_job_id UUID DEFAULT NULL,
+  p_stage_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_signals JSONB DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INT DEFAULT 20,
+  p_offset INT DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_query TSQUERY;
+  v_headline_options TEXT := 'StartSel=' || chr(1) || ', StopSel=' || chr(2) ||
+    ', MaxFragments=3, MaxWords=20, MinWords=8, FragmentDelimiter=" … "';
+BEGIN
+  IF p_signals IS NOT NULL AND jsonb_typeof(p_signals) != 'object' THEN
+    RAISE EXCEPTION 'VALIDATION: signals must be an object of signal key to value' USING ERRCODE = 'P0009';
+  END IF;
+
+  IF NULLIF(btrim(p_query), '') IS NOT NULL THEN
+    v_query := websearch_to_tsquery('english', p_query) || websearch_to_tsquery('simple', p_query);
+  END IF;
+
+  RETURN (
+    WITH matched AS (
+      SELECT
+        a.id,
+        a.candidate_id,
+        a.applicant_name,
+        a.applicant_email,
+        a.job_id,
+        a.created_at,
+        aps.current_stage_id,
+        aps.status AS tracking_status,
+        CASE WHEN v_query IS NOT NULL THEN ts_rank_cd(d.search_vector, v_query) END AS rank,
+        d.document
+      FROM applications a
+      LEFT JOIN application_search_documents d ON d.application_id = a.id
+      LEFT JOIN application_pipeline_state aps ON aps.application_id = a.id
+      WHERE a.tenant_id = p_tenant_id
+        AND (v_query IS NULL OR d.search_vector @@ v_query)
+        AND (p_from IS NULL OR a.created_at >= p_from)
+        AND (p_to IS NULL OR a.created_at < p_to)
+        AND (p_signals IS NULL OR NOT EXISTS (
+          SELECT 1
+          FROM jsonb_each_text(p_signals) f
+          WHERE NOT EXISTS (
+            SELECT 1
+            FROM application_signals_latest s
+            WHERE s.application_id = a.id
+              AND s.signal_key = f.key
+              AND search_signal_matches(
+                s.signal_type, s.signal_value_text, s.signal_value_numeric, s.signal_value_boolean, f.value
+              )
+          )
+        ))
+    ),
+    filtered AS (
+      SELECT *
+      FROM matched m
+      WHERE (p_job_id IS NULL OR m.job_id = p_job_id)
+        AND (p_stage_id IS NULL OR m.current_stage_id = p_stage_id)
+        AND (p_status IS NULL OR m.tracking_status = p_status)
+    ),
+    page AS (
+      SELECT *
+      FROM filtered
+      ORDER BY rank DESC NULLS LAST, created_at DESC, id
+      LIMIT p_limit OFFSET p_offset
+    )
+    SELECT jsonb_build_object(
+      'total', (SELECT COUNT(*) FROM filtered),
+      'results', COALESCE(
+        (SELECT jsonb_agg(jsonb_build_object(
+          'application_id', p.id,
+          'candidate_id', p.candidate_id,
+          'applicant_name', p.applicant_name,
+          'applicant_email', p.applicant_email,
+          'job_id', p.job_id,
+          'job_title', j.title,
+          'stage_id', p.current_stage_id,
+          'stage_name', ps.stage_name,
+          'status', p.tracking_status,
+          'applied_at', p.created_at,
+          'rank', ROUND(p.rank::NUMERIC, 4),
+          'highlight', CASE WHEN v_query IS NOT NULL
+            THEN ts_headline('english', p.document, v_query, v_headline_options)
+          END
+        ) ORDER BY p.rank DESC NULLS LAST, p.created_at DESC, p.id)
+        FROM page p
+        JOIN jobs j ON j.id = p.job_id
+        LEFT JOIN pipeline_stages ps ON ps.id = p.current_stage_id),
+        '[]'::jsonb
+      ),
+      'facets', jsonb_build_object(
+        'jobs', COALESCE(
+          (SELECT jsonb_agg(jsonb_build_object('job_id', f.job_id, 'job_title', j.title, 'count', f.n)
+            ORDER BY f.n DESC, j.title)
+          FROM (
+            SELECT m.job_id, COUNT(*) AS n
+            FROM matched m
+            WHERE (p_stage_id IS NULL OR m.current_stage_id = p_stage_id)
+              AND (p_status IS NULL OR m.tracking_status = p_status)
+            GROUP BY m.job_id
+          ) f
+          JOIN jobs j ON j.id = f.job_id),
+          '[]'::jsonb
+        ),
+        'stages', COALESCE(
+          (SELECT jsonb_agg(jsonb_build_object('stage_id', f.stage_id, 'stage_name', ps.stage_name, 'count', f.n)
+            ORDER BY f.n DESC, ps.stage_name)
+          FROM (
+            SELECT m.current_stage_id AS stage_id, COUNT(*) AS n
+            FROM matched m
+            WHERE m.current_stage_id IS NOT NULL
+              AND (p_job_id IS NULL OR m.job_id = p_job_id)
+              AND (p_status IS NULL OR m.tracking_status = p_status)
+            GROUP BY m.current_stage_id
+          ) f
+          JOIN pipeline_stages ps ON ps.id = f.stage_id),
+          '[]'::jsonb
+        ),
+        'statuses', COALESCE(
+          (SELECT jsonb_agg(jsonb_build_object('status', f.status, 'count', f.n) ORDER BY f.n DESC, f.status)
+          FROM (
+            SELECT m.tracking_status AS status, COUNT(*) AS n
+            FROM matched m
+            WHERE m.tracking_status IS NOT NULL
+              AND (p_job_id IS NULL OR m.job_id = p_job_id)
+              AND (p_stage_id IS NULL OR m.current_stage_id = p_stage_id)
+            GROUP BY m.tracking_status
+          ) f),
+          '[]'::jsonb
+        )
+      )
+    )
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION search_applications IS 'Ranked full-text application search with highlights and job/stage/status facets (jobs service)';
@@ -0,0 +1,295 @@
+-- ============================================================================
+-- CALIBRATION ANALYTICS - inter-rater calibration per template and interviewer
+-- ============================================================================
+-- Compares each interviewer's raw scores in evaluation_responses with the
+-- other panelists on the same evaluations, to surface "hawks" (consistently
+-- harsher than their panels) and "doves" (consistently more lenient).
+--
+-- Scored signals are the integer, float, rating and boolean signals of the
+-- template's latest version (booleans count as 1 / 0). Responses on every
+-- version of the template are included.
+--
+-- Part 1: get_calibration_analytics() (analytics service)
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: get_calibration_analytics()
+-- ============================================================================
+-- Per interviewer and signal:
+--   panel_mean     average of the other panelists' scores on the same evaluations
+--   deviation      average of (own score - other panelists' mean), panels of 2+
+--   z_score        deviation / standard deviation of all scores for the signal
+--   outlier_rate   share of panels of 3+ where their score is the single one
+--                  furthest from the panel mean
+-- Per interviewer:
+--   mean_z_score   average z_score over signals with at least p_min_panels panels
+--   flag           HAWK when mean_z_score <= -p_deviation_threshold,
+--                  DOVE when mean_z_score >= p_deviation_threshold
+--   pass           votes on the pass signal (default: first boolean signal)
+--                  against the application's final outcome_type
+--
+-- Cohort filters match get_funnel_analytics (application created_at, job,
+-- department, pipeline). Responses of CANCELLED evaluations are ignored.
+
+CREATE OR REPLACE FUNCTION get_calibration_analytics(
+  p_tenant_id UUID,
+  p_template_id UUID,
+  p_interviewer_id UUID DEFAULT NULL,
+  p_pass_signal TEXT DEFAULT NULL,
+  p_deviation_threshold NUMERIC DEFAULT 0.5,
+  p_min_panels INT DEFAULT 5,
+  p_pipeline_id UUID DEFAULT NULL,
+  p_job_id UUID DEFAULT NULL,
+  p_department TEXT DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_latest evaluation_templates;
+  v_pass_signal TEXT;
+BEGIN
+  SELECT * INTO v_latest
+  FROM evaluation_template_lineage(p_tenant_id, p_template_id)
+  WHERE is_latest = TRUE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Template % not found', p_template_id
+      USING ERRCODE = 'P0004';
+  END IF;
+
+  IF p_pass_signal IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(v_latest.signal_schema) s
+      WHERE s->>'key' = p_pass_signal AND s->>'type' = 'boolean'
+    ) THEN
+      RAISE EXCEPTION 'VALIDATION: pass_signal must be a boolean signal of the template'
+        USING ERRCODE = 'P0009';
+    END IF;
+    v_pass_signal := p_pass_signal;
+  ELSE
+    SELECT x.s->>'key' INTO v_pass_signal
+    FROM jsonb_array_elements(v_latest.signal_schema) WITH ORDINALITY AS x(s, n)
+    WHERE x.s->>'type' = 'boolean'
+    ORDER BY x.n
+    LIMIT 1;
+  END IF;
+
+  RETURN (
+    WITH signals AS (
+      SELECT x.s->>'key' AS key, x.s->>'label' AS label, x.s->>'type' AS type, x.n
+      FROM jsonb_array_elements(v_latest.signal_schema) WITH ORDINALITY AS x(s, n)
+      WHERE x.s->>'type' IN ('boolean', 'integer', 'float', 'rating')
+    ),
+    responses AS (
+      SELECT
+        ei.id AS evaluation_id,
+        ep.user_id,
+        er.response_data,
+        COALESCE(aps.is_terminal, FALSE) AS is_terminal,
+        aps.outcome_type
+      FROM evaluation_responses er
+      JOIN evaluation_participants ep ON ep.id = er.participant_id
+      JOIN evaluation_instances ei ON ei.id = ep.evaluation_id
+      JOIN applications a ON a.id = ei.application_id
+      JOIN jobs j ON j.id = a.job_id
+      LEFT JOIN application_pipeline_state aps ON aps.application_id = ei.application_id
+      WHERE ei.tenant_id = p_tenant_id
+        AND ei.status != 'CANCELLED'
+        AND ei.template_id IN (SELECT l.id FROM evaluation_template_lineage(p_tenant_id, p_template_id) l)
+        AND (p_pipeline_id IS NULL OR aps.pipeline_id = p_pipeline_id)
+        AND (p_job_id IS NULL OR a.job_id = p_job_id)
+        AND (p_department IS NULL OR j.department = p_department)
+        AND (p_from IS NULL OR a.created_at >= p_from)
+        AND (p_to IS NULL OR a.created_at < p_to)
+    ),
+    -- One row per response and scored signal
+    scores AS (
+      SELECT
+        r.evaluation_id,
+        r.user_id,
+        s.key,
+        CASE WHEN s.type = 'boolean'
+          THEN CASE WHEN (r.response_data->>s.key)::BOOLEAN THEN 1 ELSE 0 END
+          ELSE (r.response_data->>s.key)::NUMERIC
+        END AS score
+      FROM responses r
+      JOIN signals s
+        ON jsonb_typeof(r.response_data->s.key) = CASE WHEN s.type = 'boolean' THEN 'boolean' ELSE 'number' END
+    ),
+    panels AS (
+      SELECT
+        sc.*,
+        COUNT(*) OVER w AS panel_size,
+        SUM(sc.score) OVER w AS panel_sum,
+        AVG(sc.score) OVER w AS panel_mean
+      FROM scores sc
+      WINDOW w AS (PARTITION BY sc.evaluation_id, sc.key)
+    ),
+    distances AS (
+      SELECT
+        p.*,
+        CASE WHEN p.panel_size > 1 THEN (p.panel_sum - p.score) / (p.panel_size - 1) END AS others_mean,
+        ABS(p.score - p.panel_mean) AS distance,
+        MAX(ABS(p.score - p.panel_mean)) OVER (PARTITION BY p.evaluation_id, p.key) AS max_distance
+      FROM panels p
+    ),
+    outliers AS (
+      SELECT
+        d.*,
+        d.panel_size >= 3
+          AND d.distance > 0
+          AND d.distance = d.max_distance
+          AND COUNT(*) FILTER (WHERE d.distance = d.max_distance)
+                OVER (PARTITION BY d.evaluation_id, d.key) = 1 AS is_outlier
+      FROM distances d
+    ),
+    signal_stats AS (
+      SELECT sc.key, COUNT(*) AS responses, AVG(sc.score) AS mean, STDDEV_POP(sc.score) AS stddev
+      FROM scores sc
+      GROUP BY sc.key
+    ),
+    interviewer_signals AS (
+      SELECT
+        o.user_id,
+        o.key,
+        COUNT(*) AS responses,
+        AVG(o.score) AS mean,
+        VAR_SAMP(o.score) AS variance,
+        COUNT(o.others_mean) AS panels,
+        AVG(o.others_mean) AS panel_mean,
+        AVG(o.score - o.others_mean) AS deviation,
+        COUNT(*) FILTER (WHERE o.panel_size >= 3) AS outlier_eligible,
+        COUNT(*) FILTER (WHERE o.is_outlier) AS outlier_panels
+      FROM outliers o
+      GROUP BY o.user_id, o.key
+    ),
+    interviewer_z AS (
+      SELECT i.*, CASE WHEN st.stddev > 0 THEN i.deviation / st.stddev END AS z_score
+      FROM interviewer_signals i
+      JOIN signal_stats st ON st.key = i.key
+    ),
+    interviewer_flags AS (
+      SELECT z.user_id, AVG(z.z_score) FILTER (WHERE z.panels >= p_min_panels) AS mean_z
+      FROM interviewer_z z
+      GROUP BY z.user_id
+    ),
+    pass_votes AS (
+      SELECT r.user_id, (r.response_data->>v_pass_signal)::BOOLEAN AS passed, r.is_terminal, r.outcome_type
+      FROM responses r
+      WHERE v_pass_signal IS NOT NULL
+        AND jsonb_typeof(r.response_data->v_pass_signal) = 'boolean'
+    ),
+    pass_stats AS (
+      SELECT
+        v.user_id,
+        COUNT(*) AS responses,
+        COUNT(*) FILTER (WHERE v.passed) AS passed,
+        COUNT(*) FILTER (WHERE v.is_terminal) AS decided,
+        COUNT(*) FILTER (WHERE v.is_terminal AND v.passed = (v.outcome_type = 'SUCCESS')) AS agreed,
+        COUNT(*) FILTER (WHERE v.is_terminal AND v.passed) AS passed_decided,
+        COUNT(*) FILTER (WHERE v.is_terminal AND v.passed AND v.outcome_type = 'SUCCESS') AS passed_hired,
+        COUNT(*) FILTER (WHERE v.is_terminal AND NOT v.passed) AS rejected_decided,
+        COUNT(*) FILTER (WHERE v.is_terminal AND NOT v.passed AND v.outcome_type = 'SUCCESS') AS rejected_hired
+      FROM pass_votes v
+      GROUP BY v.user_id
+    ),
+    interviewers AS (
+      SELECT r.user_id, COUNT(*) AS responses, COUNT(DISTINCT r.evaluation_id) AS evaluations
+      FROM responses r
+      WHERE p_interviewer_id IS NULL OR r.user_id = p_interviewer_id
+      GROUP BY r.user_id
+    )
+    SELECT jsonb_build_object(
+      'template_id', v_latest.id,
+      'template_name', v_latest.name,
+      'version', v_latest.version,
+      'pass_signal', v_pass_signal,
+      'deviation_threshold', p_deviation_threshold,
+      'min_panels', p_min_panels,
+      'evaluations', (SELECT COUNT(DISTINCT r.evaluation_id) FROM responses r),
+      'responses', (SELECT COUNT(*) FROM responses),
+      'signals', COALESCE(
+        (SELECT jsonb_agg(jsonb_build_object(
+          'key', s.key,
+          'label', s.label,
+          'type', s.type,
+          'responses', COALESCE(st.responses, 0),
+          'mean', ROUND(st.mean, 4),
+          'stddev', ROUND(st.stddev, 4)
+        ) ORDER BY s.n)
+        FROM signals s
+        LEFT JOIN signal_stats st ON st.key = s.key),
+        '[]'::jsonb
+      ),
+      'pass_baseline', CASE WHEN v_pass_signal IS NOT NULL THEN (
+        SELECT jsonb_build_object(
+          'responses', COUNT(*),
+          'pass_rate', ROUND(COUNT(*) FILTER (WHERE v.passed)::NUMERIC / NULLIF(COUNT(*), 0), 4),
+          'decided', COUNT(*) FILTER (WHERE v.is_terminal),
+          'hire_rate', ROUND(
+            COUNT(*) FILTER (WHERE v.is_terminal AND v.outcome_type = 'SUCCESS')::NUMERIC
+              / NULLIF(COUNT(*) FILTER (WHERE v.is_terminal), 0),
+            4
+          )
+        )
+        FROM pass_votes v
+      ) END,
+      'interviewers', COALESCE(
+        (SELECT jsonb_agg(jsonb_build_object(
+          'user_id', iv.user_id,
+          'user_name', up.name,
+          'responses', iv.responses,
+          'evaluations', iv.evaluations,
+          'mean_z_score', ROUND(f.mean_z, 4),
+          'flag', CASE
+            WHEN f.mean_z <= -p_deviation_threshold THEN 'HAWK'
+            WHEN f.mean_z >= p_deviation_threshold THEN 'DOVE'
+          END,
+          'signals', COALESCE(
+            (SELECT jsonb_agg(jsonb_build_object(
+              'key', z.key,
+              'responses', z.responses,
+              'mean', ROUND(z.mean, 4),
+              'variance', ROUND(z.variance, 4),
+              'panels', z.panels,
+              'panel_mean', ROUND(z.panel_mean, 4),
+              'deviation', ROUND(z.deviation, 4),
+              'z_score', ROUND(z.z_score, 4),
+              'outlier_panels', z.outlier_panels,
+              'outlier_rate', ROUND(z.outlier_panels::NUMERIC / NULLIF(z.outlier_eligible, 0), 4)
+            ) ORDER BY s.n)
+            FROM interviewer_z z
+            JOIN signals s ON s.key = z.key
+            WHERE z.user_id = iv.user_id),
+            '[]'::jsonb
+          ),
+          'pass', (
+            SELECT jsonb_build_object(
+              'responses', ps.responses,
+              'pass_rate', ROUND(ps.passed::NUMERIC / ps.responses, 4),
+              'decided', ps.decided,
+              'agreement_rate', ROUND(ps.agreed::NUMERIC / NULLIF(ps.decided, 0), 4),
+              'passed_hire_rate', ROUND(ps.passed_hired::NUMERIC / NULLIF(ps.passed_decided, 0), 4),
+              'rejected_hire_rate', ROUND(ps.rejected_hired::NUMERIC / NULLIF(ps.rejected_decided, 0), 4)
+            )
+            FROM pass_stats ps
+            WHERE ps.user_id = iv.user_id
+          )
+        ) ORDER BY ABS(f.mean_z) DESC NULLS LAST, iv.responses DESC)
+        FROM interviewers iv
+        LEFT JOIN interviewer_flags f ON f.user_id = iv.user_id
+        LEFT JOIN user_profiles up ON up.id = iv.user_id),
+        '[]'::jsonb
+      )
+    )
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION get_calibration_analytics IS 'Inter-rater calibration of an evaluation template: per-interviewer deviation from their panels, outliers and pass vs hire outcome (analytics service)';
@@ -0,0 +1,389 @@
+-- ============================================================================
+-- BLIND EVALUATIONS - hide other panelists' work until you have submitted
+-- ============================================================================
+-- A blind PANEL evaluation guarantees that a panelist sees no other
+-- participant's responses, submission status, signals or aggregate until
+-- they have submitted their own response.
+--
+-- Blindness is resolved when read, never stored on the instance:
+--   evaluation_templates.blind                    TRUE / FALSE, or NULL to
+--                                                 use the tenant default
+--   tenant_settings.config -> evaluations.blind   tenant default (FALSE if unset)
+-- Only PANEL templates can be blind. Changing blind on a referenced template
+-- creates a new version like any other template change, so a running panel
+-- keeps its setting. A change to the tenant default applies at once.
+--
+-- A user is "blinded" on an instance while the instance is PENDING or
+-- IN_PROGRESS, its template is blind, and the user is a PENDING participant.
+-- Other users (HR who are not on the panel, panelists who have submitted)
+-- are not affected. While blinded on any instance of an application, the
+-- user also cannot read that application's signals or decision log.
+--
+-- The evaluations, application-detail and tracking services and
+-- search_applications() enforce this through blinded_evaluations(); RLS
+-- enforces it for direct table access.
+--
+-- Part 1: evaluation_templates.blind
+-- Part 2: blinded_evaluations()
+-- Part 3: RLS (evaluation_participants, evaluation_responses, application_signals,
+--         action_execution_log)
+-- Part 4: Board signal filters (board_blind_signal_filter)
+-- Part 5: application_profile_search_vector() + search_applications() - blinded
+--         callers
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: evaluation_templates.blind
+-- ============================================================================
+
+ALTER TABLE evaluation_templates
+  ADD COLUMN blind BOOLEAN;
+
+ALTER TABLE evaluation_templates
+  ADD CONSTRAINT evaluation_templates_blind_panel_check
+  CHECK (blind IS DISTINCT FROM TRUE OR participant_type = 'PANEL');
+
+COMMENT ON COLUMN evaluation_templates.blind IS
+  'PANEL only: hide other panelists'' responses until submission. NULL uses tenant_settings.config.evaluations.blind';
+
+-- ============================================================================
+-- PART 2: blinded_evaluations()
+-- ============================================================================
+-- Open blind instances on which p_user_id has not submitted yet.
+
+CREATE OR REPLACE FUNCTION blinded_evaluations(p_tenant_id UUID, p_user_id UUID)
+RETURNS TABLE (evaluation_id UUID, application_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT i.id, i.application_id
+  FROM evaluation_participants p
+  JOIN evaluation_instances i ON i.id = p.evaluation_id
+  JOIN evaluation_templates t ON t.id = i.template_id
+  LEFT JOIN tenant_settings s ON s.tenant_id = i.tenant_id
+  WHERE p.tenant_id = p_tenant_id
+    AND p.user_id = p_user_id
+    AND p.status = 'PENDING'
+    AND i.status IN ('PENDING', 'IN_PROGRESS')
+    AND t.participant_type = 'PANEL'
+    AND COALESCE(t.blind, s.config #> '{evaluations,blind}' = 'true'::jsonb, FALSE);
+$$;
+
+COMMENT ON FUNCTION blinded_evaluations IS
+  'Open blind PANEL evaluations where the user is still a PENDING participant';
+
+-- ============================================================================
+-- PART 3: RLS
+-- ============================================================================
+-- "HR can manage participants" and "Admins can manage signals" were FOR ALL,
+-- which also grants SELECT. They are split so that reads can be filtered
+-- without limiting writes.
+
+-- 3a. evaluation_participants: a blinded HR user sees only their own row
+--     ("Users can view their own participation")
+DROP POLICY IF EXISTS "HR can manage participants" ON evaluation_participants;
+
+CREATE POLICY "HR can view participants" ON evaluation_participants
+  FOR SELECT
+  USING (
+    tenant_id = get_tenant_id()
+    AND can_manage_tracking()
+    AND evaluation_id NOT IN (SELECT b.evaluation_id FROM blinded_evaluations(get_tenant_id(), auth.uid()) b)
+  );
+
+CREATE POLICY "HR can insert participants" ON evaluation_participants
+  FOR INSERT
+  WITH CHECK (tenant_id = get_tenant_id() AND can_manage_tracking());
+
+CREATE POLICY "HR can update participants" ON evaluation_participants
+  FOR UPDATE
+  USING (tenant_id = get_tenant_id() AND can_manage_tracking())
+  WITH CHECK (tenant_id = get_tenant_id() AND can_manage_tracking());
+
+CREATE POLICY "HR can delete participants" ON evaluation_participants
+  FOR DELETE
+  USING (tenant_id = get_tenant_id() AND can_manage_tracking());
+
+-- 3b. evaluation_responses: hide responses on instances the viewer is blinded on
+DROP POLICY IF EXISTS "HR can view all responses" ON evaluation_responses;
+CREATE POLICY "HR can view all responses" ON evaluation_responses
+  FOR SELECT
+  USING (
+    tenant_id = get_tenant_id()
+    AND can_manage_tracking()
+    AND EXISTS (
+      SELECT 1 FROM evaluation_participants ep
+      WHERE ep.id = evaluation_responses.participant_id
+        AND ep.evaluation_id NOT IN (SELECT b.evaluation_id FROM blinded_evaluations(get_tenant_id(), auth.uid()) b)
+    )
+  );
+
+-- 3c. application_signals: hide every signal of an application the viewer is
+--     blinded on (earlier rounds anchor as much as the current one)
+DROP POLICY IF EXISTS "HR can view signals" ON application_signals;
+CREATE POLICY "HR can view signals" ON application_signals
+  FOR SELECT
+  USING (
+    tenant_id = get_tenant_id()
+    AND can_manage_tracking()
+    AND application_id NOT IN (SELECT b.application_id FROM blinded_evaluations(get_tenant_id(), auth.uid()) b)
+  );
+
+DROP POLICY IF EXISTS "Admins can manage signals" ON application_signals;
+
+CREATE POLICY "Admins can insert signals" ON application_signals
+  FOR INSERT
+  WITH CHECK (tenant_id = get_tenant_id() AND can_manage_settings());
+
+CREATE POLICY "Admins can update signals" ON application_signals
+  FOR UPDATE
+  USING (tenant_id = get_tenant_id() AND can_manage_settings())
+  WITH CHECK (tenant_id = get_tenant_id() AND can_manage_settings());
+
+CREATE POLICY "Admins can delete signals" ON application_signals
+  FOR DELETE
+  USING (tenant_id = get_tenant_id() AND can_manage_settings());
+
+-- 3d. action_execution_log: decisions carry a signal_snapshot
+DROP POLICY IF EXISTS "HR can view execution log" ON action_execution_log;
+CREATE POLICY "HR can view execution log" ON action_execution_log
+  FOR SELECT
+  USING (
+    tenant_id = get_tenant_id()
+    AND can_manage_tracking()
+    AND application_id NOT IN (SELECT b.application_id FROM blinded_evaluations(get_tenant_id(), auth.uid()) b)
+  );
+
+-- 3e. application_signals_latest ran with its owner's rights, bypassing the
+--     policies above. Evaluate them as the querying user instead; the RPCs
+--     that read it are SECURITY DEFINER and are not affected.
+ALTER VIEW application_signals_latest SET (security_invoker = true);
+
+-- ============================================================================
+-- PART 4: Board signal filters
+-- ============================================================================
+-- The "signals" view filter runs evaluate_automation_conditions(), which
+-- reads signals with definer rights. A blinded user could otherwise narrow
+-- the filter until a card appears or disappears and read the value off it,
+-- so their blinded applications never match a signal filter. Signal sort
+-- values already come through RLS and are NULL for them.
+
+CREATE OR REPLACE FUNCTION board_blind_signal_filter(
+  p_application_id UUID,
+  p_filters JSONB
+) RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_filters->'signals' IS NULL
+    OR p_application_id NOT IN (
+      SELECT b.application_id FROM public.blinded_evaluations(public.get_tenant_id(), auth.uid()) b
+    );
+$$;
+
+-- "tag_ids" (20260304000001_application_tags.sql) and the rule above
+CREATE OR REPLACE FUNCTION board_extra_filter(
+  p_application_id UUID,
+  p_filters JSONB
+) RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT public.board_tag_filter(p_application_id, p_filters)
+    AND public.board_blind_signal_filter(p_application_id, p_filters);
+$$;
+
+-- ============================================================================
+-- PART 5: application_profile_search_vector() + search_applications() - blinded callers
+-- ============================================================================
+-- Search documents include every panelist's free-text answers. For an
+-- application the caller is blinded on, matching, ranking and highlights use
+-- only what the applicant submitted (application_profile_search_vector()),
+-- and signal filters never match. Adds p_user_id, so the old signature is
+-- dropped.
+
+-- Weights A and B of refresh_application_search_document()
+-- (20260301000001_application_search.sql): the applicant's own text, no notes
+CREATE OR REPLACE FUNCTION application_profile_search_vector(p_app applications)
+RETURNS TSVECTOR
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT setweight(to_tsvector('simple', concat_ws(' ',
+      p_app.applicant_name,
+      p_app.applicant_email,
+      regexp_replace(p_app.applicant_email, '[@._+-]', ' ', 'g')
+    )), 'A')
+    || setweight(to_tsvector('english', concat_ws(' ', p_app.cover_letter, p_app.resume_text)), 'B');
+$$;
+
+DROP FUNCTION IF EXISTS search_applications(UUID, TEXT, UUID, UUID, TEXT, JSONB, TIMESTAMPTZ, TIMESTAMPTZ, INT, INT);
+
+CREATE OR REPLACE FUNCTION search_applications(
+  p_tenant_id UUID,
+  p_user_id UUID,
+  p_query TEXT DEFAULT NULL,
+  p_job_id UUID DEFAULT NULL,
+  p_stage_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_signals JSONB DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INT DEFAULT 20,
+  p_offset INT DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_query TSQUERY;
+  v_blinded UUID[];
+  v_headline_options TEXT := 'StartSel=' || chr(1) || ', StopSel=' || chr(2) ||
+    ', MaxFragments=3, MaxWords=20, MinWords=8, FragmentDelimiter=" … "';
+BEGIN
+  IF p_signals IS NOT NULL AND jsonb_typeof(p_signals) != 'object' THEN
+    RAISE EXCEPTION 'VALIDATION: signals must be an object of signal key to value' USING ERRCODE = 'P0009';
+  END IF;
+
+  IF NULLIF(btrim(p_query), '') IS NOT NULL THEN
+    v_query := websearch_to_tsquery('english', p_query) || websearch_to_tsquery('simple', p_query);
+  END IF;
+
+  v_blinded := ARRAY(SELECT DISTINCT b.application_id FROM blinded_evaluations(p_tenant_id, p_user_id) b);
+
+  RETURN (
+    WITH matched AS (
+      SELECT
+        a.id,
+        a.candidate_id,
+        a.applicant_name,
+        a.applicant_email,
+        a.job_id,
+        a.created_at,
+        aps.current_stage_id,
+        aps.status AS tracking_status,
+        CASE WHEN v_query IS NOT NULL THEN ts_rank_cd(v.search_vector, v_query) END AS rank,
+        v.document
+      FROM applications a
+      LEFT JOIN application_search_documents d ON d.application_id = a.id
+      LEFT JOIN application_pipeline_state aps ON aps.application_id = a.id
+      CROSS JOIN LATERAL (
+        SELECT
+          a.id = ANY(v_blinded) AS blinded,
+          CASE WHEN a.id = ANY(v_blinded)
+            THEN concat_ws(E'\n', a.applicant_name, a.applicant_email, a.cover_letter, a.resume_text)
+            ELSE d.document
+          END AS document,
+          CASE WHEN a.id = ANY(v_blinded)
+            THEN application_profile_search_vector(a)
+            ELSE d.search_vector
+          END AS search_vector
+      ) v
+      WHERE a.tenant_id = p_tenant_id
+        AND (v_query IS NULL OR v.search_vector @@ v_query)
+        AND (p_from IS NULL OR a.created_at >= p_from)
+        AND (p_to IS NULL OR a.created_at < p_to)
+        AND (p_signals IS NULL OR (NOT v.blinded AND NOT EXISTS (
+          SELECT 1
+          FROM jsonb_each_text(p_signals) f
+          WHERE NOT EXISTS (
+            SELECT 1
+            FROM application_signals_latest s
+            WHERE s.application_id = a.id
+              AND s.signal_key = f.key
+              AND search_signal_matches(
+                s.signal_type, s.signal_value_text, s.signal_value_numeric, s.signal_value_boolean, f.value
+              )
+          )
+        )))
+    ),
+    filtered AS (
+      SELECT *
+      FROM matched m
+      WHERE (p_job_id IS NULL OR m.job_id = p_job_id)
+        AND (p_stage_id IS NULL OR m.current_stage_id = p_stage_id)
+        AND (p_status IS NULL OR m.tracking_status = p_status)
+    ),
+    page AS (
+      SELECT *
+      FROM filtered
+      ORDER BY rank DESC NULLS LAST, created_at DESC, id
+      LIMIT p_limit OFFSET p_offset
+    )
+    SELECT jsonb_build_object(
+      'total', (SELECT COUNT(*) FROM filtered),
+      'results', COALESCE(
+        (SELECT jsonb_agg(jsonb_build_object(
+          'application_id', p.id,
+          'candidate_id', p.candidate_id,
+          'applicant_name', p.applicant_name,
+          'applicant_email', p.applicant_email,
+          'job_id', p.job_id,
+          'job_title', j.title,
+          'stage_id', p.current_stage_id,
+          'stage_name', ps.stage_name,
+          'status', p.tracking_status,
+          'applied_at', p.created_at,
+          'rank', ROUND(p.rank::NUMERIC, 4),
+          'highlight', CASE WHEN v_query IS NOT NULL
+            THEN ts_headline('english', p.document, v_query, v_headline_options)
+          END
+        ) ORDER BY p.rank DESC NULLS LAST, p.created_at DESC, p.id)
+        FROM page p
+        JOIN jobs j ON j.id = p.job_id
+        LEFT JOIN pipeline_stages ps ON ps.id = p.current_stage_id),
+        '[]'::jsonb
+      ),
+      'facets', jsonb_build_object(
+        'jobs', COALESCE(
+          (SELECT jsonb_agg(jsonb_build_object('job_id', f.job_id, 'job_title', j.title, 'count', f.n)
+            ORDER BY f.n DESC, j.title)
+          FROM (
+            SELECT m.job_id, COUNT(*) AS n
+            FROM matched m
+            WHERE (p_stage_id IS NULL OR m.current_stage_id = p_stage_id)
+              AND (p_status IS NULL OR m.tracking_status = p_status)
+            GROUP BY m.job_id
+          ) f
+          JOIN jobs j ON j.id = f.job_id),
+          '[]'::jsonb
+        ),
+        'stages', COALESCE(
+          (SELECT jsonb_agg(jsonb_build_object('stage_id', f.stage_id, 'stage_name', ps.stage_name, 'count', f.n)
+            ORDER BY f.n DESC, ps.stage_name)
+          FROM (
+            SELECT m.current_stage_id AS stage_id, COUNT(*) AS n
+            FROM matched m
+            WHERE m.current_stage_id IS NOT NULL
+              AND (p_job_id IS NULL OR m.job_id = p_job_id)
+              AND (p_status IS NULL OR m.tracking_status = p_status)
+            GROUP BY m.current_stage_id
+          ) f
+          JOIN pipeline_stages ps ON ps.id = f.stage_id),
+          '[]'::jsonb
+        ),
+        'statuses', COALESCE(
+          (SELECT jsonb_agg(jsonb_build_object('status', f.status, 'count', f.n) ORDER BY f.n DESC, f.status)
+          FROM (
+            SELECT m.tracking_status AS status, COUNT(*) AS n
+            FROM matched m
+            WHERE m.tracking_status IS NOT NULL
+              AND (p_job_id IS NULL OR m.job_id = p_job_id)
+              AND (p_stage_id IS NULL OR m.current_stage_id = p_stage_id)
+            GROUP BY m.tracking_status
+          ) f),
+          '[]'::jsonb
+        )
+      )
+    )
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION search_applications IS 'Ranked full-text application search with highlights and job/stage/status facets; blinded applications match on applicant-submitted text only (jobs service)';
@@ -0,0 +1,505 @@
+-- ============================================================================
+-- SEQUENTIAL EVALUATIONS - participants evaluate one after another
+-- ============================================================================
+-- participant_type = 'SEQUENTIAL' used to behave like PANEL. Participants of
+-- a SEQUENTIAL instance now form a chain:
+--
+--   * each participant gets a sequence number (1, 2, ...) in the order they
+--     are added
+--   * only the head of the chain is PENDING; everyone behind them is WAITING
+--   * when the PENDING participant submits, declines or is removed, the next
+--     WAITING participant becomes PENDING (and shows up in their my-pending)
+--   * complete_evaluation requires every participant to have submitted,
+--     like PANEL
+--
+-- evaluation_templates.show_prior_responses lets a participant of a
+-- SEQUENTIAL template read the responses submitted before theirs in the chain.
+--
+-- Part 1: Columns, WAITING status and backfill
+-- Part 2: Sequence numbering on insert
+-- Part 3: Advancing the chain
+-- Part 4: Replace submit_evaluation_response() - WAITING cannot submit
+-- Part 5: Replace complete_evaluation() - SEQUENTIAL requires every response
+-- Part 6: Replace migrate_evaluation_instances_to_latest() - participant type
+--         changes
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: Columns, WAITING status and backfill
+-- ============================================================================
+
+ALTER TABLE evaluation_participants
+  ADD COLUMN sequence INTEGER;
+
+ALTER TABLE evaluation_participants
+  DROP CONSTRAINT IF EXISTS evaluation_participants_status_check;
+
+ALTER TABLE evaluation_participants
+  ADD CONSTRAINT evaluation_participants_status_check
+  CHECK (status IN ('WAITING', 'PENDING', 'SUBMITTED', 'DECLINED'));
+
+CREATE UNIQUE INDEX idx_evaluation_participants_sequence
+  ON evaluation_participants(evaluation_id, sequence)
+  WHERE sequence IS NOT NULL;
+
+COMMENT ON COLUMN evaluation_participants.sequence IS 'Position in the chain of a SEQUENTIAL evaluation (1 = first). NULL otherwise';
+
+ALTER TABLE evaluation_templates
+  ADD COLUMN show_prior_responses BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE evaluation_templates
+  ADD CONSTRAINT evaluation_templates_show_prior_responses_check
+  CHECK (show_prior_responses = FALSE OR participant_type = 'SEQUENTIAL');
+
+COMMENT ON COLUMN evaluation_templates.show_prior_responses IS
+  'SEQUENTIAL only: participants can read the responses submitted before theirs';
+
+-- Existing SEQUENTIAL instances: number participants in the order they were
+-- added, then leave only the first PENDING participant of open instances PENDING
+UPDATE evaluation_participants p
+SET sequence = o.seq
+FROM (
+  SELECT ep.id, ROW_NUMBER() OVER (PARTITION BY ep.evaluation_id ORDER BY ep.created_at, ep.id) AS seq
+  FROM evaluation_participants ep
+  JOIN evaluation_instances i ON i.id = ep.evaluation_id
+  JOIN evaluation_templates t ON t.id = i.template_id
+  WHERE t.participant_type = 'SEQUENTIAL'
+) o
+WHERE p.id = o.id;
+
+UPDATE evaluation_participants p
+SET status = 'WAITING'
+FROM (
+  SELECT ep.id, ROW_NUMBER() OVER (PARTITION BY ep.evaluation_id ORDER BY ep.sequence) AS rn
+  FROM evaluation_participants ep
+  JOIN evaluation_instances i ON i.id = ep.evaluation_id
+  JOIN evaluation_templates t ON t.id = i.template_id
+  WHERE t.participant_type = 'SEQUENTIAL'
+    AND i.status IN ('PENDING', 'IN_PROGRESS')
+    AND ep.status = 'PENDING'
+) w
+WHERE p.id = w.id
+  AND w.rn > 1;
+
+-- ============================================================================
+-- PART 2: Sequence numbering on insert
+-- ============================================================================
+-- Runs for every insert path (evaluations service, interview rounds,
+-- ensure_stage_evaluations), so callers keep inserting status = 'PENDING'.
+-- Rows inserted by one statement are numbered in the order given.
+
+CREATE OR REPLACE FUNCTION trg_sequential_participant_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_participant_type TEXT;
+BEGIN
+  -- Lock the instance so concurrent inserts get distinct sequence numbers
+  SELECT t.participant_type INTO v_participant_type
+  FROM evaluation_instances i
+  JOIN evaluation_templates t ON t.id = i.template_id
+  WHERE i.id = NEW.evaluation_id
+  FOR NO KEY UPDATE OF i;
+
+  IF v_participant_type IS DISTINCT FROM 'SEQUENTIAL' THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.sequence := (
+    SELECT COALESCE(MAX(p.sequence), 0) + 1
+    FROM evaluation_participants p
+    WHERE p.evaluation_id = NEW.evaluation_id
+  );
+
+  -- Only the head of the chain is PENDING
+  IF NEW.status = 'PENDING' AND EXISTS (
+    SELECT 1 FROM evaluation_participants p
+    WHERE p.evaluation_id = NEW.evaluation_id
+      AND p.status IN ('PENDING', 'WAITING')
+  ) THEN
+    NEW.status := 'WAITING';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_sequential_participant_order
+  BEFORE INSERT ON evaluation_participants
+  FOR EACH ROW EXECUTE FUNCTION trg_sequential_participant_order();
+
+-- ============================================================================
+-- PART 3: Advancing the chain
+-- ============================================================================
+
+-- Activate the next WAITING participant of an open instance when nobody is
+-- PENDING. Returns the activated user, or NULL.
+CREATE OR REPLACE FUNCTION advance_sequential_evaluation(p_evaluation_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM evaluation_instances
+    WHERE id = p_evaluation_id AND status IN ('PENDING', 'IN_PROGRESS')
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM evaluation_participants
+    WHERE evaluation_id = p_evaluation_id AND status = 'PENDING'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE evaluation_participants
+  SET status = 'PENDING'
+  WHERE id = (
+    SELECT id FROM evaluation_participants
+    WHERE evaluation_id = p_evaluation_id AND status = 'WAITING'
+    ORDER BY sequence NULLS LAST, created_at
+    LIMIT 1
+  )
+  RETURNING user_id INTO v_user_id;
+
+  IF v_user_id IS NOT NULL THEN
+    RAISE LOG 'SEQUENTIAL_EVALUATION_ADVANCED: evaluation=% user=%', p_evaluation_id, v_user_id;
+  END IF;
+
+  RETURN v_user_id;
+END;
+$$;
+
+COMMENT ON FUNCTION advance_sequential_evaluation IS
+  'Make the next WAITING participant of a SEQUENTIAL evaluation PENDING once nobody is PENDING';
+
+CREATE OR REPLACE FUNCTION trg_sequential_participant_advance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  PERFORM advance_sequential_evaluation(OLD.evaluation_id);
+  RETURN NULL;
+END;
+$$;
+
+-- The PENDING participant submitted or declined
+CREATE TRIGGER trg_sequential_participant_advance_update
+  AFTER UPDATE OF status ON evaluation_participants
+  FOR EACH ROW
+  WHEN (OLD.status = 'PENDING' AND NEW.status <> 'PENDING')
+  EXECUTE FUNCTION trg_sequential_participant_advance();
+
+-- The PENDING participant was removed
+CREATE TRIGGER trg_sequential_participant_advance_delete
+  AFTER DELETE ON evaluation_participants
+  FOR EACH ROW
+  WHEN (OLD.status = 'PENDING')
+  EXECUTE FUNCTION trg_sequential_participant_advance();
+
+-- ============================================================================
+-- PART 4: Replace submit_evaluation_response()
+-- ============================================================================
+-- Same as 20260309000001, plus: a WAITING participant cannot submit yet.
+
+CREATE OR REPLACE FUNCTION submit_evaluation_response(
+  p_evaluation_id UUID,
+  p_user_id UUID,
+  p_response_data JSONB
+) RETURNS evaluation_responses
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_participant evaluation_participants%ROWTYPE;
+  v_response evaluation_responses%ROWTYPE;
+  v_instance evaluation_instances%ROWTYPE;
+  v_signal_schema JSONB;
+BEGIN
+  -- Get participant record
+  SELECT * INTO v_participant
+  FROM evaluation_participants
+  WHERE evaluation_id = p_evaluation_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'FORBIDDEN: User is not a participant in this evaluation'
+      USING ERRCODE = 'P0008';
+  END IF;
+
+  IF v_participant.status = 'SUBMITTED' THEN
+    RAISE EXCEPTION 'INVALID_ACTION: Response already submitted'
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  IF v_participant.status = 'DECLINED' THEN
+    RAISE EXCEPTION 'INVALID_ACTION: Participant has declined this evaluation'
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  IF v_participant.status = 'WAITING' THEN
+    RAISE EXCEPTION 'INVALID_ACTION: Waiting for earlier participants in this sequential evaluation'
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  -- Check evaluation is still open
+  SELECT * INTO v_instance FROM evaluation_instances WHERE id = p_evaluation_id;
+  IF v_instance.status NOT IN ('PENDING', 'IN_PROGRESS') THEN
+    RAISE EXCEPTION 'INVALID_ACTION: Evaluation is no longer accepting responses (status: %)', v_instance.status
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  -- Validate choice and rating values against the template
+  SELECT signal_schema INTO v_signal_schema FROM evaluation_templates WHERE id = v_instance.template_id;
+  PERFORM validate_evaluation_response(COALESCE(v_signal_schema, '[]'::jsonb), p_response_data);
+
+  -- Insert response (immutable)
+  INSERT INTO evaluation_responses (tenant_id, participant_id, response_data)
+  VALUES (v_participant.tenant_id, v_participant.id, p_response_data)
+  RETURNING * INTO v_response;
+
+  -- Update participant status (activates the next participant of a SEQUENTIAL chain)
+  UPDATE evaluation_participants
+  SET status = 'SUBMITTED', submitted_at = NOW()
+  WHERE id = v_participant.id;
+
+  -- Update evaluation instance status if needed
+  IF v_instance.status = 'PENDING' THEN
+    UPDATE evaluation_instances
+    SET status = 'IN_PROGRESS', updated_at = NOW()
+    WHERE id = p_evaluation_id;
+  END IF;
+
+  RAISE LOG 'EVALUATION_RESPONSE: evaluation=% participant=% user=%',
+    p_evaluation_id, v_participant.id, p_user_id;
+
+  RETURN v_response;
+END;
+$$;
+
+COMMENT ON FUNCTION submit_evaluation_response IS 'Submit an evaluation response. Immutable once submitted.';
+
+-- ============================================================================
+-- PART 5: Replace complete_evaluation()
+-- ============================================================================
+-- Same as 20260206000001, except SEQUENTIAL requires every participant to
+-- have submitted (previously one response was enough).
+
+CREATE OR REPLACE FUNCTION complete_evaluation(
+  p_evaluation_id UUID,
+  p_user_id UUID,
+  p_force BOOLEAN DEFAULT FALSE,
+  p_force_note TEXT DEFAULT NULL
+) RETURNS evaluation_instances
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_instance evaluation_instances%ROWTYPE;
+  v_template evaluation_templates%ROWTYPE;
+  v_total_participants INT;
+  v_submitted_participants INT;
+BEGIN
+  SELECT * INTO v_instance FROM evaluation_instances WHERE id = p_evaluation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Evaluation instance not found'
+      USING ERRCODE = 'P0004';
+  END IF;
+
+  -- Check if already completed
+  IF v_instance.status = 'COMPLETED' THEN
+    RAISE EXCEPTION 'INVALID_ACTION: Evaluation is already completed'
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  IF v_instance.status = 'CANCELLED' THEN
+    RAISE EXCEPTION 'INVALID_ACTION: Cannot complete a cancelled evaluation'
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  SELECT * INTO v_template FROM evaluation_templates WHERE id = v_instance.template_id;
+
+  -- Count participants
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE status = 'SUBMITTED')
+  INTO v_total_participants, v_submitted_participants
+  FROM evaluation_participants
+  WHERE evaluation_id = p_evaluation_id;
+
+  -- Validate completion based on participant type
+  IF v_template.participant_type = 'PANEL' THEN
+    -- Panel requires all participants to submit
+    IF v_submitted_participants < v_total_participants AND NOT p_force THEN
+      RAISE EXCEPTION 'EVALUATION_INCOMPLETE: % of % participants submitted. Use force-complete with note to override.',
+        v_submitted_participants, v_total_participants
+        USING ERRCODE = 'P0013';
+    END IF;
+  ELSIF v_template.participant_type = 'SINGLE' THEN
+    -- Single requires the one participant to submit
+    IF v_submitted_participants = 0 AND NOT p_force THEN
+      RAISE EXCEPTION 'EVALUATION_INCOMPLETE: No response submitted yet.'
+        USING ERRCODE = 'P0013';
+    END IF;
+  ELSIF v_template.participant_type = 'SEQUENTIAL' THEN
+    -- Sequential requires the whole chain to submit
+    IF v_submitted_participants < v_total_participants AND NOT p_force THEN
+      RAISE EXCEPTION 'EVALUATION_INCOMPLETE: % of % participants in the sequence submitted. Use force-complete with note to override.',
+        v_submitted_participants, v_total_participants
+        USING ERRCODE = 'P0013';
+    END IF;
+  END IF;
+
+  -- Force-complete requires a note
+  IF p_force AND (p_force_note IS NULL OR TRIM(p_force_note) = '') THEN
+    RAISE EXCEPTION 'VALIDATION: Force-complete requires a note explaining the override.'
+      USING ERRCODE = 'P0009';
+  END IF;
+
+  -- Mark as completed
+  UPDATE evaluation_instances
+  SET
+    status = 'COMPLETED',
+    completed_at = NOW(),
+    updated_at = NOW(),
+    force_completed = p_force,
+    force_complete_note = p_force_note,
+    force_completed_by = CASE WHEN p_force THEN p_user_id ELSE NULL END
+  WHERE id = p_evaluation_id
+  RETURNING * INTO v_instance;
+
+  -- Aggregate signals from responses
+  PERFORM aggregate_evaluation_signals(p_evaluation_id);
+
+  RAISE LOG 'EVALUATION_COMPLETED: id=% app=% force=% participants=%/%',
+    p_evaluation_id, v_instance.application_id, p_force, v_submitted_participants, v_total_participants;
+
+  RETURN v_instance;
+END;
+$$;
+
+COMMENT ON FUNCTION complete_evaluation IS 'Completes an evaluation and triggers signal aggregation. Force-complete requires note.';
+
+-- ============================================================================
+-- PART 6: Replace migrate_evaluation_instances_to_latest()
+-- ============================================================================
+-- Same as 20260308000001, plus a second skip reason:
+--   skipped: [... | { ..., reason: 'PARTICIPANT_TYPE_CHANGED' }]
+--
+-- PARTICIPANT_TYPE_CHANGED: the instance has participants and the latest
+-- version changes participant_type (e.g. PANEL -> SEQUENTIAL). Those
+-- participants were added under the old type's rules (no sequence, several
+-- PENDING at once), so the instance stays.
+
+CREATE OR REPLACE FUNCTION migrate_evaluation_instances_to_latest(
+  p_tenant_id UUID,
+  p_template_id UUID,
+  p_dry_run BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_latest evaluation_templates;
+  v_instance RECORD;
+  v_response_count INT;
+  v_participant_count INT;
+  v_entry JSONB;
+  v_moved JSONB := '[]'::jsonb;
+  v_skipped JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_latest
+  FROM evaluation_template_lineage(p_tenant_id, p_template_id)
+  WHERE is_latest = TRUE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Template % not found', p_template_id
+      USING ERRCODE = 'P0004';
+  END IF;
+
+  IF v_latest.is_active IS DISTINCT FROM TRUE THEN
+    RAISE EXCEPTION 'INVALID_ACTION: Latest version of the template is inactive'
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  FOR v_instance IN
+    SELECT i.id, i.application_id, i.template_id, i.status, t.version, t.participant_type
+    FROM evaluation_instances i
+    JOIN evaluation_templates t ON t.id = i.template_id
+    WHERE i.tenant_id = p_tenant_id
+      AND i.status IN ('PENDING', 'IN_PROGRESS')
+      AND i.template_id IN (
+        SELECT l.id FROM evaluation_template_lineage(p_tenant_id, p_template_id) l WHERE l.id != v_latest.id
+      )
+    ORDER BY i.created_at
+    FOR UPDATE OF i
+  LOOP
+    SELECT COUNT(*) INTO v_participant_count
+    FROM (SELECT 1 FROM evaluation_participants WHERE evaluation_id = v_instance.id FOR UPDATE) p;
+
+    SELECT COUNT(*) INTO v_response_count
+    FROM evaluation_responses r
+    JOIN evaluation_participants p ON p.id = r.participant_id
+    WHERE p.evaluation_id = v_instance.id;
+
+    v_entry := jsonb_build_object(
+      'instance_id', v_instance.id,
+      'application_id', v_instance.application_id,
+      'from_template_id', v_instance.template_id,
+      'from_version', v_instance.version,
+      'status', v_instance.status
+    );
+
+    IF v_response_count > 0 THEN
+      v_skipped := v_skipped || jsonb_build_array(
+        v_entry || jsonb_build_object('reason', 'HAS_RESPONSES', 'response_count', v_response_count)
+      );
+      CONTINUE;
+    END IF;
+
+    IF v_participant_count > 0 AND v_instance.participant_type IS DISTINCT FROM v_latest.participant_type THEN
+      v_skipped := v_skipped || jsonb_build_array(
+        v_entry || jsonb_build_object('reason', 'PARTICIPANT_TYPE_CHANGED')
+      );
+      CONTINUE;
+    END IF;
+
+    IF NOT p_dry_run THEN
+      UPDATE evaluation_instances
+      SET template_id = v_latest.id, updated_at = NOW()
+      WHERE id = v_instance.id;
+
+      -- Keep the interview round's template in step with its evaluation
+      UPDATE interview_rounds
+      SET evaluation_template_id = v_latest.id
+      WHERE evaluation_instance_id = v_instance.id;
+    END IF;
+
+    v_moved := v_moved || jsonb_build_array(v_entry);
+  END LOOP;
+
+  RAISE LOG 'TEMPLATE_MIGRATION: template=% version=% moved=% skipped=% dry_run=%',
+    v_latest.id, v_latest.version, jsonb_array_length(v_moved), jsonb_array_length(v_skipped), p_dry_run;
+
+  RETURN jsonb_build_object(
+    'template_id', v_latest.id,
+    'version', v_latest.version,
+    'dry_run', p_dry_run,
+    'moved', v_moved,
+    'skipped', v_skipped
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION migrate_evaluation_instances_to_latest IS
+  'Rebind open instances of older template versions to the latest version; instances with responses, or with participants when participant_type changed, are skipped';
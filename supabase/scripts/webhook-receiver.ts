@@ -0,0 +1,43 @@
+// Local stand-in for a webhook consumer.
+//
+//   WEBHOOK_SECRET=whsec_... deno run --allow-net --allow-env supabase/scripts/webhook-receiver.ts
+//
+// Register http://host.docker.internal:8787/ (or http://localhost:8787/) as an
+// endpoint, then trigger events or POST /webhooks/endpoints/:id/test.
+// Set FAIL_STATUS=500 to exercise the retry schedule.
+
+const port = Number(Deno.env.get('PORT') || '8787');
+const secret = Deno.env.get('WEBHOOK_SECRET') || '';
+const failStatus = Number(Deno.env.get('FAIL_STATUS') || '0');
+
+async function expectedSignature(timestamp: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(mac), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+Deno.serve({ port }, async (req) => {
+  const body = await req.text();
+  const header = req.headers.get('X-Webhook-Signature') || '';
+  const parts = Object.fromEntries(header.split(',').map((p) => p.split('=') as [string, string]));
+
+  let verified = 'skipped (no WEBHOOK_SECRET)';
+  if (secret) {
+    verified = parts.v1 && parts.v1 === await expectedSignature(parts.t, body) ? 'ok' : 'MISMATCH';
+  }
+
+  console.log(`--- ${req.headers.get('X-Webhook-Event')} (delivery ${req.headers.get('X-Webhook-Id')})`);
+  console.log(`signature: ${verified}`);
+  console.log(body);
+
+  if (failStatus) {
+    return new Response('failing on purpose', { status: failStatus });
+  }
+  return new Response('ok');
+});
@@ -0,0 +1,267 @@
+-- ============================================================================
+-- AUTOMATION RULE TESTS
+-- ============================================================================
+-- Purpose: Verify rule matching, SYSTEM execution through execute_action_v2()
+--          and rule deletion once a rule has fired
+--          (20260222000001_automation_rules).
+-- Run via: Supabase SQL Editor or psql
+--
+-- Tests:
+--   1. Unmet conditions and inactive rules never queue a run
+--   2. A matching immediate rule executes the action as SYSTEM
+--   3. A delayed rule queues one PENDING run per application and stage
+--   4. A deactivated (soft-deleted) rule's pending run is CANCELLED
+--   5. A rule that has fired cannot be hard-deleted; the audit log keeps it
+--
+-- Prerequisites: All migrations applied
+-- ============================================================================
+
+-- ============================================================================
+-- TEST HARNESS SETUP (idempotent)
+-- ============================================================================
+
+DROP TABLE IF EXISTS _test_results CASCADE;
+CREATE TABLE _test_results (
+  id SERIAL PRIMARY KEY,
+  category TEXT NOT NULL,
+  test_name TEXT NOT NULL,
+  passed BOOLEAN NOT NULL,
+  expected TEXT,
+  actual TEXT,
+  error_message TEXT,
+  executed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION _record_test(
+  p_category TEXT,
+  p_test_name TEXT,
+  p_passed BOOLEAN,
+  p_expected TEXT DEFAULT NULL,
+  p_actual TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL
+) RETURNS VOID AS $$
+BEGIN
+  INSERT INTO _test_results (category, test_name, passed, expected, actual, error_message)
+  VALUES (p_category, p_test_name, p_passed, p_expected, p_actual, p_error);
+
+  IF p_passed THEN
+    RAISE NOTICE '[PASS] %.%', p_category, p_test_name;
+  ELSE
+    RAISE NOTICE '[FAIL] %.% - Expected: %, Actual: %, Error: %',
+      p_category, p_test_name, p_expected, p_actual, p_error;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION _assert_eq(
+  p_category TEXT,
+  p_test_name TEXT,
+  p_expected ANYELEMENT,
+  p_actual ANYELEMENT
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_passed BOOLEAN;
+BEGIN
+  v_passed := p_expected IS NOT DISTINCT FROM p_actual;
+  PERFORM _record_test(p_category, p_test_name, v_passed, p_expected::TEXT, p_actual::TEXT);
+  RETURN v_passed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- TESTS 1-5
+-- ============================================================================
+
+DO $$
+DECLARE
+  v_tenant_id UUID;
+  v_pipeline_id UUID;
+  v_stage_1 UUID;
+  v_stage_2 UUID;
+  v_stage_3 UUID;
+  v_job_id UUID;
+  v_app_id UUID;
+  v_rule_advance UUID;
+  v_rule_inactive UUID;
+  v_rule_delayed UUID;
+  v_queued INT;
+  v_count INT;
+  v_run automation_rule_runs;
+  v_log action_execution_log;
+  v_error TEXT;
+BEGIN
+  -- Setup: tenant, three-stage pipeline with ADVANCE on stages 1 and 2, one application in stage 1
+  INSERT INTO tenants (id, name, slug) VALUES
+    (gen_random_uuid(), 'Test Tenant Automation', 'test-automation-' || substr(gen_random_uuid()::text, 1, 8))
+    RETURNING id INTO v_tenant_id;
+
+  INSERT INTO pipelines (id, tenant_id, name) VALUES
+    (gen_random_uuid(), v_tenant_id, 'Automation Pipeline')
+    RETURNING id INTO v_pipeline_id;
+
+  INSERT INTO pipeline_stages (id, tenant_id, pipeline_id, stage_name, stage_type, conducted_by, order_index)
+  VALUES (gen_random_uuid(), v_tenant_id, v_pipeline_id, 'Screen', 'review', 'HR', 0)
+  RETURNING id INTO v_stage_1;
+
+  INSERT INTO pipeline_stages (id, tenant_id, pipeline_id, stage_name, stage_type, conducted_by, order_index)
+  VALUES (gen_random_uuid(), v_tenant_id, v_pipeline_id, 'Technical', 'interview', 'INTERVIEWER', 1)
+  RETURNING id INTO v_stage_2;
+
+  INSERT INTO pipeline_stages (id, tenant_id, pipeline_id, stage_name, stage_type, conducted_by, order_index)
+  VALUES (gen_random_uuid(), v_tenant_id, v_pipeline_id, 'Offer', 'decision', 'HR', 2)
+  RETURNING id INTO v_stage_3;
+
+  INSERT INTO tenant_stage_actions
+    (tenant_id, stage_id, action_code, display_name, moves_to_next_stage, is_terminal, requires_notes, required_capability)
+  VALUES
+    (v_tenant_id, v_stage_1, 'ADVANCE', 'Advance', TRUE, FALSE, TRUE, 'ADVANCE_STAGE'),
+    (v_tenant_id, v_stage_2, 'ADVANCE', 'Advance', TRUE, FALSE, TRUE, 'ADVANCE_STAGE');
+
+  INSERT INTO jobs (id, tenant_id, title) VALUES
+    (gen_random_uuid(), v_tenant_id, 'Test Job Automation')
+    RETURNING id INTO v_job_id;
+
+  INSERT INTO applications (id, tenant_id, job_id, applicant_name, applicant_email) VALUES
+    (gen_random_uuid(), v_tenant_id, v_job_id, 'Test Candidate', 'automation@example.com')
+    RETURNING id INTO v_app_id;
+
+  INSERT INTO application_pipeline_state
+    (tenant_id, application_id, job_id, pipeline_id, current_stage_id, status, outcome_type, is_terminal)
+  VALUES (v_tenant_id, v_app_id, v_job_id, v_pipeline_id, v_stage_1, 'ACTIVE', 'ACTIVE', FALSE);
+
+  INSERT INTO automation_rules (tenant_id, name, stage_id, action_code, conditions, notes)
+  VALUES (v_tenant_id, 'Advance strong screens', v_stage_1, 'ADVANCE',
+    '{"logic": "ALL", "conditions": [{"signal": "TECH_SCORE", "operator": ">=", "value": 4}]}'::jsonb,
+    'Advanced by rule')
+  RETURNING id INTO v_rule_advance;
+
+  INSERT INTO automation_rules (tenant_id, name, stage_id, action_code, conditions, is_active)
+  VALUES (v_tenant_id, 'Paused rule', v_stage_1, 'ADVANCE',
+    '{"logic": "ALL", "conditions": [{"signal": "TECH_SCORE", "operator": ">=", "value": 1}]}'::jsonb,
+    FALSE)
+  RETURNING id INTO v_rule_inactive;
+
+  INSERT INTO automation_rules (tenant_id, name, stage_id, action_code, conditions, delay_minutes)
+  VALUES (v_tenant_id, 'Advance after a cooling-off period', v_stage_2, 'ADVANCE',
+    '{"logic": "ALL", "conditions": [{"signal": "TECH_SCORE", "operator": ">=", "value": 4}]}'::jsonb,
+    30)
+  RETURNING id INTO v_rule_delayed;
+
+  -- ==========================================================================
+  -- TEST 1: No match below the threshold; the paused rule never matches
+  -- ==========================================================================
+  PERFORM set_manual_signal(v_app_id, v_tenant_id, NULL, 'TECH_SCORE', 'integer', '3');
+  v_queued := evaluate_automation_rules(v_app_id);
+
+  PERFORM _assert_eq('MATCHING', '1a_unmet_conditions_queue_nothing', 0, v_queued);
+
+  SELECT COUNT(*) INTO v_count FROM automation_rule_runs WHERE rule_id = v_rule_inactive;
+  PERFORM _assert_eq('MATCHING', '1b_inactive_rule_never_runs', 0, v_count);
+
+  -- ==========================================================================
+  -- TEST 2: Immediate rule executes ADVANCE as SYSTEM
+  -- ==========================================================================
+  PERFORM set_manual_signal(v_app_id, v_tenant_id, NULL, 'TECH_SCORE', 'integer', '5');
+  v_queued := evaluate_automation_rules(v_app_id);
+
+  PERFORM _assert_eq('EXECUTION', '2a_one_run_queued', 1, v_queued);
+
+  SELECT * INTO v_run FROM automation_rule_runs WHERE rule_id = v_rule_advance;
+  PERFORM _assert_eq('EXECUTION', '2b_run_executed', 'EXECUTED'::TEXT, v_run.status::TEXT);
+  PERFORM _assert_eq('EXECUTION', '2c_application_advanced', v_stage_2,
+    (SELECT current_stage_id FROM application_pipeline_state WHERE application_id = v_app_id));
+
+  SELECT * INTO v_log FROM action_execution_log WHERE id = v_run.action_log_id;
+  PERFORM _assert_eq('EXECUTION', '2d_actor_is_system', 'SYSTEM'::TEXT, v_log.actor_type::TEXT);
+  PERFORM _assert_eq('EXECUTION', '2e_no_executing_user', NULL::UUID, v_log.executed_by);
+  PERFORM _assert_eq('EXECUTION', '2f_log_names_rule', v_rule_advance, v_log.automation_rule_id);
+  PERFORM _assert_eq('EXECUTION', '2g_rule_notes_recorded', 'Advanced by rule'::TEXT, v_log.decision_note);
+  PERFORM _assert_eq('EXECUTION', '2h_inactive_rule_still_idle', 0,
+    (SELECT COUNT(*)::INT FROM automation_rule_runs WHERE rule_id = v_rule_inactive));
+
+  -- ==========================================================================
+  -- TEST 3: Delayed rule in the new stage queues once
+  -- ==========================================================================
+  v_queued := evaluate_automation_rules(v_app_id);
+  PERFORM _assert_eq('DELAYED', '3a_delayed_run_queued', 1, v_queued);
+
+  SELECT * INTO v_run FROM automation_rule_runs WHERE rule_id = v_rule_delayed;
+  PERFORM _assert_eq('DELAYED', '3b_run_pending', 'PENDING'::TEXT, v_run.status::TEXT);
+  PERFORM _assert_eq('DELAYED', '3c_execute_after_delay', NOW() + INTERVAL '30 minutes', v_run.execute_after);
+
+  v_queued := evaluate_automation_rules(v_app_id);
+  PERFORM _assert_eq('DELAYED', '3d_same_stage_not_requeued', 0, v_queued);
+
+  -- ==========================================================================
+  -- TEST 4: Soft delete cancels the pending run
+  -- ==========================================================================
+  UPDATE automation_rules SET is_active = FALSE WHERE id = v_rule_delayed;
+  v_run := execute_automation_run(v_run.id);
+
+  PERFORM _assert_eq('DELETION', '4a_pending_run_cancelled', 'CANCELLED'::TEXT, v_run.status::TEXT);
+  PERFORM _assert_eq('DELETION', '4b_application_not_moved', v_stage_2,
+    (SELECT current_stage_id FROM application_pipeline_state WHERE application_id = v_app_id));
+
+  -- ==========================================================================
+  -- TEST 5: A fired rule cannot be hard-deleted
+  -- ==========================================================================
+  v_error := NULL;
+  BEGIN
+    DELETE FROM automation_rules WHERE id = v_rule_advance;
+  EXCEPTION WHEN foreign_key_violation THEN
+    v_error := SQLERRM;
+  END;
+  PERFORM _record_test('DELETION', '5a_hard_delete_rejected', v_error IS NOT NULL,
+    'foreign_key_violation', COALESCE(v_error, 'rule deleted'));
+
+  SELECT COUNT(*) INTO v_count
+  FROM action_execution_log
+  WHERE automation_rule_id = v_rule_advance
+    AND actor_type = 'SYSTEM';
+  PERFORM _assert_eq('DELETION', '5b_audit_log_keeps_rule', 1, v_count);
+
+  -- Deactivating it (what DELETE /automation-rules/:id does) is allowed
+  UPDATE automation_rules SET is_active = FALSE WHERE id = v_rule_advance;
+  PERFORM _assert_eq('DELETION', '5c_soft_delete_allowed', FALSE,
+    (SELECT is_active FROM automation_rules WHERE id = v_rule_advance));
+
+  -- Cleanup test data
+  DELETE FROM automation_rule_runs WHERE tenant_id = v_tenant_id;
+  DELETE FROM action_execution_log WHERE tenant_id = v_tenant_id;
+  DELETE FROM automation_rules WHERE tenant_id = v_tenant_id;
+  DELETE FROM application_signals WHERE tenant_id = v_tenant_id;
+  DELETE FROM application_stage_history WHERE tenant_id = v_tenant_id;
+  DELETE FROM application_pipeline_state WHERE tenant_id = v_tenant_id;
+  DELETE FROM applications WHERE tenant_id = v_tenant_id;
+  DELETE FROM tenant_stage_actions WHERE tenant_id = v_tenant_id;
+  DELETE FROM pipeline_stages WHERE tenant_id = v_tenant_id;
+  DELETE FROM pipelines WHERE tenant_id = v_tenant_id;
+  DELETE FROM jobs WHERE tenant_id = v_tenant_id;
+  DELETE FROM tenant_application_statuses WHERE tenant_id = v_tenant_id;
+  DELETE FROM tenants WHERE id = v_tenant_id;
+END $$;
+
+-- ============================================================================
+-- RESULTS SUMMARY
+-- ============================================================================
+
+SELECT
+  CASE WHEN passed THEN 'PASS' ELSE 'FAIL' END AS result,
+  category,
+  test_name,
+  expected,
+  actual,
+  error_message
+FROM _test_results
+ORDER BY id;
+
+SELECT
+  COUNT(*) FILTER (WHERE passed) AS passed,
+  COUNT(*) FILTER (WHERE NOT passed) AS failed,
+  COUNT(*) AS total
+FROM _test_results;
+
+-- Cleanup harness
+DROP TABLE IF EXISTS _test_results CASCADE;
+DROP FUNCTION IF EXISTS _record_test CASCADE;
+DROP FUNCTION IF EXISTS _assert_eq CASCADE;
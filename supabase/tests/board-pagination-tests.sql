@@ -0,0 +1,315 @@
+-- ============================================================================
+-- BOARD PAGINATION TESTS
+-- ============================================================================
+-- Purpose: Verify keyset cursors and tie-breaking of get_board_stage_page()
+--          and the per-stage counts of get_pipeline_board()
+--          (20260303000001_board_pagination).
+-- Run via: Supabase SQL Editor or psql
+--
+-- Tests:
+--   1. entered_stage_at pages, ASC and DESC, without gaps or duplicates
+--   2. Equal entered_stage_at values are ordered by application_id
+--   3. Name sort is case-insensitive; equal names break on application_id
+--   4. Signal sort puts applications without the signal last either way
+--   5. get_pipeline_board returns counts and a first page per stage
+--   6. Invalid sort arguments are rejected
+--
+-- Prerequisites: All migrations applied
+-- ============================================================================
+
+-- ============================================================================
+-- TEST HARNESS SETUP (idempotent)
+-- ============================================================================
+
+DROP TABLE IF EXISTS _test_results CASCADE;
+CREATE TABLE _test_results (
+  id SERIAL PRIMARY KEY,
+  category TEXT NOT NULL,
+  test_name TEXT NOT NULL,
+  passed BOOLEAN NOT NULL,
+  expected TEXT,
+  actual TEXT,
+  error_message TEXT,
+  executed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION _record_test(
+  p_category TEXT,
+  p_test_name TEXT,
+  p_passed BOOLEAN,
+  p_expected TEXT DEFAULT NULL,
+  p_actual TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL
+) RETURNS VOID AS $$
+BEGIN
+  INSERT INTO _test_results (category, test_name, passed, expected, actual, error_message)
+  VALUES (p_category, p_test_name, p_passed, p_expected, p_actual, p_error);
+
+  IF p_passed THEN
+    RAISE NOTICE '[PASS] %.%', p_category, p_test_name;
+  ELSE
+    RAISE NOTICE '[FAIL] %.% - Expected: %, Actual: %, Error: %',
+      p_category, p_test_name, p_expected, p_actual, p_error;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION _assert_eq(
+  p_category TEXT,
+  p_test_name TEXT,
+  p_expected ANYELEMENT,
+  p_actual ANYELEMENT
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_passed BOOLEAN;
+BEGIN
+  v_passed := p_expected IS NOT DISTINCT FROM p_actual;
+  PERFORM _record_test(p_category, p_test_name, v_passed, p_expected::TEXT, p_actual::TEXT);
+  RETURN v_passed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Follows next_cursor until the last page; returns every application_id in
+-- page order and the number of pages read
+CREATE OR REPLACE FUNCTION _walk_board_stage(
+  p_tenant_id UUID,
+  p_pipeline_id UUID,
+  p_stage_id UUID,
+  p_sort TEXT,
+  p_direction TEXT,
+  p_signal_key TEXT,
+  p_limit INT,
+  OUT ids UUID[],
+  OUT pages INT
+) AS $$
+DECLARE
+  v_cursor JSONB := NULL;
+  v_page JSONB;
+BEGIN
+  ids := '{}';
+  pages := 0;
+  LOOP
+    v_page := get_board_stage_page(
+      p_tenant_id, p_pipeline_id, p_stage_id, '{}'::jsonb,
+      p_sort, p_direction, p_signal_key, v_cursor, p_limit
+    );
+    pages := pages + 1;
+    ids := ids || ARRAY(
+      SELECT (card->>'application_id')::UUID
+      FROM jsonb_array_elements(v_page->'applications') WITH ORDINALITY AS t(card, n)
+      ORDER BY n
+    );
+    v_cursor := v_page->'next_cursor';
+    EXIT WHEN v_cursor IS NULL OR jsonb_typeof(v_cursor) = 'null' OR pages >= 20;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- TESTS 1-6
+-- ============================================================================
+
+DO $$
+DECLARE
+  v_tenant_id UUID;
+  v_pipeline_id UUID;
+  v_stage_1 UUID;
+  v_stage_2 UUID;
+  v_job_id UUID;
+  v_app_1 UUID;
+  v_app_2 UUID;
+  v_app_3 UUID;
+  v_app_4 UUID;
+  v_app_5 UUID;
+  v_tied UUID[];
+  v_carols UUID[];
+  v_missing UUID[];
+  v_expected UUID[];
+  v_walk RECORD;
+  v_board JSONB;
+  v_error TEXT;
+  v_at TIMESTAMPTZ := date_trunc('second', NOW()) - INTERVAL '2 days';
+BEGIN
+  -- Setup: one pipeline with two stages, five applications in the first.
+  -- Applications 1-3 entered at the same instant; 2 and 3 share a name up to
+  -- case and the same TECH_SCORE; 4 and 5 have no TECH_SCORE.
+  INSERT INTO tenants (id, name, slug) VALUES
+    (gen_random_uuid(), 'Test Tenant Board', 'test-board-' || substr(gen_random_uuid()::text, 1, 8))
+    RETURNING id INTO v_tenant_id;
+
+  INSERT INTO pipelines (id, tenant_id, name) VALUES
+    (gen_random_uuid(), v_tenant_id, 'Board Pipeline')
+    RETURNING id INTO v_pipeline_id;
+
+  INSERT INTO pipeline_stages (id, tenant_id, pipeline_id, stage_name, stage_type, conducted_by, order_index)
+  VALUES (gen_random_uuid(), v_tenant_id, v_pipeline_id, 'Screen', 'review', 'HR', 0)
+  RETURNING id INTO v_stage_1;
+
+  INSERT INTO pipeline_stages (id, tenant_id, pipeline_id, stage_name, stage_type, conducted_by, order_index)
+  VALUES (gen_random_uuid(), v_tenant_id, v_pipeline_id, 'Technical', 'interview', 'INTERVIEWER', 1)
+  RETURNING id INTO v_stage_2;
+
+  INSERT INTO jobs (id, tenant_id, title) VALUES
+    (gen_random_uuid(), v_tenant_id, 'Test Job Board')
+    RETURNING id INTO v_job_id;
+
+  INSERT INTO applications (id, tenant_id, job_id, applicant_name, applicant_email) VALUES
+    (gen_random_uuid(), v_tenant_id, v_job_id, 'Dana', 'board1@example.com')
+    RETURNING id INTO v_app_1;
+  INSERT INTO applications (id, tenant_id, job_id, applicant_name, applicant_email) VALUES
+    (gen_random_uuid(), v_tenant_id, v_job_id, 'carol', 'board2@example.com')
+    RETURNING id INTO v_app_2;
+  INSERT INTO applications (id, tenant_id, job_id, applicant_name, applicant_email) VALUES
+    (gen_random_uuid(), v_tenant_id, v_job_id, 'Carol', 'board3@example.com')
+    RETURNING id INTO v_app_3;
+  INSERT INTO applications (id, tenant_id, job_id, applicant_name, applicant_email) VALUES
+    (gen_random_uuid(), v_tenant_id, v_job_id, 'bob', 'board4@example.com')
+    RETURNING id INTO v_app_4;
+  INSERT INTO applications (id, tenant_id, job_id, applicant_name, applicant_email) VALUES
+    (gen_random_uuid(), v_tenant_id, v_job_id, 'Erin', 'board5@example.com')
+    RETURNING id INTO v_app_5;
+
+  INSERT INTO application_pipeline_state
+    (tenant_id, application_id, job_id, pipeline_id, current_stage_id, status, outcome_type, is_terminal, entered_stage_at)
+  VALUES
+    (v_tenant_id, v_app_1, v_job_id, v_pipeline_id, v_stage_1, 'ACTIVE', 'ACTIVE', FALSE, v_at),
+    (v_tenant_id, v_app_2, v_job_id, v_pipeline_id, v_stage_1, 'ACTIVE', 'ACTIVE', FALSE, v_at),
+    (v_tenant_id, v_app_3, v_job_id, v_pipeline_id, v_stage_1, 'ACTIVE', 'ACTIVE', FALSE, v_at),
+    (v_tenant_id, v_app_4, v_job_id, v_pipeline_id, v_stage_1, 'ACTIVE', 'ACTIVE', FALSE, v_at + INTERVAL '1 hour'),
+    (v_tenant_id, v_app_5, v_job_id, v_pipeline_id, v_stage_1, 'ACTIVE', 'ACTIVE', FALSE, v_at - INTERVAL '1 hour');
+
+  PERFORM set_manual_signal(v_app_1, v_tenant_id, NULL, 'TECH_SCORE', 'integer', '3');
+  PERFORM set_manual_signal(v_app_2, v_tenant_id, NULL, 'TECH_SCORE', 'integer', '5');
+  PERFORM set_manual_signal(v_app_3, v_tenant_id, NULL, 'TECH_SCORE', 'integer', '5');
+
+  -- Tie groups in application_id order
+  v_tied := ARRAY(SELECT id FROM unnest(ARRAY[v_app_1, v_app_2, v_app_3]) AS id ORDER BY id);
+  v_carols := ARRAY(SELECT id FROM unnest(ARRAY[v_app_2, v_app_3]) AS id ORDER BY id);
+  v_missing := ARRAY(SELECT id FROM unnest(ARRAY[v_app_4, v_app_5]) AS id ORDER BY id);
+
+  -- ==========================================================================
+  -- TEST 1-2: entered_stage_at, two cards per page
+  -- ==========================================================================
+  v_expected := ARRAY[v_app_5] || v_tied || ARRAY[v_app_4];
+
+  SELECT * INTO v_walk FROM _walk_board_stage(v_tenant_id, v_pipeline_id, v_stage_1, 'entered_stage_at', 'asc', NULL, 2);
+  PERFORM _assert_eq('ENTERED', '1a_asc_pages_in_order', v_expected, v_walk.ids);
+  PERFORM _assert_eq('ENTERED', '1b_asc_three_pages', 3, v_walk.pages);
+
+  SELECT * INTO v_walk FROM _walk_board_stage(v_tenant_id, v_pipeline_id, v_stage_1, 'entered_stage_at', 'desc', NULL, 2);
+  PERFORM _assert_eq('ENTERED', '1c_desc_is_exact_reverse',
+    ARRAY(SELECT id FROM unnest(v_expected) WITH ORDINALITY AS t(id, n) ORDER BY n DESC), v_walk.ids);
+
+  -- A page boundary inside the tie group: one card per page still visits each once
+  SELECT * INTO v_walk FROM _walk_board_stage(v_tenant_id, v_pipeline_id, v_stage_1, 'entered_stage_at', 'asc', NULL, 1);
+  PERFORM _assert_eq('ENTERED', '2a_ties_split_across_pages', v_expected, v_walk.ids);
+  PERFORM _assert_eq('ENTERED', '2b_no_empty_trailing_page', 5, v_walk.pages);
+
+  -- ==========================================================================
+  -- TEST 3: name, case-insensitive
+  -- ==========================================================================
+  SELECT * INTO v_walk FROM _walk_board_stage(v_tenant_id, v_pipeline_id, v_stage_1, 'name', 'asc', NULL, 1);
+  PERFORM _assert_eq('NAME', '3a_case_insensitive_ties_by_id',
+    ARRAY[v_app_4] || v_carols || ARRAY[v_app_1, v_app_5], v_walk.ids);
+
+  SELECT * INTO v_walk FROM _walk_board_stage(v_tenant_id, v_pipeline_id, v_stage_1, 'name', 'desc', NULL, 2);
+  PERFORM _assert_eq('NAME', '3b_desc',
+    ARRAY[v_app_5, v_app_1, v_carols[2], v_carols[1], v_app_4], v_walk.ids);
+
+  -- ==========================================================================
+  -- TEST 4: signal, missing values last in both directions
+  -- ==========================================================================
+  SELECT * INTO v_walk FROM _walk_board_stage(v_tenant_id, v_pipeline_id, v_stage_1, 'signal', 'desc', 'TECH_SCORE', 2);
+  PERFORM _assert_eq('SIGNAL', '4a_desc_missing_last',
+    ARRAY[v_carols[2], v_carols[1], v_app_1, v_missing[2], v_missing[1]], v_walk.ids);
+
+  SELECT * INTO v_walk FROM _walk_board_stage(v_tenant_id, v_pipeline_id, v_stage_1, 'signal', 'asc', 'TECH_SCORE', 2);
+  PERFORM _assert_eq('SIGNAL', '4b_asc_missing_last',
+    ARRAY[v_app_1] || v_carols || v_missing, v_walk.ids);
+
+  -- ==========================================================================
+  -- TEST 5: get_pipeline_board()
+  -- ==========================================================================
+  v_board := get_pipeline_board(v_tenant_id, v_pipeline_id, '{}'::jsonb, 'entered_stage_at', 'asc', NULL, 2);
+
+  PERFORM _assert_eq('BOARD', '5a_total', 5, (v_board->>'total')::INT);
+  PERFORM _assert_eq('BOARD', '5b_stages_in_order', v_stage_1, (v_board->'stages'->0->>'stage_id')::UUID);
+  PERFORM _assert_eq('BOARD', '5c_stage_count', 5, (v_board->'stages'->0->>'count')::INT);
+  PERFORM _assert_eq('BOARD', '5d_first_page_only', 2, jsonb_array_length(v_board->'stages'->0->'applications'));
+  PERFORM _assert_eq('BOARD', '5e_first_page_has_cursor', TRUE,
+    jsonb_typeof(v_board->'stages'->0->'next_cursor') = 'object');
+  PERFORM _assert_eq('BOARD', '5f_empty_stage_count', 0, (v_board->'stages'->1->>'count')::INT);
+  PERFORM _assert_eq('BOARD', '5g_empty_stage_no_cards', 0, jsonb_array_length(v_board->'stages'->1->'applications'));
+  PERFORM _assert_eq('BOARD', '5h_empty_stage_no_cursor', 'null'::TEXT, jsonb_typeof(v_board->'stages'->1->'next_cursor'));
+
+  -- Continuing from the board's cursor yields the rest of the column
+  v_board := get_board_stage_page(
+    v_tenant_id, v_pipeline_id, v_stage_1, '{}'::jsonb, 'entered_stage_at', 'asc', NULL,
+    v_board->'stages'->0->'next_cursor', 10
+  );
+  PERFORM _assert_eq('BOARD', '5i_cursor_continues_column', v_tied[2:3] || ARRAY[v_app_4],
+    ARRAY(
+      SELECT (c->>'application_id')::UUID
+      FROM jsonb_array_elements(v_board->'applications') WITH ORDINALITY AS t(c, n)
+      ORDER BY n
+    ));
+  PERFORM _assert_eq('BOARD', '5j_cards_omit_cursor', FALSE, (v_board->'applications'->0) ? 'cursor');
+
+  -- ==========================================================================
+  -- TEST 6: Validation
+  -- ==========================================================================
+  v_error := NULL;
+  BEGIN
+    PERFORM get_board_stage_page(v_tenant_id, v_pipeline_id, v_stage_1, '{}'::jsonb, 'score');
+  EXCEPTION WHEN OTHERS THEN
+    v_error := SQLERRM;
+  END;
+  PERFORM _record_test('VALIDATION', '6a_unknown_sort',
+    COALESCE(v_error LIKE 'VALIDATION:%', FALSE), 'VALIDATION', v_error);
+
+  v_error := NULL;
+  BEGIN
+    PERFORM get_board_stage_page(v_tenant_id, v_pipeline_id, v_stage_1, '{}'::jsonb, 'signal', 'desc', NULL);
+  EXCEPTION WHEN OTHERS THEN
+    v_error := SQLERRM;
+  END;
+  PERFORM _record_test('VALIDATION', '6b_signal_sort_requires_key',
+    COALESCE(v_error LIKE 'VALIDATION:%', FALSE), 'VALIDATION', v_error);
+
+  -- Cleanup test data
+  DELETE FROM application_signals WHERE tenant_id = v_tenant_id;
+  DELETE FROM application_pipeline_state WHERE tenant_id = v_tenant_id;
+  DELETE FROM applications WHERE tenant_id = v_tenant_id;
+  DELETE FROM candidates WHERE tenant_id = v_tenant_id;
+  DELETE FROM pipeline_stages WHERE tenant_id = v_tenant_id;
+  DELETE FROM pipelines WHERE tenant_id = v_tenant_id;
+  DELETE FROM jobs WHERE tenant_id = v_tenant_id;
+  DELETE FROM tenant_application_statuses WHERE tenant_id = v_tenant_id;
+  DELETE FROM tenants WHERE id = v_tenant_id;
+END $$;
+
+-- ============================================================================
+-- RESULTS SUMMARY
+-- ============================================================================
+
+SELECT
+  CASE WHEN passed THEN 'PASS' ELSE 'FAIL' END AS result,
+  category,
+  test_name,
+  expected,
+  actual,
+  error_message
+FROM _test_results
+ORDER BY id;
+
+SELECT
+  COUNT(*) FILTER (WHERE passed) AS passed,
+  COUNT(*) FILTER (WHERE NOT passed) AS failed,
+  COUNT(*) AS total
+FROM _test_results;
+
+-- Cleanup harness
+DROP TABLE IF EXISTS _test_results CASCADE;
+DROP FUNCTION IF EXISTS _record_test CASCADE;
+DROP FUNCTION IF EXISTS _assert_eq CASCADE;
+DROP FUNCTION IF EXISTS _walk_board_stage CASCADE;
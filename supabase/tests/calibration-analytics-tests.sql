@@ -0,0 +1,288 @@
+-- ============================================================================
+-- CALIBRATION ANALYTICS TESTS
+-- ============================================================================
+-- Purpose: Verify the z-scores, outlier rates and HAWK / DOVE flags of
+--          get_calibration_analytics() (20260310000001_calibration_analytics).
+-- Run via: Supabase SQL Editor or psql
+--
+-- Fixture: three panels of the same three interviewers on one integer signal
+--   panel 1   hawk 2, neutral 3, dove 4
+--   panel 2   hawk 2, neutral 3, dove 4
+--   panel 3   hawk 1, neutral 3, dove 3   (hawk alone furthest from the mean)
+-- plus a CANCELLED panel that must not count. All nine scores: mean 25/9,
+-- population standard deviation sqrt(68)/9.
+--
+-- Tests:
+--   1. Signal mean and standard deviation
+--   2. Deviation from the other panelists and z-score
+--   3. Outlier rate (single furthest score in panels of 3+)
+--   4. HAWK / DOVE flags, ordered by |mean_z_score|
+--   5. Flags need p_min_panels panels and a z-score past the threshold
+--   6. Invalid arguments are rejected
+--
+-- Prerequisites: All migrations applied
+-- ============================================================================
+
+-- ============================================================================
+-- TEST HARNESS SETUP (idempotent)
+-- ============================================================================
+
+DROP TABLE IF EXISTS _test_results CASCADE;
+CREATE TABLE _test_results (
+  id SERIAL PRIMARY KEY,
+  category TEXT NOT NULL,
+  test_name TEXT NOT NULL,
+  passed BOOLEAN NOT NULL,
+  expected TEXT,
+  actual TEXT,
+  error_message TEXT,
+  executed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION _record_test(
+  p_category TEXT,
+  p_test_name TEXT,
+  p_passed BOOLEAN,
+  p_expected TEXT DEFAULT NULL,
+  p_actual TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL
+) RETURNS VOID AS $$
+BEGIN
+  INSERT INTO _test_results (category, test_name, passed, expected, actual, error_message)
+  VALUES (p_category, p_test_name, p_passed, p_expected, p_actual, p_error);
+
+  IF p_passed THEN
+    RAISE NOTICE '[PASS] %.%', p_category, p_test_name;
+  ELSE
+    RAISE NOTICE '[FAIL] %.% - Expected: %, Actual: %, Error: %',
+      p_category, p_test_name, p_expected, p_actual, p_error;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION _assert_eq(
+  p_category TEXT,
+  p_test_name TEXT,
+  p_expected ANYELEMENT,
+  p_actual ANYELEMENT
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_passed BOOLEAN;
+BEGIN
+  v_passed := p_expected IS NOT DISTINCT FROM p_actual;
+  PERFORM _record_test(p_category, p_test_name, v_passed, p_expected::TEXT, p_actual::TEXT);
+  RETURN v_passed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- TESTS 1-6
+-- ============================================================================
+
+DO $$
+DECLARE
+  v_tenant_id UUID;
+  v_job_id UUID;
+  v_template_id UUID;
+  v_hawk UUID := gen_random_uuid();
+  v_neutral UUID := gen_random_uuid();
+  v_dove UUID := gen_random_uuid();
+  v_users UUID[];
+  v_panels INT[] := ARRAY[[2, 3, 4], [2, 3, 4], [1, 3, 3], [5, 5, 5]];
+  v_app_id UUID;
+  v_eval_id UUID;
+  v_participant_id UUID;
+  v_report JSONB;
+  v_signal JSONB;
+  v_error TEXT;
+  i INT;
+  j INT;
+BEGIN
+  -- Setup: tenant, interviewers, template with one scored signal
+  INSERT INTO tenants (id, name, slug) VALUES
+    (gen_random_uuid(), 'Test Tenant Calibration', 'test-calibration-' || substr(gen_random_uuid()::text, 1, 8))
+    RETURNING id INTO v_tenant_id;
+
+  v_users := ARRAY[v_hawk, v_neutral, v_dove];
+
+  INSERT INTO auth.users (id, email, encrypted_password, email_confirmed_at, created_at, updated_at, instance_id, aud, role)
+  SELECT u, 'calibration-' || u || '@test.example.com', crypt('password123', gen_salt('bf')), NOW(), NOW(), NOW(),
+    '00000000-0000-0000-0000-000000000000', 'authenticated', 'authenticated'
+  FROM unnest(v_users) AS u;
+
+  INSERT INTO user_profiles (id, tenant_id, name, role) VALUES
+    (v_hawk, v_tenant_id, 'Hawk Interviewer', 'INTERVIEWER'),
+    (v_neutral, v_tenant_id, 'Neutral Interviewer', 'INTERVIEWER'),
+    (v_dove, v_tenant_id, 'Dove Interviewer', 'INTERVIEWER');
+
+  INSERT INTO jobs (id, tenant_id, title) VALUES
+    (gen_random_uuid(), v_tenant_id, 'Test Job Calibration')
+    RETURNING id INTO v_job_id;
+
+  INSERT INTO evaluation_templates (id, tenant_id, name, participant_type, signal_schema)
+  VALUES (gen_random_uuid(), v_tenant_id, 'Calibration Panel', 'PANEL',
+    '[
+      {"key": "SCORE", "type": "integer", "label": "Score (1-5)", "min": 1, "max": 5, "aggregation": "AVERAGE"},
+      {"key": "NOTES", "type": "text", "label": "Notes", "aggregation": null}
+    ]'::jsonb)
+  RETURNING id INTO v_template_id;
+
+  -- One application and evaluation per panel; the last one is CANCELLED
+  FOR i IN 1..array_length(v_panels, 1) LOOP
+    INSERT INTO applications (id, tenant_id, job_id, applicant_name, applicant_email) VALUES
+      (gen_random_uuid(), v_tenant_id, v_job_id, 'Panel ' || i, 'calibration-panel' || i || '@example.com')
+      RETURNING id INTO v_app_id;
+
+    INSERT INTO evaluation_instances (id, tenant_id, application_id, template_id, status)
+    VALUES (gen_random_uuid(), v_tenant_id, v_app_id, v_template_id,
+      CASE WHEN i = array_length(v_panels, 1) THEN 'CANCELLED' ELSE 'COMPLETED' END)
+    RETURNING id INTO v_eval_id;
+
+    FOR j IN 1..3 LOOP
+      INSERT INTO evaluation_participants (id, tenant_id, evaluation_id, user_id, status, submitted_at)
+      VALUES (gen_random_uuid(), v_tenant_id, v_eval_id, v_users[j], 'SUBMITTED', NOW())
+      RETURNING id INTO v_participant_id;
+
+      INSERT INTO evaluation_responses (tenant_id, participant_id, response_data)
+      VALUES (v_tenant_id, v_participant_id, jsonb_build_object('SCORE', v_panels[i][j], 'NOTES', 'n/a'));
+    END LOOP;
+  END LOOP;
+
+  v_report := get_calibration_analytics(v_tenant_id, v_template_id, p_min_panels => 3);
+
+  -- ==========================================================================
+  -- TEST 1: Signal statistics (CANCELLED panel excluded, NOTES not scored)
+  -- ==========================================================================
+  PERFORM _assert_eq('SIGNAL', '1a_cancelled_panel_ignored', 9, (v_report->>'responses')::INT);
+  PERFORM _assert_eq('SIGNAL', '1b_only_scored_signals', 1, jsonb_array_length(v_report->'signals'));
+  PERFORM _assert_eq('SIGNAL', '1c_mean', 2.7778, (v_report->'signals'->0->>'mean')::NUMERIC);
+  PERFORM _assert_eq('SIGNAL', '1d_stddev_pop', 0.9162, (v_report->'signals'->0->>'stddev')::NUMERIC);
+
+  -- ==========================================================================
+  -- TEST 2: Deviation and z-score
+  -- ==========================================================================
+  -- Hawk: others' means 3.5, 3.5, 3 -> deviations -1.5, -1.5, -2
+  SELECT x->'signals'->0 INTO v_signal
+  FROM jsonb_array_elements(v_report->'interviewers') x
+  WHERE x->>'user_id' = v_hawk::TEXT;
+
+  PERFORM _assert_eq('Z_SCORE', '2a_panels', 3, (v_signal->>'panels')::INT);
+  PERFORM _assert_eq('Z_SCORE', '2b_panel_mean_excludes_self', 3.3333, (v_signal->>'panel_mean')::NUMERIC);
+  PERFORM _assert_eq('Z_SCORE', '2c_hawk_deviation', -1.6667, (v_signal->>'deviation')::NUMERIC);
+  PERFORM _assert_eq('Z_SCORE', '2d_hawk_z_score', -1.8190, (v_signal->>'z_score')::NUMERIC);
+
+  -- Dove: deviations 1.5, 1.5, 1
+  SELECT x->'signals'->0 INTO v_signal
+  FROM jsonb_array_elements(v_report->'interviewers') x
+  WHERE x->>'user_id' = v_dove::TEXT;
+
+  PERFORM _assert_eq('Z_SCORE', '2e_dove_deviation', 1.3333, (v_signal->>'deviation')::NUMERIC);
+  PERFORM _assert_eq('Z_SCORE', '2f_dove_z_score', 1.4552, (v_signal->>'z_score')::NUMERIC);
+
+  -- ==========================================================================
+  -- TEST 3: Outliers
+  -- ==========================================================================
+  -- Panels 1-2: hawk and dove tie for furthest, so neither is an outlier
+  PERFORM _assert_eq('OUTLIER', '3a_tied_distance_not_outlier', 0, (v_signal->>'outlier_panels')::INT);
+
+  SELECT x->'signals'->0 INTO v_signal
+  FROM jsonb_array_elements(v_report->'interviewers') x
+  WHERE x->>'user_id' = v_hawk::TEXT;
+
+  PERFORM _assert_eq('OUTLIER', '3b_single_furthest_is_outlier', 1, (v_signal->>'outlier_panels')::INT);
+  PERFORM _assert_eq('OUTLIER', '3c_outlier_rate', 0.3333, (v_signal->>'outlier_rate')::NUMERIC);
+
+  -- ==========================================================================
+  -- TEST 4: Flags
+  -- ==========================================================================
+  PERFORM _assert_eq('FLAGS', '4a_ordered_by_abs_mean_z', ARRAY[v_hawk, v_dove, v_neutral],
+    ARRAY(
+      SELECT (x->>'user_id')::UUID
+      FROM jsonb_array_elements(v_report->'interviewers') WITH ORDINALITY AS t(x, n)
+      ORDER BY n
+    ));
+  PERFORM _assert_eq('FLAGS', '4b_hawk', 'HAWK'::TEXT, v_report->'interviewers'->0->>'flag');
+  PERFORM _assert_eq('FLAGS', '4c_hawk_mean_z', -1.8190, (v_report->'interviewers'->0->>'mean_z_score')::NUMERIC);
+  PERFORM _assert_eq('FLAGS', '4d_dove', 'DOVE'::TEXT, v_report->'interviewers'->1->>'flag');
+  -- Neutral: deviations 0, 0, 1 -> z 0.3638, inside the 0.5 threshold
+  PERFORM _assert_eq('FLAGS', '4e_neutral_unflagged', NULL::TEXT, v_report->'interviewers'->2->>'flag');
+  PERFORM _assert_eq('FLAGS', '4f_neutral_mean_z', 0.3638, (v_report->'interviewers'->2->>'mean_z_score')::NUMERIC);
+
+  -- ==========================================================================
+  -- TEST 5: Thresholds and filters
+  -- ==========================================================================
+  v_report := get_calibration_analytics(v_tenant_id, v_template_id);
+  PERFORM _assert_eq('THRESHOLD', '5a_default_min_panels_no_flags', 0,
+    (SELECT COUNT(*)::INT FROM jsonb_array_elements(v_report->'interviewers') x WHERE x->>'flag' IS NOT NULL));
+  PERFORM _assert_eq('THRESHOLD', '5b_too_few_panels_no_mean_z', NULL::NUMERIC,
+    (v_report->'interviewers'->0->>'mean_z_score')::NUMERIC);
+
+  v_report := get_calibration_analytics(v_tenant_id, v_template_id, p_deviation_threshold => 1.5, p_min_panels => 3);
+  PERFORM _assert_eq('THRESHOLD', '5c_higher_threshold_keeps_hawk_only', ARRAY['HAWK']::TEXT[],
+    ARRAY(SELECT x->>'flag' FROM jsonb_array_elements(v_report->'interviewers') x WHERE x->>'flag' IS NOT NULL));
+
+  -- z-scores stay relative to the whole panel when one interviewer is selected
+  v_report := get_calibration_analytics(v_tenant_id, v_template_id, p_interviewer_id => v_dove, p_min_panels => 3);
+  PERFORM _assert_eq('THRESHOLD', '5d_interviewer_filter', 1, jsonb_array_length(v_report->'interviewers'));
+  PERFORM _assert_eq('THRESHOLD', '5e_filtered_z_unchanged', 1.4552,
+    (v_report->'interviewers'->0->'signals'->0->>'z_score')::NUMERIC);
+
+  -- ==========================================================================
+  -- TEST 6: Validation
+  -- ==========================================================================
+  v_error := NULL;
+  BEGIN
+    PERFORM get_calibration_analytics(v_tenant_id, gen_random_uuid());
+  EXCEPTION WHEN OTHERS THEN
+    v_error := SQLERRM;
+  END;
+  PERFORM _record_test('VALIDATION', '6a_unknown_template',
+    COALESCE(v_error LIKE 'NOT_FOUND:%', FALSE), 'NOT_FOUND', v_error);
+
+  v_error := NULL;
+  BEGIN
+    PERFORM get_calibration_analytics(v_tenant_id, v_template_id, p_pass_signal => 'SCORE');
+  EXCEPTION WHEN OTHERS THEN
+    v_error := SQLERRM;
+  END;
+  PERFORM _record_test('VALIDATION', '6b_pass_signal_must_be_boolean',
+    COALESCE(v_error LIKE 'VALIDATION:%', FALSE), 'VALIDATION', v_error);
+
+  -- Cleanup test data
+  DELETE FROM evaluation_responses WHERE tenant_id = v_tenant_id;
+  DELETE FROM evaluation_participants WHERE tenant_id = v_tenant_id;
+  DELETE FROM evaluation_instances WHERE tenant_id = v_tenant_id;
+  DELETE FROM evaluation_templates WHERE tenant_id = v_tenant_id;
+  DELETE FROM applications WHERE tenant_id = v_tenant_id;
+  DELETE FROM candidates WHERE tenant_id = v_tenant_id;
+  DELETE FROM jobs WHERE tenant_id = v_tenant_id;
+  DELETE FROM user_profiles WHERE tenant_id = v_tenant_id;
+  DELETE FROM auth.users WHERE id = ANY (v_users);
+  DELETE FROM tenant_application_statuses WHERE tenant_id = v_tenant_id;
+  DELETE FROM tenants WHERE id = v_tenant_id;
+END $$;
+
+-- ============================================================================
+-- RESULTS SUMMARY
+-- ============================================================================
+
+SELECT
+  CASE WHEN passed THEN 'PASS' ELSE 'FAIL' END AS result,
+  category,
+  test_name,
+  expected,
+  actual,
+  error_message
+FROM _test_results
+ORDER BY id;
+
+SELECT
+  COUNT(*) FILTER (WHERE passed) AS passed,
+  COUNT(*) FILTER (WHERE NOT passed) AS failed,
+  COUNT(*) AS total
+FROM _test_results;
+
+-- Cleanup harness
+DROP TABLE IF EXISTS _test_results CASCADE;
+DROP FUNCTION IF EXISTS _record_test CASCADE;
+DROP FUNCTION IF EXISTS _assert_eq CASCADE;
@@ -0,0 +1,240 @@
+-- ============================================================================
+-- CANDIDATE MERGE TESTS
+-- ============================================================================
+-- Purpose: Verify candidate linking and merge_candidates() repointing
+--          (20260226000001_candidates).
+-- Run via: Supabase SQL Editor or psql
+--
+-- Tests:
+--   1. Applications with the same normalized email share a candidate
+--   2. Merging moves every application of the source to the target
+--   3. A second merge repoints earlier merges (one hop to the survivor)
+--   4. New applications with a merged email resolve to the survivor
+--   5. Invalid merges are rejected
+--
+-- Prerequisites: All migrations applied
+-- ============================================================================
+
+-- ============================================================================
+-- TEST HARNESS SETUP (idempotent)
+-- ============================================================================
+
+DROP TABLE IF EXISTS _test_results CASCADE;
+CREATE TABLE _test_results (
+  id SERIAL PRIMARY KEY,
+  category TEXT NOT NULL,
+  test_name TEXT NOT NULL,
+  passed BOOLEAN NOT NULL,
+  expected TEXT,
+  actual TEXT,
+  error_message TEXT,
+  executed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION _record_test(
+  p_category TEXT,
+  p_test_name TEXT,
+  p_passed BOOLEAN,
+  p_expected TEXT DEFAULT NULL,
+  p_actual TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL
+) RETURNS VOID AS $$
+BEGIN
+  INSERT INTO _test_results (category, test_name, passed, expected, actual, error_message)
+  VALUES (p_category, p_test_name, p_passed, p_expected, p_actual, p_error);
+
+  IF p_passed THEN
+    RAISE NOTICE '[PASS] %.%', p_category, p_test_name;
+  ELSE
+    RAISE NOTICE '[FAIL] %.% - Expected: %, Actual: %, Error: %',
+      p_category, p_test_name, p_expected, p_actual, p_error;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION _assert_eq(
+  p_category TEXT,
+  p_test_name TEXT,
+  p_expected ANYELEMENT,
+  p_actual ANYELEMENT
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_passed BOOLEAN;
+BEGIN
+  v_passed := p_expected IS NOT DISTINCT FROM p_actual;
+  PERFORM _record_test(p_category, p_test_name, v_passed, p_expected::TEXT, p_actual::TEXT);
+  RETURN v_passed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- TESTS 1-5
+-- ============================================================================
+
+DO $$
+DECLARE
+  v_tenant_id UUID;
+  v_other_tenant_id UUID;
+  v_job_id UUID;
+  v_app_a UUID;
+  v_app_b1 UUID;
+  v_app_b2 UUID;
+  v_app_c UUID;
+  v_app_new UUID;
+  v_cand_a UUID;
+  v_cand_b UUID;
+  v_cand_c UUID;
+  v_other_cand UUID;
+  v_result candidates;
+  v_count INT;
+  v_error TEXT;
+BEGIN
+  -- Setup: tenant, job, applications for three people
+  INSERT INTO tenants (id, name, slug) VALUES
+    (gen_random_uuid(), 'Test Tenant Candidates', 'test-candidates-' || substr(gen_random_uuid()::text, 1, 8))
+    RETURNING id INTO v_tenant_id;
+
+  INSERT INTO tenants (id, name, slug) VALUES
+    (gen_random_uuid(), 'Test Tenant Candidates Other', 'test-candidates-o-' || substr(gen_random_uuid()::text, 1, 8))
+    RETURNING id INTO v_other_tenant_id;
+
+  INSERT INTO jobs (id, tenant_id, title) VALUES
+    (gen_random_uuid(), v_tenant_id, 'Test Job Candidates')
+    RETURNING id INTO v_job_id;
+
+  INSERT INTO applications (tenant_id, job_id, applicant_name, applicant_email) VALUES
+    (v_tenant_id, v_job_id, 'Alex A', 'alex@example.com')
+    RETURNING id, candidate_id INTO v_app_a, v_cand_a;
+
+  INSERT INTO applications (tenant_id, job_id, applicant_name, applicant_email, applicant_phone) VALUES
+    (v_tenant_id, v_job_id, 'Alex B', 'alex.b@example.com', '+1 (555) 010-0200')
+    RETURNING id, candidate_id INTO v_app_b1, v_cand_b;
+
+  INSERT INTO applications (tenant_id, job_id, applicant_name, applicant_email) VALUES
+    (v_tenant_id, v_job_id, 'Alex B', '  ALEX.B@example.com ')
+    RETURNING id INTO v_app_b2;
+
+  INSERT INTO applications (tenant_id, job_id, applicant_name, applicant_email) VALUES
+    (v_tenant_id, v_job_id, 'Alex C', 'alex.c@example.com')
+    RETURNING id, candidate_id INTO v_app_c, v_cand_c;
+
+  v_other_cand := resolve_candidate(v_other_tenant_id, 'alex@example.com', 'Alex Elsewhere');
+
+  -- ==========================================================================
+  -- TEST 1: Linking by normalized email
+  -- ==========================================================================
+  PERFORM _assert_eq('LINKING', '1a_same_email_same_candidate', v_cand_b,
+    (SELECT candidate_id FROM applications WHERE id = v_app_b2));
+  PERFORM _record_test('LINKING', '1b_different_people_different_candidates',
+    v_cand_a <> v_cand_b AND v_cand_b <> v_cand_c, 'distinct', format('%s %s %s', v_cand_a, v_cand_b, v_cand_c));
+
+  -- ==========================================================================
+  -- TEST 2: Merge B into A
+  -- ==========================================================================
+  v_result := merge_candidates(v_tenant_id, v_cand_a, v_cand_b, NULL);
+
+  PERFORM _assert_eq('MERGE', '2a_returns_target', v_cand_a, v_result.id);
+  PERFORM _assert_eq('MERGE', '2b_target_takes_missing_phone', '15550100200'::VARCHAR, v_result.phone_normalized);
+
+  SELECT COUNT(*) INTO v_count FROM applications WHERE candidate_id = v_cand_a;
+  PERFORM _assert_eq('MERGE', '2c_all_applications_moved', 3, v_count);
+
+  SELECT COUNT(*) INTO v_count FROM applications WHERE candidate_id = v_cand_b;
+  PERFORM _assert_eq('MERGE', '2d_source_has_no_applications', 0, v_count);
+
+  PERFORM _assert_eq('MERGE', '2e_source_marked_merged', v_cand_a,
+    (SELECT merged_into_id FROM candidates WHERE id = v_cand_b));
+  PERFORM _assert_eq('MERGE', '2f_merged_at_set', TRUE,
+    (SELECT merged_at IS NOT NULL FROM candidates WHERE id = v_cand_b));
+
+  -- ==========================================================================
+  -- TEST 3: Merge A into C repoints B
+  -- ==========================================================================
+  PERFORM merge_candidates(v_tenant_id, v_cand_c, v_cand_a, NULL);
+
+  PERFORM _assert_eq('REPOINT', '3a_earlier_merge_points_at_survivor', v_cand_c,
+    (SELECT merged_into_id FROM candidates WHERE id = v_cand_b));
+  PERFORM _assert_eq('REPOINT', '3b_intermediate_points_at_survivor', v_cand_c,
+    (SELECT merged_into_id FROM candidates WHERE id = v_cand_a));
+
+  SELECT COUNT(*) INTO v_count
+  FROM applications
+  WHERE id IN (v_app_a, v_app_b1, v_app_b2, v_app_c)
+    AND candidate_id = v_cand_c;
+  PERFORM _assert_eq('REPOINT', '3c_every_application_on_survivor', 4, v_count);
+
+  -- ==========================================================================
+  -- TEST 4: Merged email and phone resolve to the survivor
+  -- ==========================================================================
+  INSERT INTO applications (tenant_id, job_id, applicant_name, applicant_email) VALUES
+    (v_tenant_id, v_job_id, 'Alex B', 'alex.b@example.com')
+    RETURNING id INTO v_app_new;
+
+  PERFORM _assert_eq('RESOLVE', '4a_merged_email_resolves_to_survivor', v_cand_c,
+    (SELECT candidate_id FROM applications WHERE id = v_app_new));
+  PERFORM _assert_eq('RESOLVE', '4b_other_tenant_untouched', NULL::UUID,
+    (SELECT merged_into_id FROM candidates WHERE id = v_other_cand));
+
+  -- ==========================================================================
+  -- TEST 5: Invalid merges
+  -- ==========================================================================
+  v_error := NULL;
+  BEGIN
+    PERFORM merge_candidates(v_tenant_id, v_cand_c, v_cand_c, NULL);
+  EXCEPTION WHEN OTHERS THEN
+    v_error := SQLERRM;
+  END;
+  PERFORM _record_test('ERRORS', '5a_merge_into_itself',
+    COALESCE(v_error LIKE 'VALIDATION:%', FALSE), 'VALIDATION', v_error);
+
+  v_error := NULL;
+  BEGIN
+    PERFORM merge_candidates(v_tenant_id, v_cand_c, v_cand_b, NULL);
+  EXCEPTION WHEN OTHERS THEN
+    v_error := SQLERRM;
+  END;
+  PERFORM _record_test('ERRORS', '5b_already_merged_source',
+    COALESCE(v_error LIKE 'INVALID_ACTION:%', FALSE), 'INVALID_ACTION', v_error);
+
+  v_error := NULL;
+  BEGIN
+    PERFORM merge_candidates(v_tenant_id, v_cand_c, v_other_cand, NULL);
+  EXCEPTION WHEN OTHERS THEN
+    v_error := SQLERRM;
+  END;
+  PERFORM _record_test('ERRORS', '5c_other_tenant_candidate',
+    COALESCE(v_error LIKE 'NOT_FOUND:%', FALSE), 'NOT_FOUND', v_error);
+
+  -- Cleanup test data
+  DELETE FROM applications WHERE tenant_id = v_tenant_id;
+  DELETE FROM candidates WHERE tenant_id IN (v_tenant_id, v_other_tenant_id) AND merged_into_id IS NOT NULL;
+  DELETE FROM candidates WHERE tenant_id IN (v_tenant_id, v_other_tenant_id);
+  DELETE FROM jobs WHERE id = v_job_id;
+  DELETE FROM tenant_application_statuses WHERE tenant_id IN (v_tenant_id, v_other_tenant_id);
+  DELETE FROM tenants WHERE id IN (v_tenant_id, v_other_tenant_id);
+END $$;
+
+-- ============================================================================
+-- RESULTS SUMMARY
+-- ============================================================================
+
+SELECT
+  CASE WHEN passed THEN 'PASS' ELSE 'FAIL' END AS result,
+  category,
+  test_name,
+  expected,
+  actual,
+  error_message
+FROM _test_results
+ORDER BY id;
+
+SELECT
+  COUNT(*) FILTER (WHERE passed) AS passed,
+  COUNT(*) FILTER (WHERE NOT passed) AS failed,
+  COUNT(*) AS total
+FROM _test_results;
+
+-- Cleanup harness
+DROP TABLE IF EXISTS _test_results CASCADE;
+DROP FUNCTION IF EXISTS _record_test CASCADE;
+DROP FUNCTION IF EXISTS _assert_eq CASCADE;
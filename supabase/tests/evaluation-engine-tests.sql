@@ -10,6 +10,9 @@
 --   3. Immutability Enforcement
 --   4. Action Engine Failure Modes
 --   5. Audit Trail Tests
+--   6. Rich Signal Types (in / contains, enum ties, weighted score)
+--   7. Blind Evaluations (RLS, board and search signal filters)
+--   8. Sequential Evaluations (chain advance, template migration)
 --
 -- Prerequisites: Migrations 20260206000001 and 20260206000002 must be applied
 -- ============================================================================
@@ -1504,6 +1507,441 @@ BEGIN
 END;
 $$;
 
+-- ============================================================================
+-- CATEGORY 6: RICH SIGNAL TYPES
+-- ============================================================================
+
+-- Test 6.1: in / contains Operators
+DO $$
+DECLARE
+  v_result BOOLEAN;
+BEGIN
+  -- in: numeric value listed
+  SELECT evaluate_signal_condition('TEST_NUM', NULL, 4, NULL, 'rating', 'in', '[3, 4, 5]') INTO v_result;
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.1a_in_numeric_listed', TRUE, v_result);
+
+  -- in: numeric value not listed
+  SELECT evaluate_signal_condition('TEST_NUM', NULL, 2, NULL, 'integer', 'in', '[3, 4, 5]') INTO v_result;
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.1b_in_numeric_not_listed', FALSE, v_result);
+
+  -- in: enum option listed
+  SELECT evaluate_signal_condition('TEST_ENUM', 'STRONG', NULL, NULL, 'enum', 'in', '["STRONG", "LEAN_YES"]') INTO v_result;
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.1c_in_enum_listed', TRUE, v_result);
+
+  -- in: scalar expected value is a one-element list
+  SELECT evaluate_signal_condition('TEST_ENUM', 'NO', NULL, NULL, 'enum', 'in', 'STRONG') INTO v_result;
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.1d_in_enum_scalar_not_listed', FALSE, v_result);
+
+  -- contains: text substring
+  SELECT evaluate_signal_condition('TEST_TEXT', 'strong system design', NULL, NULL, 'text', 'contains', 'system') INTO v_result;
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.1e_contains_text_substring', TRUE, v_result);
+
+  -- contains: not valid for enum
+  SELECT evaluate_signal_condition('TEST_ENUM', 'STRONG', NULL, NULL, 'enum', 'contains', 'STR') INTO v_result;
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.1f_contains_invalid_for_enum', FALSE, v_result);
+
+  -- multi_select in: any selected value listed
+  SELECT evaluate_signal_condition('TEST_MULTI', '["GO", "KOTLIN"]', NULL, NULL, 'multi_select', 'in', '["RUST", "GO"]') INTO v_result;
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.1g_in_multi_select_any', TRUE, v_result);
+
+  -- multi_select contains: every expected value selected
+  SELECT evaluate_signal_condition('TEST_MULTI', '["GO", "KOTLIN"]', NULL, NULL, 'multi_select', 'contains', '["GO", "KOTLIN"]') INTO v_result;
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.1h_contains_multi_select_all', TRUE, v_result);
+
+  SELECT evaluate_signal_condition('TEST_MULTI', '["GO", "KOTLIN"]', NULL, NULL, 'multi_select', 'contains', '["GO", "RUST"]') INTO v_result;
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.1i_contains_multi_select_missing_one', FALSE, v_result);
+
+  -- multi_select =: same set, order ignored
+  SELECT evaluate_signal_condition('TEST_MULTI', '["GO", "KOTLIN"]', NULL, NULL, 'multi_select', '=', '["KOTLIN", "GO"]') INTO v_result;
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.1j_eq_multi_select_same_set', TRUE, v_result);
+END;
+$$;
+
+-- Test 6.2: enum MAJORITY - Tie Records No Signal
+DO $$
+DECLARE
+  v_tenant_id UUID := 'aaaaaaaa-test-0000-0000-000000000001';
+  v_application_id UUID := 'cccccccc-test-app0-0001-000000000001';
+  v_template_id UUID := 'ffffffff-test-tmpl-0002-000000000002';
+  v_interviewer1_id UUID := '22222222-test-user-0002-000000000002';
+  v_interviewer2_id UUID := '33333333-test-user-0003-000000000003';
+  v_interviewer3_id UUID := '44444444-test-user-0004-000000000004';
+  v_interviewer4_id UUID := '55555555-test-user-0005-000000000005';
+  v_eval_id UUID;
+  v_signal_value TEXT;
+  v_signal_count INT;
+BEGIN
+  INSERT INTO evaluation_templates
+    (id, tenant_id, name, description, participant_type, signal_schema, default_aggregation)
+  VALUES (v_template_id, v_tenant_id, 'Test Enum Evaluation', 'For testing enum aggregation', 'PANEL',
+    '[
+      {"key": "VERDICT", "type": "enum", "label": "Verdict", "aggregation": "MAJORITY",
+       "options": [{"value": "STRONG", "label": "Strong"}, {"value": "LEAN_YES", "label": "Lean yes"}, {"value": "NO", "label": "No"}]}
+    ]'::jsonb, 'MAJORITY');
+
+  -- Scenario A: STRONG, STRONG, NO -> Expected: STRONG
+  v_eval_id := gen_random_uuid();
+  INSERT INTO evaluation_instances (id, tenant_id, application_id, template_id, status)
+  VALUES (v_eval_id, v_tenant_id, v_application_id, v_template_id, 'PENDING');
+
+  INSERT INTO evaluation_participants (tenant_id, evaluation_id, user_id, status)
+  VALUES
+    (v_tenant_id, v_eval_id, v_interviewer1_id, 'PENDING'),
+    (v_tenant_id, v_eval_id, v_interviewer2_id, 'PENDING'),
+    (v_tenant_id, v_eval_id, v_interviewer3_id, 'PENDING');
+
+  PERFORM submit_evaluation_response(v_eval_id, v_interviewer1_id, '{"VERDICT": "STRONG"}'::jsonb);
+  PERFORM submit_evaluation_response(v_eval_id, v_interviewer2_id, '{"VERDICT": "STRONG"}'::jsonb);
+  PERFORM submit_evaluation_response(v_eval_id, v_interviewer3_id, '{"VERDICT": "NO"}'::jsonb);
+
+  PERFORM complete_evaluation(v_eval_id, v_interviewer1_id);
+
+  SELECT signal_value_text INTO v_signal_value
+  FROM application_signals_latest
+  WHERE application_id = v_application_id AND signal_key = 'VERDICT';
+
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.2a_enum_MAJORITY_clear_winner', 'STRONG'::TEXT, v_signal_value);
+
+  -- Cleanup
+  DELETE FROM application_signals WHERE application_id = v_application_id;
+  DELETE FROM evaluation_responses WHERE participant_id IN (SELECT id FROM evaluation_participants WHERE evaluation_id = v_eval_id);
+  DELETE FROM evaluation_participants WHERE evaluation_id = v_eval_id;
+  DELETE FROM evaluation_instances WHERE id = v_eval_id;
+
+  -- Scenario B: STRONG, STRONG, NO, NO (TIE) -> Expected: no VERDICT signal
+  v_eval_id := gen_random_uuid();
+  INSERT INTO evaluation_instances (id, tenant_id, application_id, template_id, status)
+  VALUES (v_eval_id, v_tenant_id, v_application_id, v_template_id, 'PENDING');
+
+  INSERT INTO evaluation_participants (tenant_id, evaluation_id, user_id, status)
+  VALUES
+    (v_tenant_id, v_eval_id, v_interviewer1_id, 'PENDING'),
+    (v_tenant_id, v_eval_id, v_interviewer2_id, 'PENDING'),
+    (v_tenant_id, v_eval_id, v_interviewer3_id, 'PENDING'),
+    (v_tenant_id, v_eval_id, v_interviewer4_id, 'PENDING');
+
+  PERFORM submit_evaluation_response(v_eval_id, v_interviewer1_id, '{"VERDICT": "STRONG"}'::jsonb);
+  PERFORM submit_evaluation_response(v_eval_id, v_interviewer2_id, '{"VERDICT": "STRONG"}'::jsonb);
+  PERFORM submit_evaluation_response(v_eval_id, v_interviewer3_id, '{"VERDICT": "NO"}'::jsonb);
+  PERFORM submit_evaluation_response(v_eval_id, v_interviewer4_id, '{"VERDICT": "NO"}'::jsonb);
+
+  PERFORM complete_evaluation(v_eval_id, v_interviewer1_id);
+
+  SELECT COUNT(*) INTO v_signal_count
+  FROM application_signals_latest
+  WHERE application_id = v_application_id AND signal_key = 'VERDICT';
+
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.2b_enum_MAJORITY_tie_no_signal', 0, v_signal_count);
+
+  -- Cleanup
+  DELETE FROM application_signals WHERE application_id = v_application_id;
+  DELETE FROM evaluation_responses WHERE participant_id IN (SELECT id FROM evaluation_participants WHERE evaluation_id = v_eval_id);
+  DELETE FROM evaluation_participants WHERE evaluation_id = v_eval_id;
+  DELETE FROM evaluation_instances WHERE id = v_eval_id;
+  DELETE FROM evaluation_templates WHERE id = v_template_id;
+END;
+$$;
+
+-- Test 6.3: Weighted Score
+DO $$
+DECLARE
+  v_tenant_id UUID := 'aaaaaaaa-test-0000-0000-000000000001';
+  v_application_id UUID := 'cccccccc-test-app0-0001-000000000001';
+  v_template_id UUID := 'ffffffff-test-tmpl-0003-000000000003';
+  v_interviewer1_id UUID := '22222222-test-user-0002-000000000002';
+  v_interviewer2_id UUID := '33333333-test-user-0003-000000000003';
+  v_eval_id UUID;
+  v_signal_value NUMERIC;
+  v_signal_type TEXT;
+BEGIN
+  INSERT INTO evaluation_templates
+    (id, tenant_id, name, description, participant_type, signal_schema, default_aggregation, score_signal_key)
+  VALUES (v_template_id, v_tenant_id, 'Test Weighted Evaluation', 'For testing the weighted score', 'PANEL',
+    '[
+      {"key": "TECH", "type": "rating", "label": "Technical", "weight": 2, "aggregation": "AVERAGE",
+       "rubric": [{"score": 1, "label": "Weak"}, {"score": 2, "label": "Fair"}, {"score": 3, "label": "Good"}, {"score": 4, "label": "Strong"}]},
+      {"key": "COMMS", "type": "integer", "label": "Communication", "weight": 0.5, "min": 1, "max": 5, "aggregation": "AVERAGE"},
+      {"key": "YEARS", "type": "integer", "label": "Years of experience", "aggregation": "AVERAGE"}
+    ]'::jsonb, 'MAJORITY', 'TOTAL_SCORE');
+
+  v_eval_id := gen_random_uuid();
+  INSERT INTO evaluation_instances (id, tenant_id, application_id, template_id, status)
+  VALUES (v_eval_id, v_tenant_id, v_application_id, v_template_id, 'PENDING');
+
+  INSERT INTO evaluation_participants (tenant_id, evaluation_id, user_id, status)
+  VALUES
+    (v_tenant_id, v_eval_id, v_interviewer1_id, 'PENDING'),
+    (v_tenant_id, v_eval_id, v_interviewer2_id, 'PENDING');
+
+  -- TECH avg 3 x 2 + COMMS avg 4 x 0.5 = 8; YEARS has no weight
+  PERFORM submit_evaluation_response(v_eval_id, v_interviewer1_id, '{"TECH": 4, "COMMS": 5, "YEARS": 10}'::jsonb);
+  PERFORM submit_evaluation_response(v_eval_id, v_interviewer2_id, '{"TECH": 2, "COMMS": 3, "YEARS": 2}'::jsonb);
+
+  PERFORM complete_evaluation(v_eval_id, v_interviewer1_id);
+
+  SELECT signal_value_numeric, signal_type INTO v_signal_value, v_signal_type
+  FROM application_signals_latest
+  WHERE application_id = v_application_id AND signal_key = 'TOTAL_SCORE';
+
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.3a_weighted_score_sum', 8::NUMERIC, v_signal_value);
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.3b_weighted_score_is_float', 'float'::TEXT, v_signal_type);
+
+  -- Cleanup
+  DELETE FROM application_signals WHERE application_id = v_application_id;
+  DELETE FROM evaluation_responses WHERE participant_id IN (SELECT id FROM evaluation_participants WHERE evaluation_id = v_eval_id);
+  DELETE FROM evaluation_participants WHERE evaluation_id = v_eval_id;
+  DELETE FROM evaluation_instances WHERE id = v_eval_id;
+  DELETE FROM evaluation_templates WHERE id = v_template_id;
+END;
+$$;
+
+-- Test 6.4: Search Signal Filters for enum / multi_select
+DO $$
+DECLARE
+  v_result BOOLEAN;
+BEGIN
+  SELECT search_signal_matches('enum', 'STRONG', NULL, NULL, 'STRONG') INTO v_result;
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.4a_search_enum_match', TRUE, v_result);
+
+  SELECT search_signal_matches('enum', 'STRONG', NULL, NULL, 'NO') INTO v_result;
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.4b_search_enum_other_option', FALSE, v_result);
+
+  SELECT search_signal_matches('multi_select', '["GO", "KOTLIN"]', NULL, NULL, 'GO') INTO v_result;
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.4c_search_multi_select_single_value', TRUE, v_result);
+
+  SELECT search_signal_matches('multi_select', '["GO", "KOTLIN"]', NULL, NULL, '["KOTLIN", "GO"]') INTO v_result;
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.4d_search_multi_select_all_selected', TRUE, v_result);
+
+  SELECT search_signal_matches('multi_select', '["GO", "KOTLIN"]', NULL, NULL, '["GO", "RUST"]') INTO v_result;
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.4e_search_multi_select_one_missing', FALSE, v_result);
+
+  SELECT search_signal_matches('rating', NULL, 4, NULL, '4') INTO v_result;
+  PERFORM _assert_eq('6_RICH_SIGNALS', '6.4f_search_rating_numeric', TRUE, v_result);
+END;
+$$;
+
+-- ============================================================================
+-- CATEGORY 7: BLIND EVALUATIONS
+-- ============================================================================
+
+-- Test 7.1: Blinded Panelist Visibility (RLS, board and search signal filters)
+DO $$
+DECLARE
+  v_tenant_id UUID := 'aaaaaaaa-test-0000-0000-000000000001';
+  v_application_id UUID := 'cccccccc-test-app0-0001-000000000001';
+  v_template_id UUID := 'ffffffff-test-tmpl-0004-000000000004';
+  v_hr_user_id UUID := '11111111-test-user-0001-000000000001';
+  v_interviewer1_id UUID := '22222222-test-user-0002-000000000002';
+  v_claims TEXT;
+  v_signal_filter JSONB := '{"signals": {"logic": "ALL", "conditions": [{"signal": "TEST_NUM", "operator": ">=", "value": "3"}]}}';
+  v_eval_id UUID;
+  v_blinded_count INT;
+  v_signal_rows INT;
+  v_response_rows INT;
+  v_board_match BOOLEAN;
+  v_search_total INT;
+BEGIN
+  DELETE FROM application_signals WHERE application_id = v_application_id;
+  PERFORM set_manual_signal(v_application_id, v_tenant_id, v_hr_user_id, 'TEST_NUM', 'integer', '3');
+
+  INSERT INTO evaluation_templates
+    (id, tenant_id, name, description, participant_type, signal_schema, default_aggregation, blind)
+  VALUES (v_template_id, v_tenant_id, 'Test Blind Panel', 'For testing blind evaluations', 'PANEL',
+    '[{"key": "NOTES", "type": "text", "label": "Notes", "aggregation": null}]'::jsonb, 'MAJORITY', TRUE);
+
+  -- HR sits on the panel and has not submitted; interviewer 1 has
+  v_eval_id := gen_random_uuid();
+  INSERT INTO evaluation_instances (id, tenant_id, application_id, template_id, status)
+  VALUES (v_eval_id, v_tenant_id, v_application_id, v_template_id, 'IN_PROGRESS');
+
+  INSERT INTO evaluation_participants (tenant_id, evaluation_id, user_id, status)
+  VALUES
+    (v_tenant_id, v_eval_id, v_hr_user_id, 'PENDING'),
+    (v_tenant_id, v_eval_id, v_interviewer1_id, 'PENDING');
+
+  PERFORM submit_evaluation_response(v_eval_id, v_interviewer1_id, '{"NOTES": "great kotlin answer"}'::jsonb);
+
+  SELECT COUNT(*) INTO v_blinded_count FROM blinded_evaluations(v_tenant_id, v_hr_user_id);
+  PERFORM _assert_eq('7_BLIND', '7.1a_pending_panelist_blinded', 1, v_blinded_count);
+
+  SELECT COUNT(*) INTO v_blinded_count FROM blinded_evaluations(v_tenant_id, v_interviewer1_id);
+  PERFORM _assert_eq('7_BLIND', '7.1b_submitted_panelist_not_blinded', 0, v_blinded_count);
+
+  -- Search runs with definer rights and takes the caller explicitly
+  SELECT (search_applications(v_tenant_id, v_hr_user_id, p_signals => '{"TEST_NUM": "3"}'::jsonb)->>'total')::INT
+  INTO v_search_total;
+  PERFORM _assert_eq('7_BLIND', '7.1c_search_signal_filter_skips_blinded', 0, v_search_total);
+
+  SELECT (search_applications(v_tenant_id, v_interviewer1_id, p_signals => '{"TEST_NUM": "3"}'::jsonb)->>'total')::INT
+  INTO v_search_total;
+  PERFORM _assert_eq('7_BLIND', '7.1d_search_signal_filter_unblinded', 1, v_search_total);
+
+  SELECT (search_applications(v_tenant_id, v_hr_user_id, p_query => 'kotlin')->>'total')::INT
+  INTO v_search_total;
+  PERFORM _assert_eq('7_BLIND', '7.1e_search_skips_blinded_answers', 0, v_search_total);
+
+  -- As the blinded HR user
+  v_claims := json_build_object('sub', v_hr_user_id, 'role', 'authenticated')::TEXT;
+  PERFORM set_config('request.jwt.claims', v_claims, TRUE);
+  SET LOCAL ROLE authenticated;
+
+  SELECT COUNT(*) INTO v_signal_rows FROM application_signals_latest WHERE application_id = v_application_id;
+  SELECT COUNT(*) INTO v_response_rows FROM evaluation_responses r
+  JOIN evaluation_participants p ON p.id = r.participant_id
+  WHERE p.evaluation_id = v_eval_id;
+  SELECT board_extra_filter(v_application_id, v_signal_filter) INTO v_board_match;
+
+  RESET ROLE;
+
+  PERFORM _assert_eq('7_BLIND', '7.1f_rls_hides_signals_while_blinded', 0, v_signal_rows);
+  PERFORM _assert_eq('7_BLIND', '7.1g_rls_hides_responses_while_blinded', 0, v_response_rows);
+  PERFORM _assert_eq('7_BLIND', '7.1h_board_signal_filter_skips_blinded', FALSE, v_board_match);
+
+  -- HR submits: blindness ends
+  PERFORM submit_evaluation_response(v_eval_id, v_hr_user_id, '{"NOTES": "agreed"}'::jsonb);
+
+  SET LOCAL ROLE authenticated;
+
+  SELECT COUNT(*) INTO v_signal_rows FROM application_signals_latest WHERE application_id = v_application_id;
+  SELECT COUNT(*) INTO v_response_rows FROM evaluation_responses r
+  JOIN evaluation_participants p ON p.id = r.participant_id
+  WHERE p.evaluation_id = v_eval_id;
+  SELECT board_extra_filter(v_application_id, v_signal_filter) INTO v_board_match;
+
+  RESET ROLE;
+
+  PERFORM _assert_eq('7_BLIND', '7.1i_rls_shows_signals_after_submit', 1, v_signal_rows);
+  PERFORM _assert_eq('7_BLIND', '7.1j_rls_shows_responses_after_submit', 2, v_response_rows);
+  PERFORM _assert_eq('7_BLIND', '7.1k_board_signal_filter_after_submit', TRUE, v_board_match);
+
+  -- Cleanup
+  DELETE FROM application_signals WHERE application_id = v_application_id;
+  DELETE FROM evaluation_responses WHERE participant_id IN (SELECT id FROM evaluation_participants WHERE evaluation_id = v_eval_id);
+  DELETE FROM evaluation_participants WHERE evaluation_id = v_eval_id;
+  DELETE FROM evaluation_instances WHERE id = v_eval_id;
+  DELETE FROM evaluation_templates WHERE id = v_template_id;
+END;
+$$;
+
+-- ============================================================================
+-- CATEGORY 8: SEQUENTIAL EVALUATIONS
+-- ============================================================================
+
+-- Test 8.1: Chain Order - WAITING -> PENDING
+DO $$
+DECLARE
+  v_tenant_id UUID := 'aaaaaaaa-test-0000-0000-000000000001';
+  v_application_id UUID := 'cccccccc-test-app0-0001-000000000001';
+  v_template_id UUID := 'ffffffff-test-tmpl-0005-000000000005';
+  v_interviewer1_id UUID := '22222222-test-user-0002-000000000002';
+  v_interviewer2_id UUID := '33333333-test-user-0003-000000000003';
+  v_interviewer3_id UUID := '44444444-test-user-0004-000000000004';
+  v_eval_id UUID;
+  v_statuses TEXT;
+BEGIN
+  INSERT INTO evaluation_templates
+    (id, tenant_id, name, description, participant_type, signal_schema, default_aggregation)
+  VALUES (v_template_id, v_tenant_id, 'Test Sequential Evaluation', 'For testing the chain', 'SEQUENTIAL',
+    '[{"key": "GO", "type": "boolean", "label": "Proceed?", "aggregation": "MAJORITY"}]'::jsonb, 'MAJORITY');
+
+  v_eval_id := gen_random_uuid();
+  INSERT INTO evaluation_instances (id, tenant_id, application_id, template_id, status)
+  VALUES (v_eval_id, v_tenant_id, v_application_id, v_template_id, 'PENDING');
+
+  -- Inserted as PENDING; the trigger numbers them and queues all but the first
+  INSERT INTO evaluation_participants (tenant_id, evaluation_id, user_id, status)
+  VALUES
+    (v_tenant_id, v_eval_id, v_interviewer1_id, 'PENDING'),
+    (v_tenant_id, v_eval_id, v_interviewer2_id, 'PENDING'),
+    (v_tenant_id, v_eval_id, v_interviewer3_id, 'PENDING');
+
+  SELECT string_agg(sequence || ':' || status, ',' ORDER BY sequence) INTO v_statuses
+  FROM evaluation_participants WHERE evaluation_id = v_eval_id;
+  PERFORM _assert_eq('8_SEQUENTIAL', '8.1a_only_head_pending', '1:PENDING,2:WAITING,3:WAITING'::TEXT, v_statuses);
+
+  -- A WAITING participant cannot submit
+  BEGIN
+    PERFORM submit_evaluation_response(v_eval_id, v_interviewer2_id, '{"GO": true}'::jsonb);
+    PERFORM _record_test('8_SEQUENTIAL', '8.1b_waiting_cannot_submit', FALSE,
+      'Error: Waiting for earlier participants', 'Response accepted');
+  EXCEPTION WHEN OTHERS THEN
+    PERFORM _assert_error_contains('8_SEQUENTIAL', '8.1b_waiting_cannot_submit', SQLERRM,
+      'Waiting for earlier participants');
+  END;
+
+  -- The head submits: the next participant becomes PENDING
+  PERFORM submit_evaluation_response(v_eval_id, v_interviewer1_id, '{"GO": true}'::jsonb);
+
+  SELECT string_agg(sequence || ':' || status, ',' ORDER BY sequence) INTO v_statuses
+  FROM evaluation_participants WHERE evaluation_id = v_eval_id;
+  PERFORM _assert_eq('8_SEQUENTIAL', '8.1c_submit_advances_chain', '1:SUBMITTED,2:PENDING,3:WAITING'::TEXT, v_statuses);
+
+  -- Declining also advances
+  UPDATE evaluation_participants SET status = 'DECLINED'
+  WHERE evaluation_id = v_eval_id AND user_id = v_interviewer2_id;
+
+  SELECT string_agg(sequence || ':' || status, ',' ORDER BY sequence) INTO v_statuses
+  FROM evaluation_participants WHERE evaluation_id = v_eval_id;
+  PERFORM _assert_eq('8_SEQUENTIAL', '8.1d_decline_advances_chain', '1:SUBMITTED,2:DECLINED,3:PENDING'::TEXT, v_statuses);
+
+  -- Cleanup
+  DELETE FROM application_signals WHERE application_id = v_application_id;
+  DELETE FROM evaluation_responses WHERE participant_id IN (SELECT id FROM evaluation_participants WHERE evaluation_id = v_eval_id);
+  DELETE FROM evaluation_participants WHERE evaluation_id = v_eval_id;
+  DELETE FROM evaluation_instances WHERE id = v_eval_id;
+  DELETE FROM evaluation_templates WHERE id = v_template_id;
+END;
+$$;
+
+-- Test 8.2: Template Migration Skips PANEL -> SEQUENTIAL With Participants
+DO $$
+DECLARE
+  v_tenant_id UUID := 'aaaaaaaa-test-0000-0000-000000000001';
+  v_application_id UUID := 'cccccccc-test-app0-0001-000000000001';
+  v_v1_id UUID := 'ffffffff-test-tmpl-0006-000000000006';
+  v_v2_id UUID := 'ffffffff-test-tmpl-0007-000000000007';
+  v_interviewer1_id UUID := '22222222-test-user-0002-000000000002';
+  v_staffed_eval_id UUID := gen_random_uuid();
+  v_empty_eval_id UUID := gen_random_uuid();
+  v_result JSONB;
+BEGIN
+  INSERT INTO evaluation_templates
+    (id, tenant_id, name, description, version, is_latest, participant_type, signal_schema, default_aggregation)
+  VALUES (v_v2_id, v_tenant_id, 'Test Versioned Evaluation', 'Latest version', 2, TRUE, 'SEQUENTIAL',
+    '[{"key": "GO", "type": "boolean", "label": "Proceed?", "aggregation": "MAJORITY"}]'::jsonb, 'MAJORITY');
+
+  INSERT INTO evaluation_templates
+    (id, tenant_id, name, description, version, is_latest, superseded_by, participant_type, signal_schema, default_aggregation)
+  VALUES (v_v1_id, v_tenant_id, 'Test Versioned Evaluation', 'First version', 1, FALSE, v_v2_id, 'PANEL',
+    '[{"key": "GO", "type": "boolean", "label": "Proceed?", "aggregation": "MAJORITY"}]'::jsonb, 'MAJORITY');
+
+  INSERT INTO evaluation_instances (id, tenant_id, application_id, template_id, status)
+  VALUES
+    (v_staffed_eval_id, v_tenant_id, v_application_id, v_v1_id, 'PENDING'),
+    (v_empty_eval_id, v_tenant_id, v_application_id, v_v1_id, 'PENDING');
+
+  INSERT INTO evaluation_participants (tenant_id, evaluation_id, user_id, status)
+  VALUES (v_tenant_id, v_staffed_eval_id, v_interviewer1_id, 'PENDING');
+
+  v_result := migrate_evaluation_instances_to_latest(v_tenant_id, v_v1_id, FALSE);
+
+  PERFORM _assert_eq('8_SEQUENTIAL', '8.2a_empty_instance_moved',
+    v_empty_eval_id::TEXT, v_result #>> '{moved,0,instance_id}');
+  PERFORM _assert_eq('8_SEQUENTIAL', '8.2b_staffed_instance_skipped',
+    v_staffed_eval_id::TEXT, v_result #>> '{skipped,0,instance_id}');
+  PERFORM _assert_eq('8_SEQUENTIAL', '8.2c_skip_reason',
+    'PARTICIPANT_TYPE_CHANGED'::TEXT, v_result #>> '{skipped,0,reason}');
+  PERFORM _assert_eq('8_SEQUENTIAL', '8.2d_skipped_instance_keeps_version',
+    v_v1_id, (SELECT template_id FROM evaluation_instances WHERE id = v_staffed_eval_id));
+
+  -- Cleanup
+  DELETE FROM evaluation_participants WHERE evaluation_id IN (v_staffed_eval_id, v_empty_eval_id);
+  DELETE FROM evaluation_instances WHERE id IN (v_staffed_eval_id, v_empty_eval_id);
+  DELETE FROM evaluation_templates WHERE id = v_v1_id;
+  DELETE FROM evaluation_templates WHERE id = v_v2_id;
+END;
+$$;
+
 -- ============================================================================
 -- EDGE CASE TESTS
 -- ============================================================================
@@ -0,0 +1,287 @@
+-- ============================================================================
+-- INTERVIEW SCHEDULING TESTS
+-- ============================================================================
+-- Purpose: Verify interviewer double-booking detection and the reschedule
+--          history of interview rounds (20260217000001_interview_scheduling).
+-- Run via: Supabase SQL Editor or psql
+--
+-- Tests:
+--   1. find_interviewer_schedule_conflicts: overlap, touching windows
+--   2. Assigning a booked interviewer to an overlapping round is rejected
+--   3. Moving a round onto an assigned interviewer's other round is rejected
+--   4. Conflict checks take the per-interviewer advisory lock
+--   5. reschedule_interview_round records the replaced slot
+--   6. A rejected reschedule leaves no history row
+--   7. Rounds of CANCELLED interviews never conflict
+--
+-- Prerequisites: All migrations applied
+-- ============================================================================
+
+-- ============================================================================
+-- TEST HARNESS SETUP (idempotent)
+-- ============================================================================
+
+DROP TABLE IF EXISTS _test_results CASCADE;
+CREATE TABLE _test_results (
+  id SERIAL PRIMARY KEY,
+  category TEXT NOT NULL,
+  test_name TEXT NOT NULL,
+  passed BOOLEAN NOT NULL,
+  expected TEXT,
+  actual TEXT,
+  error_message TEXT,
+  executed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION _record_test(
+  p_category TEXT,
+  p_test_name TEXT,
+  p_passed BOOLEAN,
+  p_expected TEXT DEFAULT NULL,
+  p_actual TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL
+) RETURNS VOID AS $$
+BEGIN
+  INSERT INTO _test_results (category, test_name, passed, expected, actual, error_message)
+  VALUES (p_category, p_test_name, p_passed, p_expected, p_actual, p_error);
+
+  IF p_passed THEN
+    RAISE NOTICE '[PASS] %.%', p_category, p_test_name;
+  ELSE
+    RAISE NOTICE '[FAIL] %.% - Expected: %, Actual: %, Error: %',
+      p_category, p_test_name, p_expected, p_actual, p_error;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION _assert_eq(
+  p_category TEXT,
+  p_test_name TEXT,
+  p_expected ANYELEMENT,
+  p_actual ANYELEMENT
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_passed BOOLEAN;
+BEGIN
+  v_passed := p_expected IS NOT DISTINCT FROM p_actual;
+  PERFORM _record_test(p_category, p_test_name, v_passed, p_expected::TEXT, p_actual::TEXT);
+  RETURN v_passed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- TESTS 1-7
+-- ============================================================================
+
+DO $$
+DECLARE
+  v_tenant_id UUID;
+  v_job_id UUID;
+  v_app_id UUID;
+  v_interview_id UUID;
+  v_other_interview_id UUID;
+  v_round_a UUID;
+  v_round_b UUID;
+  v_round_c UUID;
+  v_interviewer UUID := gen_random_uuid();
+  v_hr_user UUID := gen_random_uuid();
+  v_day TIMESTAMPTZ := date_trunc('day', NOW()) + INTERVAL '7 days';
+  v_count INT;
+  v_conflict_round UUID;
+  v_error TEXT;
+  v_history interview_round_schedule_history;
+BEGIN
+  -- Setup: tenant, job, application, two interviews
+  INSERT INTO tenants (id, name, slug) VALUES
+    (gen_random_uuid(), 'Test Tenant Scheduling', 'test-scheduling-' || substr(gen_random_uuid()::text, 1, 8))
+    RETURNING id INTO v_tenant_id;
+
+  INSERT INTO jobs (id, tenant_id, title) VALUES
+    (gen_random_uuid(), v_tenant_id, 'Test Job Scheduling')
+    RETURNING id INTO v_job_id;
+
+  INSERT INTO applications (id, tenant_id, job_id, applicant_name, applicant_email) VALUES
+    (gen_random_uuid(), v_tenant_id, v_job_id, 'Test Candidate', 'scheduling@example.com')
+    RETURNING id INTO v_app_id;
+
+  INSERT INTO interviews (id, tenant_id, application_id, pipeline_stage_id) VALUES
+    (gen_random_uuid(), v_tenant_id, v_app_id, gen_random_uuid())
+    RETURNING id INTO v_interview_id;
+
+  INSERT INTO interviews (id, tenant_id, application_id, pipeline_stage_id) VALUES
+    (gen_random_uuid(), v_tenant_id, v_app_id, gen_random_uuid())
+    RETURNING id INTO v_other_interview_id;
+
+  -- Round A 10:00-11:00 (booked), round B unscheduled, round C 12:00-13:00
+  INSERT INTO interview_rounds (id, tenant_id, interview_id, round_type, sequence, scheduled_start, scheduled_end)
+  VALUES (gen_random_uuid(), v_tenant_id, v_interview_id, 'TECH', 1,
+          v_day + INTERVAL '10 hours', v_day + INTERVAL '11 hours')
+  RETURNING id INTO v_round_a;
+
+  INSERT INTO interview_rounds (id, tenant_id, interview_id, round_type, sequence) VALUES
+    (gen_random_uuid(), v_tenant_id, v_interview_id, 'MANAGER', 2)
+    RETURNING id INTO v_round_b;
+
+  INSERT INTO interview_rounds (id, tenant_id, interview_id, round_type, sequence, scheduled_start, scheduled_end)
+  VALUES (gen_random_uuid(), v_tenant_id, v_other_interview_id, 'HR', 1,
+          v_day + INTERVAL '12 hours', v_day + INTERVAL '13 hours')
+  RETURNING id INTO v_round_c;
+
+  INSERT INTO interviewer_assignments (tenant_id, round_id, user_id) VALUES
+    (v_tenant_id, v_round_a, v_interviewer);
+
+  -- ==========================================================================
+  -- TEST 1: Overlap detection
+  -- ==========================================================================
+  SELECT round_id INTO v_conflict_round
+  FROM find_interviewer_schedule_conflicts(
+    v_tenant_id, ARRAY[v_interviewer], v_day + INTERVAL '10 hours 30 minutes', v_day + INTERVAL '11 hours 30 minutes'
+  );
+  PERFORM _assert_eq('CONFLICTS', '1a_overlapping_window_conflicts', v_round_a, v_conflict_round);
+
+  -- Windows are half-open: 11:00-12:00 touches 10:00-11:00 without overlapping
+  SELECT COUNT(*) INTO v_count
+  FROM find_interviewer_schedule_conflicts(
+    v_tenant_id, ARRAY[v_interviewer], v_day + INTERVAL '11 hours', v_day + INTERVAL '12 hours'
+  );
+  PERFORM _assert_eq('CONFLICTS', '1b_touching_window_no_conflict', 0, v_count);
+
+  -- A round never conflicts with itself
+  SELECT COUNT(*) INTO v_count
+  FROM find_interviewer_schedule_conflicts(
+    v_tenant_id, ARRAY[v_interviewer], v_day + INTERVAL '10 hours', v_day + INTERVAL '11 hours', v_round_a
+  );
+  PERFORM _assert_eq('CONFLICTS', '1c_excluded_round_no_conflict', 0, v_count);
+
+  -- ==========================================================================
+  -- TEST 2: Assigning a booked interviewer to an overlapping round
+  -- ==========================================================================
+  UPDATE interview_rounds
+  SET scheduled_start = v_day + INTERVAL '10 hours 30 minutes', scheduled_end = v_day + INTERVAL '11 hours 30 minutes'
+  WHERE id = v_round_b;
+
+  v_error := NULL;
+  BEGIN
+    INSERT INTO interviewer_assignments (tenant_id, round_id, user_id) VALUES
+      (v_tenant_id, v_round_b, v_interviewer);
+  EXCEPTION WHEN OTHERS THEN
+    v_error := SQLERRM;
+  END;
+  PERFORM _record_test('CONFLICTS', '2_assignment_conflict_rejected',
+    COALESCE(v_error LIKE 'INTERVIEWER_CONFLICT%', FALSE), 'INTERVIEWER_CONFLICT', v_error);
+
+  -- ==========================================================================
+  -- TEST 3: Moving a round onto the interviewer's other round
+  -- ==========================================================================
+  INSERT INTO interviewer_assignments (tenant_id, round_id, user_id) VALUES
+    (v_tenant_id, v_round_c, v_interviewer);
+
+  v_error := NULL;
+  BEGIN
+    UPDATE interview_rounds
+    SET scheduled_start = v_day + INTERVAL '10 hours 45 minutes', scheduled_end = v_day + INTERVAL '11 hours 45 minutes'
+    WHERE id = v_round_c;
+  EXCEPTION WHEN OTHERS THEN
+    v_error := SQLERRM;
+  END;
+  PERFORM _record_test('CONFLICTS', '3_round_move_conflict_rejected',
+    COALESCE(v_error LIKE 'INTERVIEWER_CONFLICT%', FALSE), 'INTERVIEWER_CONFLICT', v_error);
+
+  -- ==========================================================================
+  -- TEST 4: The checks above held the interviewer's advisory lock
+  -- ==========================================================================
+  SELECT COUNT(*) INTO v_count
+  FROM pg_locks
+  WHERE locktype = 'advisory'
+    AND pid = pg_backend_pid()
+    AND objid = hashtext(v_tenant_id::TEXT || ':' || v_interviewer::TEXT)::OID;
+  PERFORM _record_test('CONFLICTS', '4_interviewer_advisory_lock_held', v_count > 0, '> 0', v_count::TEXT);
+
+  -- ==========================================================================
+  -- TEST 5: Reschedule history
+  -- ==========================================================================
+  UPDATE interview_rounds SET location = 'Room 1', meeting_link = 'https://meet.example.com/old'
+  WHERE id = v_round_c;
+
+  PERFORM reschedule_interview_round(
+    v_tenant_id, v_round_c, v_hr_user,
+    v_day + INTERVAL '14 hours', v_day + INTERVAL '15 hours',
+    'Room 2', 'https://meet.example.com/new', 'Candidate asked for the afternoon'
+  );
+
+  SELECT * INTO v_history
+  FROM interview_round_schedule_history
+  WHERE round_id = v_round_c;
+
+  PERFORM _assert_eq('RESCHEDULE', '5a_previous_start', v_day + INTERVAL '12 hours', v_history.previous_start);
+  PERFORM _assert_eq('RESCHEDULE', '5b_previous_end', v_day + INTERVAL '13 hours', v_history.previous_end);
+  PERFORM _assert_eq('RESCHEDULE', '5c_previous_location', 'Room 1'::TEXT, v_history.previous_location);
+  PERFORM _assert_eq('RESCHEDULE', '5d_new_start', v_day + INTERVAL '14 hours', v_history.new_start);
+  PERFORM _assert_eq('RESCHEDULE', '5e_reason', 'Candidate asked for the afternoon'::TEXT, v_history.reason);
+  PERFORM _assert_eq('RESCHEDULE', '5f_changed_by', v_hr_user, v_history.changed_by);
+  PERFORM _assert_eq('RESCHEDULE', '5g_round_moved', v_day + INTERVAL '14 hours',
+    (SELECT scheduled_start FROM interview_rounds WHERE id = v_round_c));
+
+  -- ==========================================================================
+  -- TEST 6: A rejected reschedule leaves no history row
+  -- ==========================================================================
+  v_error := NULL;
+  BEGIN
+    PERFORM reschedule_interview_round(
+      v_tenant_id, v_round_c, v_hr_user,
+      v_day + INTERVAL '10 hours', v_day + INTERVAL '11 hours', NULL, NULL, 'Clashes with round A'
+    );
+  EXCEPTION WHEN OTHERS THEN
+    v_error := SQLERRM;
+  END;
+  PERFORM _record_test('RESCHEDULE', '6a_conflicting_reschedule_rejected',
+    COALESCE(v_error LIKE 'INTERVIEWER_CONFLICT%', FALSE), 'INTERVIEWER_CONFLICT', v_error);
+
+  SELECT COUNT(*) INTO v_count FROM interview_round_schedule_history WHERE round_id = v_round_c;
+  PERFORM _assert_eq('RESCHEDULE', '6b_history_unchanged', 1, v_count);
+
+  -- ==========================================================================
+  -- TEST 7: Rounds of CANCELLED interviews never conflict
+  -- ==========================================================================
+  UPDATE interviews SET status = 'CANCELLED' WHERE id = v_interview_id;
+
+  SELECT COUNT(*) INTO v_count
+  FROM find_interviewer_schedule_conflicts(
+    v_tenant_id, ARRAY[v_interviewer], v_day + INTERVAL '10 hours', v_day + INTERVAL '11 hours'
+  );
+  PERFORM _assert_eq('CONFLICTS', '7_cancelled_interview_no_conflict', 0, v_count);
+
+  -- Cleanup test data
+  DELETE FROM interview_round_schedule_history WHERE tenant_id = v_tenant_id;
+  DELETE FROM interviewer_assignments WHERE tenant_id = v_tenant_id;
+  DELETE FROM interview_rounds WHERE tenant_id = v_tenant_id;
+  DELETE FROM interviews WHERE tenant_id = v_tenant_id;
+  DELETE FROM applications WHERE id = v_app_id;
+  DELETE FROM jobs WHERE id = v_job_id;
+  DELETE FROM tenants WHERE id = v_tenant_id;
+END $$;
+
+-- ============================================================================
+-- RESULTS SUMMARY
+-- ============================================================================
+
+SELECT
+  CASE WHEN passed THEN 'PASS' ELSE 'FAIL' END AS result,
+  category,
+  test_name,
+  expected,
+  actual,
+  error_message
+FROM _test_results
+ORDER BY id;
+
+SELECT
+  COUNT(*) FILTER (WHERE passed) AS passed,
+  COUNT(*) FILTER (WHERE NOT passed) AS failed,
+  COUNT(*) AS total
+FROM _test_results;
+
+-- Cleanup harness
+DROP TABLE IF EXISTS _test_results CASCADE;
+DROP FUNCTION IF EXISTS _record_test CASCADE;
+DROP FUNCTION IF EXISTS _assert_eq CASCADE;
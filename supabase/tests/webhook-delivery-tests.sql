@@ -0,0 +1,183 @@
+-- ============================================================================
+-- WEBHOOK DELIVERY TESTS
+-- ============================================================================
+-- Purpose: Verify the retry schedule applied by record_webhook_attempt()
+--          (20260220000001_outbound_webhooks). The webhooks function hands
+--          every attempt outcome to this RPC.
+-- Run via: Supabase SQL Editor or psql
+--
+-- Tests:
+--   1. Failed attempts back off 30s, 1m, 2m, 4m, ...
+--   2. The last allowed failure marks the delivery FAILED
+--   3. A successful attempt marks it SUCCEEDED and clears last_error
+--   4. Every attempt is logged with its number
+--
+-- Prerequisites: All migrations applied
+-- ============================================================================
+
+-- ============================================================================
+-- TEST HARNESS SETUP (idempotent)
+-- ============================================================================
+
+DROP TABLE IF EXISTS _test_results CASCADE;
+CREATE TABLE _test_results (
+  id SERIAL PRIMARY KEY,
+  category TEXT NOT NULL,
+  test_name TEXT NOT NULL,
+  passed BOOLEAN NOT NULL,
+  expected TEXT,
+  actual TEXT,
+  error_message TEXT,
+  executed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION _record_test(
+  p_category TEXT,
+  p_test_name TEXT,
+  p_passed BOOLEAN,
+  p_expected TEXT DEFAULT NULL,
+  p_actual TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL
+) RETURNS VOID AS $$
+BEGIN
+  INSERT INTO _test_results (category, test_name, passed, expected, actual, error_message)
+  VALUES (p_category, p_test_name, p_passed, p_expected, p_actual, p_error);
+
+  IF p_passed THEN
+    RAISE NOTICE '[PASS] %.%', p_category, p_test_name;
+  ELSE
+    RAISE NOTICE '[FAIL] %.% - Expected: %, Actual: %, Error: %',
+      p_category, p_test_name, p_expected, p_actual, p_error;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION _assert_eq(
+  p_category TEXT,
+  p_test_name TEXT,
+  p_expected ANYELEMENT,
+  p_actual ANYELEMENT
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_passed BOOLEAN;
+BEGIN
+  v_passed := p_expected IS NOT DISTINCT FROM p_actual;
+  PERFORM _record_test(p_category, p_test_name, v_passed, p_expected::TEXT, p_actual::TEXT);
+  RETURN v_passed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- TESTS 1-4
+-- ============================================================================
+
+DO $$
+DECLARE
+  v_tenant_id UUID;
+  v_endpoint_id UUID;
+  v_event_id UUID;
+  v_failing_id UUID;
+  v_ok_id UUID;
+  v_delivery webhook_deliveries;
+  v_attempt INT;
+  v_count INT;
+BEGIN
+  -- Setup: tenant, endpoint, event, two deliveries
+  INSERT INTO tenants (id, name, slug) VALUES
+    (gen_random_uuid(), 'Test Tenant Webhooks', 'test-webhooks-' || substr(gen_random_uuid()::text, 1, 8))
+    RETURNING id INTO v_tenant_id;
+
+  INSERT INTO webhook_endpoints (tenant_id, url, secret) VALUES
+    (v_tenant_id, 'https://hooks.example.com/rtr', 'whsec_test')
+    RETURNING id INTO v_endpoint_id;
+
+  INSERT INTO webhook_events (tenant_id, event_type, payload) VALUES
+    (v_tenant_id, 'webhook.test', '{}'::jsonb)
+    RETURNING id INTO v_event_id;
+
+  INSERT INTO webhook_deliveries (tenant_id, endpoint_id, event_id, event_type, max_attempts) VALUES
+    (v_tenant_id, v_endpoint_id, v_event_id, 'webhook.test', 5)
+    RETURNING id INTO v_failing_id;
+
+  INSERT INTO webhook_deliveries (tenant_id, endpoint_id, event_id, event_type) VALUES
+    (v_tenant_id, v_endpoint_id, v_event_id, 'webhook.test')
+    RETURNING id INTO v_ok_id;
+
+  -- ==========================================================================
+  -- TEST 1: Exponential backoff (now() is fixed for the whole transaction)
+  -- ==========================================================================
+  FOR v_attempt IN 1..4 LOOP
+    v_delivery := record_webhook_attempt(v_failing_id, FALSE, 500, NULL, 'HTTP 500', 12);
+
+    PERFORM _assert_eq('BACKOFF', format('1_attempt_%s_delay', v_attempt),
+      INTERVAL '30 seconds' * power(2, v_attempt - 1), v_delivery.next_attempt_at - now());
+    PERFORM _assert_eq('BACKOFF', format('1_attempt_%s_still_pending', v_attempt),
+      'PENDING'::TEXT, v_delivery.status);
+  END LOOP;
+
+  PERFORM _assert_eq('BACKOFF', '1_last_error_kept', 'HTTP 500'::TEXT, v_delivery.last_error);
+  PERFORM _assert_eq('BACKOFF', '1_last_status_kept', 500, v_delivery.last_response_status);
+
+  -- ==========================================================================
+  -- TEST 2: The fifth of five attempts gives up
+  -- ==========================================================================
+  v_delivery := record_webhook_attempt(v_failing_id, FALSE, NULL, NULL, 'connection refused', 10000);
+
+  PERFORM _assert_eq('BACKOFF', '2_failed_after_max_attempts', 'FAILED'::TEXT, v_delivery.status);
+  PERFORM _assert_eq('BACKOFF', '2_attempt_count', 5, v_delivery.attempt_count);
+  PERFORM _assert_eq('BACKOFF', '2_not_rescheduled', now() + INTERVAL '4 minutes', v_delivery.next_attempt_at);
+
+  -- ==========================================================================
+  -- TEST 3: Success after a failure
+  -- ==========================================================================
+  PERFORM record_webhook_attempt(v_ok_id, FALSE, 503, NULL, 'HTTP 503', 20);
+  v_delivery := record_webhook_attempt(v_ok_id, TRUE, 200, NULL, NULL, 15);
+
+  PERFORM _assert_eq('DELIVERY', '3_succeeded', 'SUCCEEDED'::TEXT, v_delivery.status);
+  PERFORM _assert_eq('DELIVERY', '3_last_error_cleared', NULL::TEXT, v_delivery.last_error);
+  PERFORM _assert_eq('DELIVERY', '3_delivered_at_set', TRUE, v_delivery.delivered_at IS NOT NULL);
+
+  -- ==========================================================================
+  -- TEST 4: Attempt log
+  -- ==========================================================================
+  SELECT COUNT(*) INTO v_count
+  FROM webhook_delivery_attempts
+  WHERE delivery_id = v_failing_id;
+  PERFORM _assert_eq('DELIVERY', '4a_every_attempt_logged', 5, v_count);
+
+  SELECT COUNT(*) INTO v_count
+  FROM webhook_delivery_attempts
+  WHERE delivery_id = v_ok_id
+    AND attempt_number = 2
+    AND response_status = 200
+    AND error IS NULL;
+  PERFORM _assert_eq('DELIVERY', '4b_success_logged_as_attempt_2', 1, v_count);
+
+  -- Cleanup test data (cascades to endpoints, events, deliveries and attempts)
+  DELETE FROM tenants WHERE id = v_tenant_id;
+END $$;
+
+-- ============================================================================
+-- RESULTS SUMMARY
+-- ============================================================================
+
+SELECT
+  CASE WHEN passed THEN 'PASS' ELSE 'FAIL' END AS result,
+  category,
+  test_name,
+  expected,
+  actual,
+  error_message
+FROM _test_results
+ORDER BY id;
+
+SELECT
+  COUNT(*) FILTER (WHERE passed) AS passed,
+  COUNT(*) FILTER (WHERE NOT passed) AS failed,
+  COUNT(*) AS total
+FROM _test_results;
+
+-- Cleanup harness
+DROP TABLE IF EXISTS _test_results CASCADE;
+DROP FUNCTION IF EXISTS _record_test CASCADE;
+DROP FUNCTION IF EXISTS _assert_eq CASCADE;